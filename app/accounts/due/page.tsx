@@ -1,12 +1,49 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import Link from "next/link";
-import { ArrowLeft, Check, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
+import { ArrowLeft, BellRing, ChevronDown, ChevronUp, RefreshCw, Wallet } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
+import { useLiveEvents } from "@/hooks/use-live-events";
+import type { DueStatus, DueStatusAction } from "@/lib/dues";
+
+interface DuePayment {
+  id: number;
+  amount: number;
+  paymentDate: string;
+  paymentMode: "cash" | "online";
+  notes: string | null;
+}
+
+interface DueCharge {
+  id: number;
+  chargeType: "late_fee" | "interest";
+  amount: number;
+  periodStart: string;
+  periodEnd: string;
+}
 
 interface DueRecord {
   id: string;
@@ -16,13 +53,52 @@ interface DueRecord {
   productOrdered: string;
   quantity: number;
   amountDue: number;
+  amountPaid: number;
+  remaining: number;
+  payments: DuePayment[];
+  charges: DueCharge[];
+  chargesOutstanding: number;
   expectedPaymentDate: string;
   createdAt: string;
   isPaid: boolean;
   paidAt?: string;
   receiptNumber?: string;
+  installmentNumber: number;
+  installmentCount: number;
+  status: DueStatus;
+  statusReason: string | null;
+  statusDate: string | null;
 }
 
+const STATUS_LABELS: Record<DueStatus, string> = {
+  open: "Open",
+  disputed: "Disputed",
+  written_off: "Written off",
+  cancelled: "Cancelled",
+};
+
+const STATUS_ACTIONS: Record<DueStatusAction, { label: string; description: string }> = {
+  dispute: {
+    label: "Dispute",
+    description:
+      "The due stays on the books but leaves the due total, reminders and late charges until it is reopened.",
+  },
+  reopen: {
+    label: "Reopen",
+    description: "The due goes back to the open list and counts towards the due total again.",
+  },
+  write_off: {
+    label: "Write off",
+    description:
+      "The unpaid amount is recorded as a bad-debt expense and any late charges are waived. This cannot be undone.",
+  },
+  cancel: {
+    label: "Cancel",
+    description:
+      "The due is closed without a bad-debt expense and any late charges are waived. This cannot be undone.",
+  },
+};
+
 const countryCodes = [
   { code: "+91", flag: "🇮🇳", name: "India" },
   { code: "+1", flag: "🇺🇸", name: "United States" },
@@ -45,6 +121,24 @@ export default function DuePage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState<string | null>(null);
   const [user, setUser] = useState<{ token: string } | null>(null);
+  const [paymentRecord, setPaymentRecord] = useState<DueRecord | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState("");
+  const [paymentDate, setPaymentDate] = useState("");
+  const [paymentMode, setPaymentMode] = useState<"cash" | "online">("cash");
+  const [paymentNotes, setPaymentNotes] = useState("");
+  const [paymentError, setPaymentError] = useState<string | null>(null);
+  const [settleRecord, setSettleRecord] = useState<DueRecord | null>(null);
+  const [waiveCharges, setWaiveCharges] = useState(false);
+  const [settleError, setSettleError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<DueStatus>("open");
+  const [statusChange, setStatusChange] = useState<{
+    record: DueRecord;
+    action: DueStatusAction;
+  } | null>(null);
+  const [statusReason, setStatusReason] = useState("");
+  const [statusDate, setStatusDate] = useState("");
+  const [statusError, setStatusError] = useState<string | null>(null);
 
   const fetchDueRecords = async (showLoadingSpinner = true) => {
     try {
@@ -59,7 +153,7 @@ export default function DuePage() {
       const userData = JSON.parse(userJSON);
       setUser(userData);
 
-      const response = await fetch("/api/due", {
+      const response = await fetch(`/api/due?status=${statusFilter}`, {
         headers: { Authorization: `Bearer ${userData.token}` },
       });
 
@@ -96,21 +190,58 @@ export default function DuePage() {
 
   useEffect(() => {
     fetchDueRecords(true);
-  }, [router]);
+  }, [router, statusFilter]);
+
+  useLiveEvents((event) => {
+    if (
+      event.type === "receipt-created" ||
+      event.type === "receipt-updated" ||
+      event.type === "due-paid" ||
+      event.type === "due-status-changed"
+    ) {
+      fetchDueRecords(false);
+    }
+  });
+
+  const openPaymentDialog = (record: DueRecord) => {
+    setPaymentRecord(record);
+    setPaymentAmount(record.remaining.toFixed(2));
+    setPaymentDate(format(new Date(), "yyyy-MM-dd"));
+    setPaymentMode("cash");
+    setPaymentNotes("");
+    setPaymentError(null);
+  };
 
-  const handleMarkAsPaid = async (record: DueRecord) => {
-    if (!user || isProcessing) return;
+  const handleRecordPayment = async () => {
+    const record = paymentRecord;
+    if (!user || !record || isProcessing) return;
+
+    const amount = parseFloat(paymentAmount);
+    if (isNaN(amount) || amount <= 0) {
+      setPaymentError("Enter an amount greater than zero");
+      return;
+    }
+    if (amount > record.remaining) {
+      setPaymentError(`Amount cannot exceed the remaining ${formatCurrency(record.remaining)}`);
+      return;
+    }
 
     try {
       setIsProcessing(record.id);
+      setPaymentError(null);
 
-      const response = await fetch("/api/due", {
-        method: "PUT",
+      const response = await fetch(`/api/due/${record.id}/payments`, {
+        method: "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${user.token}`,
         },
-        body: JSON.stringify({ id: record.id }),
+        body: JSON.stringify({
+          amount: Math.round(amount * 100) / 100,
+          paymentDate,
+          paymentMode,
+          notes: paymentNotes,
+        }),
       });
 
       const responseData = await response.json();
@@ -119,20 +250,31 @@ export default function DuePage() {
         throw new Error(responseData.error || "Payment processing failed");
       }
 
-      // Remove the paid record from the list
-      setDueRecords((prev) => prev.filter((r) => r.id !== record.id));
-      toast.success(
-        `Payment from ${record.customerName} recorded successfully`
-      );
-
-      // Dispatch a custom event to notify other parts of the app to refresh data
-      window.dispatchEvent(new CustomEvent('dueRecordPaid'));
-
-      // Optionally refresh the data to ensure consistency
-      // fetchDueRecords(false)
+      if (responseData.isPaid && record.chargesOutstanding === 0) {
+        // Fully settled records drop off the list
+        setDueRecords((prev) => prev.filter((r) => r.id !== record.id));
+        toast.success(`${record.customerName}'s due is fully paid`);
+      } else {
+        setDueRecords((prev) =>
+          prev.map((r) =>
+            r.id === record.id
+              ? {
+                  ...r,
+                  amountPaid: responseData.amountPaid,
+                  remaining: responseData.remaining,
+                  payments: [...r.payments, responseData.payment],
+                }
+              : r
+          )
+        );
+        toast.success(
+          `Payment of ${formatCurrency(amount)} from ${record.customerName} recorded`
+        );
+      }
+      setPaymentRecord(null);
     } catch (err) {
       console.error("Payment error:", err);
-      toast.error(err instanceof Error ? err.message : "Payment failed");
+      setPaymentError(err instanceof Error ? err.message : "Payment failed");
     } finally {
       setIsProcessing(null);
     }
@@ -175,11 +317,194 @@ export default function DuePage() {
 
   const getTotalDueAmount = () => {
     return dueRecords.reduce(
-      (total, record) => total + (record.amountDue || 0),
+      (total, record) =>
+        total + (record.remaining || 0) + (record.chargesOutstanding || 0),
       0
     );
   };
 
+  const openSettleDialog = (record: DueRecord) => {
+    setSettleRecord(record);
+    setWaiveCharges(false);
+    setSettleError(null);
+  };
+
+  const handleSettle = async () => {
+    const record = settleRecord;
+    if (!user || !record || isProcessing) return;
+
+    try {
+      setIsProcessing(record.id);
+      setSettleError(null);
+
+      const response = await fetch("/api/due", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${user.token}`,
+        },
+        body: JSON.stringify({ id: record.id, waiveCharges }),
+      });
+      const responseData = await response.json();
+      if (!response.ok) {
+        throw new Error(responseData.error || "Settlement failed");
+      }
+
+      setDueRecords((prev) => prev.filter((r) => r.id !== record.id));
+      toast.success(
+        `${record.customerName}'s due is settled` +
+          (responseData.chargesWaived > 0
+            ? ` (${formatCurrency(responseData.chargesWaived)} waived)`
+            : "")
+      );
+      setSettleRecord(null);
+    } catch (err) {
+      console.error("Settlement error:", err);
+      setSettleError(err instanceof Error ? err.message : "Settlement failed");
+    } finally {
+      setIsProcessing(null);
+    }
+  };
+
+  const openStatusDialog = (record: DueRecord, action: DueStatusAction) => {
+    setStatusChange({ record, action });
+    setStatusReason("");
+    setStatusDate(format(new Date(), "yyyy-MM-dd"));
+    setStatusError(null);
+  };
+
+  const handleStatusChange = async () => {
+    if (!user || !statusChange || isProcessing) return;
+    const { record, action } = statusChange;
+
+    if (action !== "reopen" && !statusReason.trim()) {
+      setStatusError("Enter a reason");
+      return;
+    }
+
+    try {
+      setIsProcessing(record.id);
+      setStatusError(null);
+
+      const response = await fetch(`/api/due/${record.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${user.token}`,
+        },
+        body: JSON.stringify({ action, reason: statusReason, date: statusDate }),
+      });
+      const responseData = await response.json();
+      if (!response.ok) {
+        throw new Error(responseData.error || "Failed to update the due");
+      }
+
+      // The record no longer matches the status being viewed
+      setDueRecords((prev) => prev.filter((r) => r.id !== record.id));
+      toast.success(
+        `${record.customerName}'s due is ${STATUS_LABELS[responseData.status as DueStatus].toLowerCase()}` +
+          (responseData.amountWrittenOff > 0
+            ? ` (${formatCurrency(responseData.amountWrittenOff)} bad debt)`
+            : "")
+      );
+      setStatusChange(null);
+    } catch (err) {
+      console.error("Status change error:", err);
+      setStatusError(err instanceof Error ? err.message : "Failed to update the due");
+    } finally {
+      setIsProcessing(null);
+    }
+  };
+
+  const getStatusActions = (record: DueRecord): DueStatusAction[] => {
+    if (record.remaining <= 0) return [];
+    if (record.status === "open") return ["dispute", "write_off", "cancel"];
+    if (record.status === "disputed") return ["reopen", "write_off", "cancel"];
+    return [];
+  };
+
+  const renderStatusActions = (record: DueRecord) =>
+    getStatusActions(record).map((action) => (
+      <button
+        key={action}
+        type="button"
+        className="text-xs text-gray-500 hover:text-gray-800 hover:underline disabled:opacity-50"
+        onClick={() => openStatusDialog(record, action)}
+        disabled={isProcessing === record.id}
+      >
+        {STATUS_ACTIONS[action].label}
+      </button>
+    ));
+
+  const renderStatusBadge = (record: DueRecord, className: string) => {
+    if (record.status !== "open") {
+      return (
+        <span
+          className={`${className} ${
+            record.status === "disputed"
+              ? "bg-amber-100 text-amber-800"
+              : "bg-gray-100 text-gray-700"
+          }`}
+          title={record.statusReason || undefined}
+        >
+          {STATUS_LABELS[record.status]}
+        </span>
+      );
+    }
+    return (
+      <span
+        className={`${className} ${
+          isPastDue(record.expectedPaymentDate)
+            ? "bg-red-100 text-red-800"
+            : "bg-yellow-100 text-yellow-800"
+        }`}
+      >
+        {isPastDue(record.expectedPaymentDate) ? "Overdue" : "Pending"}
+      </span>
+    );
+  };
+
+  const renderStatusReason = (record: DueRecord) =>
+    record.status !== "open" &&
+    record.statusReason && (
+      <div className="text-xs text-gray-500 mt-1 whitespace-normal">
+        {record.statusDate && `${formatDate(record.statusDate)} · `}
+        {record.statusReason}
+      </div>
+    );
+
+  const renderCharges = (record: DueRecord) =>
+    record.chargesOutstanding > 0 && (
+      <div className="text-xs text-orange-600">
+        + {formatCurrency(record.chargesOutstanding)} late charges
+      </div>
+    );
+
+  const getInstallmentLabel = (record: DueRecord) =>
+    record.installmentCount > 1
+      ? ` · Installment ${record.installmentNumber} of ${record.installmentCount}`
+      : "";
+
+  const renderPaymentHistory = (record: DueRecord) => (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+        Payment History
+      </div>
+      {record.payments.map((payment) => (
+        <div key={payment.id} className="flex justify-between text-sm">
+          <span className="text-gray-600">
+            {formatDate(payment.paymentDate)} ·{" "}
+            {payment.paymentMode === "online" ? "Online" : "Cash"}
+            {payment.notes ? ` · ${payment.notes}` : ""}
+          </span>
+          <span className="font-medium text-green-700">
+            {formatCurrency(payment.amount)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+
   if (isLoading) {
     return (
       <div className="container mx-auto py-8 px-4">
@@ -202,20 +527,49 @@ export default function DuePage() {
           </Button>
         </Link>
 
-        <Button
-          onClick={() => fetchDueRecords(false)}
-          variant="outline"
-          className="text-gray-600 border-gray-200 hover:bg-gray-50"
-        >
-          <RefreshCw className="mr-2 h-4 w-4" /> Refresh
-        </Button>
+        <div className="flex gap-2">
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => setStatusFilter(value as DueStatus)}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STATUS_LABELS) as DueStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Link href="/reminders">
+            <Button
+              variant="outline"
+              className="text-gray-600 border-gray-200 hover:bg-gray-50"
+            >
+              <BellRing className="mr-2 h-4 w-4" /> Reminders
+            </Button>
+          </Link>
+          <Button
+            onClick={() => fetchDueRecords(false)}
+            variant="outline"
+            className="text-gray-600 border-gray-200 hover:bg-gray-50"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+          </Button>
+        </div>
       </div>
 
       {dueRecords.length > 0 ? (
         <Card className="max-w-4xl mx-auto">
           <CardHeader>
             <CardTitle className="text-2xl flex justify-between items-center">
-              <span>Due Records</span>
+              <span>
+                {statusFilter === "open"
+                  ? "Due Records"
+                  : `${STATUS_LABELS[statusFilter]} Dues`}
+              </span>
               <div className="text-lg font-normal text-red-600">
                 Total: {formatCurrency(getTotalDueAmount())}
               </div>
@@ -238,7 +592,7 @@ export default function DuePage() {
                         Qty
                       </th>
                       <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Amount
+                        Remaining
                       </th>
                       <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Due Date
@@ -253,7 +607,8 @@ export default function DuePage() {
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
                     {dueRecords.map((record) => (
-                      <tr key={record.id}>
+                      <Fragment key={record.id}>
+                      <tr>
                         <td className="px-4 py-4 whitespace-nowrap">
                           <div className="text-sm font-medium text-gray-900">
                             {record.customerName}
@@ -270,6 +625,7 @@ export default function DuePage() {
                           {record.receiptNumber && (
                             <div className="text-xs text-gray-400 mt-1">
                               Receipt: #{record.receiptNumber}
+                              {getInstallmentLabel(record)}
                             </div>
                           )}
                         </td>
@@ -279,8 +635,34 @@ export default function DuePage() {
                         <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
                           {record.quantity}
                         </td>
-                        <td className="px-4 py-4 whitespace-nowrap text-sm text-right font-medium text-red-600">
-                          {formatCurrency(record.amountDue)}
+                        <td className="px-4 py-4 whitespace-nowrap text-sm text-right">
+                          <div className="font-medium text-red-600">
+                            {formatCurrency(record.remaining)}
+                          </div>
+                          {renderCharges(record)}
+                          {record.amountPaid > 0 && (
+                            <div className="text-xs text-gray-500">
+                              Paid {formatCurrency(record.amountPaid)} of{" "}
+                              {formatCurrency(record.amountDue)}
+                            </div>
+                          )}
+                          {record.payments.length > 0 && (
+                            <button
+                              type="button"
+                              className="text-xs text-blue-600 hover:underline inline-flex items-center"
+                              onClick={() =>
+                                setExpandedId(expandedId === record.id ? null : record.id)
+                              }
+                            >
+                              {record.payments.length}{" "}
+                              {record.payments.length === 1 ? "payment" : "payments"}
+                              {expandedId === record.id ? (
+                                <ChevronUp className="ml-1 h-3 w-3" />
+                              ) : (
+                                <ChevronDown className="ml-1 h-3 w-3" />
+                              )}
+                            </button>
+                          )}
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
                           <span
@@ -294,57 +676,46 @@ export default function DuePage() {
                           </span>
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap text-center">
-                          <span
-                            className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                              isPastDue(record.expectedPaymentDate)
-                                ? "bg-red-100 text-red-800"
-                                : "bg-yellow-100 text-yellow-800"
-                            }`}
-                          >
-                            {isPastDue(record.expectedPaymentDate)
-                              ? "Overdue"
-                              : "Pending"}
-                          </span>
+                          {renderStatusBadge(
+                            record,
+                            "px-2 inline-flex text-xs leading-5 font-semibold rounded-full"
+                          )}
+                          {renderStatusReason(record)}
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap text-center text-sm font-medium">
-                          <Button
-                            onClick={() => handleMarkAsPaid(record)}
-                            size="sm"
-                            className="bg-green-600 hover:bg-green-700"
-                            disabled={isProcessing === record.id}
-                          >
-                            {isProcessing === record.id ? (
-                              <span className="flex items-center">
-                                <svg
-                                  className="animate-spin -ml-1 mr-2 h-3 w-3 text-white"
-                                  xmlns="http://www.w3.org/2000/svg"
-                                  fill="none"
-                                  viewBox="0 0 24 24"
-                                >
-                                  <circle
-                                    className="opacity-25"
-                                    cx="12"
-                                    cy="12"
-                                    r="10"
-                                    stroke="currentColor"
-                                    strokeWidth="4"
-                                  ></circle>
-                                  <path
-                                    className="opacity-75"
-                                    fill="currentColor"
-                                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                                  ></path>
-                                </svg>
-                                Processing...
-                              </span>
-                            ) : (
-                              <>
-                                <Check className="mr-1 h-3 w-3" /> Mark Paid
-                              </>
+                          <div className="flex flex-col items-center gap-1">
+                            {record.remaining > 0 && getStatusActions(record).length > 0 && (
+                              <Button
+                                onClick={() => openPaymentDialog(record)}
+                                size="sm"
+                                className="bg-green-600 hover:bg-green-700"
+                                disabled={isProcessing === record.id}
+                              >
+                                <Wallet className="mr-1 h-3 w-3" /> Record Payment
+                              </Button>
                             )}
-                          </Button>
+                            {record.chargesOutstanding > 0 && (
+                              <Button
+                                onClick={() => openSettleDialog(record)}
+                                size="sm"
+                                variant="outline"
+                                disabled={isProcessing === record.id}
+                              >
+                                Settle
+                              </Button>
+                            )}
+                            <div className="flex gap-2">{renderStatusActions(record)}</div>
+                          </div>
                         </td>
                       </tr>
+                      {expandedId === record.id && (
+                        <tr>
+                          <td colSpan={7} className="px-4 py-3 bg-gray-50">
+                            {renderPaymentHistory(record)}
+                          </td>
+                        </tr>
+                      )}
+                      </Fragment>
                     ))}
                   </tbody>
                 </table>
@@ -370,12 +741,22 @@ export default function DuePage() {
                         {record.receiptNumber && (
                           <div className="text-xs text-gray-400">
                             Receipt: #{record.receiptNumber}
+                            {getInstallmentLabel(record)}
+                          </div>
+                        )}
+                      </div>
+                      <div className="text-right">
+                        <div className="font-bold text-red-600">
+                          {formatCurrency(record.remaining)}
+                        </div>
+                        {renderCharges(record)}
+                        {record.amountPaid > 0 && (
+                          <div className="text-xs text-gray-500">
+                            Paid {formatCurrency(record.amountPaid)} of{" "}
+                            {formatCurrency(record.amountDue)}
                           </div>
                         )}
                       </div>
-                      <span className="font-bold text-red-600">
-                        {formatCurrency(record.amountDue)}
-                      </span>
                     </div>
 
                     <div className="flex justify-between items-center text-xs text-gray-500 mb-3">
@@ -408,55 +789,46 @@ export default function DuePage() {
                         </span>
                       </div>
                       <div className="flex items-center space-x-2">
-                        <span
-                          className={`px-2 py-1 text-xs font-semibold rounded-full ${
-                            isPastDue(record.expectedPaymentDate)
-                              ? "bg-red-100 text-red-800"
-                              : "bg-yellow-100 text-yellow-800"
-                          }`}
-                        >
-                          {isPastDue(record.expectedPaymentDate)
-                            ? "Overdue"
-                            : "Pending"}
-                        </span>
-                        <Button
-                          onClick={() => handleMarkAsPaid(record)}
-                          size="sm"
-                          className="bg-green-600 hover:bg-green-700 text-xs px-2 py-1"
-                          disabled={isProcessing === record.id}
-                        >
-                          {isProcessing === record.id ? (
-                            <span className="flex items-center">
-                              <svg
-                                className="animate-spin -ml-1 mr-1 h-3 w-3 text-white"
-                                xmlns="http://www.w3.org/2000/svg"
-                                fill="none"
-                                viewBox="0 0 24 24"
-                              >
-                                <circle
-                                  className="opacity-25"
-                                  cx="12"
-                                  cy="12"
-                                  r="10"
-                                  stroke="currentColor"
-                                  strokeWidth="4"
-                                ></circle>
-                                <path
-                                  className="opacity-75"
-                                  fill="currentColor"
-                                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                                ></path>
-                              </svg>
-                              Processing
-                            </span>
-                          ) : (
-                            <>
-                              <Check className="mr-1 h-3 w-3" /> Paid
-                            </>
-                          )}
-                        </Button>
+                        {renderStatusBadge(
+                          record,
+                          "px-2 py-1 text-xs font-semibold rounded-full"
+                        )}
+                        {record.remaining > 0 && getStatusActions(record).length > 0 && (
+                          <Button
+                            onClick={() => openPaymentDialog(record)}
+                            size="sm"
+                            className="bg-green-600 hover:bg-green-700 text-xs px-2 py-1"
+                            disabled={isProcessing === record.id}
+                          >
+                            <Wallet className="mr-1 h-3 w-3" /> Pay
+                          </Button>
+                        )}
+                        {record.chargesOutstanding > 0 && (
+                          <Button
+                            onClick={() => openSettleDialog(record)}
+                            size="sm"
+                            variant="outline"
+                            className="text-xs px-2 py-1"
+                            disabled={isProcessing === record.id}
+                          >
+                            Settle
+                          </Button>
+                        )}
                       </div>
                     </div>
+
+                    {renderStatusReason(record)}
+                    {getStatusActions(record).length > 0 && (
+                      <div className="flex justify-end gap-3 mt-2">
+                        {renderStatusActions(record)}
+                      </div>
+                    )}
+
+                    {record.payments.length > 0 && (
+                      <div className="mt-3 pt-3 border-t border-gray-200">
+                        {renderPaymentHistory(record)}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -486,8 +858,9 @@ export default function DuePage() {
               No Due Records
             </h3>
             <p className="text-gray-500 mb-4">
-              Great! All payments have been received. There are no outstanding
-              dues at the moment.
+              {statusFilter === "open"
+                ? "Great! All payments have been received. There are no outstanding dues at the moment."
+                : `There are no ${STATUS_LABELS[statusFilter].toLowerCase()} dues.`}
             </p>
             <Link href="/accounts">
               <Button className="bg-blue-600 hover:bg-blue-700">
@@ -497,6 +870,229 @@ export default function DuePage() {
           </CardContent>
         </Card>
       )}
+
+      <Dialog
+        open={paymentRecord !== null}
+        onOpenChange={(open) => !open && setPaymentRecord(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record payment</DialogTitle>
+            <DialogDescription>
+              {paymentRecord?.customerName} owes{" "}
+              {formatCurrency(paymentRecord?.remaining)}
+              {paymentRecord?.receiptNumber
+                ? ` on receipt #${paymentRecord.receiptNumber}`
+                : ""}
+              . The record closes once the full balance is paid.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="paymentAmount">Amount</Label>
+                <Input
+                  id="paymentAmount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  max={paymentRecord?.remaining}
+                  value={paymentAmount}
+                  onChange={(e) => setPaymentAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="paymentDate">Date</Label>
+                <Input
+                  id="paymentDate"
+                  type="date"
+                  value={paymentDate}
+                  onChange={(e) => setPaymentDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentMode">Payment Mode</Label>
+              <Select
+                value={paymentMode}
+                onValueChange={(value) => setPaymentMode(value as "cash" | "online")}
+              >
+                <SelectTrigger id="paymentMode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">Cash</SelectItem>
+                  <SelectItem value="online">Online</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="paymentNotes">Note (optional)</Label>
+              <Input
+                id="paymentNotes"
+                value={paymentNotes}
+                onChange={(e) => setPaymentNotes(e.target.value)}
+                placeholder="e.g. UPI ref 1234"
+              />
+            </div>
+            {paymentError && (
+              <div className="text-xs text-red-500">{paymentError}</div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPaymentRecord(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-green-600 hover:bg-green-700"
+              onClick={handleRecordPayment}
+              disabled={isProcessing !== null}
+            >
+              {isProcessing !== null ? "Saving..." : "Record Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={settleRecord !== null}
+        onOpenChange={(open) => !open && setSettleRecord(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Settle due</DialogTitle>
+            <DialogDescription>
+              Collect everything {settleRecord?.customerName} still owes
+              {settleRecord?.receiptNumber
+                ? ` on receipt #${settleRecord.receiptNumber}`
+                : ""}{" "}
+              and close the due.
+            </DialogDescription>
+          </DialogHeader>
+          {settleRecord && (
+            <div className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span>Unpaid amount</span>
+                <span>{formatCurrency(settleRecord.remaining)}</span>
+              </div>
+              {settleRecord.charges.map((charge) => (
+                <div key={charge.id} className="flex justify-between text-gray-600">
+                  <span>
+                    {charge.chargeType === "interest" ? "Interest" : "Late fee"} ·{" "}
+                    {charge.periodStart === charge.periodEnd
+                      ? formatDate(charge.periodStart)
+                      : `${formatDate(charge.periodStart)} – ${formatDate(charge.periodEnd)}`}
+                  </span>
+                  <span className={waiveCharges ? "line-through" : ""}>
+                    {formatCurrency(charge.amount)}
+                  </span>
+                </div>
+              ))}
+              <div className="flex justify-between border-t pt-2 font-medium">
+                <span>To collect</span>
+                <span>
+                  {formatCurrency(
+                    settleRecord.remaining +
+                      (waiveCharges ? 0 : settleRecord.chargesOutstanding)
+                  )}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="waiveCharges"
+                  checked={waiveCharges}
+                  onCheckedChange={(checked) => setWaiveCharges(checked === true)}
+                />
+                <Label htmlFor="waiveCharges">Waive late fees & interest</Label>
+              </div>
+              {settleError && <div className="text-xs text-red-500">{settleError}</div>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSettleRecord(null)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-green-600 hover:bg-green-700"
+              onClick={handleSettle}
+              disabled={isProcessing !== null}
+            >
+              {isProcessing !== null ? "Saving..." : "Settle"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={statusChange !== null}
+        onOpenChange={(open) => !open && setStatusChange(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {statusChange && `${STATUS_ACTIONS[statusChange.action].label} due`}
+            </DialogTitle>
+            <DialogDescription>
+              {statusChange && STATUS_ACTIONS[statusChange.action].description}
+            </DialogDescription>
+          </DialogHeader>
+          {statusChange && (
+            <div className="space-y-4">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {statusChange.record.customerName}
+                  {statusChange.record.receiptNumber &&
+                    ` · Receipt #${statusChange.record.receiptNumber}`}
+                </span>
+                <span className="font-medium">
+                  {formatCurrency(statusChange.record.remaining)}
+                </span>
+              </div>
+              {statusChange.action !== "reopen" && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="statusReason">Reason</Label>
+                    <Input
+                      id="statusReason"
+                      value={statusReason}
+                      maxLength={255}
+                      onChange={(e) => setStatusReason(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="statusDate">Date</Label>
+                    <Input
+                      id="statusDate"
+                      type="date"
+                      value={statusDate}
+                      onChange={(e) => setStatusDate(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+              {statusError && <div className="text-xs text-red-500">{statusError}</div>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStatusChange(null)}>
+              Back
+            </Button>
+            <Button
+              variant={
+                statusChange?.action === "write_off" || statusChange?.action === "cancel"
+                  ? "destructive"
+                  : "default"
+              }
+              onClick={handleStatusChange}
+              disabled={isProcessing !== null}
+            >
+              {isProcessing !== null
+                ? "Saving..."
+                : statusChange && STATUS_ACTIONS[statusChange.action].label}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,19 +1,22 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import Link from "next/link";
 import {
   ArrowLeft,
   FileText,
   Download,
   RefreshCw,
-  Bell,
   Facebook,
   Instagram,
   Linkedin,
   X,
   ArrowRight,
   Trash2,
+  ArrowLeftRight,
+  Pencil,
+  Undo2,
+  History,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -27,6 +30,12 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { ImageViewer } from "@/components/image-viewer";
 import { Footer } from "@/components/footer";
+import { NotificationBell } from "@/components/notification-bell";
+import { ExpenseDialog } from "@/components/expense-dialog";
+import { TransferDialog } from "@/components/transfer-dialog";
+import { TransactionChangeDialog } from "@/components/transaction-change-dialog";
+import { TransactionHistoryDialog } from "@/components/transaction-history-dialog";
+import { useLiveEvents } from "@/hooks/use-live-events";
 import {
   Dialog,
   DialogContent,
@@ -37,6 +46,17 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toCsv } from "@/lib/csv";
+import type { MoneyAccount } from "@/lib/money-accounts";
+import type { ExpensePaymentMode } from "@/lib/expenses";
+import type { TransactionChangeType } from "@/lib/transactions";
 
 interface Transaction {
   id: string;
@@ -46,6 +66,18 @@ interface Transaction {
   date: string;
   receiptNumber?: string;
   createdAt: string;
+  isNonCash?: boolean;
+  categoryId?: number;
+  category?: string;
+  payee?: string;
+  paymentMode?: ExpensePaymentMode;
+  taxAmount?: number;
+  moneyAccountId?: number;
+  moneyAccount?: string;
+  isTransfer?: boolean;
+  isManual?: boolean;
+  reversesTransactionId?: number;
+  reversedById?: number;
 }
 
 interface DueRecord {
@@ -56,6 +88,7 @@ interface DueRecord {
   productOrdered: string;
   quantity: number;
   amountDue: number;
+  remaining: number;
   expectedPaymentDate: string;
   createdAt: string;
   isPaid: boolean;
@@ -81,11 +114,19 @@ export default function AccountsPage() {
   const [user, setUser] = useState<UserProfile | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isImageViewerOpen, setIsImageViewerOpen] = useState(false);
-  const [notifications, setNotifications] = useState<any[]>([]);
-  const [hasUnreadNotifications, setHasUnreadNotifications] = useState(false);
-  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
-  const notificationRef = useRef<HTMLDivElement | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
+  const [authToken, setAuthToken] = useState<string | null>(null);
+  const [isExpenseDialogOpen, setIsExpenseDialogOpen] = useState(false);
+  const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
+  const [moneyAccounts, setMoneyAccounts] = useState<MoneyAccount[]>([]);
+  // "all" or the id of the account whose ledger is shown
+  const [ledgerAccountId, setLedgerAccountId] = useState("all");
+  const [entryAccountId, setEntryAccountId] = useState("");
+  const [changeTarget, setChangeTarget] = useState<{
+    transaction: Transaction;
+    mode: TransactionChangeType;
+  } | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const transactionsPerPage = 10;
 
   useEffect(() => {
@@ -124,64 +165,6 @@ export default function AccountsPage() {
     fetchUserProfile();
   }, []);
 
-  useEffect(() => {
-    const fetchNotifications = async () => {
-      if (!user) return;
-
-      try {
-        const userJSON = localStorage.getItem("currentUser");
-        if (!userJSON) return;
-
-        const userData = JSON.parse(userJSON);
-        const response = await fetch("/api/notifications", {
-          headers: { Authorization: `Bearer ${userData.token}` },
-        });
-
-        if (!response.ok) {
-          throw new Error("Failed to fetch notifications");
-        }
-
-        const notifications = await response.json();
-        setNotifications(notifications);
-
-        const lastReadTime = localStorage.getItem("notificationsLastRead");
-        if (lastReadTime) {
-          const lastRead = new Date(lastReadTime);
-          const hasNew = notifications.some((notification: any) => {
-            const createdAt = new Date(notification.createdAt);
-            return createdAt > lastRead;
-          });
-          setHasUnreadNotifications(hasNew);
-        } else {
-          setHasUnreadNotifications(notifications.length > 0);
-        }
-      } catch (error) {
-        console.error("Error fetching notifications:", error);
-      }
-    };
-
-    fetchNotifications();
-  }, [user]);
-
-  useEffect(() => {
-    function handleClickOutside(event: MouseEvent) {
-      if (
-        notificationRef.current &&
-        !notificationRef.current.contains(event.target as Node)
-      ) {
-        setIsNotificationsOpen(false);
-      }
-    }
-
-    if (isNotificationsOpen) {
-      document.addEventListener("mousedown", handleClickOutside);
-    }
-
-    return () => {
-      document.removeEventListener("mousedown", handleClickOutside);
-    };
-  }, [isNotificationsOpen]);
-
   const fetchDueRecords = async (userToken: string) => {
     try {
       const response = await fetch("/api/due", {
@@ -201,7 +184,7 @@ export default function AccountsPage() {
       const dueRecords: DueRecord[] = Array.isArray(data) ? data : [];
       const calculatedTotalDue = dueRecords
         .filter((record) => !record.isPaid)
-        .reduce((total, record) => total + (record.amountDue || 0), 0);
+        .reduce((total, record) => total + (record.remaining || 0), 0);
 
       return calculatedTotalDue;
     } catch (error) {
@@ -210,6 +193,26 @@ export default function AccountsPage() {
     }
   };
 
+  const fetchMoneyAccounts = async (userToken: string) => {
+    try {
+      const response = await fetch("/api/money-accounts", {
+        headers: { Authorization: `Bearer ${userToken}` },
+      });
+      if (!response.ok) throw new Error("Failed to fetch money accounts");
+
+      const accounts: MoneyAccount[] = await response.json();
+      setMoneyAccounts(accounts);
+      if (!entryAccountId) {
+        const cashAccount =
+          accounts.find((account) => account.isActive && account.receives === "cash") ??
+          accounts.find((account) => account.isActive);
+        setEntryAccountId(cashAccount?.id.toString() ?? "");
+      }
+    } catch (error) {
+      console.error("Failed to fetch money accounts:", error);
+    }
+  };
+
   const fetchData = async (showRefreshing = false) => {
     if (showRefreshing) setIsRefreshing(true);
 
@@ -220,14 +223,17 @@ export default function AccountsPage() {
     }
 
     const userData = JSON.parse(userJSON);
+    setAuthToken(userData.token);
 
     try {
-      // Fetch transactions data
-      const response = await fetch("/api/transactions", {
+      // Fetch transactions data, narrowed to one account's ledger if chosen
+      const query = ledgerAccountId === "all" ? "" : `?accountId=${ledgerAccountId}`;
+      const response = await fetch(`/api/transactions${query}`, {
         headers: { Authorization: `Bearer ${userData.token}` },
       });
       if (!response.ok) throw new Error("Failed to fetch");
       const data = await response.json();
+      await fetchMoneyAccounts(userData.token);
 
       // Fetch current due records and calculate total
       const currentTotalDue = await fetchDueRecords(userData.token);
@@ -251,19 +257,14 @@ export default function AccountsPage() {
   };
 
   useEffect(() => {
+    setCurrentPage(1);
     fetchData();
+  }, [router, ledgerAccountId]);
 
-    const handleDueRecordPaid = () => {
-      console.log("Due record paid event received. Refreshing data...");
-      fetchData(true); // Re-fetch all data, showing refresh spinner
-    };
-
-    window.addEventListener("dueRecordPaid", handleDueRecordPaid);
-
-    return () => {
-      window.removeEventListener("dueRecordPaid", handleDueRecordPaid);
-    };
-  }, [router]);
+  // Receipts, payments and entries made on any device update the balances
+  useLiveEvents(() => {
+    fetchData();
+  });
 
   const saveData = (newTransactions: Transaction[], newBalance: number) => {
     localStorage.setItem(
@@ -308,6 +309,7 @@ export default function AccountsPage() {
           amount: amountValue,
           type,
           transactionDate,
+          moneyAccountId: entryAccountId ? Number(entryAccountId) : undefined,
         }),
       });
 
@@ -318,14 +320,22 @@ export default function AccountsPage() {
       const data = await response.json();
       const newTransaction = data.transaction;
 
+      setParticulars("");
+      setAmount("");
+      setTransactionDate("");
+
+      // An entry to another account does not belong in the open ledger
+      if (ledgerAccountId !== "all" && ledgerAccountId !== entryAccountId) {
+        fetchData();
+        return;
+      }
+
       const newTransactions = [...transactions, newTransaction];
       const newBalance =
         type === "credit" ? balance + amountValue : balance - amountValue;
 
       saveData(newTransactions, newBalance);
-      setParticulars("");
-      setAmount("");
-      setTransactionDate("");
+      fetchMoneyAccounts(userData.token);
     } catch (error) {
       console.error(`Failed to create ${type} transaction:`, error);
       alert(`Failed to create ${type} transaction`);
@@ -336,6 +346,52 @@ export default function AccountsPage() {
     fetchData(true);
   };
 
+  // Posted entries other than transfers and write-offs are corrected by reversal
+  const isReversible = (transaction: Transaction) =>
+    !transaction.isManual &&
+    !transaction.isNonCash &&
+    !transaction.isTransfer &&
+    !transaction.reversesTransactionId &&
+    !transaction.reversedById;
+
+  const renderEntryActions = (transaction: Transaction) => (
+    <div className="flex justify-end gap-1">
+      {transaction.isManual && (
+        <>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            title="Edit entry"
+            onClick={() => setChangeTarget({ transaction, mode: "edit" })}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-red-600"
+            title="Delete entry"
+            onClick={() => setChangeTarget({ transaction, mode: "delete" })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+      {isReversible(transaction) && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-amber-700"
+          title="Reverse entry"
+          onClick={() => setChangeTarget({ transaction, mode: "reverse" })}
+        >
+          <Undo2 className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString() + " " + date.toLocaleTimeString();
@@ -366,10 +422,12 @@ export default function AccountsPage() {
 
     let runningBalance = 0;
     const dataToExport = exportTransactions.map((transaction) => {
-      runningBalance =
-        transaction.type === "credit"
-          ? runningBalance + transaction.amount
-          : runningBalance - transaction.amount;
+      if (!transaction.isNonCash) {
+        runningBalance =
+          transaction.type === "credit"
+            ? runningBalance + transaction.amount
+            : runningBalance - transaction.amount;
+      }
 
       return {
         Date: formatDateOnly(transaction.date),
@@ -377,29 +435,18 @@ export default function AccountsPage() {
         Type:
           transaction.type.charAt(0).toUpperCase() + transaction.type.slice(1),
         "Receipt Number": transaction.receiptNumber || "",
+        Account: transaction.moneyAccount || "",
+        Category: transaction.category || "",
+        Payee: transaction.payee || "",
         Amount: transaction.amount.toFixed(2),
         Balance: runningBalance.toFixed(2),
       };
     });
 
-    const headers = Object.keys(dataToExport[0]).join(",");
-    const headersCaps = headers
-      .split(",")
-      .map((h) => `"${h.toUpperCase()}"`)
-      .join(",");
-
-    const rows = dataToExport.map((row) => {
-      return [
-        `"${row.Date}"`,
-        `"${row.Particulars}"`,
-        `"${row.Type}"`,
-        `"${row["Receipt Number"]}"`,
-        `"${row.Amount}"`,
-        `"${row.Balance}"`,
-      ].join(",");
-    });
-
-    const csvContent = [headersCaps, ...rows].join("\n");
+    const csvContent = toCsv(
+      Object.keys(dataToExport[0]).map((header) => header.toUpperCase()),
+      dataToExport.map((row) => Object.values(row))
+    );
     const bom = "\uFEFF";
     const blob = new Blob([bom + csvContent], {
       type: "text/csv;charset=utf-8;",
@@ -428,14 +475,6 @@ export default function AccountsPage() {
     router.push("/login");
   };
 
-  const handleNotificationClick = () => {
-    setIsNotificationsOpen(!isNotificationsOpen);
-    if (hasUnreadNotifications) {
-      setHasUnreadNotifications(false);
-      localStorage.setItem("notificationsLastRead", new Date().toISOString());
-    }
-  };
-
   const handleViewReceiptsClick = (e: React.MouseEvent) => {
     if (!user) {
       e.preventDefault();
@@ -443,6 +482,14 @@ export default function AccountsPage() {
     }
   };
 
+  const ledgerAccount = moneyAccounts.find(
+    (account) => account.id.toString() === ledgerAccountId
+  );
+  // Retired accounts stay listed while they still hold money
+  const visibleAccounts = moneyAccounts.filter(
+    (account) => account.isActive || account.balance !== 0
+  );
+
   // Sort transactions by date (oldest first) for display
   const displayTransactions = [...transactions].sort((a, b) => {
     const dateA = new Date(a.date).getTime();
@@ -474,86 +521,7 @@ export default function AccountsPage() {
       <header className="w-full py-4 px-6 flex justify-between items-center border-b bg-gray-800 text-white">
         <h1 className="text-xl font-bold">Cash-Box</h1>
         <div className="flex items-center space-x-4">
-          {user && (
-            <div className="relative">
-              <Button
-                variant="ghost"
-                size="icon"
-                className="relative text-white hover:bg-gray-800"
-                onClick={handleNotificationClick}
-              >
-                <Bell className="h-5 w-5" />
-                {hasUnreadNotifications && (
-                  <span className="absolute top-0 right-0 h-2 w-2 rounded-full bg-red-500"></span>
-                )}
-              </Button>
-
-              {isNotificationsOpen && (
-                <div
-                  ref={notificationRef}
-                  className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg overflow-hidden z-20"
-                >
-                  <div className="py-2 px-3 bg-gray-100 border-b">
-                    <h3 className="text-sm font-medium text-gray-800">
-                      Notifications
-                    </h3>
-                  </div>
-                  <div className="max-h-64 overflow-y-auto">
-                    {notifications.length > 0 ? (
-                      notifications.map((notification: any) => (
-                        <Link
-                          href="/accounts/due"
-                          key={notification.id}
-                          className="block px-4 py-3 border-b hover:bg-gray-50"
-                        >
-                          <div className="flex items-start">
-                            <div className="flex-1">
-                              <p className="text-sm font-medium text-gray-900">
-                                Payment Overdue: {notification.customerName}
-                              </p>
-                              <p className="text-xs text-gray-500">
-                                {console.log(
-                                  "notification.amountDue:",
-                                  notification.amountDue,
-                                  "Type:",
-                                  typeof notification.amountDue
-                                )}
-                                ₹
-                                {(Number(notification.amountDue) || 0).toFixed(
-                                  2
-                                )}{" "}
-                                for {notification.productOrdered}
-                              </p>
-                              <p className="text-xs text-red-500">
-                                Due date:{" "}
-                                {new Date(
-                                  notification.expectedPaymentDate
-                                ).toLocaleDateString()}
-                              </p>
-                            </div>
-                          </div>
-                        </Link>
-                      ))
-                    ) : (
-                      <div className="px-4 py-6 text-center text-sm text-gray-500">
-                        No overdue payments
-                      </div>
-                    )}
-                  </div>
-                  {notifications.length > 0 && (
-                    <div className="py-2 px-3 bg-gray-100 border-t text-center">
-                      <Link
-                        href="/accounts/due"
-                        className="text-xs font-medium text-blue-600 hover:text-blue-500"
-                      >
-                        View all due payments
-                      </Link>
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-          )}
+          {user && <NotificationBell />}
           {user ? (
             <div className="flex items-center space-x-2">
               <DropdownMenu>
@@ -655,17 +623,24 @@ export default function AccountsPage() {
             <CardHeader>
               <div className="flex justify-between items-center">
                 <CardTitle className="text-2xl">Accounts</CardTitle>
-                <Link href="/report">
-                  <Button className="bg-blue-600 hover:bg-blue-700">
-                    Report
-                  </Button>
-                </Link>
+                <div className="flex gap-2">
+                  <Link href="/customers">
+                    <Button variant="outline">Customers</Button>
+                  </Link>
+                  <Link href="/report">
+                    <Button className="bg-blue-600 hover:bg-blue-700">
+                      Report
+                    </Button>
+                  </Link>
+                </div>
               </div>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
                 <div className="p-4 bg-muted rounded-lg text-center">
-                  <h2 className="text-lg font-medium mb-2">Current Balance</h2>
+                  <h2 className="text-lg font-medium mb-2">
+                    {ledgerAccount ? `${ledgerAccount.name} Balance` : "Current Balance"}
+                  </h2>
                   <p
                     className={`text-3xl font-bold ${
                       balance >= 0 ? "text-green-600" : "text-red-600"
@@ -700,6 +675,74 @@ export default function AccountsPage() {
                 </div>
               </div>
 
+              {visibleAccounts.length > 0 && (
+                <div className="mb-6">
+                  <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-sm font-medium text-gray-600">Money Accounts</h3>
+                    <div className="flex items-center gap-3">
+                      <Link
+                        href="/profile"
+                        className="text-sm text-gray-500 underline hover:text-gray-700"
+                      >
+                        Manage accounts
+                      </Link>
+                      <Link
+                        href="/accounts/reconcile"
+                        className="text-sm text-gray-500 underline hover:text-gray-700"
+                      >
+                        Reconcile
+                      </Link>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsTransferDialogOpen(true)}
+                        disabled={!authToken}
+                      >
+                        <ArrowLeftRight className="mr-2 h-4 w-4" /> Transfer
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <button
+                      type="button"
+                      onClick={() => setLedgerAccountId("all")}
+                      className={`p-3 rounded-lg border text-left ${
+                        ledgerAccountId === "all"
+                          ? "border-blue-500 bg-blue-50"
+                          : "bg-white hover:bg-gray-50"
+                      }`}
+                    >
+                      <div className="text-xs text-gray-500">All accounts</div>
+                      <div className="text-sm font-medium">View full history</div>
+                    </button>
+                    {visibleAccounts.map((account) => (
+                      <button
+                        key={account.id}
+                        type="button"
+                        onClick={() => setLedgerAccountId(account.id.toString())}
+                        className={`p-3 rounded-lg border text-left ${
+                          ledgerAccountId === account.id.toString()
+                            ? "border-blue-500 bg-blue-50"
+                            : "bg-white hover:bg-gray-50"
+                        }`}
+                      >
+                        <div className="text-xs text-gray-500 truncate">
+                          {account.name}
+                          {!account.isActive && " (inactive)"}
+                        </div>
+                        <div
+                          className={`text-sm font-semibold ${
+                            account.balance >= 0 ? "text-green-600" : "text-red-600"
+                          }`}
+                        >
+                          ₹{account.balance.toFixed(2)}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="flex flex-col md:flex-row gap-4 mb-6">
                 <input
                   type="text"
@@ -728,6 +771,20 @@ export default function AccountsPage() {
                     return `${year}-${month}-${day}`;
                   })()}
                 />
+                <Select value={entryAccountId} onValueChange={setEntryAccountId}>
+                  <SelectTrigger className="md:w-40" aria-label="Account">
+                    <SelectValue placeholder="Account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {moneyAccounts
+                      .filter((account) => account.isActive)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
                     <Button className="bg-blue-600 hover:bg-blue-700">
@@ -755,6 +812,14 @@ export default function AccountsPage() {
                     </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
+                <Button
+                  variant="outline"
+                  className="text-red-700 border-red-200 hover:bg-red-50"
+                  onClick={() => setIsExpenseDialogOpen(true)}
+                  disabled={!authToken}
+                >
+                  Add Expense
+                </Button>
               </div>
 
               {transactions.length > 0 && (
@@ -762,6 +827,13 @@ export default function AccountsPage() {
                   <div className="flex justify-between items-center mb-4">
                     <h3 className="text-lg font-medium">Transaction History</h3>
                     <div className="flex space-x-2">
+                      <Button
+                        variant="outline"
+                        onClick={() => setIsHistoryOpen(true)}
+                        disabled={!authToken}
+                      >
+                        <History className="mr-2 h-4 w-4" /> Change history
+                      </Button>
                       <Button
                         onClick={exportToExcel}
                         className="bg-blue-600 hover:bg-blue-700"
@@ -788,6 +860,7 @@ export default function AccountsPage() {
                             <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                               Amount
                             </th>
+                            <th className="px-6 py-3" />
                           </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-gray-200">
@@ -798,6 +871,37 @@ export default function AccountsPage() {
                               </td>
                               <td className="px-6 py-4 text-sm text-gray-900">
                                 {transaction.particulars}
+                                {transaction.isNonCash && (
+                                  <span className="ml-2 px-2 inline-flex text-xs rounded-full bg-gray-100 text-gray-600">
+                                    Non-cash
+                                  </span>
+                                )}
+                                {transaction.isTransfer && (
+                                  <span className="ml-2 px-2 inline-flex text-xs rounded-full bg-blue-100 text-blue-700">
+                                    Transfer
+                                  </span>
+                                )}
+                                {transaction.reversesTransactionId && (
+                                  <span className="ml-2 px-2 inline-flex text-xs rounded-full bg-amber-100 text-amber-800">
+                                    Reversal
+                                  </span>
+                                )}
+                                {transaction.reversedById && (
+                                  <span className="ml-2 px-2 inline-flex text-xs rounded-full bg-gray-100 text-gray-600">
+                                    Reversed
+                                  </span>
+                                )}
+                                {(transaction.category || transaction.moneyAccount) && (
+                                  <div className="text-xs text-gray-500">
+                                    {[
+                                      !ledgerAccount && transaction.moneyAccount,
+                                      transaction.category,
+                                      transaction.payee,
+                                    ]
+                                      .filter(Boolean)
+                                      .join(" · ")}
+                                  </div>
+                                )}
                               </td>
                               <td className="px-6 py-4 text-sm">
                                 <span
@@ -822,6 +926,9 @@ export default function AccountsPage() {
                                   ₹{transaction.amount.toFixed(2)}
                                 </span>
                               </td>
+                              <td className="px-6 py-4 text-sm">
+                                {renderEntryActions(transaction)}
+                              </td>
                             </tr>
                           ))}
                         </tbody>
@@ -890,6 +997,37 @@ export default function AccountsPage() {
                         <div className="flex justify-between items-start mb-2">
                           <span className="text-sm font-medium">
                             {transaction.particulars}
+                            {transaction.isNonCash && (
+                              <span className="ml-2 text-xs font-normal text-gray-500">
+                                Non-cash
+                              </span>
+                            )}
+                            {transaction.isTransfer && (
+                              <span className="ml-2 text-xs font-normal text-blue-600">
+                                Transfer
+                              </span>
+                            )}
+                            {transaction.reversesTransactionId && (
+                              <span className="ml-2 text-xs font-normal text-amber-700">
+                                Reversal
+                              </span>
+                            )}
+                            {transaction.reversedById && (
+                              <span className="ml-2 text-xs font-normal text-gray-500">
+                                Reversed
+                              </span>
+                            )}
+                            {(transaction.category || transaction.moneyAccount) && (
+                              <span className="block text-xs font-normal text-gray-500">
+                                {[
+                                  !ledgerAccount && transaction.moneyAccount,
+                                  transaction.category,
+                                  transaction.payee,
+                                ]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </span>
+                            )}
                           </span>
                           <span
                             className={`font-bold ${
@@ -902,7 +1040,10 @@ export default function AccountsPage() {
                           </span>
                         </div>
                         <div className="flex justify-between items-center text-xs text-gray-500">
-                          <span>{formatDateOnly(transaction.date)}</span>
+                          <span className="flex items-center gap-1">
+                            {formatDateOnly(transaction.date)}
+                            {renderEntryActions(transaction)}
+                          </span>
                           <span
                             className={`px-2 py-1 rounded-full ${
                               transaction.type === "credit"
@@ -924,6 +1065,44 @@ export default function AccountsPage() {
         </div>
       </div>
 
+      {authToken && (
+        <ExpenseDialog
+          token={authToken}
+          open={isExpenseDialogOpen}
+          onOpenChange={setIsExpenseDialogOpen}
+          onSaved={() => fetchData()}
+        />
+      )}
+
+      {authToken && (
+        <TransferDialog
+          token={authToken}
+          accounts={moneyAccounts}
+          open={isTransferDialogOpen}
+          onOpenChange={setIsTransferDialogOpen}
+          onSaved={() => fetchData()}
+        />
+      )}
+
+      {authToken && (
+        <TransactionChangeDialog
+          token={authToken}
+          accounts={moneyAccounts}
+          transaction={changeTarget?.transaction ?? null}
+          mode={changeTarget?.mode ?? "edit"}
+          onOpenChange={(open) => !open && setChangeTarget(null)}
+          onSaved={() => fetchData()}
+        />
+      )}
+
+      {authToken && (
+        <TransactionHistoryDialog
+          token={authToken}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+        />
+      )}
+
       {user?.profilePhoto && (
         <ImageViewer
           src={getProfilePhotoUrl(user.profilePhoto)}
@@ -0,0 +1,796 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Check, Plus, RefreshCw, Trash2, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CSV_DATE_FORMATS,
+  CsvColumnMapping,
+  CsvDateFormat,
+  StatementLineStatus,
+  detectStatementFormat,
+  parseCsv,
+  validateCsvMapping,
+} from "@/lib/bank-statements";
+import type { ExpenseCategory } from "@/lib/expenses";
+import type { MoneyAccount } from "@/lib/money-accounts";
+import type {
+  BankStatement,
+  BankStatementDetail,
+  MatchCandidate,
+  StatementLine,
+} from "@/lib/reconciliation";
+
+type AmountMode = "single" | "split";
+
+interface MappingForm {
+  hasHeader: boolean;
+  dateFormat: CsvDateFormat;
+  date: string;
+  description: string;
+  reference: string;
+  amountMode: AmountMode;
+  amount: string;
+  debit: string;
+  credit: string;
+}
+
+const NONE = "none";
+
+const STATUS_STYLES: Record<StatementLineStatus, string> = {
+  unmatched: "bg-yellow-100 text-yellow-800",
+  matched: "bg-blue-100 text-blue-800",
+  reconciled: "bg-green-100 text-green-800",
+  ignored: "bg-gray-100 text-gray-600",
+};
+
+const EMPTY_MAPPING: MappingForm = {
+  hasHeader: true,
+  dateFormat: "DD/MM/YYYY",
+  date: NONE,
+  description: NONE,
+  reference: NONE,
+  amountMode: "split",
+  amount: NONE,
+  debit: NONE,
+  credit: NONE,
+};
+
+// Pre-select columns whose headers look like the usual bank export names
+function guessMapping(headers: string[]): MappingForm {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex((header) => pattern.test(header));
+    return index === -1 ? NONE : String(index);
+  };
+  const debit = find(/withdraw|debit|paid out|dr\b/i);
+  const credit = find(/deposit|credit|paid in|cr\b/i);
+  return {
+    ...EMPTY_MAPPING,
+    date: find(/date/i),
+    description: find(/narration|description|particulars|details|remarks/i),
+    reference: find(/ref|cheque|chq|utr/i),
+    amountMode: debit !== NONE && credit !== NONE ? "split" : "single",
+    amount: find(/amount/i),
+    debit,
+    credit,
+  };
+}
+
+const toMappingForm = (mapping: CsvColumnMapping): MappingForm => ({
+  hasHeader: mapping.hasHeader,
+  dateFormat: mapping.dateFormat,
+  date: String(mapping.date),
+  description: String(mapping.description),
+  reference: mapping.reference != null ? String(mapping.reference) : NONE,
+  amountMode: mapping.amount != null ? "single" : "split",
+  amount: mapping.amount != null ? String(mapping.amount) : NONE,
+  debit: mapping.debit != null ? String(mapping.debit) : NONE,
+  credit: mapping.credit != null ? String(mapping.credit) : NONE,
+});
+
+const toColumnMapping = (form: MappingForm): CsvColumnMapping => {
+  const column = (value: string) => (value === NONE ? null : parseInt(value));
+  return {
+    hasHeader: form.hasHeader,
+    dateFormat: form.dateFormat,
+    date: column(form.date) ?? -1,
+    description: column(form.description) ?? -1,
+    reference: column(form.reference),
+    amount: form.amountMode === "single" ? column(form.amount) : null,
+    debit: form.amountMode === "split" ? column(form.debit) : null,
+    credit: form.amountMode === "split" ? column(form.credit) : null,
+  };
+};
+
+const formatAmount = (amount: number) =>
+  `${amount < 0 ? "-" : "+"}₹${Math.abs(amount).toFixed(2)}`;
+
+export default function ReconcilePage() {
+  const router = useRouter();
+  const [accounts, setAccounts] = useState<MoneyAccount[]>([]);
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [detail, setDetail] = useState<BankStatementDetail | null>(null);
+  const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [accountId, setAccountId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [fileText, setFileText] = useState("");
+  const [mapping, setMapping] = useState<MappingForm>(EMPTY_MAPPING);
+  const [uploadError, setUploadError] = useState("");
+  const [uploadResult, setUploadResult] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
+
+  const [creatingLine, setCreatingLine] = useState<StatementLine | null>(null);
+  const [particulars, setParticulars] = useState("");
+  const [categoryId, setCategoryId] = useState(NONE);
+  const [createError, setCreateError] = useState("");
+  const [busyLineId, setBusyLineId] = useState<number | null>(null);
+
+  const getToken = useCallback(() => {
+    const userJSON = localStorage.getItem("currentUser");
+    const token = userJSON ? JSON.parse(userJSON)?.token : null;
+    if (!token) router.push("/login");
+    return token;
+  }, [router]);
+
+  const request = useCallback(
+    async (url: string, init: RequestInit = {}) => {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          ...(init.body && !(init.body instanceof FormData)
+            ? { "Content-Type": "application/json" }
+            : {}),
+          Authorization: `Bearer ${getToken()}`,
+        },
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Request failed");
+      return data;
+    },
+    [getToken]
+  );
+
+  const fetchStatements = useCallback(async () => {
+    const data: BankStatement[] = await request("/api/bank-statements");
+    setStatements(data);
+    setSelectedId((current) => current ?? data[0]?.id ?? null);
+  }, [request]);
+
+  const fetchDetail = useCallback(async () => {
+    if (!selectedId) {
+      setDetail(null);
+      return;
+    }
+    setDetail(await request(`/api/bank-statements/${selectedId}`));
+  }, [request, selectedId]);
+
+  useEffect(() => {
+    if (!getToken()) return;
+    Promise.all([
+      request("/api/money-accounts").then((data: MoneyAccount[]) => {
+        setAccounts(data);
+        const bank =
+          data.find((account) => account.isActive && account.kind === "bank") ??
+          data.find((account) => account.isActive);
+        setAccountId(bank?.id.toString() ?? "");
+      }),
+      request("/api/expense-categories?active=true").then(setCategories),
+      fetchStatements(),
+    ])
+      .then(() => setError(null))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load statements"))
+      .finally(() => setIsLoading(false));
+  }, [getToken, request, fetchStatements]);
+
+  useEffect(() => {
+    fetchDetail().catch((err) =>
+      setError(err instanceof Error ? err.message : "Failed to load statement")
+    );
+  }, [fetchDetail]);
+
+  const format = file ? detectStatementFormat(file.name, fileText) : null;
+  const previewRows = useMemo(
+    () => (format === "csv" ? parseCsv(fileText).slice(0, 4) : []),
+    [format, fileText]
+  );
+  const columnCount = Math.max(0, ...previewRows.map((row) => row.length));
+  const columnLabel = (index: number) =>
+    mapping.hasHeader && previewRows[0]?.[index]?.trim()
+      ? previewRows[0][index].trim()
+      : `Column ${index + 1}`;
+
+  const chooseFile = async (chosen: File | null) => {
+    setFile(chosen);
+    setUploadError("");
+    setUploadResult("");
+    const text = chosen ? await chosen.text() : "";
+    setFileText(text);
+    if (!chosen || detectStatementFormat(chosen.name, text) !== "csv") return;
+
+    // Reuse the layout of the account's last CSV statement when there is one
+    const previous = statements.find(
+      (statement) =>
+        statement.moneyAccountId.toString() === accountId && statement.columnMapping
+    );
+    setMapping(
+      previous?.columnMapping
+        ? toMappingForm(previous.columnMapping)
+        : guessMapping(parseCsv(text)[0] ?? [])
+    );
+  };
+
+  const uploadStatement = async () => {
+    if (!file) return setUploadError("Choose a statement file");
+    if (!accountId) return setUploadError("Choose the account the statement is for");
+
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("moneyAccountId", accountId);
+    if (format === "csv") {
+      const columnMapping = toColumnMapping(mapping);
+      const mappingError = validateCsvMapping(columnMapping);
+      if (mappingError) return setUploadError(mappingError);
+      formData.append("mapping", JSON.stringify(columnMapping));
+    }
+
+    setIsUploading(true);
+    setUploadError("");
+    try {
+      const data = await request("/api/bank-statements", { method: "POST", body: formData });
+      setUploadResult(
+        `Imported ${data.imported} line${data.imported === 1 ? "" : "s"}` +
+          (data.duplicates ? `, skipped ${data.duplicates} already imported` : "") +
+          `, auto-matched ${data.matched}.`
+      );
+      setFile(null);
+      setFileText("");
+      setSelectedId(data.statementId);
+      await fetchStatements();
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : "Failed to import statement");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const refresh = async () => {
+    await Promise.all([fetchStatements(), fetchDetail()]);
+  };
+
+  const updateStatement = async (action: "auto-match" | "confirm-matched") => {
+    if (!selectedId) return;
+    try {
+      await request(`/api/bank-statements/${selectedId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ action }),
+      });
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update statement");
+    }
+  };
+
+  const deleteStatement = async (statement: BankStatement) => {
+    if (
+      !confirm(
+        `Delete the statement "${statement.fileName}"? Entries created from it stay in your accounts.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await request(`/api/bank-statements/${statement.id}`, { method: "DELETE" });
+      if (selectedId === statement.id) setSelectedId(null);
+      await fetchStatements();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete statement");
+    }
+  };
+
+  const updateLine = async (line: StatementLine, body: Record<string, unknown>) => {
+    if (!selectedId) return;
+    setBusyLineId(line.id);
+    try {
+      await request(`/api/bank-statements/${selectedId}/lines/${line.id}`, {
+        method: "PATCH",
+        body: JSON.stringify(body),
+      });
+      await refresh();
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to update line";
+      if (body.action === "create") setCreateError(message);
+      else setError(message);
+      return false;
+    } finally {
+      setBusyLineId(null);
+    }
+  };
+
+  const openCreateDialog = (line: StatementLine) => {
+    setCreatingLine(line);
+    setParticulars(line.description);
+    setCategoryId(NONE);
+    setCreateError("");
+  };
+
+  const createEntry = async () => {
+    if (!creatingLine) return;
+    const created = await updateLine(creatingLine, {
+      action: "create",
+      particulars,
+      categoryId: categoryId === NONE ? null : parseInt(categoryId),
+    });
+    if (created) setCreatingLine(null);
+  };
+
+  const describeCandidate = (candidate: Pick<MatchCandidate, "kind" | "date" | "description">) =>
+    `${candidate.date} · ${candidate.kind === "due" ? "" : "Entry: "}${candidate.description}`;
+
+  const columnSelect = (field: keyof MappingForm, label: string, optional = false) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={mapping[field] as string}
+        onValueChange={(value) => setMapping({ ...mapping, [field]: value })}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Choose a column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NONE}>None</SelectItem>}
+          {Array.from({ length: columnCount }, (_, index) => (
+            <SelectItem key={index} value={String(index)}>
+              {columnLabel(index)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-5xl space-y-6">
+      <div className="flex justify-start">
+        <Link href="/accounts">
+          <Button
+            variant="outline"
+            className="text-blue-600 border-blue-200 hover:bg-blue-50"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Accounts
+          </Button>
+        </Link>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">Import Bank Statement</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Account</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts
+                    .filter((account) => account.isActive)
+                    .map((account) => (
+                      <SelectItem key={account.id} value={account.id.toString()}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statementFile">Statement file</Label>
+              <Input
+                id="statementFile"
+                type="file"
+                accept=".csv,.ofx,.qfx,.xml,text/csv"
+                onChange={(e) => chooseFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-gray-500">
+                CSV, OFX or camt.053 (XML). Lines already imported are skipped.
+              </p>
+            </div>
+          </div>
+
+          {format === "csv" && previewRows.length > 0 && (
+            <div className="space-y-4 border rounded-lg p-4">
+              <div className="flex flex-wrap items-center gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="hasHeader"
+                    checked={mapping.hasHeader}
+                    onCheckedChange={(checked) => setMapping({ ...mapping, hasHeader: checked })}
+                  />
+                  <Label htmlFor="hasHeader">First row is a header</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label>Date format</Label>
+                  <Select
+                    value={mapping.dateFormat}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, dateFormat: value as CsvDateFormat })
+                    }
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CSV_DATE_FORMATS.map((dateFormat) => (
+                        <SelectItem key={dateFormat} value={dateFormat}>
+                          {dateFormat}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label>Amounts</Label>
+                  <Select
+                    value={mapping.amountMode}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, amountMode: value as AmountMode })
+                    }
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="split">Separate debit and credit columns</SelectItem>
+                      <SelectItem value="single">One signed amount column</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {columnSelect("date", "Date")}
+                {columnSelect("description", "Description")}
+                {columnSelect("reference", "Reference", true)}
+                {mapping.amountMode === "single" ? (
+                  columnSelect("amount", "Amount")
+                ) : (
+                  <>
+                    {columnSelect("debit", "Debit (money out)")}
+                    {columnSelect("credit", "Credit (money in)")}
+                  </>
+                )}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-xs">
+                  <tbody className="divide-y">
+                    {previewRows.map((row, rowIndex) => (
+                      <tr
+                        key={rowIndex}
+                        className={rowIndex === 0 && mapping.hasHeader ? "font-medium bg-gray-50" : ""}
+                      >
+                        {row.map((cell, cellIndex) => (
+                          <td key={cellIndex} className="px-2 py-1 whitespace-nowrap">
+                            {cell}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {format && format !== "csv" && (
+            <p className="text-sm text-gray-500">
+              Recognised as {format === "ofx" ? "OFX" : "camt.053"}; no column mapping needed.
+            </p>
+          )}
+
+          {uploadError && <div className="text-sm text-red-500">{uploadError}</div>}
+          {uploadResult && <div className="text-sm text-green-600">{uploadResult}</div>}
+
+          <Button
+            onClick={uploadStatement}
+            disabled={!file || isUploading}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Upload className="mr-2 h-4 w-4" /> {isUploading ? "Importing..." : "Import"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {statements.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Statements</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {statements.map((statement) => (
+                <div
+                  key={statement.id}
+                  className={`flex items-center justify-between gap-4 py-3 px-2 rounded cursor-pointer ${
+                    selectedId === statement.id ? "bg-blue-50" : "hover:bg-gray-50"
+                  }`}
+                  onClick={() => setSelectedId(statement.id)}
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{statement.fileName}</div>
+                    <div className="text-xs text-gray-500">
+                      {statement.moneyAccount}
+                      {statement.periodStart &&
+                        ` · ${statement.periodStart} to ${statement.periodEnd}`}
+                      {` · ${statement.lineCount} lines`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0 text-xs">
+                    <span className="text-green-700">{statement.reconciled} reconciled</span>
+                    {statement.matched > 0 && (
+                      <span className="text-blue-700">{statement.matched} to confirm</span>
+                    )}
+                    {statement.unmatched > 0 && (
+                      <span className="text-yellow-700">{statement.unmatched} unmatched</span>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deleteStatement(statement);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {detail && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl flex flex-wrap justify-between items-center gap-2">
+              <span>Reconcile {detail.moneyAccount}</span>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => updateStatement("auto-match")}>
+                  <RefreshCw className="mr-2 h-4 w-4" /> Auto-match
+                </Button>
+                <Button
+                  size="sm"
+                  className="bg-green-600 hover:bg-green-700"
+                  disabled={detail.matched === 0}
+                  onClick={() => updateStatement("confirm-matched")}
+                >
+                  <Check className="mr-2 h-4 w-4" /> Confirm {detail.matched} matches
+                </Button>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {detail.lines.length === 0 ? (
+              <div className="text-center text-gray-500 py-6">
+                Every line in this file had already been imported.
+              </div>
+            ) : (
+              <div className="divide-y">
+                {detail.lines.map((line) => (
+                  <div key={line.id} className="py-3 space-y-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium">{line.description}</div>
+                        <div className="text-xs text-gray-500">
+                          {line.date}
+                          {line.reference && ` · Ref ${line.reference}`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0">
+                        <span
+                          className={`text-sm font-semibold ${
+                            line.amount >= 0 ? "text-green-600" : "text-red-600"
+                          }`}
+                        >
+                          {formatAmount(line.amount)}
+                        </span>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[line.status]}`}
+                        >
+                          {line.status}
+                        </span>
+                      </div>
+                    </div>
+
+                    {line.match && (
+                      <div className="flex items-center justify-between gap-4 text-xs text-gray-600 bg-gray-50 rounded px-2 py-1">
+                        <span className="truncate">
+                          {describeCandidate(line.match)}
+                          {line.status === "matched" &&
+                            line.matchScore != null &&
+                            ` · score ${line.matchScore}`}
+                        </span>
+                        <div className="flex gap-1 shrink-0">
+                          {line.status === "matched" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busyLineId === line.id}
+                              onClick={() => updateLine(line, { action: "confirm" })}
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busyLineId === line.id}
+                            onClick={() => updateLine(line, { action: "unmatch" })}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {line.status === "unmatched" && (
+                      <div className="space-y-1">
+                        {line.candidates.map((candidate) => (
+                          <div
+                            key={`${candidate.kind}-${candidate.id}`}
+                            className="flex items-center justify-between gap-4 text-xs text-gray-600 border rounded px-2 py-1"
+                          >
+                            <span className="truncate">
+                              {describeCandidate(candidate)} · score {candidate.score}
+                            </span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={busyLineId === line.id}
+                              onClick={() =>
+                                updateLine(line, {
+                                  action: "match",
+                                  kind: candidate.kind,
+                                  id: candidate.id,
+                                })
+                              }
+                            >
+                              Match
+                            </Button>
+                          </div>
+                        ))}
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busyLineId === line.id}
+                            onClick={() => openCreateDialog(line)}
+                          >
+                            <Plus className="mr-1 h-4 w-4" /> Create entry
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={busyLineId === line.id}
+                            onClick={() => updateLine(line, { action: "ignore" })}
+                          >
+                            Ignore
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {line.status === "ignored" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={busyLineId === line.id}
+                        onClick={() => updateLine(line, { action: "unmatch" })}
+                      >
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!creatingLine} onOpenChange={(open) => !open && setCreatingLine(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Create Entry</DialogTitle>
+            <DialogDescription>
+              {creatingLine &&
+                `${creatingLine.amount >= 0 ? "Deposit" : "Withdrawal"} of ₹${Math.abs(
+                  creatingLine.amount
+                ).toFixed(2)} on ${creatingLine.date}, reconciled to this line.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="entryParticulars">Particulars</Label>
+              <Input
+                id="entryParticulars"
+                value={particulars}
+                onChange={(e) => setParticulars(e.target.value)}
+              />
+            </div>
+            {creatingLine && creatingLine.amount < 0 && (
+              <div className="space-y-2">
+                <Label>Expense category</Label>
+                <Select value={categoryId} onValueChange={setCategoryId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Uncategorised</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {createError && <div className="text-sm text-red-500">{createError}</div>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreatingLine(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={createEntry}
+              disabled={busyLineId === creatingLine?.id}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              Create Entry
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { publishEvent } from "@/lib/events";
+import {
+  CreatedEntry,
+  StatementLineAction,
+  applyStatementLineAction,
+} from "@/lib/reconciliation";
+
+const LINE_ACTIONS = ["match", "confirm", "unmatch", "ignore", "create"];
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (!(error instanceof Error)) return 500;
+  if (error.message.includes("Unauthorized") || error.message.includes("Invalid token")) {
+    return 401;
+  }
+  if (error.message === "Statement line not found") return 404;
+  if (error.message.startsWith("Only matched") || error.message.startsWith("Unmatch the line")) {
+    return 409;
+  }
+  if (
+    error.message.startsWith("That entry does not match") ||
+    error.message.startsWith("Expense") ||
+    error.message.startsWith("Invalid expense")
+  ) {
+    return 400;
+  }
+  return 500;
+}
+
+/**
+ * Reconcile one statement line. Body: `{ action: "confirm" | "unmatch" |
+ * "ignore" }`, `{ action: "match", kind: "transaction" | "due", id }` or
+ * `{ action: "create", particulars?, categoryId? }` to book the missing entry.
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string; lineId: string } }
+) {
+  const { id, lineId } = await params;
+  if (!/^\d+$/.test(id || "") || !/^\d+$/.test(lineId || "")) {
+    return NextResponse.json({ error: "Invalid statement line ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: StatementLineAction = await request.json();
+
+    if (!LINE_ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { error: `Action must be one of ${LINE_ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    if (
+      body.action === "match" &&
+      ((body.kind !== "transaction" && body.kind !== "due") || !Number.isInteger(body.id))
+    ) {
+      return NextResponse.json({ error: "Choose the entry to match" }, { status: 400 });
+    }
+    if (body.action === "create" && body.particulars && body.particulars.trim().length > 255) {
+      return NextResponse.json(
+        { error: "Particulars must be 255 characters or fewer" },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    let created: CreatedEntry | null;
+    try {
+      created = await applyStatementLineAction(
+        connection!,
+        userId,
+        Number(id),
+        Number(lineId),
+        body
+      );
+      await connection!.commit();
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
+    }
+
+    if (created) {
+      publishEvent(userId, {
+        type: "transaction-added",
+        transactionId: created.transactionId,
+        amount: created.amount,
+        kind: created.kind,
+      });
+    }
+
+    return NextResponse.json({ success: true, transactionId: created?.transactionId ?? null });
+  } catch (error: unknown) {
+    console.error("[PATCH] /api/bank-statements/[id]/lines/[lineId] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update statement line" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { autoMatchStatement, confirmMatchedLines, loadStatement } from "@/lib/reconciliation";
+
+interface StatementActionBody {
+  action?: "auto-match" | "confirm-matched";
+}
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid token"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid statement ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const statement = await loadStatement(connection!, userId, Number(id));
+    if (!statement) {
+      return NextResponse.json({ error: "Statement not found" }, { status: 404 });
+    }
+    return NextResponse.json(statement);
+  } catch (error: unknown) {
+    console.error("[GET] /api/bank-statements/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Database error" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+// Re-run auto-matching, or reconcile every auto-matched line at once
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid statement ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: StatementActionBody = await request.json();
+
+    if (body.action !== "auto-match" && body.action !== "confirm-matched") {
+      return NextResponse.json(
+        { error: "Action must be 'auto-match' or 'confirm-matched'" },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [statements] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM bank_statements WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    if (statements.length === 0) {
+      return NextResponse.json({ error: "Statement not found" }, { status: 404 });
+    }
+
+    await connection!.beginTransaction();
+    let updated: number;
+    try {
+      updated =
+        body.action === "auto-match"
+          ? await autoMatchStatement(connection!, userId, Number(id))
+          : await confirmMatchedLines(connection!, userId, Number(id));
+      await connection!.commit();
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
+    }
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error: unknown) {
+    console.error("[PATCH] /api/bank-statements/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update statement" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+// Entries created from the statement's lines stay in the books
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid statement ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `DELETE FROM bank_statements WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    if (result.affectedRows === 0) {
+      return NextResponse.json({ error: "Statement not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("[DELETE] /api/bank-statements/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete statement" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
@@ -0,0 +1,149 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { assertMoneyAccount } from "@/lib/money-accounts";
+import {
+  CsvColumnMapping,
+  ParsedStatementLine,
+  detectStatementFormat,
+  parseStatementFile,
+  validateCsvMapping,
+} from "@/lib/bank-statements";
+import { autoMatchStatement, importStatement, loadStatements } from "@/lib/reconciliation";
+
+const MAX_STATEMENT_SIZE = 2 * 1024 * 1024;
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid token"))
+  ) {
+    return 401;
+  }
+  if (error instanceof Error && error.message === "Money account not found") {
+    return 404;
+  }
+  return 500;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    return NextResponse.json(await loadStatements(connection!, userId));
+  } catch (error: unknown) {
+    console.error("[GET] /api/bank-statements error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Database error" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+/**
+ * Upload a statement as multipart form data: `file`, `moneyAccountId` and,
+ * for CSV files, `mapping` (a JSON column mapping). OFX and camt.053 files
+ * are recognised from their contents. Lines are auto-matched straight away.
+ */
+export async function POST(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const moneyAccountId = Number(formData.get("moneyAccountId"));
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: "Choose a statement file to upload" }, { status: 400 });
+    }
+    if (file.size > MAX_STATEMENT_SIZE) {
+      return NextResponse.json({ error: "File size too large. Max 2MB." }, { status: 400 });
+    }
+    if (!Number.isInteger(moneyAccountId) || moneyAccountId <= 0) {
+      return NextResponse.json({ error: "Choose the account the statement is for" }, { status: 400 });
+    }
+
+    const content = await file.text();
+    const format = detectStatementFormat(file.name, content);
+    let mapping: CsvColumnMapping | null = null;
+    if (format === "csv") {
+      try {
+        mapping = JSON.parse(String(formData.get("mapping") ?? "null"));
+      } catch {
+        mapping = null;
+      }
+      const mappingError = validateCsvMapping(mapping);
+      if (mappingError) {
+        return NextResponse.json({ error: mappingError }, { status: 400 });
+      }
+    }
+
+    let lines: ParsedStatementLine[];
+    try {
+      lines = parseStatementFile(format, content, mapping);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : "Could not read the statement" },
+        { status: 400 }
+      );
+    }
+    if (lines.length === 0) {
+      return NextResponse.json({ error: "No transactions found in the statement" }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await assertMoneyAccount(connection!, userId, moneyAccountId);
+    await connection!.beginTransaction();
+
+    let result: { statementId: number; imported: number; duplicates: number; matched: number };
+    try {
+      const imported = await importStatement(connection!, userId, {
+        moneyAccountId,
+        fileName: file.name,
+        format,
+        columnMapping: mapping,
+        lines,
+      });
+      const matched = await autoMatchStatement(connection!, userId, imported.statementId);
+      await connection!.commit();
+      result = { ...imported, matched };
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
+    }
+
+    return NextResponse.json({ success: true, format, ...result }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("[POST] /api/bank-statements error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to import statement" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
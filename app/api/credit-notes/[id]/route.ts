@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function isAuthError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.message === "Unauthorized" ||
+      error.message === "Invalid token" ||
+      error.message === "Invalid or expired token")
+  );
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT
+        cn.id,
+        cn.credit_note_number,
+        DATE_FORMAT(cn.date, '%Y-%m-%d') AS date,
+        cn.reason, cn.refund_mode,
+        cn.subtotal, cn.total_tax, cn.total,
+        cn.due_adjusted, cn.refund_amount,
+        r.id AS receipt_id,
+        r.receipt_number,
+        DATE_FORMAT(r.date, '%Y-%m-%d') AS receipt_date,
+        r.customer_name, r.customer_contact, r.customer_country_code,
+        u.store_name AS storeName,
+        u.store_address AS storeAddress,
+        u.store_contact AS storeContact,
+        u.store_country_code AS storeCountryCode,
+        u.gst_number AS gstNumber
+       FROM credit_notes cn
+       JOIN receipts r ON cn.receipt_id = r.id
+       JOIN users u ON cn.user_id = u.id
+       WHERE cn.id = ? AND cn.user_id = ?
+       LIMIT 1`,
+      [id, userId]
+    );
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "Credit note not found" },
+        { status: 404 }
+      );
+    }
+
+    const creditNote = rows[0];
+
+    const [items] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT
+        id, receipt_item_id AS receiptItemId, description, quantity,
+        unit_price AS unitPrice,
+        taxable_amount AS taxableAmount,
+        tax_amount AS taxAmount
+       FROM credit_note_items
+       WHERE credit_note_id = ?
+       ORDER BY id ASC`,
+      [id]
+    );
+
+    return NextResponse.json({
+      id: creditNote.id,
+      creditNoteNumber: creditNote.credit_note_number,
+      date: creditNote.date,
+      reason: creditNote.reason || null,
+      refundMode: creditNote.refund_mode,
+      subtotal: Number(creditNote.subtotal) || 0,
+      totalTax: Number(creditNote.total_tax) || 0,
+      total: Number(creditNote.total) || 0,
+      dueAdjusted: Number(creditNote.due_adjusted) || 0,
+      refundAmount: Number(creditNote.refund_amount) || 0,
+      receiptId: creditNote.receipt_id,
+      receiptNumber: creditNote.receipt_number,
+      receiptDate: creditNote.receipt_date,
+      customerName: creditNote.customer_name,
+      customerContact: creditNote.customer_contact,
+      customerCountryCode: creditNote.customer_country_code,
+      items: items.map((item) => ({
+        ...item,
+        unitPrice: Number(item.unitPrice) || 0,
+        taxableAmount: Number(item.taxableAmount) || 0,
+        taxAmount: Number(item.taxAmount) || 0,
+      })),
+      storeInfo: {
+        name: creditNote.storeName,
+        address: creditNote.storeAddress,
+        contact: creditNote.storeContact,
+        countryCode: creditNote.storeCountryCode,
+        gstNumber: creditNote.gstNumber,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("[GET] /api/credit-notes/[id] error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 401 });
+    }
+    return NextResponse.json({ error: "Failed to load credit note" }, { status: 500 });
+  } finally {
+    if (connection) await connection.release();
+  }
+}
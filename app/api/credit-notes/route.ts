@@ -0,0 +1,503 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { formatDateOnlyForMySQL, refreshDueBalance } from "@/lib/receipts";
+import { calculateReceiptTotals, roundCurrency } from "@/lib/receipt-totals";
+import { publishEvent } from "@/lib/events";
+import { resolveMoneyAccountId } from "@/lib/money-accounts";
+import { postCreditNoteJournal, postTransactionJournal } from "@/lib/ledger";
+import { settleDueCharges } from "@/lib/late-fees";
+
+interface CreditNoteItemInput {
+  receiptItemId: number;
+  quantity: number;
+}
+
+interface CreditNoteBody {
+  receiptId: number;
+  date?: string;
+  reason?: string;
+  refundMode?: "cash" | "online";
+  items: CreditNoteItemInput[];
+}
+
+interface CreditNoteLine {
+  receiptItemId: number;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function isAuthError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.message === "Unauthorized" ||
+      error.message === "Invalid token" ||
+      error.message === "Invalid or expired token")
+  );
+}
+
+// A return that can't be accepted as sent; reported as a 400
+class CreditNoteRequestError extends Error {}
+
+function validateCreditNoteBody(body: CreditNoteBody): string | null {
+  if (!body.receiptId || isNaN(Number(body.receiptId))) {
+    return "Original receipt is required";
+  }
+
+  if (body.refundMode && !["cash", "online"].includes(body.refundMode)) {
+    return "Refund mode must be one of: cash, online";
+  }
+
+  if (body.date && isNaN(new Date(body.date).getTime())) {
+    return "Invalid credit note date";
+  }
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    return "At least one returned item is required";
+  }
+
+  const seen = new Set<number>();
+  for (const [index, item] of body.items.entries()) {
+    if (!item.receiptItemId) {
+      return `Returned item ${index + 1} must reference a receipt line`;
+    }
+    if (seen.has(Number(item.receiptItemId))) {
+      return `Returned item ${index + 1} is listed more than once`;
+    }
+    seen.add(Number(item.receiptItemId));
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      return `Returned item ${index + 1} quantity must be a positive whole number`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Credit notes use their own series so they never collide with receipt numbers.
+ * The user's row is locked first: with no notes yet there is nothing else to
+ * lock, and two first notes would otherwise get the same number.
+ */
+async function generateCreditNoteNumber(
+  connection: mysql.PoolConnection,
+  userId: string
+): Promise<string> {
+  await connection.query(`SELECT id FROM users WHERE id = ? FOR UPDATE`, [userId]);
+
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT credit_note_number FROM credit_notes
+     WHERE user_id = ? ORDER BY id DESC LIMIT 1 FOR UPDATE`,
+    [userId]
+  );
+
+  let nextNumber = 1;
+  if (rows.length > 0) {
+    const match = rows[0].credit_note_number.match(/(\d+)$/);
+    if (match) {
+      nextNumber = parseInt(match[1], 10) + 1;
+    }
+  }
+
+  return `CN${userId}-${nextNumber.toString().padStart(5, "0")}`;
+}
+
+/**
+ * Price each returned line at the net (post-discount) unit rate actually
+ * charged, and reverse the same share of the line's GST.
+ */
+async function buildCreditNoteLines(
+  connection: mysql.PoolConnection,
+  receipt: mysql.RowDataPacket,
+  items: CreditNoteItemInput[]
+): Promise<CreditNoteLine[]> {
+  const [receiptItems] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      ri.id, ri.description, ri.quantity, ri.price, ri.tax_amount,
+      ri.discount, ri.discount_type,
+      (SELECT COALESCE(SUM(cni.quantity), 0)
+       FROM credit_note_items cni
+       WHERE cni.receipt_item_id = ri.id) AS returned_quantity
+     FROM receipt_items ri
+     WHERE ri.receipt_id = ?
+     ORDER BY ri.id ASC
+     FOR UPDATE`,
+    [receipt.id]
+  );
+
+  // Same allocation as when the receipt was saved, including its share of
+  // any whole-receipt discount
+  const { lines: amounts } = calculateReceiptTotals(
+    receiptItems.map((ri) => ({
+      quantity: Number(ri.quantity),
+      price: Number(ri.price),
+      discount: Number(ri.discount),
+      discountType: ri.discount_type,
+    })),
+    { discount: Number(receipt.discount_amount), discountType: "fixed" }
+  );
+
+  return items.map((item, index) => {
+    const lineIndex = receiptItems.findIndex(
+      (ri) => ri.id === Number(item.receiptItemId)
+    );
+    const line = receiptItems[lineIndex];
+    if (!line) {
+      throw new CreditNoteRequestError(`Returned item ${index + 1} is not on the original receipt`);
+    }
+
+    const remaining = Number(line.quantity) - Number(line.returned_quantity);
+    if (item.quantity > remaining) {
+      throw new CreditNoteRequestError(
+        `Only ${remaining} of "${line.description}" can still be returned`
+      );
+    }
+
+    const netAmount = amounts[lineIndex].taxable;
+    const share = item.quantity / Number(line.quantity);
+    return {
+      receiptItemId: line.id,
+      description: line.description,
+      quantity: item.quantity,
+      unitPrice: roundCurrency(netAmount / Number(line.quantity)),
+      taxableAmount: roundCurrency(netAmount * share),
+      taxAmount: roundCurrency(Number(line.tax_amount) * share),
+    };
+  });
+}
+
+/**
+ * Returned value first cancels what the customer still owes on the receipt.
+ * Returns the amount that was absorbed by the open due.
+ */
+async function offsetOpenDue(
+  connection: mysql.PoolConnection,
+  receipt: mysql.RowDataPacket,
+  creditTotal: number,
+  userId: string
+): Promise<number> {
+  const [dueRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, amount_due, amount_paid FROM due_records
+     WHERE receipt_number = ? AND user_id = ? AND is_paid = FALSE
+     AND status IN ('open', 'disputed')
+     ORDER BY expected_payment_date ASC
+     FOR UPDATE`,
+    [receipt.receipt_number, userId]
+  );
+
+  let remaining = creditTotal;
+  let adjusted = 0;
+
+  for (const due of dueRows) {
+    if (remaining <= 0) break;
+
+    const outstanding = roundCurrency(Number(due.amount_due) - Number(due.amount_paid));
+    const applied = roundCurrency(Math.min(remaining, outstanding));
+
+    if (applied >= outstanding) {
+      // Closed at what was paid, which may be nothing. The record stays for
+      // its payments, reminders and charges; charges not yet collected are
+      // waived, since nothing is owed any more
+      await connection.query(
+        `UPDATE due_records
+         SET amount_due = amount_paid, is_paid = TRUE, paid_at = NOW()
+         WHERE id = ?`,
+        [due.id]
+      );
+      await settleDueCharges(connection, userId, due.id, { waive: true });
+    } else {
+      await connection.query(
+        `UPDATE due_records SET amount_due = amount_due - ? WHERE id = ?`,
+        [applied, due.id]
+      );
+    }
+
+    remaining = roundCurrency(remaining - applied);
+    adjusted = roundCurrency(adjusted + applied);
+  }
+
+  if (adjusted > 0) {
+    await connection.query(
+      `UPDATE receipts SET due_total = GREATEST(due_total - ?, 0) WHERE id = ?`,
+      [adjusted, receipt.id]
+    );
+    await refreshDueBalance(connection, userId);
+  }
+
+  return adjusted;
+}
+
+/**
+ * What the customer has actually paid on the receipt and not yet had back,
+ * after the current note has offset its share of the open due. Balances on
+ * written-off or cancelled dues were never collected, so they can't be
+ * refunded in cash.
+ */
+async function collectedOnReceipt(
+  connection: mysql.PoolConnection,
+  receipt: mysql.RowDataPacket,
+  creditNoteId: number,
+  dueAdjusted: number,
+  userId: string
+): Promise<number> {
+  const [dueRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT COALESCE(SUM(amount_due - amount_paid), 0) AS unpaid
+     FROM due_records
+     WHERE receipt_number = ? AND user_id = ? AND is_paid = FALSE`,
+    [receipt.receipt_number, userId]
+  );
+  const [noteRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT COALESCE(SUM(due_adjusted + refund_amount), 0) AS settled
+     FROM credit_notes
+     WHERE receipt_id = ? AND user_id = ? AND id <> ?`,
+    [receipt.id, userId, creditNoteId]
+  );
+
+  return roundCurrency(
+    Number(receipt.total) -
+      Number(dueRows[0].unpaid) -
+      Number(noteRows[0].settled) -
+      dueAdjusted
+  );
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { searchParams } = new URL(request.url);
+    const receiptId = searchParams.get("receiptId");
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT
+        cn.id,
+        cn.credit_note_number AS creditNoteNumber,
+        DATE_FORMAT(cn.date, '%Y-%m-%d') AS date,
+        cn.reason,
+        cn.refund_mode AS refundMode,
+        cn.subtotal,
+        cn.total_tax AS totalTax,
+        cn.total,
+        cn.due_adjusted AS dueAdjusted,
+        cn.refund_amount AS refundAmount,
+        cn.receipt_id AS receiptId,
+        r.receipt_number AS receiptNumber,
+        r.customer_name AS customerName
+       FROM credit_notes cn
+       JOIN receipts r ON cn.receipt_id = r.id
+       WHERE cn.user_id = ?
+       ${receiptId ? "AND cn.receipt_id = ?" : ""}
+       ORDER BY cn.date DESC, cn.id DESC`,
+      receiptId ? [userId, receiptId] : [userId]
+    );
+
+    const creditNotes = rows.map((row) => ({
+      ...row,
+      subtotal: Number(row.subtotal) || 0,
+      totalTax: Number(row.totalTax) || 0,
+      total: Number(row.total) || 0,
+      dueAdjusted: Number(row.dueAdjusted) || 0,
+      refundAmount: Number(row.refundAmount) || 0,
+    }));
+
+    return NextResponse.json(creditNotes);
+  } catch (error: unknown) {
+    console.error("[GET] /api/credit-notes error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 401 });
+    }
+    return NextResponse.json({ error: "Failed to load credit notes" }, { status: 500 });
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function POST(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: CreditNoteBody = await request.json();
+
+    const validationError = validateCreditNoteBody(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    try {
+      const [receipts] = await connection!.query<mysql.RowDataPacket[]>(
+        `SELECT id, receipt_number, customer_name, status, discount_amount, total
+         FROM receipts
+         WHERE id = ? AND user_id = ?
+         FOR UPDATE`,
+        [body.receiptId, userId]
+      );
+
+      if (receipts.length === 0) {
+        throw new Error("Receipt not found");
+      }
+
+      const receipt = receipts[0];
+      if (receipt.status === "void") {
+        throw new CreditNoteRequestError("Credit notes cannot be issued against a voided receipt");
+      }
+
+      const lines = await buildCreditNoteLines(connection!, receipt, body.items);
+      const subtotal = roundCurrency(lines.reduce((sum, l) => sum + l.taxableAmount, 0));
+      const totalTax = roundCurrency(lines.reduce((sum, l) => sum + l.taxAmount, 0));
+      const total = roundCurrency(subtotal + totalTax);
+
+      if (total <= 0) {
+        throw new CreditNoteRequestError("Returned items have no value to credit");
+      }
+
+      const creditNoteNumber = await generateCreditNoteNumber(connection!, userId);
+      const creditNoteDate = formatDateOnlyForMySQL(body.date || new Date());
+      const refundMode = body.refundMode || "cash";
+
+      const [result] = await connection!.query<mysql.ResultSetHeader>(
+        `INSERT INTO credit_notes (
+          credit_note_number, receipt_id, date, reason, refund_mode,
+          subtotal, total_tax, total, user_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          creditNoteNumber,
+          receipt.id,
+          creditNoteDate,
+          body.reason?.trim() || null,
+          refundMode,
+          subtotal,
+          totalTax,
+          total,
+          userId,
+        ]
+      );
+      const creditNoteId = result.insertId;
+
+      for (const line of lines) {
+        await connection!.query(
+          `INSERT INTO credit_note_items (
+            credit_note_id, receipt_item_id, description, quantity,
+            unit_price, taxable_amount, tax_amount
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            creditNoteId,
+            line.receiptItemId,
+            line.description,
+            line.quantity,
+            line.unitPrice,
+            line.taxableAmount,
+            line.taxAmount,
+          ]
+        );
+      }
+
+      const dueAdjusted = await offsetOpenDue(connection!, receipt, total, userId);
+      const collected = await collectedOnReceipt(
+        connection!,
+        receipt,
+        creditNoteId,
+        dueAdjusted,
+        userId
+      );
+      const refundAmount = roundCurrency(
+        Math.max(Math.min(total - dueAdjusted, collected), 0)
+      );
+
+      let refundTransactionId: number | null = null;
+      if (refundAmount > 0) {
+        const moneyAccountId = await resolveMoneyAccountId(connection!, userId, refundMode);
+        const [refundResult] = await connection!.query<mysql.ResultSetHeader>(
+          `INSERT INTO account_transactions (
+            particulars, amount, type, user_id, receipt_id, credit_note_id,
+            money_account_id, transaction_date
+          ) VALUES (?, ?, 'debit', ?, ?, ?, ?, ?)`,
+          [
+            `Refund to ${receipt.customer_name} (Credit Note: ${creditNoteNumber}, Receipt: ${receipt.receipt_number})`,
+            refundAmount,
+            userId,
+            receipt.id,
+            creditNoteId,
+            moneyAccountId,
+            creditNoteDate,
+          ]
+        );
+        refundTransactionId = refundResult.insertId;
+        await postTransactionJournal(connection!, userId, refundTransactionId);
+      }
+
+      await connection!.query(
+        `UPDATE credit_notes SET due_adjusted = ?, refund_amount = ? WHERE id = ?`,
+        [dueAdjusted, refundAmount, creditNoteId]
+      );
+      await postCreditNoteJournal(connection!, userId, creditNoteId);
+
+      await connection!.commit();
+
+      if (refundTransactionId) {
+        publishEvent(userId, {
+          type: "transaction-added",
+          transactionId: refundTransactionId,
+          amount: refundAmount,
+          kind: "debit",
+        });
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          creditNoteId,
+          creditNoteNumber,
+          total,
+          dueAdjusted,
+          refundAmount,
+        },
+        { status: 201 }
+      );
+    } catch (error: unknown) {
+      await connection!.rollback();
+      throw error;
+    }
+  } catch (error: unknown) {
+    console.error("[POST] /api/credit-notes error:", error);
+
+    if (isAuthError(error)) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 401 });
+    }
+    if (error instanceof Error && error.message === "Receipt not found") {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof CreditNoteRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    return NextResponse.json({ error: "Failed to create credit note" }, { status: 500 });
+  } finally {
+    if (connection) await connection.release();
+  }
+}
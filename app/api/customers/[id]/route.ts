@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { loadCustomerLedger } from "@/lib/customers";
+import { isValidEmail } from "@/lib/reminder-templates";
+
+interface CustomerUpdateBody {
+  email?: string | null;
+}
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid customer ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const ledger = await loadCustomerLedger(connection!, userId, Number(id));
+    if (!ledger) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+    return NextResponse.json(ledger);
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to fetch customer";
+    console.error("Error in GET /api/customers/[id]:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
+
+// Contact details the receipt form doesn't capture, such as the email
+// address used for payment reminders
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid customer ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: CustomerUpdateBody = await request.json();
+    const email = body.email?.trim() || null;
+
+    if (email && (email.length > 255 || !isValidEmail(email))) {
+      return NextResponse.json({ error: "Enter a valid email address" }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `UPDATE customers SET email = ? WHERE id = ? AND user_id = ?`,
+      [email, id, userId]
+    );
+    if (result.affectedRows === 0) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ id: Number(id), email });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to update customer";
+    console.error("Error in PUT /api/customers/[id]:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import {
+  STATEMENT_FORMATS,
+  StatementFormat,
+  buildCustomerStatement,
+  getStatementFilename,
+  statementToCsv,
+  validateStatementPeriod,
+} from "@/lib/statements";
+import { renderStatementPdf } from "@/lib/statement-pdf";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid customer ID format" }, { status: 400 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const from = searchParams.get("from") || "";
+  const to = searchParams.get("to") || "";
+  const format = (searchParams.get("format") || "json") as StatementFormat;
+
+  const periodError = validateStatementPeriod(from, to);
+  if (periodError) {
+    return NextResponse.json({ error: periodError }, { status: 400 });
+  }
+  if (!STATEMENT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of ${STATEMENT_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const statement = await buildCustomerStatement(connection!, userId, Number(id), from, to);
+    if (!statement) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    if (format === "csv") {
+      return new NextResponse("\uFEFF" + statementToCsv(statement), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${getStatementFilename(statement, "csv")}"`,
+        },
+      });
+    }
+
+    if (format === "pdf") {
+      const pdf = renderStatementPdf(statement);
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${getStatementFilename(statement, "pdf")}"`,
+          "Content-Length": String(pdf.length),
+        },
+      });
+    }
+
+    return NextResponse.json(statement);
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to build statement";
+    console.error("Error in GET /api/customers/[id]/statement:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
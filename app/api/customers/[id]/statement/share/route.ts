@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { signStatementToken, verifyJwt } from "@/lib/auth";
+import {
+  DEFAULT_STATEMENT_LINK_DAYS,
+  MAX_STATEMENT_LINK_DAYS,
+  validateStatementPeriod,
+} from "@/lib/statements";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid customer ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: { from?: string; to?: string; expiresInDays?: number } =
+      await request.json();
+    const from = body.from || "";
+    const to = body.to || "";
+    const expiresInDays = body.expiresInDays ?? DEFAULT_STATEMENT_LINK_DAYS;
+
+    const periodError = validateStatementPeriod(from, to);
+    if (periodError) {
+      return NextResponse.json({ error: periodError }, { status: 400 });
+    }
+    if (
+      !Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > MAX_STATEMENT_LINK_DAYS
+    ) {
+      return NextResponse.json(
+        { error: `Links can last between 1 and ${MAX_STATEMENT_LINK_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [customers] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM customers WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    if (customers.length === 0) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
+    const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+    const token = signStatementToken(
+      { ownerId: userId, customerId: Number(id), from, to },
+      expiresAt
+    );
+
+    return NextResponse.json({ token, expiresAt: expiresAt.toISOString() }, { status: 201 });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to create statement link";
+    console.error("Error in POST /api/customers/[id]/statement/share:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
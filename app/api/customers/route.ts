@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { searchCustomers } from "@/lib/customers";
+
+const MAX_LIMIT = 100;
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get("search") || "";
+    const limit = Math.min(
+      parseInt(searchParams.get("limit") || "20") || 20,
+      MAX_LIMIT
+    );
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const customers = await searchCustomers(connection!, userId, search, limit);
+    return NextResponse.json(customers);
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to fetch customers";
+    console.error("Error in GET /api/customers:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import {
+  DuePaymentInput,
+  loadDuePayments,
+  recordDuePayment,
+  validateDuePayment,
+} from "@/lib/dues";
+import { publishEvent } from "@/lib/events";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function getStatus(errorMessage: string): number {
+  if (errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid token")) {
+    return 401;
+  }
+  return errorMessage === "Due record not found" ? 404 : 400;
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid due record ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [dueRecords] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM due_records WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    if (dueRecords.length === 0) {
+      return NextResponse.json({ error: "Due record not found" }, { status: 404 });
+    }
+
+    const payments = await loadDuePayments(connection!, [Number(id)]);
+    return NextResponse.json(payments.get(Number(id)) || []);
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to load due payments";
+    console.error("[GET] /api/due/[id]/payments error:", error);
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: getStatus(errorMessage) === 401 ? 401 : 500 }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid due record ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: DuePaymentInput = await request.json();
+
+    const validationError = validateDuePayment(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    try {
+      const result = await recordDuePayment(connection!, userId, Number(id), body);
+      await connection!.commit();
+      publishEvent(userId, {
+        type: "due-paid",
+        dueId: Number(id),
+        amount: result.payment.amount,
+        isPaid: result.isPaid,
+      });
+      return NextResponse.json(result, { status: 201 });
+    } catch (error: unknown) {
+      await connection!.rollback();
+      throw error;
+    }
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to record payment";
+    console.error("[POST] /api/due/[id]/payments error:", error);
+    return NextResponse.json({ error: errorMessage }, { status: getStatus(errorMessage) });
+  } finally {
+    if (connection) await connection.release();
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { changeDueStatus, DueStatusInput, validateDueStatusInput } from "@/lib/dues";
+import { publishEvent } from "@/lib/events";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function getStatus(errorMessage: string): number {
+  if (errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid token")) {
+    return 401;
+  }
+  return errorMessage === "Due record not found" ? 404 : 400;
+}
+
+// Dispute, reopen, write off or cancel an unpaid due
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid due record ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: DueStatusInput = await request.json();
+
+    const validationError = validateDueStatusInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    try {
+      const result = await changeDueStatus(connection!, userId, Number(id), body);
+      await connection!.commit();
+      publishEvent(userId, {
+        type: "due-status-changed",
+        dueId: Number(id),
+        status: result.status,
+      });
+      return NextResponse.json(result);
+    } catch (error: unknown) {
+      await connection!.rollback();
+      throw error;
+    }
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to update due status";
+    console.error("[PATCH] /api/due/[id] error:", error);
+    return NextResponse.json({ error: errorMessage }, { status: getStatus(errorMessage) });
+  } finally {
+    if (connection) await connection.release();
+  }
+}
@@ -2,6 +2,10 @@ import { NextResponse } from "next/server";
 import mysql from "mysql2/promise";
 import { getPool } from "@/lib/database";
 import { verifyJwt } from "@/lib/auth";
+import { DUE_STATUSES, DueStatus, loadDuePayments, recordDuePayment } from "@/lib/dues";
+import { publishEvent } from "@/lib/events";
+import { loadDueCharges, settleDueCharges } from "@/lib/late-fees";
+import { roundCurrency } from "@/lib/receipt-totals";
 
 interface DueRecord {
   id: number;
@@ -11,6 +15,7 @@ interface DueRecord {
   product_ordered: string;
   quantity: number;
   amount_due: number;
+  amount_paid: number;
   expected_payment_date: string;
   created_at: string;
   is_paid: boolean;
@@ -33,6 +38,8 @@ interface JwtPayload {
 
 interface PaymentRequest {
   id: number;
+  // Settle without collecting the late fees and interest accrued so far
+  waiveCharges?: boolean;
 }
 
 async function verifyToken(request: Request): Promise<string> {
@@ -50,9 +57,18 @@ export async function GET(request: Request) {
 
   try {
     const userId = await verifyToken(request);
+    const status = (new URL(request.url).searchParams.get("status") || "open") as DueStatus;
+    if (!DUE_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: "Status must be open, disputed, written_off or cancelled" },
+        { status: 400 }
+      );
+    }
+
     const pool = await getPool();
     connection = await pool.getConnection();
 
+    // Paid dues stay listed while late charges on them are still open
     const [dueRecords] = await connection!.query<mysql.RowDataPacket[]>(
       `SELECT 
         id, 
@@ -62,15 +78,38 @@ export async function GET(request: Request) {
         product_ordered,
         quantity,
         amount_due, 
+        amount_paid,
         expected_payment_date,
         created_at,
         is_paid,
         paid_at,
-        receipt_number
-       FROM due_records
-       WHERE user_id = ? AND is_paid = FALSE
-       ORDER BY expected_payment_date ASC`,
-      [userId]
+        receipt_number,
+        installment_number,
+        installment_count,
+        status,
+        status_reason,
+        DATE_FORMAT(status_date, '%Y-%m-%d') AS status_date
+       FROM due_records d
+       WHERE user_id = ? AND status = ?
+       AND (
+         is_paid = FALSE
+         OR EXISTS (
+           SELECT 1 FROM due_charges c
+           WHERE c.due_record_id = d.id AND c.status = 'outstanding'
+         )
+       )
+       ORDER BY ${status === "open" ? "expected_payment_date ASC" : "status_date DESC, id DESC"}`,
+      [userId, status]
+    );
+
+    const payments = await loadDuePayments(
+      connection!,
+      dueRecords.map((record) => record.id)
+    );
+    const charges = await loadDueCharges(
+      connection!,
+      dueRecords.map((record) => record.id),
+      { outstandingOnly: true }
     );
 
     const transformedRecords = dueRecords.map((record) => ({
@@ -81,12 +120,26 @@ export async function GET(request: Request) {
       productOrdered: record.product_ordered || "Unknown Product",
       quantity: Number(record.quantity) || 0,
       amountDue: Number(record.amount_due) || 0,
+      amountPaid: Number(record.amount_paid) || 0,
+      remaining: roundCurrency(
+        (Number(record.amount_due) || 0) - (Number(record.amount_paid) || 0)
+      ),
+      payments: payments.get(record.id) || [],
+      charges: charges.get(record.id) || [],
+      chargesOutstanding: roundCurrency(
+        (charges.get(record.id) || []).reduce((sum, charge) => sum + charge.amount, 0)
+      ),
       expectedPaymentDate:
         record.expected_payment_date || new Date().toISOString(),
       createdAt: record.created_at || new Date().toISOString(),
       isPaid: Boolean(record.is_paid),
       paidAt: record.paid_at || null,
       receiptNumber: record.receipt_number || null,
+      installmentNumber: Number(record.installment_number) || 1,
+      installmentCount: Number(record.installment_count) || 1,
+      status: record.status,
+      statusReason: record.status_reason || null,
+      statusDate: record.status_date || null,
     }));
 
     return NextResponse.json(transformedRecords);
@@ -144,11 +197,17 @@ export async function PUT(request: Request) {
     await connection!.beginTransaction();
 
     try {
-      // 1. Get the due record details first (before updating)
+      // Settle whatever is still outstanding as a single payment, then
+      // collect or waive the late charges
       const [dueRecords] = await connection!.query<mysql.RowDataPacket[]>(
-        `SELECT customer_name, amount_due, is_paid, receipt_number
-         FROM due_records 
-         WHERE id = ? AND user_id = ?`,
+        `SELECT amount_due - amount_paid AS remaining, is_paid,
+                EXISTS (
+                  SELECT 1 FROM due_charges c
+                  WHERE c.due_record_id = d.id AND c.status = 'outstanding'
+                ) AS has_charges
+         FROM due_records d
+         WHERE id = ? AND user_id = ?
+         FOR UPDATE`,
         [dueId, userId]
       );
 
@@ -156,30 +215,36 @@ export async function PUT(request: Request) {
         throw new Error("Due record not found");
       }
 
-      const dueRecord = dueRecords[0];
-
-      if (dueRecord.is_paid) {
+      if (dueRecords[0].is_paid && !dueRecords[0].has_charges) {
         throw new Error("Due record is already paid");
       }
 
-      // 2. Mark the due record as paid
-      const [updateResult] = await connection!.query<mysql.ResultSetHeader>(
-        `UPDATE due_records 
-         SET is_paid = TRUE, paid_at = NOW()
-         WHERE id = ? AND user_id = ? AND is_paid = FALSE`,
-        [dueId, userId]
-      );
-
-      if (updateResult.affectedRows === 0) {
-        throw new Error("Failed to update due record");
+      const principalPaid = dueRecords[0].is_paid ? 0 : Number(dueRecords[0].remaining);
+      if (principalPaid > 0) {
+        await recordDuePayment(connection!, userId, dueId, {
+          amount: principalPaid,
+        });
       }
 
+      const { collected, waived } = await settleDueCharges(connection!, userId, dueId, {
+        waive: requestData.waiveCharges === true,
+      });
+      const amountProcessed = roundCurrency(principalPaid + collected);
+
       await connection!.commit();
+      publishEvent(userId, {
+        type: "due-paid",
+        dueId,
+        amount: amountProcessed,
+        isPaid: true,
+      });
 
       return NextResponse.json({
         success: true,
         message: "Payment processed successfully",
-        amountProcessed: Number(dueRecord.amount_due),
+        amountProcessed,
+        chargesCollected: collected,
+        chargesWaived: waived,
       });
     } catch (error: unknown) {
       await connection!.rollback();
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { verifyJwt, verifyStreamToken } from "@/lib/auth";
+import { LiveEvent, subscribeEvents } from "@/lib/events";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+// EventSource cannot set headers, so the browser passes a short-lived
+// stream token from POST /api/events/token as ?token=
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    const userId = await verifyJwt(authHeader.split(" ")[1]);
+    if (!userId) {
+      throw new Error("Invalid token");
+    }
+    return userId;
+  }
+
+  const token = new URL(request.url).searchParams.get("token");
+  if (!token) {
+    throw new Error("Unauthorized");
+  }
+  const userId = verifyStreamToken(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function GET(request: Request) {
+  let userId: string;
+  try {
+    userId = await verifyToken(request);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unauthorized";
+    return NextResponse.json({ error: errorMessage }, { status: 401 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeEvents(userId, (event: LiveEvent) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        request.signal.removeEventListener("abort", onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // already closed
+        }
+      };
+      request.signal.addEventListener("abort", onAbort);
+
+      write("retry: 5000\n\n");
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { signStreamToken, verifyJwt } from "@/lib/auth";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+// A token for opening GET /api/events, which EventSource can only authenticate by URL
+export async function POST(request: Request) {
+  try {
+    const userId = await verifyToken(request);
+    return NextResponse.json({ token: signStreamToken(String(userId)) });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unauthorized";
+    return NextResponse.json({ error: errorMessage }, { status: 401 });
+  }
+}
@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { toExpenseCategory, validateExpenseCategoryName } from "@/lib/expenses";
+
+interface ExpenseCategoryUpdateBody {
+  name?: string;
+  isActive?: boolean;
+}
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function validateExpenseCategoryUpdate(body: ExpenseCategoryUpdateBody): string | null {
+  if (body.name !== undefined) {
+    const nameError = validateExpenseCategoryName(body.name);
+    if (nameError) return nameError;
+  }
+  if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+    return "isActive must be true or false";
+  }
+  return null;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+    const body: ExpenseCategoryUpdateBody = await request.json();
+
+    const validationError = validateExpenseCategoryUpdate(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    // Transactions link to the category, so a rename shows on past expenses too
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `UPDATE expense_categories
+       SET name = COALESCE(?, name),
+           is_active = COALESCE(?, is_active)
+       WHERE id = ? AND user_id = ?`,
+      [body.name?.trim() ?? null, body.isActive ?? null, id, userId]
+    );
+
+    if (result.affectedRows === 0) {
+      return NextResponse.json({ error: "Expense category not found" }, { status: 404 });
+    }
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id, name, is_active FROM expense_categories WHERE id = ?`,
+      [id]
+    );
+
+    return NextResponse.json(toExpenseCategory(rows[0]));
+  } catch (error: unknown) {
+    console.error("[PUT] /api/expense-categories/[id] error:", error);
+
+    if ((error as any).code === "ER_DUP_ENTRY") {
+      return NextResponse.json(
+        { error: "A category with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update category" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [categories] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM expense_categories WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    if (categories.length === 0) {
+      return NextResponse.json({ error: "Expense category not found" }, { status: 404 });
+    }
+
+    const [usage] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT 1 FROM account_transactions WHERE expense_category_id = ? LIMIT 1`,
+      [id]
+    );
+
+    // Categories already on expenses are retired instead, so reports keep them
+    if (usage.length > 0) {
+      await connection!.query(
+        `UPDATE expense_categories SET is_active = FALSE WHERE id = ?`,
+        [id]
+      );
+      return NextResponse.json({ success: true, deactivated: true });
+    }
+
+    await connection!.query(`DELETE FROM expense_categories WHERE id = ?`, [id]);
+    return NextResponse.json({ success: true, deactivated: false });
+  } catch (error: unknown) {
+    console.error("[DELETE] /api/expense-categories/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete category" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
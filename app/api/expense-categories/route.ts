@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import {
+  DEFAULT_EXPENSE_CATEGORIES,
+  toExpenseCategory,
+  validateExpenseCategoryName,
+} from "@/lib/expenses";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { searchParams } = new URL(request.url);
+    const activeOnly = searchParams.get("active") === "true";
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [existing] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT COUNT(*) AS count FROM expense_categories WHERE user_id = ?`,
+      [userId]
+    );
+    if (Number(existing[0].count) === 0) {
+      for (const name of DEFAULT_EXPENSE_CATEGORIES) {
+        await connection!.query(
+          `INSERT IGNORE INTO expense_categories (user_id, name) VALUES (?, ?)`,
+          [userId, name]
+        );
+      }
+    }
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id, name, is_active
+       FROM expense_categories
+       WHERE user_id = ? ${activeOnly ? "AND is_active = TRUE" : ""}
+       ORDER BY name ASC`,
+      [userId]
+    );
+
+    return NextResponse.json(rows.map(toExpenseCategory));
+  } catch (error: unknown) {
+    console.error("[GET] /api/expense-categories error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Database error" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function POST(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: { name?: string } = await request.json();
+
+    const validationError = validateExpenseCategoryName(body.name);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `INSERT INTO expense_categories (user_id, name) VALUES (?, ?)`,
+      [userId, body.name!.trim()]
+    );
+
+    return NextResponse.json(
+      { id: result.insertId, name: body.name!.trim(), isActive: true },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("[POST] /api/expense-categories error:", error);
+
+    if ((error as any).code === "ER_DUP_ENTRY") {
+      return NextResponse.json(
+        { error: "A category with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create category" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
@@ -0,0 +1,175 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+
+interface GstSlabUpdateBody {
+  slabName?: string;
+  percentage?: number;
+  isActive?: boolean;
+}
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function validateGstSlabUpdate(body: GstSlabUpdateBody): string | null {
+  if (body.slabName !== undefined) {
+    if (!body.slabName.trim()) return "Slab name is required";
+    if (body.slabName.trim().length > 50) {
+      return "Slab name must be 50 characters or fewer";
+    }
+  }
+  if (
+    body.percentage !== undefined &&
+    (typeof body.percentage !== "number" ||
+      isNaN(body.percentage) ||
+      body.percentage < 0 ||
+      body.percentage > 28)
+  ) {
+    return "GST percentage must be between 0 and 28";
+  }
+  if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+    return "isActive must be true or false";
+  }
+  return null;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+    const body: GstSlabUpdateBody = await request.json();
+
+    const validationError = validateGstSlabUpdate(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    // Receipt items keep their own gst_rate, so changing a slab never
+    // rewrites tax on receipts already issued
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `UPDATE gst_slabs
+       SET slab_name = COALESCE(?, slab_name),
+           percentage = COALESCE(?, percentage),
+           is_active = COALESCE(?, is_active)
+       WHERE id = ? AND user_id = ?`,
+      [
+        body.slabName?.trim() ?? null,
+        body.percentage ?? null,
+        body.isActive ?? null,
+        id,
+        userId,
+      ]
+    );
+
+    if (result.affectedRows === 0) {
+      return NextResponse.json({ error: "GST slab not found" }, { status: 404 });
+    }
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id, slab_name, percentage, is_active FROM gst_slabs WHERE id = ?`,
+      [id]
+    );
+
+    return NextResponse.json({
+      id: rows[0].id,
+      slabName: rows[0].slab_name,
+      percentage: Number(rows[0].percentage),
+      isActive: !!rows[0].is_active,
+    });
+  } catch (error: unknown) {
+    console.error("[PUT] /api/gst-slabs/[id] error:", error);
+
+    if ((error as any).code === "ER_DUP_ENTRY") {
+      return NextResponse.json(
+        { error: "A slab with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update GST slab" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [slabs] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM gst_slabs WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    if (slabs.length === 0) {
+      return NextResponse.json({ error: "GST slab not found" }, { status: 404 });
+    }
+
+    const [usage] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT 1 FROM receipt_items WHERE gst_slab_id = ? LIMIT 1`,
+      [id]
+    );
+
+    // Slabs already on receipts are retired instead, so the link survives
+    if (usage.length > 0) {
+      await connection!.query(
+        `UPDATE gst_slabs SET is_active = FALSE WHERE id = ?`,
+        [id]
+      );
+      return NextResponse.json({ success: true, deactivated: true });
+    }
+
+    await connection!.query(`DELETE FROM gst_slabs WHERE id = ?`, [id]);
+    return NextResponse.json({ success: true, deactivated: false });
+  } catch (error: unknown) {
+    console.error("[DELETE] /api/gst-slabs/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete GST slab" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
@@ -0,0 +1,161 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+
+interface GstSlabBody {
+  slabName?: string;
+  percentage?: number;
+}
+
+// Seeded the first time a user opens their slabs so the picker is never empty
+const DEFAULT_SLABS = [0, 5, 12, 18, 28];
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function validateGstSlabBody(body: GstSlabBody): string | null {
+  if (!body.slabName?.trim()) return "Slab name is required";
+  if (body.slabName.trim().length > 50) {
+    return "Slab name must be 50 characters or fewer";
+  }
+  if (
+    typeof body.percentage !== "number" ||
+    isNaN(body.percentage) ||
+    body.percentage < 0 ||
+    body.percentage > 28
+  ) {
+    return "GST percentage must be between 0 and 28";
+  }
+  return null;
+}
+
+const toGstSlab = (row: mysql.RowDataPacket) => ({
+  id: row.id,
+  slabName: row.slab_name,
+  percentage: Number(row.percentage),
+  isActive: !!row.is_active,
+});
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { searchParams } = new URL(request.url);
+    const activeOnly = searchParams.get("active") === "true";
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [existing] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT COUNT(*) AS count FROM gst_slabs WHERE user_id = ?`,
+      [userId]
+    );
+    if (Number(existing[0].count) === 0) {
+      for (const percentage of DEFAULT_SLABS) {
+        await connection!.query(
+          `INSERT IGNORE INTO gst_slabs (user_id, slab_name, percentage)
+           VALUES (?, ?, ?)`,
+          [userId, `GST ${percentage}%`, percentage]
+        );
+      }
+    }
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id, slab_name, percentage, is_active
+       FROM gst_slabs
+       WHERE user_id = ? ${activeOnly ? "AND is_active = TRUE" : ""}
+       ORDER BY percentage ASC, slab_name ASC`,
+      [userId]
+    );
+
+    return NextResponse.json(rows.map(toGstSlab));
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Database error";
+    console.error("[GET] /api/gst-slabs error:", error);
+
+    return NextResponse.json(
+      { error: errorMessage },
+      {
+        status:
+          error instanceof Error &&
+          (error.message.includes("Unauthorized") ||
+            error.message.includes("Invalid"))
+            ? 401
+            : 500,
+      }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function POST(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: GstSlabBody = await request.json();
+
+    const validationError = validateGstSlabBody(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `INSERT INTO gst_slabs (user_id, slab_name, percentage) VALUES (?, ?, ?)`,
+      [userId, body.slabName!.trim(), body.percentage]
+    );
+
+    return NextResponse.json(
+      {
+        id: result.insertId,
+        slabName: body.slabName!.trim(),
+        percentage: body.percentage,
+        isActive: true,
+      },
+      { status: 201 }
+    );
+  } catch (error: unknown) {
+    console.error("[POST] /api/gst-slabs error:", error);
+
+    if ((error as any).code === "ER_DUP_ENTRY") {
+      return NextResponse.json(
+        { error: "A slab with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to create GST slab";
+    return NextResponse.json(
+      { error: errorMessage },
+      {
+        status:
+          error instanceof Error &&
+          (error.message.includes("Unauthorized") ||
+            error.message.includes("Invalid"))
+            ? 401
+            : 500,
+      }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
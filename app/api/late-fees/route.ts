@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import {
+  LateFeeSettings,
+  loadLateFeeSettings,
+  saveLateFeeSettings,
+  validateLateFeeSettings,
+} from "@/lib/late-fees";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    return NextResponse.json(await loadLateFeeSettings(connection!, userId));
+  } catch (error: unknown) {
+    console.error("[GET] /api/late-fees error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to load late fee settings";
+    return NextResponse.json({ error: errorMessage }, { status: errorStatus(error) });
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function PUT(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: Partial<LateFeeSettings> = await request.json();
+
+    const validationError = validateLateFeeSettings(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    await saveLateFeeSettings(connection!, userId, body as LateFeeSettings);
+    return NextResponse.json(await loadLateFeeSettings(connection!, userId));
+  } catch (error: unknown) {
+    console.error("[PUT] /api/late-fees error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to save late fee settings";
+    return NextResponse.json({ error: errorMessage }, { status: errorStatus(error) });
+  } finally {
+    if (connection) await connection.release();
+  }
+}
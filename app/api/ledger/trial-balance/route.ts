@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { format } from "date-fns";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { buildTrialBalance, trialBalanceToCsv } from "@/lib/ledger";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { searchParams } = new URL(request.url);
+    const asOf = searchParams.get("asOf") || format(new Date(), "yyyy-MM-dd");
+    const responseFormat = searchParams.get("format") || "json";
+
+    if (!DATE_PATTERN.test(asOf)) {
+      return NextResponse.json(
+        { error: "asOf must be a date in YYYY-MM-DD format" },
+        { status: 400 }
+      );
+    }
+    if (responseFormat !== "json" && responseFormat !== "csv") {
+      return NextResponse.json(
+        { error: "format must be json or csv" },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const trialBalance = await buildTrialBalance(connection!, userId, asOf);
+
+    if (responseFormat === "csv") {
+      return new NextResponse("\uFEFF" + trialBalanceToCsv(trialBalance), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="trial_balance_${asOf}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(trialBalance);
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to prepare trial balance";
+    console.error("Error in GET /api/ledger/trial-balance:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import {
+  MoneyAccountInput,
+  loadMoneyAccounts,
+  validateMoneyAccountInput,
+} from "@/lib/money-accounts";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  if (error instanceof Error && error.message === "Money account not found") {
+    return 404;
+  }
+  if (error instanceof Error && error.message.startsWith("At least one")) {
+    return 400;
+  }
+  return 500;
+}
+
+// Payments and new entries need somewhere to land
+async function assertOtherActiveAccount(
+  connection: mysql.PoolConnection,
+  userId: string,
+  id: string
+): Promise<void> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT 1 FROM money_accounts WHERE user_id = ? AND id <> ? AND is_active = TRUE LIMIT 1`,
+    [userId, id]
+  );
+  if (rows.length === 0) throw new Error("At least one account must stay active");
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+    const body: MoneyAccountInput = await request.json();
+
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: "Invalid account ID" }, { status: 400 });
+    }
+    const validationError = validateMoneyAccountInput(body, { partial: true });
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    try {
+      const [accounts] = await connection!.query<mysql.RowDataPacket[]>(
+        `SELECT id FROM money_accounts WHERE id = ? AND user_id = ? FOR UPDATE`,
+        [id, userId]
+      );
+      if (accounts.length === 0) throw new Error("Money account not found");
+
+      if (body.isActive === false) {
+        await assertOtherActiveAccount(connection!, userId, id);
+      }
+      if (body.receives) {
+        await connection!.query(
+          `UPDATE money_accounts SET receives = NULL
+           WHERE user_id = ? AND receives = ? AND id <> ?`,
+          [userId, body.receives, id]
+        );
+      }
+
+      // Transactions link to the account, so a rename shows on past entries too
+      await connection!.query(
+        `UPDATE money_accounts
+         SET name = COALESCE(?, name),
+             kind = COALESCE(?, kind),
+             receives = IF(?, ?, receives),
+             is_active = COALESCE(?, is_active)
+         WHERE id = ?`,
+        [
+          body.name?.trim() ?? null,
+          body.kind ?? null,
+          body.receives !== undefined,
+          body.receives || null,
+          body.isActive ?? null,
+          id,
+        ]
+      );
+
+      await connection!.commit();
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
+    }
+
+    const accounts = await loadMoneyAccounts(connection!, userId);
+    return NextResponse.json(accounts.find((account) => account.id === Number(id)));
+  } catch (error: unknown) {
+    console.error("[PUT] /api/money-accounts/[id] error:", error);
+
+    if ((error as any).code === "ER_DUP_ENTRY") {
+      return NextResponse.json(
+        { error: "An account with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update account" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: "Invalid account ID" }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [accounts] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM money_accounts WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    if (accounts.length === 0) throw new Error("Money account not found");
+    await assertOtherActiveAccount(connection!, userId, id);
+
+    const [usage] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT 1 FROM account_transactions WHERE money_account_id = ? LIMIT 1`,
+      [id]
+    );
+
+    // Accounts with entries are retired instead, so their ledgers stay intact
+    if (usage.length > 0) {
+      await connection!.query(
+        `UPDATE money_accounts SET is_active = FALSE, receives = NULL WHERE id = ?`,
+        [id]
+      );
+      return NextResponse.json({ success: true, deactivated: true });
+    }
+
+    await connection!.query(`DELETE FROM money_accounts WHERE id = ?`, [id]);
+    return NextResponse.json({ success: true, deactivated: false });
+  } catch (error: unknown) {
+    console.error("[DELETE] /api/money-accounts/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete account" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
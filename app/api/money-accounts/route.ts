@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import {
+  MoneyAccountInput,
+  loadMoneyAccounts,
+  validateMoneyAccountInput,
+} from "@/lib/money-accounts";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    return NextResponse.json(await loadMoneyAccounts(connection!, userId));
+  } catch (error: unknown) {
+    console.error("[GET] /api/money-accounts error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Database error" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function POST(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: MoneyAccountInput = await request.json();
+
+    const validationError = validateMoneyAccountInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    try {
+      // Only one account can receive each kind of payment
+      if (body.receives) {
+        await connection!.query(
+          `UPDATE money_accounts SET receives = NULL WHERE user_id = ? AND receives = ?`,
+          [userId, body.receives]
+        );
+      }
+
+      const [result] = await connection!.query<mysql.ResultSetHeader>(
+        `INSERT INTO money_accounts (user_id, name, kind, receives) VALUES (?, ?, ?, ?)`,
+        [userId, body.name!.trim(), body.kind, body.receives || null]
+      );
+
+      await connection!.commit();
+
+      const accounts = await loadMoneyAccounts(connection!, userId);
+      return NextResponse.json(
+        accounts.find((account) => account.id === result.insertId),
+        { status: 201 }
+      );
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
+    }
+  } catch (error: unknown) {
+    console.error("[POST] /api/money-accounts error:", error);
+
+    if ((error as any).code === "ER_DUP_ENTRY") {
+      return NextResponse.json(
+        { error: "An account with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create account" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+
+interface NotificationUpdateBody {
+  isRead?: boolean;
+}
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid notification ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: NotificationUpdateBody = await request.json();
+
+    if (typeof body.isRead !== "boolean") {
+      return NextResponse.json({ error: "isRead must be true or false" }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `UPDATE notifications SET is_read = ?
+       WHERE id = ? AND user_id = ? AND is_dismissed = FALSE`,
+      [body.isRead, id, userId]
+    );
+    if (result.affectedRows === 0) {
+      return NextResponse.json({ error: "Notification not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ id: Number(id), isRead: body.isRead });
+  } catch (error: unknown) {
+    console.error("[PATCH] /api/notifications/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update notification" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+// Dismissed notifications are hidden, not deleted, so their dedupe key keeps
+// the same event from being announced again
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid notification ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `UPDATE notifications SET is_dismissed = TRUE, is_read = TRUE
+       WHERE id = ? AND user_id = ? AND is_dismissed = FALSE`,
+      [id, userId]
+    );
+    if (result.affectedRows === 0) {
+      return NextResponse.json({ error: "Notification not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("[DELETE] /api/notifications/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to dismiss notification" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
@@ -1,71 +1,107 @@
 import { NextResponse } from "next/server";
 import mysql from "mysql2/promise";
+import { format } from "date-fns";
 import { getPool } from "@/lib/database";
 import { verifyJwt } from "@/lib/auth";
+import {
+  loadNotifications,
+  syncGstFilingNotifications,
+  syncOverdueNotifications,
+} from "@/lib/notifications";
 
-export async function GET(request: Request) {
+interface NotificationsUpdateBody {
+  isRead?: boolean;
+}
+
+async function verifyToken(request: Request): Promise<string> {
   const authHeader = request.headers.get("authorization");
   if (!authHeader?.startsWith("Bearer ")) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    throw new Error("Unauthorized");
   }
 
   const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function GET(request: Request) {
   let connection: mysql.PoolConnection | undefined;
 
   try {
-    const userId = await verifyJwt(token);
-    if (!userId) {
-      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
-    }
+    const userId = await verifyToken(request);
+    const { searchParams } = new URL(request.url);
+    const unreadOnly = searchParams.get("unread") === "true";
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50") || 50, 200);
 
     const pool = await getPool();
     connection = await pool.getConnection();
 
-    // Get overdue payments
-    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
-      `SELECT 
-        id,
-        customer_name as customerName,
-        customer_contact as customerContact,
-        customer_country_code as customerCountryCode,
-        product_ordered as productOrdered,
-        quantity,
-        amount_due as amountDue,
-        expected_payment_date as expectedPaymentDate,
-        created_at as createdAt,
-        is_paid as isPaid,
-        receipt_number as receiptNumber
-      FROM due_records 
-      WHERE user_id = ? 
-      AND is_paid = false 
-      AND expected_payment_date <= CURDATE()
-      ORDER BY expected_payment_date ASC`,
-      [userId]
+    // Date-driven notices are written the first time they apply; everything
+    // else is written where the event happens
+    const today = format(new Date(), "yyyy-MM-dd");
+    await syncOverdueNotifications(connection!, userId, today);
+    await syncGstFilingNotifications(connection!, userId, today);
+
+    const result = await loadNotifications(connection!, userId, { unreadOnly, limit });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch notifications" },
+      { status: errorStatus(error) }
     );
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
 
-    // Ensure amountDue is a number and handle potential NaN values
-    const notifications = rows.map((row) => {
-      const parsedAmount = parseFloat(row.amountDue);
-      return {
-        ...row,
-        amountDue: isNaN(parsedAmount) ? 0 : parsedAmount,
-      };
-    });
+// Mark every notification read (or unread) at once
+export async function PATCH(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
 
-    return NextResponse.json(notifications);
-  } catch (error) {
-    console.error("Error fetching notifications:", error);
+  try {
+    const userId = await verifyToken(request);
+    const body: NotificationsUpdateBody = await request.json();
+
+    if (typeof body.isRead !== "boolean") {
+      return NextResponse.json({ error: "isRead must be true or false" }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    await connection!.query(
+      `UPDATE notifications SET is_read = ?
+       WHERE user_id = ? AND is_dismissed = FALSE`,
+      [body.isRead, userId]
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("Error updating notifications:", error);
     return NextResponse.json(
-      { error: "Failed to fetch notifications" },
-      { status: 500 }
+      { error: error instanceof Error ? error.message : "Failed to update notifications" },
+      { status: errorStatus(error) }
     );
   } finally {
     if (connection) {
-      try {
-        await connection.release();
-      } catch (e) {
-        // ignore
-      }
+      await connection.release();
     }
   }
 }
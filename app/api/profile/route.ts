@@ -3,6 +3,11 @@ import { NextResponse } from "next/server";
 import mysql from "mysql2/promise";
 import { getPool } from "@/lib/database";
 import { verifyJwt } from "@/lib/auth";
+import {
+  getStateCodeFromGstin,
+  isValidGstin,
+  isValidStateCode,
+} from "@/lib/gst-states";
 
 interface UserProfile {
   id: string | number;
@@ -15,6 +20,7 @@ interface UserProfile {
   storeContact: string;
   storeCountryCode: string;
   gstNumber?: string | null;
+  stateCode?: string | null;
   profilePhoto?: string | null;
   isProfileComplete: boolean;
 }
@@ -26,6 +32,7 @@ interface UpdateProfilePayload {
   storeContact: string;
   storeCountryCode: string;
   gstNumber?: string | null;
+  stateCode?: string | null;
   profilePhoto?: string | null;
 }
 
@@ -103,6 +110,7 @@ export async function GET(request: Request): Promise<NextResponse> {
         store_contact AS storeContact, 
         store_country_code AS storeCountryCode, 
         gst_number AS gstNumber,
+        state_code AS stateCode,
         profile_photo AS profilePhoto,
         profile_complete AS isProfileComplete
        FROM users 
@@ -228,10 +236,19 @@ export async function PUT(request: Request): Promise<NextResponse> {
       );
     }
 
-    // Validate GST number if provided (15 alphanumeric characters)
-    if (updateData.gstNumber && !/^[0-9A-Z]{15}$/.test(updateData.gstNumber)) {
+    // Validate GST number if provided (format and check character)
+    if (updateData.gstNumber && !isValidGstin(updateData.gstNumber)) {
+      return createErrorResponse("GST number is not a valid GSTIN", 400);
+    }
+
+    if (updateData.stateCode && !isValidStateCode(updateData.stateCode)) {
+      return createErrorResponse("State must be a valid GST state code", 400);
+    }
+
+    const gstinState = getStateCodeFromGstin(updateData.gstNumber);
+    if (updateData.stateCode && gstinState && updateData.stateCode !== gstinState) {
       return createErrorResponse(
-        "GST number must be exactly 15 alphanumeric characters",
+        "State does not match the state code in the GST number",
         400
       );
     }
@@ -265,6 +282,7 @@ export async function PUT(request: Request): Promise<NextResponse> {
       "store_contact = ?",
       "store_country_code = ?",
       "gst_number = ?",
+      "state_code = ?",
     ];
     const updateValues: (string | number | null)[] = [
       updateData.name,
@@ -273,6 +291,7 @@ export async function PUT(request: Request): Promise<NextResponse> {
       updateData.storeContact,
       updateData.storeCountryCode,
       updateData.gstNumber || null, // Ensure null for empty string
+      updateData.stateCode || gstinState || null,
     ];
 
     // Conditionally add profile_photo to update fields if present in payload
@@ -302,6 +321,7 @@ export async function PUT(request: Request): Promise<NextResponse> {
         store_contact AS storeContact, 
         store_country_code AS storeCountryCode, 
         gst_number AS gstNumber,
+        state_code AS stateCode,
         profile_photo AS profilePhoto,
         profile_complete AS isProfileComplete
        FROM users 
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { loadReceiptPreview } from "@/lib/receipts";
+import {
+  RECEIPT_PDF_FORMATS,
+  ReceiptPdfFormat,
+  renderReceiptPdf,
+} from "@/lib/receipt-pdf";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json(
+      { error: "Invalid receipt ID format" },
+      { status: 400 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get("format") || "a4") as ReceiptPdfFormat;
+  if (!RECEIPT_PDF_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of ${RECEIPT_PDF_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const receipt = await loadReceiptPreview(connection!, id);
+    if (!receipt || String(receipt.userId) !== String(userId)) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    const pdf = renderReceiptPdf(receipt, format);
+    const suffix = format === "a4" ? "" : `_${format}`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="receipt_${receipt.receiptNumber}${suffix}.pdf"`,
+        "Content-Length": String(pdf.length),
+      },
+    });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to generate receipt PDF";
+    console.error("Error in GET /api/receipts/[id]/pdf:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+
+interface ReceiptRevision {
+  revisionNumber: number;
+  changeType: "edit" | "void";
+  reason: string | null;
+  createdAt: string;
+  snapshot: Record<string, any>;
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json(
+      { error: "Invalid receipt ID format" },
+      { status: 400 }
+    );
+  }
+
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const token = authHeader.split(" ")[1];
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyJwt(token);
+    if (!userId) {
+      return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [receipts] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM receipts WHERE id = ? AND user_id = ? LIMIT 1`,
+      [id, userId]
+    );
+
+    if (receipts.length === 0) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT
+        revision_number AS revisionNumber,
+        change_type AS changeType,
+        reason,
+        CAST(created_at AS CHAR) AS createdAt,
+        snapshot
+       FROM receipt_revisions
+       WHERE receipt_id = ?
+       ORDER BY revision_number DESC`,
+      [id]
+    );
+
+    // mysql2 returns JSON columns parsed, but older servers hand back strings
+    const revisions: ReceiptRevision[] = rows.map((row) => ({
+      revisionNumber: Number(row.revisionNumber),
+      changeType: row.changeType,
+      reason: row.reason || null,
+      createdAt: row.createdAt,
+      snapshot:
+        typeof row.snapshot === "string" ? JSON.parse(row.snapshot) : row.snapshot,
+    }));
+
+    return NextResponse.json(revisions);
+  } catch (error) {
+    console.error("Error in GET /api/receipts/[id]/revisions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch receipt revisions" },
+      { status: 500 }
+    );
+  } finally {
+    if (connection) {
+      try {
+        await connection.release();
+      } catch (e) {
+        // ignore
+      }
+    }
+  }
+}
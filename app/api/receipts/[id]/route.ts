@@ -1,104 +1,207 @@
 import { NextResponse } from "next/server";
 import mysql from "mysql2/promise";
 import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import {
+  ReceiptBody,
+  formatDateOnlyForMySQL,
+  validateReceiptBody,
+  validateReceiptRevision,
+  loadReceiptPreview,
+  applyGstSlabRates,
+  applyPlaceOfSupply,
+  processReceiptItems,
+  updateReceiptTax,
+  processPaymentDetails,
+  processDueRecords,
+  processAccountTransaction,
+  getReceiptPaymentAmount,
+  refreshDueBalance,
+  adjustAccountBalance,
+} from "@/lib/receipts";
+import { calculateReceiptTotals } from "@/lib/receipt-totals";
+import { upsertCustomer } from "@/lib/customers";
+import { PaymentChannel, resolveMoneyAccountId } from "@/lib/money-accounts";
+import { postReceiptJournal, postTransactionJournal } from "@/lib/ledger";
+import { reverseReceiptTransactions } from "@/lib/transactions";
+import { publishEvent } from "@/lib/events";
 
-interface ReceiptPreview {
-  receiptId: string | number;
-  receiptNumber: string;
-  date: string;
-  createdAt: string;
-  updatedAt?: string;
-  customerName: string;
-  customerContact: string;
-  customerCountryCode: string;
-  paymentType: string;
-  paymentStatus: string;
-  notes?: string | null;
-  total: number;
-  dueTotal: number;
-  userId: string | number;
-  items: ReceiptItem[];
-  paymentDetails: PaymentDetails;
-  storeInfo: StoreInfo;
-  totalTax: number;
-  gstNumber?: string;
+interface ReviseReceiptBody extends ReceiptBody {
+  reason?: string;
 }
 
-interface ReceiptItem {
-  description: string;
-  quantity: number;
-  price: number;
-  advanceAmount: number;
-  dueAmount: number;
+interface ReceiptActionBody {
+  action: "void";
+  reason?: string;
 }
 
-interface PaymentDetails {
-  cardNumber?: string;
-  phoneNumber?: string;
-  phoneCountryCode?: string;
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
 }
 
-interface StoreInfo {
-  name: string;
-  address: string;
-  contact: string;
-  countryCode: string;
-  gstNumber?: string;
+function isAuthError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid token") ||
+      error.message.includes("Invalid or expired token"))
+  );
 }
 
-function formatDateForMySQL(date: Date | string): string {
-  const d = new Date(date);
-  if (isNaN(d.getTime())) throw new Error("Invalid date format");
-  return d.getFullYear() + '-' +
-    String(d.getMonth() + 1).padStart(2, '0') + '-' +
-    String(d.getDate()).padStart(2, '0') + ' ' +
-    String(d.getHours()).padStart(2, '0') + ':' +
-    String(d.getMinutes()).padStart(2, '0') + ':' +
-    String(d.getSeconds()).padStart(2, '0');
+// Refusals from lockOwnedReceipt and the slab lookup; anything else is ours
+function reviseErrorStatus(error: unknown): number {
+  if (isAuthError(error)) return 401;
+  if (!(error instanceof Error)) return 500;
+  if (error.message === "Receipt not found") return 404;
+  if (error.message.startsWith("Receipt has") || error.message.startsWith("GST slab")) {
+    return 400;
+  }
+  return 500;
+}
+
+/**
+ * Lock the receipt row for the rest of the transaction and check ownership.
+ */
+async function lockOwnedReceipt(
+  connection: mysql.PoolConnection,
+  receiptId: string,
+  userId: string
+): Promise<mysql.RowDataPacket> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, receipt_number, status, revision_number
+     FROM receipts
+     WHERE id = ? AND user_id = ?
+     FOR UPDATE`,
+    [receiptId, userId]
+  );
+
+  if (rows.length === 0) {
+    throw new Error("Receipt not found");
+  }
+  if (rows[0].status === "void") {
+    throw new Error("Receipt has been voided and can no longer be changed");
+  }
+
+  const [creditNotes] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id FROM credit_notes WHERE receipt_id = ? LIMIT 1`,
+    [receiptId]
+  );
+  if (creditNotes.length > 0) {
+    throw new Error("Receipt has credit notes issued against it and can no longer be changed");
+  }
+  return rows[0];
 }
 
-// Function to get current local system time in MySQL format
-function getCurrentLocalTime(): string {
-  const now = new Date();
-  return now.getFullYear() + '-' +
-    String(now.getMonth() + 1).padStart(2, '0') + '-' +
-    String(now.getDate()).padStart(2, '0') + ' ' +
-    String(now.getHours()).padStart(2, '0') + ':' +
-    String(now.getMinutes()).padStart(2, '0') + ':' +
-    String(now.getSeconds()).padStart(2, '0');
+/**
+ * Store the current version of the receipt before it is superseded.
+ */
+async function saveRevision(
+  connection: mysql.PoolConnection,
+  receipt: mysql.RowDataPacket,
+  userId: string,
+  changeType: "edit" | "void",
+  reason?: string
+): Promise<void> {
+  const snapshot = await loadReceiptPreview(connection, receipt.id);
+
+  await connection.query(
+    `INSERT INTO receipt_revisions (
+      receipt_id, revision_number, change_type, reason, snapshot, user_id
+    ) VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      receipt.id,
+      receipt.revision_number,
+      changeType,
+      reason?.trim() || null,
+      JSON.stringify(snapshot),
+      userId,
+    ]
+  );
 }
 
-// Helper to ensure date/time is a UTC string in YYYY-MM-DD HH:MM:SS format
-function formatToUTCString(dateInput: Date | string | null | undefined): string {
-  if (!dateInput) return "";
+async function syncDueRecords(
+  connection: mysql.PoolConnection,
+  receiptId: number,
+  body: ReceiptBody,
+  userId: string
+): Promise<void> {
+  // Revisions are refused once anything has been paid, so the installment
+  // schedule can simply be rebuilt from the revised receipt
+  await connection.query(
+    `DELETE FROM due_records WHERE receipt_number = ? AND user_id = ?`,
+    [body.receiptNumber, userId]
+  );
 
-  let d: Date;
-  if (dateInput instanceof Date) {
-    d = dateInput;
-  } else {
-    // Attempt to parse the string as UTC.
-    // Appending 'Z' explicitly treats the string as UTC if it's not already ISO-formatted.
-    d = new Date(dateInput.toString() + 'Z');
+  if (body.paymentStatus === "due" && body.dueTotal > 0) {
+    await processDueRecords(connection, receiptId, body, userId);
   }
 
-  const year = d.getUTCFullYear();
-  const month = String(d.getUTCMonth() + 1).padStart(2, '0');
-  const day = String(d.getUTCDate()).padStart(2, '0');
-  const hours = String(d.getUTCHours()).padStart(2, '0');
-  const minutes = String(d.getUTCMinutes()).padStart(2, '0');
-  const seconds = String(d.getUTCSeconds()).padStart(2, '0');
-  return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
+  await refreshDueBalance(connection, userId);
 }
 
-function toPaymentDetails(
-  row: mysql.RowDataPacket | undefined
-): PaymentDetails {
-  if (!row) return {};
-  return {
-    cardNumber: row.cardNumber || undefined,
-    phoneNumber: row.phoneNumber || undefined,
-    phoneCountryCode: row.phoneCountryCode || undefined,
-  };
+async function syncAccountTransaction(
+  connection: mysql.PoolConnection,
+  receiptId: number,
+  body: ReceiptBody,
+  userId: string
+): Promise<void> {
+  const [transactionRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, amount FROM account_transactions
+     WHERE receipt_id = ? AND user_id = ? AND type = 'credit'
+     AND NOT EXISTS (
+       SELECT 1 FROM account_transactions rv
+       WHERE rv.reverses_transaction_id = account_transactions.id
+     )
+     LIMIT 1`,
+    [receiptId, userId]
+  );
+  const existing = transactionRows[0];
+  const newAmount = getReceiptPaymentAmount(body);
+
+  if (!existing) {
+    await processAccountTransaction(connection, receiptId, body, userId, body.date);
+    return;
+  }
+
+  const oldAmount = Number(existing.amount) || 0;
+
+  if (newAmount > 0) {
+    const kind = body.paymentStatus === "advance" ? "Advance" : "Full";
+    const moneyAccountId = await resolveMoneyAccountId(
+      connection,
+      userId,
+      body.paymentType.toLowerCase() as PaymentChannel
+    );
+    await connection.query(
+      `UPDATE account_transactions
+       SET amount = ?, particulars = ?, transaction_date = ?, money_account_id = ?
+       WHERE id = ?`,
+      [
+        newAmount,
+        `${kind} payment from ${body.customerName} (Receipt: ${body.receiptNumber})`,
+        formatDateOnlyForMySQL(body.date),
+        moneyAccountId,
+        existing.id,
+      ]
+    );
+    await postTransactionJournal(connection, userId, existing.id);
+  } else {
+    await connection.query(`DELETE FROM account_transactions WHERE id = ?`, [
+      existing.id,
+    ]);
+  }
+
+  await adjustAccountBalance(connection, userId, "credit", newAmount - oldAmount);
 }
 
 export async function GET(
@@ -117,97 +220,26 @@ export async function GET(
   let connection: mysql.PoolConnection | undefined;
 
   try {
+    const userId = await verifyToken(request);
     const pool = await getPool();
     connection = await pool.getConnection();
 
-    const [receipts] = await connection!.query<mysql.RowDataPacket[]>(
-      `SELECT 
-        r.id, r.receipt_number, 
-        DATE_FORMAT(r.date, '%Y-%m-%d') as date,
-        CAST(r.created_at AS CHAR) as created_at,
-        CAST(r.updated_at AS CHAR) as updated_at,
-        r.customer_name, r.customer_contact, r.customer_country_code,
-        r.payment_type, r.payment_status, r.notes,
-        r.total, r.due_total, r.user_id,
-        r.total_tax AS totalTax,
-        u.store_name AS storeName,
-        u.store_address AS storeAddress,
-        u.store_contact AS storeContact,
-        u.store_country_code AS storeCountryCode,
-        u.gst_number AS gstNumber
-       FROM receipts r
-       JOIN users u ON r.user_id = u.id
-       WHERE r.id = ? LIMIT 1`,
-      [id]
-    );
+    const response = await loadReceiptPreview(connection!, id);
 
-    if (receipts.length === 0) {
+    // Other shops' receipts are reported as missing, not forbidden
+    if (!response || String(response.userId) !== String(userId)) {
       return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
     }
 
-    const receipt = receipts[0];
-
-    const [items] = await connection!.query<mysql.RowDataPacket[]>(
-      `SELECT 
-        description, quantity, price, 
-        advance_amount AS advanceAmount, 
-        due_amount AS dueAmount
-       FROM receipt_items 
-       WHERE receipt_id = ?`,
-      [id]
-    );
-
-    const [paymentDetailsRows] = await connection!.query<mysql.RowDataPacket[]>(
-      `SELECT 
-        card_number AS cardNumber, 
-        phone_number AS phoneNumber, 
-        phone_country_code AS phoneCountryCode
-       FROM payment_details 
-       WHERE receipt_id = ? LIMIT 1`,
-      [id]
-    );
-
-    const response: ReceiptPreview = {
-      receiptId: receipt.id,
-      receiptNumber: receipt.receipt_number,
-      date: receipt.date,
-      createdAt: formatToUTCString(receipt.created_at),
-      updatedAt: receipt.updated_at
-        ? formatToUTCString(receipt.updated_at) : undefined,
-      customerName: receipt.customer_name,
-      customerContact: receipt.customer_contact,
-      customerCountryCode: receipt.customer_country_code,
-      paymentType: receipt.payment_type,
-      paymentStatus: receipt.payment_status,
-      notes: receipt.notes || null,
-      total: receipt.total,
-      dueTotal: receipt.due_total,
-      userId: receipt.user_id,
-      totalTax: receipt.totalTax || 0,
-      items: items.map((item) => ({
-        description: item.description,
-        quantity: item.quantity,
-        price: item.price,
-        advanceAmount: item.advanceAmount || 0,
-        dueAmount: item.dueAmount || 0,
-      })),
-      paymentDetails: toPaymentDetails(paymentDetailsRows[0]),
-      storeInfo: {
-        name: receipt.storeName,
-        address: receipt.storeAddress,
-        contact: receipt.storeContact,
-        countryCode: receipt.storeCountryCode,
-        gstNumber: receipt.gstNumber || undefined,
-      },
-      gstNumber: receipt.gstNumber || undefined,
-    };
-
     return NextResponse.json(response);
   } catch (error: unknown) {
     const errorMessage =
       error instanceof Error ? error.message : "Failed to fetch receipt data";
     console.error("Error in GET /api/receipts/[id]:", error);
-    return NextResponse.json({ error: errorMessage }, { status: 500 });
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: isAuthError(error) ? 401 : 500 }
+    );
   } finally {
     if (connection) {
       await connection.release();
@@ -215,54 +247,254 @@ export async function GET(
   }
 }
 
-export async function POST(request: Request) {
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json(
+      { error: "Invalid receipt ID format" },
+      { status: 400 }
+    );
+  }
+
   let connection: mysql.PoolConnection | undefined;
 
   try {
-    const body = await request.json();
+    const userId = await verifyToken(request);
+    const body: ReviseReceiptBody = await request.json();
+
     const pool = await getPool();
     connection = await pool.getConnection();
+    await connection!.beginTransaction();
 
-    // Get current local system time
-    const now = getCurrentLocalTime();
-    const formattedDate = body.date
-      ? formatDateForMySQL(body.date)
-      : now;
-
-    const [result] = await connection!.query<mysql.ResultSetHeader>(
-      `INSERT INTO receipts (
-        receipt_number, date, customer_name, customer_contact, 
-        customer_country_code, payment_type, payment_status, 
-        notes, subtotal, total_tax, total, due_total, user_id, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        body.receiptNumber,
-        formattedDate,
-        body.customerName,
-        body.customerContact,
-        body.customerCountryCode,
-        body.paymentType,
-        body.paymentStatus,
-        body.notes,
-        0,
-        0,
-        0,
-        0,
-        body.userId,
-        now,
-        now,
-      ]
+    try {
+      const receipt = await lockOwnedReceipt(connection!, id, userId);
+
+      // The receipt number is the link to due_records and never changes
+      body.receiptNumber = receipt.receipt_number;
+
+      await applyGstSlabRates(connection!, userId, body);
+      await applyPlaceOfSupply(connection!, userId, body);
+
+      const validationError = validateReceiptBody(body, { isRevision: true });
+      if (validationError) {
+        await connection!.rollback();
+        return NextResponse.json({ error: validationError }, { status: 400 });
+      }
+
+      const revisionError = await validateReceiptRevision(
+        connection!,
+        userId,
+        receipt.receipt_number
+      );
+      if (revisionError) {
+        await connection!.rollback();
+        return NextResponse.json({ error: revisionError }, { status: 400 });
+      }
+
+      await saveRevision(connection!, receipt, userId, "edit", body.reason);
+
+      body.customerId = await upsertCustomer(connection!, userId, {
+        name: body.customerName,
+        countryCode: body.customerCountryCode,
+        contact: body.customerContact,
+        gstNumber: body.customerGstNumber,
+      });
+
+      await connection!.query(
+        `UPDATE receipts
+         SET date = ?, customer_name = ?, customer_contact = ?,
+             customer_country_code = ?, customer_gst_number = ?,
+             place_of_supply = ?, payment_type = ?, payment_status = ?,
+             notes = ?, due_total = ?, discount = ?, discount_type = ?,
+             discount_amount = ?, customer_id = ?,
+             revision_number = revision_number + 1
+         WHERE id = ?`,
+        [
+          formatDateOnlyForMySQL(body.date),
+          body.customerName,
+          body.customerContact,
+          body.customerCountryCode,
+          body.customerGstNumber || null,
+          body.placeOfSupply || null,
+          body.paymentType.toLowerCase(),
+          body.paymentStatus.toLowerCase(),
+          body.notes || null,
+          body.dueTotal,
+          body.discount ?? 0,
+          body.discountType || "fixed",
+          calculateReceiptTotals(body.items, body).receiptDiscount,
+          body.customerId,
+          receipt.id,
+        ]
+      );
+
+      // Replace the item rows; the item triggers recompute the receipt totals
+      await connection!.query(`DELETE FROM receipt_items WHERE receipt_id = ?`, [
+        receipt.id,
+      ]);
+      await processReceiptItems(connection!, receipt.id, body);
+      await updateReceiptTax(connection!, receipt.id, body);
+
+      await connection!.query(`DELETE FROM payment_details WHERE receipt_id = ?`, [
+        receipt.id,
+      ]);
+      await processPaymentDetails(connection!, receipt.id, body.paymentDetails);
+
+      await syncDueRecords(connection!, receipt.id, body, userId);
+      await syncAccountTransaction(connection!, receipt.id, body, userId);
+      await postReceiptJournal(connection!, userId, receipt.id);
+
+      await connection!.commit();
+
+      publishEvent(userId, { type: "receipt-updated", receiptId: receipt.id });
+
+      return NextResponse.json({
+        success: true,
+        receiptId: receipt.id,
+        revisionNumber: receipt.revision_number + 1,
+        message: "Receipt revised successfully",
+      });
+    } catch (error: unknown) {
+      await connection!.rollback();
+      throw error;
+    }
+  } catch (error: unknown) {
+    console.error("Error in PUT /api/receipts/[id]:", error);
+    const status = reviseErrorStatus(error);
+    return NextResponse.json(
+      {
+        error:
+          status !== 500 && error instanceof Error
+            ? error.message
+            : "Failed to revise receipt",
+      },
+      { status }
     );
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
 
-    return NextResponse.json({ success: true, id: result.insertId });
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json(
+      { error: "Invalid receipt ID format" },
+      { status: 400 }
+    );
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: ReceiptActionBody = await request.json();
+
+    if (body.action !== "void") {
+      return NextResponse.json(
+        { error: "Action must be 'void'" },
+        { status: 400 }
+      );
+    }
+
+    if (!body.reason || body.reason.trim().length === 0) {
+      return NextResponse.json(
+        { error: "A reason is required to void a receipt" },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    try {
+      const receipt = await lockOwnedReceipt(connection!, id, userId);
+
+      await saveRevision(connection!, receipt, userId, "void", body.reason);
+
+      // Reverse every payment posted for this receipt, including settled dues
+      const reversals = await reverseReceiptTransactions(
+        connection!,
+        userId,
+        receipt,
+        `Receipt voided: ${body.reason.trim()}`
+      );
+
+      // Due payments stay on the receipt, and in receivables, once its dues
+      // are gone
+      await connection!.query(
+        `UPDATE account_transactions t
+         JOIN due_records d ON t.due_record_id = d.id
+         SET t.receipt_id = ?
+         WHERE d.receipt_number = ? AND d.user_id = ? AND t.receipt_id IS NULL`,
+        [receipt.id, receipt.receipt_number, userId]
+      );
+
+      await connection!.query(
+        `DELETE FROM due_records WHERE receipt_number = ? AND user_id = ?`,
+        [receipt.receipt_number, userId]
+      );
+      await refreshDueBalance(connection!, userId);
+
+      await connection!.query(
+        `UPDATE receipts
+         SET status = 'void', voided_at = NOW(), void_reason = ?,
+             due_total = 0, revision_number = revision_number + 1
+         WHERE id = ?`,
+        [body.reason.trim(), receipt.id]
+      );
+      // Payments were reversed above; this drops the sale itself
+      await postReceiptJournal(connection!, userId, receipt.id);
+
+      await connection!.commit();
+
+      for (const reversal of reversals) {
+        publishEvent(userId, {
+          type: "transaction-added",
+          transactionId: reversal.reversalId,
+          amount: reversal.amount,
+          kind: reversal.kind,
+        });
+      }
+
+      return NextResponse.json({
+        success: true,
+        receiptId: receipt.id,
+        revisionNumber: receipt.revision_number + 1,
+        message: "Receipt voided successfully",
+      });
+    } catch (error: unknown) {
+      await connection!.rollback();
+      throw error;
+    }
   } catch (error: unknown) {
     const errorMessage =
-      error instanceof Error ? error.message : "Failed to create receipt";
-    console.error("Error in POST /api/receipts:", error);
-    return NextResponse.json({ error: errorMessage }, { status: 500 });
+      error instanceof Error ? error.message : "Failed to void receipt";
+    console.error("Error in PATCH /api/receipts/[id]:", error);
+    return NextResponse.json(
+      { error: errorMessage },
+      {
+        status: isAuthError(error)
+          ? 401
+          : errorMessage === "Receipt not found"
+          ? 404
+          : 400,
+      }
+    );
   } finally {
     if (connection) {
       await connection.release();
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { revokeShareLink } from "@/lib/receipt-shares";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; linkId: string } }
+) {
+  const { id, linkId } = await params;
+  if (!/^\d+$/.test(id || "") || !/^\d+$/.test(linkId || "")) {
+    return NextResponse.json({ error: "Invalid share link ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [receipts] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM receipts WHERE id = ? AND user_id = ? LIMIT 1`,
+      [id, userId]
+    );
+    if (receipts.length === 0) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    if (!(await revokeShareLink(connection!, Number(id), Number(linkId)))) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Share link revoked" });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to revoke share link";
+    console.error("Error in DELETE /api/receipts/[id]/share/[linkId]:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import {
+  MAX_SHARE_LINK_DAYS,
+  createShareLink,
+  listShareLinks,
+} from "@/lib/receipt-shares";
+
+interface CreateShareLinkBody {
+  // Omit or null for a link that never expires
+  expiresInDays?: number | null;
+}
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+async function isOwnReceipt(
+  connection: mysql.PoolConnection,
+  receiptId: string,
+  userId: string
+): Promise<boolean> {
+  const [receipts] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id FROM receipts WHERE id = ? AND user_id = ? LIMIT 1`,
+    [receiptId, userId]
+  );
+  return receipts.length > 0;
+}
+
+function errorResponse(error: unknown, route: string) {
+  const errorMessage =
+    error instanceof Error ? error.message : "Failed to manage share links";
+  console.error(`Error in ${route}:`, error);
+  const status =
+    errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+      ? 401
+      : 500;
+  return NextResponse.json({ error: errorMessage }, { status });
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid receipt ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    if (!(await isOwnReceipt(connection!, id, userId))) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await listShareLinks(connection!, Number(id)));
+  } catch (error: unknown) {
+    return errorResponse(error, "GET /api/receipts/[id]/share");
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid receipt ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: CreateShareLinkBody = await request.json().catch(() => ({}));
+    const expiresInDays = body.expiresInDays ?? null;
+
+    if (
+      expiresInDays !== null &&
+      (!Number.isInteger(expiresInDays) ||
+        expiresInDays < 1 ||
+        expiresInDays > MAX_SHARE_LINK_DAYS)
+    ) {
+      return NextResponse.json(
+        { error: `expiresInDays must be a whole number from 1 to ${MAX_SHARE_LINK_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    if (!(await isOwnReceipt(connection!, id, userId))) {
+      return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+    }
+
+    const link = await createShareLink(connection!, Number(id), userId, expiresInDays);
+    return NextResponse.json(link, { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, "POST /api/receipts/[id]/share");
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
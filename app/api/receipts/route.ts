@@ -2,184 +2,29 @@ import { NextResponse } from "next/server";
 import mysql from "mysql2/promise";
 import { getPool } from "@/lib/database";
 import { verifyJwt } from "@/lib/auth";
-
-interface ReceiptItem {
-  description: string;
-  quantity: number;
-  price: number;
-  advanceAmount?: number;
-  dueAmount?: number;
-}
-
-interface PaymentDetails {
-  cardNumber?: string;
-  phoneNumber?: string;
-  phoneCountryCode?: string;
-}
-
-interface ReceiptBody {
-  receiptNumber: string;
-  date: string;
-  customerName: string;
-  customerContact: string;
-  customerCountryCode: string;
-  paymentType: "cash" | "online";
-  paymentStatus: "full" | "advance" | "due";
-  paymentDate?: string;
-  notes?: string;
-  total: number;
-  dueTotal: number;
-  items: ReceiptItem[];
-  paymentDetails?: PaymentDetails;
-  gstPercentage?: number;
-  gstAmount?: number;
-}
+import {
+  ReceiptBody,
+  formatDateOnlyForMySQL,
+  formatLocalDateForMySQL,
+  validateReceiptBody,
+  applyGstSlabRates,
+  applyPlaceOfSupply,
+  processReceiptItems,
+  updateReceiptTax,
+  processPaymentDetails,
+  processDueRecords,
+  processAccountTransaction,
+} from "@/lib/receipts";
+import { upsertCustomer } from "@/lib/customers";
+import { calculateReceiptTotals } from "@/lib/receipt-totals";
+import { publishEvent } from "@/lib/events";
+import { postReceiptJournal } from "@/lib/ledger";
 
 interface JwtPayload {
   userId: string | number;
   [key: string]: any;
 }
 
-// New helper function to format date for MySQL DATE column (YYYY-MM-DD)
-function formatDateOnlyForMySQL(date: Date | string): string {
-  let d: Date;
-
-  if (typeof date === "string") {
-    if (date.includes("T")) {
-      d = new Date(date);
-    } else {
-      d = new Date(date + "T00:00:00"); // Assuming local timezone input if no T
-    }
-  } else {
-    d = new Date(date);
-  }
-
-  if (isNaN(d.getTime())) {
-    throw new Error(`Invalid date format: ${date}`);
-  }
-
-  const pad = (num: number) => num.toString().padStart(2, "0");
-  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
-}
-
-function formatLocalDateForMySQL(date: Date | string): string {
-  let d: Date;
-
-  if (typeof date === "string") {
-    if (date.includes("T")) {
-      d = new Date(date);
-    } else {
-      d = new Date(date + "T00:00:00");
-    }
-  } else {
-    d = new Date(date);
-  }
-
-  if (isNaN(d.getTime())) {
-    throw new Error(`Invalid date format: ${date}`);
-  }
-
-  const pad = (num: number) => num.toString().padStart(2, "0");
-  return (
-    `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ` +
-    `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
-  );
-}
-
-function validateReceiptBody(body: ReceiptBody): string | null {
-  if (!body.receiptNumber) return "Receipt number is required";
-  if (!body.date) return "Date is required";
-  if (!body.customerName) return "Customer name is required";
-  if (!body.customerContact) return "Customer contact is required";
-
-  const validTypes = ["cash", "online"];
-  if (
-    !body.paymentType ||
-    !validTypes.includes(body.paymentType.toLowerCase())
-  ) {
-    return `Payment type must be one of: ${validTypes.join(", ")}`;
-  }
-
-  const validStatuses = ["full", "advance", "due"];
-  if (
-    !body.paymentStatus ||
-    !validStatuses.includes(body.paymentStatus.toLowerCase())
-  ) {
-    return `Payment status must be one of: ${validStatuses.join(", ")}`;
-  }
-
-  if (body.paymentStatus === "due" && !body.paymentDate) {
-    return "Expected payment date is required for due payments";
-  }
-
-  if (body.paymentDate) {
-    const paymentDate = new Date(body.paymentDate);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    if (isNaN(paymentDate.getTime())) {
-      return "Invalid payment date format";
-    }
-
-    if (paymentDate < today) {
-      return "Payment date cannot be in the past";
-    }
-  }
-
-  if (!Array.isArray(body.items) || body.items.length === 0) {
-    return "At least one item is required";
-  }
-
-  for (const [index, item] of body.items.entries()) {
-    if (!item.description) return `Item ${index + 1} description is required`;
-    if (typeof item.quantity !== "number" || item.quantity <= 0) {
-      return `Item ${index + 1} quantity must be a positive number`;
-    }
-    if (typeof item.price !== "number" || item.price < 0) {
-      return `Item ${index + 1} price must be a non-negative number`;
-    }
-  }
-
-  if (body.paymentStatus === "full" && body.dueTotal !== 0) {
-    return "Due total must be 0 for full payment";
-  }
-
-  if (body.paymentStatus === "advance") {
-    const totalAdvance = body.items.reduce(
-      (sum, item) => sum + (item.advanceAmount || 0),
-      0
-    );
-    if (totalAdvance <= 0) {
-      return "Advance payment must have positive advance amounts";
-    }
-    if (Math.abs(totalAdvance - (body.total - body.dueTotal)) > 0.01) {
-      return "Advance amounts don't match calculated total";
-    }
-  }
-
-  if (body.paymentStatus === "due") {
-    const totalDue = body.items.reduce(
-      (sum, item) => sum + (item.dueAmount || 0),
-      0
-    );
-    if (totalDue <= 0) {
-      return "Due payment must have positive due amounts";
-    }
-    if (Math.abs(totalDue - body.dueTotal) > 0.01) {
-      return "Item due amounts don't match total due amount";
-    }
-  }
-
-  if (
-    body.gstPercentage &&
-    (body.gstPercentage < 0 || body.gstPercentage > 28)
-  ) {
-    return "GST percentage must be between 0 and 28";
-  }
-
-  return null;
-}
-
 async function createReceipt(
   connection: mysql.PoolConnection,
   body: ReceiptBody,
@@ -201,24 +46,32 @@ async function createReceipt(
     const [result] = await connection.query<mysql.ResultSetHeader>(
       `INSERT INTO receipts (
         receipt_number, date, customer_name, customer_contact, customer_country_code,
-        payment_type, payment_status, notes,
+        customer_gst_number, place_of_supply, payment_type, payment_status, notes,
         subtotal, total_tax, total_discount,
-        total, due_total, user_id, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        discount, discount_type, discount_amount,
+        total, due_total, customer_id, user_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         body.receiptNumber,
         formatDateOnlyForMySQL(body.date),
         body.customerName,
         body.customerContact,
         body.customerCountryCode,
+        body.customerGstNumber || null,
+        body.placeOfSupply || null,
         body.paymentType.toLowerCase(),
         body.paymentStatus.toLowerCase(),
         body.notes || null,
         initialSubtotal,
         initialTotalTax,
         initialTotalDiscount,
+        body.discount ?? 0,
+        body.discountType || "fixed",
+        // The item triggers subtract this once the lines are in
+        calculateReceiptTotals(body.items, body).receiptDiscount,
         initialTotal, // Use initialTotal instead of body.total
         body.dueTotal,
+        body.customerId ?? null,
         userId,
         formatLocalDateForMySQL(new Date()),
       ]
@@ -232,166 +85,6 @@ async function createReceipt(
   }
 }
 
-async function processReceiptItems(
-  connection: mysql.PoolConnection,
-  receiptId: number,
-  items: ReceiptItem[],
-  gstPercentage?: number
-): Promise<void> {
-  console.log("Processing receipt items for receipt ID:", receiptId);
-
-  try {
-    for (const [index, item] of items.entries()) {
-      console.log(`Processing item ${index + 1}:`, {
-        description: item.description,
-        quantity: item.quantity,
-        price: item.price,
-      });
-
-      // Calculate item subtotal
-      const itemSubtotal = item.price * item.quantity;
-
-      // Calculate tax if GST percentage is provided
-      const itemTax = gstPercentage ? (itemSubtotal * gstPercentage) / 100 : 0;
-
-      await connection.query(
-        `INSERT INTO receipt_items (
-          receipt_id, description, quantity, price, 
-          advance_amount, due_amount, tax_amount
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
-        [
-          receiptId,
-          item.description,
-          item.quantity,
-          item.price,
-          item.advanceAmount ?? 0,
-          item.dueAmount ?? 0,
-          itemTax,
-        ]
-      );
-    }
-    console.log("All items processed successfully");
-  } catch (error) {
-    console.error("Error processing receipt items:", error);
-    throw new Error("Failed to process receipt items");
-  }
-}
-
-async function processPaymentDetails(
-  connection: mysql.PoolConnection,
-  receiptId: number,
-  paymentDetails?: PaymentDetails
-): Promise<void> {
-  if (!paymentDetails) return;
-
-  console.log("Processing payment details for receipt ID:", receiptId);
-
-  try {
-    await connection.query(
-      `INSERT INTO payment_details (
-        receipt_id, card_number, phone_number, phone_country_code
-      ) VALUES (?, ?, ?, ?)`,
-      [
-        receiptId,
-        paymentDetails.cardNumber || null,
-        paymentDetails.phoneNumber || null,
-        paymentDetails.phoneCountryCode || null,
-      ]
-    );
-    console.log("Payment details processed successfully");
-  } catch (error) {
-    console.error("Error processing payment details:", error);
-    throw new Error("Failed to process payment details");
-  }
-}
-
-async function processDueRecords(
-  connection: mysql.PoolConnection,
-  receiptId: number,
-  body: ReceiptBody,
-  userId: string
-): Promise<void> {
-  if (body.paymentStatus !== "due") return;
-
-  console.log("Processing due records for receipt ID:", receiptId);
-
-  try {
-    const productOrdered = body.items.map((i) => i.description).join(", ");
-    const totalQuantity = body.items.reduce((sum, i) => sum + i.quantity, 0);
-
-    // Use the paymentDate from the form, or default to 7 days from now if not provided
-    const expectedPaymentDate = body.paymentDate
-      ? new Date(body.paymentDate)
-      : (() => {
-          const date = new Date();
-          date.setDate(date.getDate() + 7);
-          return date;
-        })();
-
-    await connection.query(
-      `INSERT INTO due_records (
-        customer_name, customer_contact, customer_country_code,
-        product_ordered, quantity, amount_due, expected_payment_date,
-        user_id, receipt_number
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        body.customerName,
-        body.customerContact,
-        body.customerCountryCode,
-        productOrdered,
-        totalQuantity,
-        body.dueTotal,
-        formatDateOnlyForMySQL(expectedPaymentDate),
-        userId,
-        body.receiptNumber,
-      ]
-    );
-    console.log("Due records processed successfully");
-  } catch (error) {
-    console.error("Error processing due records:", error);
-    throw new Error("Failed to process due records");
-  }
-}
-
-async function processAccountTransaction(
-  connection: mysql.PoolConnection,
-  receiptId: number,
-  body: ReceiptBody,
-  userId: string,
-  receiptDate: string
-): Promise<void> {
-  if (body.paymentStatus === "due") return;
-
-  console.log("Processing account transaction for receipt ID:", receiptId);
-
-  try {
-    const transactionDate = formatDateOnlyForMySQL(receiptDate);
-    let transactionAmount = 0;
-    let particulars = "";
-
-    if (body.paymentStatus === "full") {
-      transactionAmount = body.total;
-      particulars = `Full payment from ${body.customerName} (Receipt: ${body.receiptNumber})`;
-    } else if (body.paymentStatus === "advance") {
-      transactionAmount = body.total - body.dueTotal;
-      particulars = `Advance payment from ${body.customerName} (Receipt: ${body.receiptNumber})`;
-    }
-
-    if (transactionAmount > 0) {
-      await connection.query(
-        `INSERT INTO account_transactions (
-          particulars, amount, type, user_id, receipt_id, transaction_date
-        ) VALUES (?, ?, ?, ?, ?, ?)`,
-        [particulars, transactionAmount, "credit", userId, receiptId, transactionDate]
-      );
-      console.log("Account transaction processed successfully");
-    }
-  } catch (error) {
-    console.error("Error processing account transaction:", error);
-    throw new Error("Failed to process account transaction");
-  }
-}
-
 export async function POST(request: Request) {
   console.log("Receipt creation request received");
 
@@ -415,45 +108,36 @@ export async function POST(request: Request) {
     const body: ReceiptBody = await request.json();
     console.log("Request body received:", JSON.stringify(body, null, 2));
 
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    console.log("Database connection acquired");
+
+    // Item rates come from the user's GST slabs before the totals are checked
+    await applyGstSlabRates(connection!, userId, body);
+    await applyPlaceOfSupply(connection!, userId, body);
+
     const validationError = validateReceiptBody(body);
     if (validationError) {
       console.error("Validation error:", validationError);
       return NextResponse.json({ error: validationError }, { status: 400 });
     }
 
-    const pool = await getPool();
-    connection = await pool.getConnection();
-    console.log("Database connection acquired");
-
     await connection!.beginTransaction();
     console.log("Transaction started");
 
+    body.customerId = await upsertCustomer(connection!, userId, {
+      name: body.customerName,
+      countryCode: body.customerCountryCode,
+      contact: body.customerContact,
+      gstNumber: body.customerGstNumber,
+    });
+
     const receiptId = await createReceipt(connection!, body, userId);
-    await processReceiptItems(
-      connection!,
-      receiptId,
-      body.items,
-      body.gstPercentage
-    );
+    await processReceiptItems(connection!, receiptId, body);
 
     // Calculate total_tax from receipt_items and update the receipts table
-    let totalCalculatedTax = 0;
-    if (body.gstPercentage !== undefined && body.gstPercentage !== null && body.gstPercentage > 0) {
-      totalCalculatedTax = body.items.reduce((sum, item) => {
-        const itemSubtotal = item.price * item.quantity;
-        return sum + (itemSubtotal * body.gstPercentage!) / 100;
-      }, 0);
-    }
-
     console.log("body.gstPercentage received in POST /api/receipts:", body.gstPercentage);
-    console.log("Calculated totalTax before DB update:", totalCalculatedTax);
-
-    // Update the receipts table with the calculated total_tax
-    await connection!.query(
-      `UPDATE receipts SET total_tax = ? WHERE id = ?`,
-      [totalCalculatedTax, receiptId]
-    );
-    console.log(`Updated receipt ${receiptId} with total_tax: ${totalCalculatedTax}`);
+    await updateReceiptTax(connection!, receiptId, body);
 
     if (body.paymentDetails) {
       await processPaymentDetails(connection!, receiptId, body.paymentDetails);
@@ -465,9 +149,11 @@ export async function POST(request: Request) {
 
     // Always process the account transaction for full/advance payments
     await processAccountTransaction(connection!, receiptId, body, userId, body.date);
+    await postReceiptJournal(connection!, userId, receiptId);
 
     await connection!.commit();
     console.log("Transaction committed successfully");
+    publishEvent(userId, { type: "receipt-created", receiptId });
 
     return NextResponse.json({
       success: true,
@@ -509,7 +195,7 @@ export async function POST(request: Request) {
               : null
             : undefined,
       },
-      { status: 500 }
+      { status: errorMessage.includes("GST slab") ? 400 : 500 }
     );
   } finally {
     if (connection) {
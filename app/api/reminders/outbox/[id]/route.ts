@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+
+interface OutboxActionBody {
+  action?: "retry" | "cancel";
+}
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid message ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: OutboxActionBody = await request.json();
+
+    if (body.action !== "retry" && body.action !== "cancel") {
+      return NextResponse.json(
+        { error: "Action must be 'retry' or 'cancel'" },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    // Retry resets the attempt count so the worker gets a full set of tries
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      body.action === "retry"
+        ? `UPDATE reminder_outbox
+           SET status = 'pending', attempts = 0, last_error = NULL, scheduled_for = NOW()
+           WHERE id = ? AND user_id = ? AND status IN ('failed', 'cancelled')`
+        : `UPDATE reminder_outbox
+           SET status = 'cancelled', last_error = 'Cancelled by the store'
+           WHERE id = ? AND user_id = ? AND status = 'pending'`,
+      [id, userId]
+    );
+
+    if (result.affectedRows === 0) {
+      return NextResponse.json(
+        {
+          error:
+            body.action === "retry"
+              ? "Only failed or cancelled messages can be retried"
+              : "Only pending messages can be cancelled",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to update message";
+    console.error("Error in PATCH /api/reminders/outbox/[id]:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
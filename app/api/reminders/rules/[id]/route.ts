@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { ReminderRuleBody, validateReminderRule } from "@/lib/reminder-templates";
+import { toReminderRule } from "@/lib/reminders";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid rule ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: ReminderRuleBody = await request.json();
+
+    const validationError = validateReminderRule(body, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    // repeatEveryDays and subject can be cleared, so they are only touched
+    // when present in the body
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `UPDATE reminder_rules
+       SET name = COALESCE(?, name),
+           channel = COALESCE(?, channel),
+           offset_days = COALESCE(?, offset_days),
+           repeat_every_days = IF(?, ?, repeat_every_days),
+           subject = IF(?, ?, subject),
+           template = COALESCE(?, template),
+           is_active = COALESCE(?, is_active)
+       WHERE id = ? AND user_id = ?`,
+      [
+        body.name?.trim() ?? null,
+        body.channel ?? null,
+        body.offsetDays ?? null,
+        body.repeatEveryDays !== undefined,
+        body.repeatEveryDays ?? null,
+        body.subject !== undefined,
+        body.subject?.trim() || null,
+        body.template?.trim() ?? null,
+        body.isActive ?? null,
+        id,
+        userId,
+      ]
+    );
+
+    if (result.affectedRows === 0) {
+      return NextResponse.json({ error: "Reminder rule not found" }, { status: 404 });
+    }
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id, name, channel, offset_days, repeat_every_days, subject, template, is_active
+       FROM reminder_rules WHERE id = ?`,
+      [id]
+    );
+
+    return NextResponse.json(toReminderRule(rows[0]));
+  } catch (error: unknown) {
+    console.error("[PUT] /api/reminders/rules/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update reminder rule" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  if (!id || !/^\d+$/.test(id)) {
+    return NextResponse.json({ error: "Invalid rule ID format" }, { status: 400 });
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    // Messages already queued by this rule are withdrawn; sent ones stay as history
+    await connection!.query(
+      `UPDATE reminder_outbox
+       SET status = 'cancelled', last_error = 'The reminder rule was deleted'
+       WHERE rule_id = ? AND user_id = ? AND status = 'pending'`,
+      [id, userId]
+    );
+
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `DELETE FROM reminder_rules WHERE id = ? AND user_id = ?`,
+      [id, userId]
+    );
+    if (result.affectedRows === 0) {
+      return NextResponse.json({ error: "Reminder rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("[DELETE] /api/reminders/rules/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete reminder rule" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
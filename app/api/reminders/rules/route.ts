@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { ReminderRuleBody, validateReminderRule } from "@/lib/reminder-templates";
+import { toReminderRule } from "@/lib/reminders";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  return 500;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id, name, channel, offset_days, repeat_every_days, subject, template, is_active
+       FROM reminder_rules
+       WHERE user_id = ?
+       ORDER BY offset_days ASC, id ASC`,
+      [userId]
+    );
+
+    return NextResponse.json(rows.map(toReminderRule));
+  } catch (error: unknown) {
+    console.error("[GET] /api/reminders/rules error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch reminder rules" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function POST(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: ReminderRuleBody = await request.json();
+
+    const validationError = validateReminderRule(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const [result] = await connection!.query<mysql.ResultSetHeader>(
+      `INSERT INTO reminder_rules
+        (user_id, name, channel, offset_days, repeat_every_days, subject, template, is_active)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        userId,
+        body.name!.trim(),
+        body.channel,
+        body.offsetDays,
+        body.repeatEveryDays ?? null,
+        body.subject?.trim() || null,
+        body.template!.trim(),
+        body.isActive ?? true,
+      ]
+    );
+
+    const [rows] = await connection!.query<mysql.RowDataPacket[]>(
+      `SELECT id, name, channel, offset_days, repeat_every_days, subject, template, is_active
+       FROM reminder_rules WHERE id = ?`,
+      [result.insertId]
+    );
+
+    return NextResponse.json(toReminderRule(rows[0]), { status: 201 });
+  } catch (error: unknown) {
+    console.error("[POST] /api/reminders/rules error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create reminder rule" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
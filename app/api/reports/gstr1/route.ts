@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { GSTR1_SECTIONS, Gstr1Section, buildGstr1 } from "@/lib/gst-reports";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get("month") || "";
+    const format = searchParams.get("format") || "json";
+    const section = searchParams.get("section") as Gstr1Section | null;
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return NextResponse.json(
+        { error: "month must be in YYYY-MM format" },
+        { status: 400 }
+      );
+    }
+    if (format === "csv" && (!section || !GSTR1_SECTIONS.includes(section))) {
+      return NextResponse.json(
+        { error: `section must be one of: ${GSTR1_SECTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const report = await buildGstr1(connection!, userId, month);
+
+    if (format === "csv") {
+      return new NextResponse("\uFEFF" + report.csv[section!], {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="gstr1_${section}_${month}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      month: report.month,
+      gstr1: report.gstr1,
+      warnings: report.warnings,
+    });
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to build GSTR-1";
+    console.error("Error in GET /api/reports/gstr1:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
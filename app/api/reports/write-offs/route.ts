@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { format, startOfYear } from "date-fns";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { buildWriteOffReport, writeOffReportToCsv } from "@/lib/write-offs";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from") || format(startOfYear(new Date()), "yyyy-MM-dd");
+    const to = searchParams.get("to") || format(new Date(), "yyyy-MM-dd");
+    const responseFormat = searchParams.get("format") || "json";
+
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      return NextResponse.json(
+        { error: "from and to must be dates in YYYY-MM-DD format" },
+        { status: 400 }
+      );
+    }
+    if (from > to) {
+      return NextResponse.json({ error: "from must not be after to" }, { status: 400 });
+    }
+    if (responseFormat !== "json" && responseFormat !== "csv") {
+      return NextResponse.json(
+        { error: "format must be json or csv" },
+        { status: 400 }
+      );
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const report = await buildWriteOffReport(connection!, userId, from, to);
+
+    if (responseFormat === "csv") {
+      return new NextResponse("\uFEFF" + writeOffReportToCsv(report), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="write_offs_${from}_${to}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Failed to prepare write-off report";
+    console.error("Error in GET /api/reports/write-offs:", error);
+    const status =
+      errorMessage.includes("Unauthorized") || errorMessage.includes("Invalid")
+        ? 401
+        : 500;
+    return NextResponse.json({ error: errorMessage }, { status });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
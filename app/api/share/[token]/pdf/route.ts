@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { loadSharedReceipt } from "@/lib/receipt-shares";
+import {
+  RECEIPT_PDF_FORMATS,
+  ReceiptPdfFormat,
+  renderReceiptPdf,
+} from "@/lib/receipt-pdf";
+
+// Public: the signed token in the URL is the only credential
+export async function GET(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  const { token } = await params;
+
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get("format") || "a4") as ReceiptPdfFormat;
+  if (!RECEIPT_PDF_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of ${RECEIPT_PDF_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const receipt = await loadSharedReceipt(connection!, token);
+    if (!receipt) {
+      return NextResponse.json(
+        { error: "This link is invalid, expired or has been revoked" },
+        { status: 404 }
+      );
+    }
+
+    const pdf = renderReceiptPdf(receipt, format);
+    const suffix = format === "a4" ? "" : `_${format}`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="receipt_${receipt.receiptNumber}${suffix}.pdf"`,
+        "Content-Length": String(pdf.length),
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error in GET /api/share/[token]/pdf:", error);
+    return NextResponse.json({ error: "Failed to generate receipt PDF" }, { status: 500 });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { loadSharedReceipt, toPublicReceipt } from "@/lib/receipt-shares";
+
+// Public: the signed token in the URL is the only credential
+export async function GET(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  const { token } = await params;
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const receipt = await loadSharedReceipt(connection!, token);
+    if (!receipt) {
+      return NextResponse.json(
+        { error: "This link is invalid, expired or has been revoked" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toPublicReceipt(receipt));
+  } catch (error: unknown) {
+    console.error("Error in GET /api/share/[token]:", error);
+    return NextResponse.json({ error: "Failed to load receipt" }, { status: 500 });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyStatementToken } from "@/lib/auth";
+import {
+  STATEMENT_FORMATS,
+  StatementFormat,
+  buildCustomerStatement,
+  getStatementFilename,
+  statementToCsv,
+  toPublicStatement,
+} from "@/lib/statements";
+import { renderStatementPdf } from "@/lib/statement-pdf";
+
+// Public: the signed token in the URL is the only credential
+export async function GET(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  const { token } = await params;
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get("format") || "json") as StatementFormat;
+  if (!STATEMENT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of ${STATEMENT_FORMATS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const payload = verifyStatementToken(token);
+  if (!payload) {
+    return NextResponse.json(
+      { error: "This link is invalid or has expired" },
+      { status: 404 }
+    );
+  }
+
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const statement = await buildCustomerStatement(
+      connection!,
+      payload.ownerId,
+      payload.customerId,
+      payload.from,
+      payload.to
+    );
+    if (!statement) {
+      return NextResponse.json(
+        { error: "This link is invalid or has expired" },
+        { status: 404 }
+      );
+    }
+
+    if (format === "csv") {
+      return new NextResponse("\uFEFF" + statementToCsv(statement), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${getStatementFilename(statement, "csv")}"`,
+        },
+      });
+    }
+
+    if (format === "pdf") {
+      const pdf = renderStatementPdf(statement);
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${getStatementFilename(statement, "pdf")}"`,
+          "Content-Length": String(pdf.length),
+        },
+      });
+    }
+
+    return NextResponse.json(toPublicStatement(statement));
+  } catch (error: unknown) {
+    console.error("Error in GET /api/statements/[token]:", error);
+    return NextResponse.json({ error: "Failed to load statement" }, { status: 500 });
+  } finally {
+    if (connection) {
+      await connection.release();
+    }
+  }
+}
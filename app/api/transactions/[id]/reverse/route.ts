@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { publishEvent } from "@/lib/events";
+import { reverseTransaction, validateChangeReason } from "@/lib/transactions";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (!(error instanceof Error)) return 500;
+  if (error.message.includes("Unauthorized") || error.message.includes("Invalid token")) {
+    return 401;
+  }
+  if (error.message === "Transaction not found") return 404;
+  if (
+    error.message.startsWith("Manual entries") ||
+    error.message.startsWith("Transfers cannot") ||
+    error.message.startsWith("Write-offs") ||
+    error.message.startsWith("A reversing entry") ||
+    error.message.startsWith("This entry has already")
+  ) {
+    return 409;
+  }
+  return 500;
+}
+
+/**
+ * Post an equal and opposite entry for one posted by a receipt, due or
+ * credit note. Body: `{ reason }`.
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+    }
+
+    const { reason } = (await request.json()) as { reason: string };
+    const reasonError = validateChangeReason(reason);
+    if (reasonError) {
+      return NextResponse.json({ error: reasonError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    let reversal: Awaited<ReturnType<typeof reverseTransaction>>;
+    try {
+      reversal = await reverseTransaction(connection!, userId, Number(id), reason);
+      await connection!.commit();
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
+    }
+
+    publishEvent(userId, {
+      type: "transaction-added",
+      transactionId: reversal.reversalId,
+      amount: reversal.amount,
+      kind: reversal.kind,
+    });
+
+    return NextResponse.json({ success: true, reversalId: reversal.reversalId }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("[POST] /api/transactions/[id]/reverse error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to reverse transaction" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
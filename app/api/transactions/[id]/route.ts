@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { publishEvent } from "@/lib/events";
+import { validateExpenseFields } from "@/lib/expenses";
+import { assertMoneyAccount } from "@/lib/money-accounts";
+import {
+  TransactionInput,
+  deleteManualTransaction,
+  updateManualTransaction,
+  validateChangeReason,
+  validateTransactionInput,
+} from "@/lib/transactions";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (!(error instanceof Error)) return 500;
+  if (error.message.includes("Unauthorized") || error.message.includes("Invalid token")) {
+    return 401;
+  }
+  if (error.message === "Transaction not found") return 404;
+  if (error.message.startsWith("Only manual entries")) return 409;
+  if (error.message === "Money account not found") return 400;
+  return 500;
+}
+
+/**
+ * Edit a manual entry. Body: the same fields as a new entry plus `reason`,
+ * which is kept in the audit log with the entry as it stood.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+    }
+
+    const { reason, ...input } = (await request.json()) as TransactionInput & {
+      reason: string;
+    };
+    const validationError = validateTransactionInput(input) || validateChangeReason(reason);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const expenseError = await validateExpenseFields(
+      connection!,
+      userId,
+      input.type,
+      input.amount,
+      input
+    );
+    if (expenseError) {
+      return NextResponse.json({ error: expenseError }, { status: 400 });
+    }
+    await assertMoneyAccount(connection!, userId, input.moneyAccountId);
+
+    await connection!.beginTransaction();
+    try {
+      await updateManualTransaction(connection!, userId, Number(id), input, reason);
+      await connection!.commit();
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
+    }
+
+    publishEvent(userId, {
+      type: "transaction-updated",
+      transactionId: Number(id),
+      amount: input.amount,
+      kind: input.type,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("[PUT] /api/transactions/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update transaction" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+// Body: `{ reason }`
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const { id } = await params;
+    if (!/^\d+$/.test(id)) {
+      return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+    }
+
+    const { reason } = (await request.json().catch(() => ({}))) as { reason?: string };
+    const reasonError = validateChangeReason(reason);
+    if (reasonError) {
+      return NextResponse.json({ error: reasonError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    let deleted: Awaited<ReturnType<typeof deleteManualTransaction>>;
+    try {
+      deleted = await deleteManualTransaction(connection!, userId, Number(id), reason!);
+      await connection!.commit();
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
+    }
+
+    publishEvent(userId, {
+      type: "transaction-deleted",
+      transactionId: Number(id),
+      amount: deleted.amount,
+      kind: deleted.kind,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("[DELETE] /api/transactions/[id] error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete transaction" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { loadTransactionAuditLog } from "@/lib/transactions";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+// Edits, deletions and reversals, newest first; `?transactionId=` narrows to one entry
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const transactionId = new URL(request.url).searchParams.get("transactionId");
+    if (transactionId && !/^\d+$/.test(transactionId)) {
+      return NextResponse.json({ error: "Invalid transaction ID" }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const entries = await loadTransactionAuditLog(
+      connection!,
+      userId,
+      transactionId ? Number(transactionId) : undefined
+    );
+    return NextResponse.json({ entries });
+  } catch (error: unknown) {
+    console.error("[GET] /api/transactions/audit error:", error);
+    const isAuthError =
+      error instanceof Error &&
+      (error.message.includes("Unauthorized") || error.message.includes("Invalid token"));
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load change history" },
+      { status: isAuthError ? 401 : 500 }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
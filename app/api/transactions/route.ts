@@ -2,6 +2,11 @@ import { NextResponse } from "next/server";
 import mysql from "mysql2/promise";
 import { getPool } from "@/lib/database";
 import { verifyJwt } from "@/lib/auth";
+import { publishEvent } from "@/lib/events";
+import { ExpenseFields, ExpensePaymentMode, validateExpenseFields } from "@/lib/expenses";
+import { assertMoneyAccount, resolveMoneyAccountId } from "@/lib/money-accounts";
+import { loadMoneyBalance, postTransactionJournal } from "@/lib/ledger";
+import { MANUAL_TRANSACTION } from "@/lib/transactions";
 
 interface Transaction {
   id: string;
@@ -11,8 +16,79 @@ interface Transaction {
   date: string;
   receiptNumber?: string;
   createdAt: string;
+  // Book entries such as bad-debt write-offs; they never move the balance
+  isNonCash: boolean;
+  categoryId?: number;
+  category?: string;
+  payee?: string;
+  paymentMode?: ExpensePaymentMode;
+  taxAmount: number;
+  moneyAccountId?: number;
+  moneyAccount?: string;
+  // One leg of a move between the user's own accounts
+  isTransfer: boolean;
+  // The ledger entry this row posted (shared by both legs of a transfer)
+  journalEntryId?: number;
+  // Typed in by hand, so it can be edited or deleted
+  isManual: boolean;
+  // Set on a reversal, and on the entry it cancelled
+  reversesTransactionId?: number;
+  reversedById?: number;
 }
 
+const TRANSACTION_COLUMNS = `
+  t.id,
+  t.particulars,
+  t.amount,
+  t.type,
+  t.transaction_date as date,
+  t.created_at as createdAt,
+  t.is_non_cash as isNonCash,
+  t.expense_category_id as categoryId,
+  c.name as category,
+  t.payee,
+  t.payment_mode as paymentMode,
+  t.tax_amount as taxAmount,
+  t.money_account_id as moneyAccountId,
+  a.name as moneyAccount,
+  t.transfer_id IS NOT NULL as isTransfer,
+  COALESCE(je.id, jt.id) as journalEntryId,
+  ${MANUAL_TRANSACTION} as isManual,
+  t.reverses_transaction_id as reversesTransactionId,
+  rv.id as reversedById,
+  r.receipt_number as receiptNumber`;
+
+const TRANSACTION_JOINS = `
+  LEFT JOIN receipts r ON t.receipt_id = r.id
+  LEFT JOIN expense_categories c ON t.expense_category_id = c.id
+  LEFT JOIN money_accounts a ON t.money_account_id = a.id
+  LEFT JOIN journal_entries je ON je.account_transaction_id = t.id
+  LEFT JOIN journal_entries jt ON jt.transfer_id = t.transfer_id
+  LEFT JOIN account_transactions rv ON rv.reverses_transaction_id = t.id`;
+
+const toTransaction = (row: mysql.RowDataPacket): Transaction => ({
+  id: row.id.toString(),
+  particulars: row.particulars || "Unknown Transaction",
+  amount: Number(row.amount) || 0,
+  type: row.type === "credit" ? "credit" : "debit",
+  date: row.date || new Date().toISOString(),
+  receiptNumber: row.receiptNumber || undefined,
+  createdAt: row.createdAt || new Date().toISOString(),
+  isNonCash: Boolean(row.isNonCash),
+  categoryId: row.categoryId || undefined,
+  category: row.category || undefined,
+  payee: row.payee || undefined,
+  paymentMode: row.paymentMode || undefined,
+  taxAmount: Number(row.taxAmount) || 0,
+  moneyAccountId: row.moneyAccountId || undefined,
+  moneyAccount: row.moneyAccount || undefined,
+  isTransfer: Boolean(row.isTransfer),
+  journalEntryId: row.journalEntryId || undefined,
+  isManual: Boolean(row.isManual),
+  reversesTransactionId: row.reversesTransactionId || undefined,
+  reversedById: row.reversedById || undefined,
+});
+
 interface JwtPayload {
   userId: string | number;
   [key: string]: any;
@@ -37,51 +113,44 @@ export async function GET(request: Request) {
 
   try {
     const { userId } = await verifyToken(request);
+    const accountId = new URL(request.url).searchParams.get("accountId");
+    if (accountId && !/^\d+$/.test(accountId)) {
+      return NextResponse.json({ error: "Invalid account ID" }, { status: 400 });
+    }
+
     const pool = await getPool();
     connection = await pool.getConnection();
 
-    // Get all transactions with receipt number if available
+    // Get all transactions with receipt number if available, or one
+    // money account's ledger when accountId is given
     const [transactionRows] = await connection!.query<mysql.RowDataPacket[]>(
-      `SELECT 
-        t.id, 
-        t.particulars, 
-        t.amount, 
-        t.type, 
-        t.transaction_date as date,
-        t.created_at as createdAt,
-        r.receipt_number as receiptNumber
+      `SELECT ${TRANSACTION_COLUMNS}
        FROM account_transactions t
-       LEFT JOIN receipts r ON t.receipt_id = r.id
-       WHERE t.user_id = ?
+       ${TRANSACTION_JOINS}
+       WHERE t.user_id = ? ${accountId ? "AND t.money_account_id = ?" : ""}
        ORDER BY t.transaction_date DESC, t.created_at DESC`,
-      [userId]
+      accountId ? [userId, Number(accountId)] : [userId]
     );
 
-    const transactions: Transaction[] = transactionRows.map((row) => ({
-      id: row.id.toString(),
-      particulars: row.particulars || "Unknown Transaction",
-      amount: Number(row.amount) || 0,
-      type: row.type === "credit" ? "credit" : "debit",
-      date: row.date || new Date().toISOString(),
-      receiptNumber: row.receiptNumber || undefined,
-      createdAt: row.createdAt || new Date().toISOString(),
-    }));
-
-    // Calculate current account balance from transactions
-    let balance = 0;
-    transactions.forEach((transaction) => {
-      if (transaction.type === "credit") {
-        balance += transaction.amount;
-      } else {
-        balance -= transaction.amount;
-      }
-    });
+    const transactions = transactionRows.map(toTransaction);
+    const cashTransactions = transactions.filter((t) => !t.isNonCash);
+    // Transfers cancel out across accounts, so only an account's own
+    // ledger counts them as money in and out
+    const flowTransactions = accountId
+      ? cashTransactions
+      : cashTransactions.filter((t) => !t.isTransfer);
+
+    const balance = await loadMoneyBalance(
+      connection!,
+      userId,
+      accountId ? Number(accountId) : undefined
+    );
 
     // Calculate total due balance from unpaid due records
     const [dueRows] = await connection!.query<mysql.RowDataPacket[]>(
-      `SELECT COALESCE(SUM(amount_due), 0) as total_due
+      `SELECT COALESCE(SUM(amount_due - amount_paid), 0) as total_due
        FROM due_records
-       WHERE user_id = ? AND is_paid = FALSE`,
+       WHERE user_id = ? AND is_paid = FALSE AND status = 'open'`,
       [userId]
     );
 
@@ -92,12 +161,15 @@ export async function GET(request: Request) {
       balance: Number(balance.toFixed(2)),
       totalDueBalance: Number(totalDueBalance.toFixed(2)),
       summary: {
-        totalCredits: transactions
+        totalCredits: flowTransactions
           .filter((t) => t.type === "credit")
           .reduce((sum, t) => sum + t.amount, 0),
-        totalDebits: transactions
+        totalDebits: flowTransactions
           .filter((t) => t.type === "debit")
           .reduce((sum, t) => sum + t.amount, 0),
+        totalWrittenOff: transactions
+          .filter((t) => t.isNonCash)
+          .reduce((sum, t) => sum + t.amount, 0),
         transactionCount: transactions.length,
       },
     });
@@ -131,7 +203,14 @@ export async function POST(request: Request) {
 
   try {
     const { userId } = await verifyToken(request);
-    const { particulars, amount, type, transactionDate } = await request.json();
+    const { particulars, amount, type, transactionDate, moneyAccountId, ...expense } =
+      (await request.json()) as {
+        particulars: string;
+        amount: number;
+        type: "credit" | "debit";
+        transactionDate: string;
+        moneyAccountId?: number;
+      } & ExpenseFields;
 
     // Validate input
     if (
@@ -170,48 +249,76 @@ export async function POST(request: Request) {
     const pool = await getPool();
     connection = await pool.getConnection();
 
-    // Insert the new transaction with the provided date
-    const [result] = await connection!.query<mysql.ResultSetHeader>(
-      `INSERT INTO account_transactions 
-       (particulars, amount, type, user_id, transaction_date, created_at)
-       VALUES (?, ?, ?, ?, ?, NOW())`,
-      [particulars.trim(), amount, type, userId, transactionDate]
-    );
+    const expenseError = await validateExpenseFields(connection!, userId, type, amount, expense);
+    if (expenseError) {
+      return NextResponse.json({ error: expenseError }, { status: 400 });
+    }
+
+    // Entries without an account go to the one that takes cash
+    if (moneyAccountId != null) {
+      if (!Number.isInteger(moneyAccountId)) {
+        return NextResponse.json({ error: "Invalid money account" }, { status: 400 });
+      }
+      await assertMoneyAccount(connection!, userId, moneyAccountId);
+    }
+    const accountIdToUse =
+      moneyAccountId ?? (await resolveMoneyAccountId(connection!, userId, "cash"));
 
-    if (result.affectedRows === 0) {
-      throw new Error("Failed to create transaction");
+    await connection!.beginTransaction();
+
+    let result: mysql.ResultSetHeader;
+    try {
+      // Insert the new transaction with the provided date
+      [result] = await connection!.query<mysql.ResultSetHeader>(
+        `INSERT INTO account_transactions 
+         (particulars, amount, type, user_id, expense_category_id, payee, payment_mode,
+          tax_amount, money_account_id, transaction_date, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+        [
+          particulars.trim(),
+          amount,
+          type,
+          userId,
+          expense.categoryId ?? null,
+          expense.payee?.trim() || null,
+          expense.paymentMode ?? null,
+          expense.taxAmount ?? 0,
+          accountIdToUse,
+          transactionDate,
+        ]
+      );
+
+      if (result.affectedRows === 0) {
+        throw new Error("Failed to create transaction");
+      }
+      await postTransactionJournal(connection!, userId, result.insertId);
+      await connection!.commit();
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
     }
 
     // Return the created transaction
     const [newTransaction] = await connection!.query<mysql.RowDataPacket[]>(
-      `SELECT 
-        t.id, 
-        t.particulars, 
-        t.amount, 
-        t.type, 
-        t.transaction_date as date,
-        t.created_at as createdAt,
-        r.receipt_number as receiptNumber
+      `SELECT ${TRANSACTION_COLUMNS}
        FROM account_transactions t
-       LEFT JOIN receipts r ON t.receipt_id = r.id
+       ${TRANSACTION_JOINS}
        WHERE t.id = ?`,
       [result.insertId]
     );
 
-    const transaction = newTransaction[0];
+    const transaction = toTransaction(newTransaction[0]);
+    publishEvent(userId, {
+      type: "transaction-added",
+      transactionId: result.insertId,
+      amount,
+      kind: type,
+    });
 
     return NextResponse.json(
       {
         success: true,
-        transaction: {
-          id: transaction.id.toString(),
-          particulars: transaction.particulars,
-          amount: Number(transaction.amount),
-          type: transaction.type,
-          date: transaction.date,
-          receiptNumber: transaction.receiptNumber || undefined,
-          createdAt: transaction.createdAt || new Date().toISOString(),
-        },
+        transaction,
       },
       { status: 201 }
     );
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import mysql from "mysql2/promise";
+import { getPool } from "@/lib/database";
+import { verifyJwt } from "@/lib/auth";
+import { publishEvent } from "@/lib/events";
+import {
+  TransferInput,
+  createTransfer,
+  loadTransfers,
+  validateTransferInput,
+} from "@/lib/money-accounts";
+import { postTransferJournal } from "@/lib/ledger";
+
+async function verifyToken(request: Request): Promise<string> {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    throw new Error("Unauthorized");
+  }
+
+  const token = authHeader.split(" ")[1];
+  const userId = await verifyJwt(token);
+  if (!userId) {
+    throw new Error("Invalid token");
+  }
+  return userId;
+}
+
+function errorStatus(error: unknown): number {
+  if (
+    error instanceof Error &&
+    (error.message.includes("Unauthorized") ||
+      error.message.includes("Invalid"))
+  ) {
+    return 401;
+  }
+  if (error instanceof Error && error.message === "Money account not found") {
+    return 404;
+  }
+  return 500;
+}
+
+export async function GET(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    return NextResponse.json(await loadTransfers(connection!, userId));
+  } catch (error: unknown) {
+    console.error("[GET] /api/transfers error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Database error" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+export async function POST(request: Request) {
+  let connection: mysql.PoolConnection | undefined;
+
+  try {
+    const userId = await verifyToken(request);
+    const body: Partial<TransferInput> = await request.json();
+
+    const validationError = validateTransferInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const pool = await getPool();
+    connection = await pool.getConnection();
+    await connection!.beginTransaction();
+
+    let transferId: number;
+    try {
+      transferId = await createTransfer(connection!, userId, body as TransferInput);
+      await postTransferJournal(connection!, userId, transferId);
+      await connection!.commit();
+    } catch (error) {
+      await connection!.rollback();
+      throw error;
+    }
+
+    publishEvent(userId, { type: "transfer-created", transferId, amount: body.amount! });
+    return NextResponse.json({ success: true, transferId }, { status: 201 });
+  } catch (error: unknown) {
+    console.error("[POST] /api/transfers error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to record transfer" },
+      { status: errorStatus(error) }
+    );
+  } finally {
+    if (connection) await connection.release();
+  }
+}
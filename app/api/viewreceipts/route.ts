@@ -22,10 +22,12 @@ export async function GET(request: Request) {
     const pool = await getPool();
     connection = await pool.getConnection();
 
-    // Query with explicit type casting for numeric fields
+    // Query with explicit type casting for numeric fields.
+    // Credit notes are listed alongside receipts with a negative total.
     const [rows] = await connection!.execute(
       `
       SELECT 
+        'receipt' AS documentType,
         r.id,
         r.receipt_number AS receiptNumber,
         r.date,
@@ -33,6 +35,7 @@ export async function GET(request: Request) {
         CAST(r.total AS DECIMAL(10,2)) AS total,
         r.payment_status AS paymentStatus,
         CASE 
+          WHEN r.status = 'void' THEN 'void'
           WHEN r.payment_status = 'due' AND EXISTS (
             SELECT 1 FROM due_records d 
             WHERE d.receipt_number = r.receipt_number 
@@ -42,9 +45,22 @@ export async function GET(request: Request) {
         END AS displayStatus
       FROM receipts r
       WHERE r.user_id = ?
-      ORDER BY r.date DESC
+      UNION ALL
+      SELECT
+        'credit_note' AS documentType,
+        cn.id,
+        cn.credit_note_number AS receiptNumber,
+        cn.date,
+        r.customer_name AS customerName,
+        CAST(-cn.total AS DECIMAL(10,2)) AS total,
+        r.payment_status AS paymentStatus,
+        'credit_note' AS displayStatus
+      FROM credit_notes cn
+      JOIN receipts r ON cn.receipt_id = r.id
+      WHERE cn.user_id = ?
+      ORDER BY date DESC
     `,
-      [userId]
+      [userId, userId]
     );
 
     // Simple response without additional processing
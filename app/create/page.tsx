@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -17,15 +17,36 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Plus, Trash2, ArrowLeft } from "lucide-react";
 import Link from "next/link";
 import { PhoneInput } from "@/components/phone-input";
+import { InstallmentPlanEditor } from "@/components/installment-plan-editor";
+import {
+  CustomerSuggestion,
+  CustomerSuggestions,
+} from "@/components/customer-suggestions";
 import { format } from "date-fns";
 import { z } from "zod";
+import { DiscountType, calculateReceiptTotals } from "@/lib/receipt-totals";
+import { InstallmentPlan, validateInstallmentPlan } from "@/lib/installments";
+import {
+  GST_STATES,
+  getStateCodeFromGstin,
+  isInterStateSupply,
+  isValidGstin,
+} from "@/lib/gst-states";
 
 const ReceiptItemSchema = z.object({
   description: z.string().min(1, "Description is required"),
+  hsnCode: z
+    .string()
+    .regex(/^(\d{4}|\d{6}|\d{8})$/, "HSN/SAC must be 4, 6 or 8 digits")
+    .optional()
+    .or(z.literal("")),
   quantity: z.number().int().min(1, "Quantity must be at least 1"),
   price: z.number().min(0.01, "Price must be at least ₹0.01"),
   advanceAmount: z.number().min(0).optional(),
   dueAmount: z.number().min(0).optional(),
+  discount: z.number().min(0, "Discount cannot be negative").optional(),
+  discountType: z.enum(["percentage", "fixed"]).optional(),
+  gstSlabId: z.number().int().positive().nullable().optional(),
 });
 
 const PaymentDetailsSchema = z.object({
@@ -39,6 +60,11 @@ const ReceiptSchema = z.object({
   customerName: z.string().min(1, "Customer name is required"),
   customerContact: z.string().min(10, "Contact must be at least 10 digits"),
   customerCountryCode: z.string().optional(),
+  customerGstNumber: z
+    .string()
+    .refine((value) => !value || isValidGstin(value), "Customer GSTIN is invalid")
+    .optional(),
+  placeOfSupply: z.string().optional(),
   paymentType: z.enum(["cash", "online"]),
   paymentStatus: z.enum(["full", "advance", "due"]),
   paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format").optional(),
@@ -47,26 +73,44 @@ const ReceiptSchema = z.object({
   dueTotal: z.number().min(0),
   items: z.array(ReceiptItemSchema).min(1, "At least one item is required"),
   paymentDetails: PaymentDetailsSchema.optional(),
-  gstPercentage: z.number().min(0).max(28).nullable().optional(),
   gstAmount: z.number().min(0).optional(),
+  discount: z.number().min(0, "Discount cannot be negative").optional(),
+  discountType: z.enum(["percentage", "fixed"]).optional(),
 });
 
 interface ReceiptItem {
   description: string;
+  hsnCode?: string;
   quantity: number;
   price: number;
   advanceAmount?: number;
   dueAmount?: number;
+  discount?: number;
+  discountType?: DiscountType;
+  gstSlabId?: number | null;
+  gstRate?: number | null;
+}
+
+interface GstSlab {
+  id: number;
+  slabName: string;
+  percentage: number;
+  isActive: boolean;
 }
 
 export default function CreateReceipt() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const editId = searchParams.get("edit");
+  const [revisionReason, setRevisionReason] = useState("");
   const [receiptData, setReceiptData] = useState({
     receiptNumber: "",
     date: format(new Date(), "yyyy-MM-dd"),
     customerName: "",
     customerContact: "",
     customerCountryCode: "+91",
+    customerGstNumber: "",
+    placeOfSupply: "",
     paymentType: "cash" as "cash" | "online",
     paymentStatus: "full" as "full" | "advance" | "due",
     paymentDate: format(new Date(), "yyyy-MM-dd"),
@@ -74,8 +118,9 @@ export default function CreateReceipt() {
     items: [{ description: "", quantity: 0, price: 0 }] as ReceiptItem[],
     total: 0,
     dueTotal: 0,
-    gstPercentage: null as number | null,
     gstAmount: 0,
+    discount: 0,
+    discountType: "fixed" as DiscountType,
   });
 
   const [paymentDetails, setPaymentDetails] = useState<{
@@ -86,6 +131,9 @@ export default function CreateReceipt() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [user, setUser] = useState<any>(null);
+  const [gstSlabs, setGstSlabs] = useState<GstSlab[]>([]);
+  const [installmentPlan, setInstallmentPlan] = useState<InstallmentPlan>({ type: "single" });
+  const [customerQuery, setCustomerQuery] = useState("");
 
   useEffect(() => {
     const initialize = async () => {
@@ -109,13 +157,87 @@ export default function CreateReceipt() {
           return;
         }
 
-        const receiptRes = await fetch("/api/receipts/next-number", {
+        const slabsRes = await fetch("/api/gst-slabs", {
           headers: { Authorization: `Bearer ${userData.token}` },
         });
-        if (!receiptRes.ok) throw new Error("Failed to generate receipt number");
-        const { receiptNumber } = await receiptRes.json();
-
-        setReceiptData((prev) => ({ ...prev, receiptNumber }));
+        if (!slabsRes.ok) throw new Error("Failed to load GST slabs");
+        const slabs: GstSlab[] = await slabsRes.json();
+        setGstSlabs(slabs);
+
+        if (editId) {
+          const existingRes = await fetch(`/api/receipts/${editId}`, {
+            headers: { Authorization: `Bearer ${userData.token}` },
+          });
+          if (!existingRes.ok) throw new Error("Failed to load receipt for editing");
+          const existing = await existingRes.json();
+          if (existing.status === "void") throw new Error("Voided receipts cannot be edited");
+
+          const items: ReceiptItem[] = existing.items.map((item: any) => ({
+            description: item.description,
+            hsnCode: item.hsnCode || "",
+            quantity: Number(item.quantity) || 0,
+            price: Number(item.price) || 0,
+            advanceAmount: Number(item.advanceAmount) || 0,
+            dueAmount: Number(item.dueAmount) || 0,
+            discount: Number(item.discount) || 0,
+            discountType: item.discountType || "fixed",
+            // Older receipts have no slab link, only a rate
+            gstSlabId:
+              item.gstSlabId ??
+              (Number(item.gstRate) > 0
+                ? slabs.find((s) => s.percentage === Number(item.gstRate))?.id ?? null
+                : null),
+            gstRate: item.gstRate ?? null,
+          }));
+
+          setReceiptData((prev) => ({
+            ...prev,
+            receiptNumber: existing.receiptNumber,
+            date: existing.date,
+            customerName: existing.customerName,
+            customerContact: existing.customerContact,
+            customerCountryCode: existing.customerCountryCode || "+91",
+            customerGstNumber: existing.customerGstNumber || "",
+            placeOfSupply: existing.placeOfSupply || "",
+            paymentType: existing.paymentType,
+            paymentStatus: existing.paymentStatus,
+            paymentDate: existing.expectedPaymentDate || prev.paymentDate,
+            notes: existing.notes || "",
+            items,
+            discount: Number(existing.discount) || 0,
+            discountType: existing.discountType || "fixed",
+          }));
+          // Any existing split is reloaded as a custom schedule
+          if (existing.installments?.length > 1) {
+            setInstallmentPlan({
+              type: "custom",
+              installments: existing.installments.map(
+                (installment: { amount: number; dueDate: string }) => ({
+                  amount: Number(installment.amount) || 0,
+                  dueDate: installment.dueDate,
+                })
+              ),
+            });
+          }
+          if (existing.paymentDetails?.phoneNumber) {
+            setPaymentDetails({
+              phoneNumber: existing.paymentDetails.phoneNumber,
+              phoneCountryCode: existing.paymentDetails.phoneCountryCode,
+            });
+          }
+        } else {
+          const receiptRes = await fetch("/api/receipts/next-number", {
+            headers: { Authorization: `Bearer ${userData.token}` },
+          });
+          if (!receiptRes.ok) throw new Error("Failed to generate receipt number");
+          const { receiptNumber } = await receiptRes.json();
+
+          setReceiptData((prev) => ({
+            ...prev,
+            receiptNumber,
+            placeOfSupply: profile.stateCode || getStateCodeFromGstin(profile.gstNumber) || "",
+          }));
+        }
         setUser(profile);
       } catch (error: unknown) {
         console.error("Initialization error:", error);
@@ -126,7 +248,7 @@ export default function CreateReceipt() {
     };
 
     initialize();
-  }, [router]);
+  }, [router, editId]);
 
   const generateReceiptNumber = async (token: string) => {
     try {
@@ -153,22 +275,20 @@ export default function CreateReceipt() {
     }
   };
 
-  useEffect(() => {
-    const subtotal = receiptData.items.reduce(
-      (sum, item) => sum + 
-        (typeof item.quantity === 'number' && !isNaN(item.quantity) ? item.quantity : 0) * 
-        (typeof item.price === 'number' && !isNaN(item.price) ? item.price : 0),
-      0
-    );
-    
-    // Ensure gstPercentage is a valid number before calculation
-    const effectiveGstPercentage = typeof receiptData.gstPercentage === 'number' && !isNaN(receiptData.gstPercentage)
-      ? receiptData.gstPercentage
-      : 0;
+  const storeState = user?.stateCode || getStateCodeFromGstin(user?.gstNumber);
+  const interState = isInterStateSupply(storeState, receiptData.placeOfSupply);
 
-    const gstAmount = (subtotal * effectiveGstPercentage) / 100;
+  // Same calculation the server repeats when the receipt is saved
+  const totals = calculateReceiptTotals(receiptData.items, {
+    ...receiptData,
+    interState,
+  });
 
-    const total = subtotal + gstAmount;
+  useEffect(() => {
+    const { total, totalTax: gstAmount } = calculateReceiptTotals(
+      receiptData.items,
+      receiptData
+    );
     let dueTotal = 0;
 
     if (receiptData.paymentStatus === "advance") {
@@ -186,7 +306,12 @@ export default function CreateReceipt() {
     }
 
     setReceiptData((prev) => ({ ...prev, total, gstAmount, dueTotal }));
-  }, [receiptData.items, receiptData.paymentStatus, receiptData.gstPercentage]);
+  }, [
+    receiptData.items,
+    receiptData.paymentStatus,
+    receiptData.discount,
+    receiptData.discountType,
+  ]);
 
   const addItem = () => {
     setReceiptData((prev) => ({
@@ -210,7 +335,7 @@ export default function CreateReceipt() {
       const newItems = [...prev.items];
       const parsedValue =
         typeof value === "string"
-          ? field === "description"
+          ? field === "description" || field === "discountType" || field === "hsnCode"
             ? value
             : field === "quantity"
             ? value === ""
@@ -225,6 +350,19 @@ export default function CreateReceipt() {
     });
   };
 
+  const updateItemGstSlab = (index: number, slabId: string) => {
+    const slab = gstSlabs.find((s) => s.id.toString() === slabId);
+    setReceiptData((prev) => {
+      const newItems = [...prev.items];
+      newItems[index] = {
+        ...newItems[index],
+        gstSlabId: slab?.id ?? null,
+        gstRate: slab?.percentage ?? null,
+      };
+      return { ...prev, items: newItems };
+    });
+  };
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
@@ -232,12 +370,42 @@ export default function CreateReceipt() {
     setReceiptData((prev) => ({ ...prev, [name]: value }));
   };
 
+  const handleCustomerGstChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const customerGstNumber = e.target.value.toUpperCase();
+    const gstinState = isValidGstin(customerGstNumber)
+      ? getStateCodeFromGstin(customerGstNumber)
+      : null;
+    setReceiptData((prev) => ({
+      ...prev,
+      customerGstNumber,
+      // A registered customer's place of supply is their GSTIN state
+      placeOfSupply: gstinState || prev.placeOfSupply,
+    }));
+  };
+
   const handlePhoneChange = (value: string, countryCode: string) => {
     setReceiptData((prev) => ({
       ...prev,
       customerContact: value,
       customerCountryCode: countryCode,
     }));
+    setCustomerQuery(value);
+  };
+
+  const handleCustomerSelect = (customer: CustomerSuggestion) => {
+    const gstinState =
+      customer.gstNumber && isValidGstin(customer.gstNumber)
+        ? getStateCodeFromGstin(customer.gstNumber)
+        : null;
+    setReceiptData((prev) => ({
+      ...prev,
+      customerName: customer.name,
+      customerContact: customer.contact,
+      customerCountryCode: customer.countryCode,
+      customerGstNumber: customer.gstNumber || "",
+      placeOfSupply: gstinState || prev.placeOfSupply,
+    }));
+    setCustomerQuery("");
   };
 
   const handlePaymentPhoneChange = (value: string, countryCode: string) => {
@@ -287,6 +455,16 @@ export default function CreateReceipt() {
         return;
       }
 
+      const usesInstallments =
+        receiptData.paymentStatus === "due" && installmentPlan.type !== "single";
+      if (usesInstallments) {
+        const planError = validateInstallmentPlan(installmentPlan, receiptData.dueTotal);
+        if (planError) {
+          setErrors({ installmentPlan: planError });
+          return;
+        }
+      }
+
       if (
         receiptData.paymentType === "online" &&
         (!paymentDetails.phoneNumber ||
@@ -306,21 +484,32 @@ export default function CreateReceipt() {
         customerName: receiptData.customerName,
         customerContact: receiptData.customerContact,
         customerCountryCode: receiptData.customerCountryCode,
+        customerGstNumber: receiptData.customerGstNumber || undefined,
+        placeOfSupply: receiptData.placeOfSupply || undefined,
         paymentType: receiptData.paymentStatus === "due" ? "cash" : receiptData.paymentType,
         paymentStatus: receiptData.paymentStatus,
-        paymentDate: receiptData.paymentDate,
+        paymentDate:
+          usesInstallments && installmentPlan.type === "custom"
+            ? installmentPlan.installments![0].dueDate
+            : receiptData.paymentDate,
+        installmentPlan: usesInstallments ? installmentPlan : undefined,
         notes: receiptData.notes || undefined,
         total: receiptData.total,
         dueTotal: receiptData.dueTotal,
-        items: receiptData.items,
+        items: receiptData.items.map((item) => ({
+          ...item,
+          hsnCode: item.hsnCode || undefined,
+        })),
         paymentDetails:
           Object.keys(paymentDetails).length > 0 ? paymentDetails : undefined,
-        gstPercentage: receiptData.gstPercentage || undefined,
         gstAmount: receiptData.gstAmount || undefined,
+        discount: receiptData.discount || undefined,
+        discountType: receiptData.discount ? receiptData.discountType : undefined,
+        reason: editId ? revisionReason || undefined : undefined,
       };
 
-      const response = await fetch("/api/receipts", {
-        method: "POST",
+      const response = await fetch(editId ? `/api/receipts/${editId}` : "/api/receipts", {
+        method: editId ? "PUT" : "POST",
         headers: {
           "Content-Type": "application/json",
           Authorization: `Bearer ${user.token}`,
@@ -330,7 +519,9 @@ export default function CreateReceipt() {
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to create receipt");
+        throw new Error(
+          errorData.error || (editId ? "Failed to update receipt" : "Failed to create receipt")
+        );
       }
 
       const result = await response.json();
@@ -367,7 +558,9 @@ export default function CreateReceipt() {
 
       <Card className="max-w-4xl mx-auto">
         <CardHeader>
-          <CardTitle className="text-2xl">Create Receipt</CardTitle>
+          <CardTitle className="text-2xl">
+            {editId ? `Edit Receipt #${receiptData.receiptNumber}` : "Create Receipt"}
+          </CardTitle>
         </CardHeader>
         <CardContent>
           {errors.form && (
@@ -407,34 +600,6 @@ export default function CreateReceipt() {
                 )}
               </div>
 
-              {receiptData.paymentStatus !== "due" && (
-                <div className="space-y-2">
-                  <Label htmlFor="gstPercentage">GST Percentage</Label>
-                  <Select
-                    value={receiptData.gstPercentage ? receiptData.gstPercentage.toString() : "none"}
-                    onValueChange={(value) => {
-                      const percentage = value === "none" ? null : parseInt(value);
-                      setReceiptData(prev => ({
-                        ...prev,
-                        gstPercentage: percentage,
-                        gstAmount: percentage ? (prev.total * percentage) / 100 : 0
-                      }));
-                    }}
-                  >
-                    <SelectTrigger id="gstPercentage">
-                      <SelectValue placeholder="No GST" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="none">No GST</SelectItem>
-                      <SelectItem value="5">5%</SelectItem>
-                      <SelectItem value="12">12%</SelectItem>
-                      <SelectItem value="18">18%</SelectItem>
-                      <SelectItem value="28">28%</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
-
               {receiptData.paymentStatus !== "due" && (
                 <div className="space-y-2">
                   <Label htmlFor="paymentType">Payment Type</Label>
@@ -469,7 +634,10 @@ export default function CreateReceipt() {
                         ...prev,
                         paymentStatus: newStatus,
                         paymentType: newStatus === "due" ? "cash" : prev.paymentType,
-                        gstPercentage: newStatus === "due" ? null : prev.gstPercentage,
+                        items:
+                          newStatus === "due"
+                            ? prev.items.map((item) => ({ ...item, gstSlabId: null, gstRate: null }))
+                            : prev.items,
                         gstAmount: newStatus === "due" ? 0 : prev.gstAmount,
                         paymentDate: newStatus === "due" ? format(new Date(), "yyyy-MM-dd") : prev.paymentDate
                       }));
@@ -487,9 +655,13 @@ export default function CreateReceipt() {
                   </Select>
               </div>
 
-              {receiptData.paymentStatus === "due" && (
+              {receiptData.paymentStatus === "due" && installmentPlan.type !== "custom" && (
                 <div className="space-y-2">
-                  <Label htmlFor="paymentDate">Expected Payment Date</Label>
+                  <Label htmlFor="paymentDate">
+                    {installmentPlan.type === "single"
+                      ? "Expected Payment Date"
+                      : "First Installment Date"}
+                  </Label>
                   <Input
                     id="paymentDate"
                     name="paymentDate"
@@ -506,6 +678,17 @@ export default function CreateReceipt() {
               )}
             </div>
 
+            {receiptData.paymentStatus === "due" && (
+              <InstallmentPlanEditor
+                plan={installmentPlan}
+                onChange={setInstallmentPlan}
+                dueTotal={receiptData.dueTotal}
+                firstDueDate={receiptData.paymentDate}
+                minDate={editId ? undefined : format(new Date(), "yyyy-MM-dd")}
+                error={errors.installmentPlan}
+              />
+            )}
+
             {receiptData.paymentType === "online" && receiptData.paymentStatus !== "due" && (
               <div className="space-y-2">
                 <Label htmlFor="phoneNumber">Phone Number</Label>
@@ -529,8 +712,11 @@ export default function CreateReceipt() {
                 id="customerName"
                 name="customerName"
                 value={receiptData.customerName}
-                onChange={handleChange}
-                placeholder="Enter customer name"
+                onChange={(e) => {
+                  handleChange(e);
+                  setCustomerQuery(e.target.value);
+                }}
+                placeholder="Enter customer name or pick an existing customer"
                 required
               />
               {errors.customerName && (
@@ -551,6 +737,54 @@ export default function CreateReceipt() {
               )}
             </div>
 
+            <CustomerSuggestions query={customerQuery} onSelect={handleCustomerSelect} />
+
+            <div className="space-y-2">
+              <Label htmlFor="customerGstNumber">Customer GSTIN</Label>
+              <Input
+                id="customerGstNumber"
+                name="customerGstNumber"
+                value={receiptData.customerGstNumber}
+                onChange={handleCustomerGstChange}
+                placeholder="For B2B invoices (optional)"
+                maxLength={15}
+                className="uppercase"
+              />
+              {errors.customerGstNumber && (
+                <div className="text-xs text-red-500">{errors.customerGstNumber}</div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="placeOfSupply">Place of Supply</Label>
+              <Select
+                value={receiptData.placeOfSupply || "none"}
+                onValueChange={(value) =>
+                  setReceiptData((prev) => ({
+                    ...prev,
+                    placeOfSupply: value === "none" ? "" : value,
+                  }))
+                }
+              >
+                <SelectTrigger id="placeOfSupply">
+                  <SelectValue placeholder="Customer's state" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not specified</SelectItem>
+                  {GST_STATES.map((state) => (
+                    <SelectItem key={state.code} value={state.code}>
+                      {state.code} - {state.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="text-xs text-gray-500">
+                {interState
+                  ? "Inter-state supply: IGST will be charged"
+                  : "Intra-state supply: CGST + SGST will be charged"}
+              </div>
+            </div>
+
             <div className="space-y-4">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-medium">Items</h3>
@@ -570,29 +804,52 @@ export default function CreateReceipt() {
                   key={index}
                   className="grid grid-cols-1 md:grid-cols-12 gap-4 items-end"
                 >
-                  <div className="md:col-span-5 space-y-2">
+                  <div
+                    className={`${
+                      receiptData.paymentStatus === "advance" ? "md:col-span-2" : "md:col-span-3"
+                    } space-y-2`}
+                  >
                     <Label htmlFor={`item-${index}-description`}>
-                      Description
+                      Description / HSN
                     </Label>
-                    <Input
-                      id={`item-${index}-description`}
-                      type="text"
-                      value={item.description}
-                      onChange={(e) =>
-                        updateItem(index, "description", e.target.value)
-                      }
-                      placeholder="Item description"
-                      required
-                    />
+                    <div className="flex gap-1">
+                      <Input
+                        id={`item-${index}-description`}
+                        type="text"
+                        value={item.description}
+                        onChange={(e) =>
+                          updateItem(index, "description", e.target.value)
+                        }
+                        placeholder="Item description"
+                        required
+                      />
+                      <Input
+                        type="text"
+                        inputMode="numeric"
+                        maxLength={8}
+                        value={item.hsnCode || ""}
+                        onChange={(e) =>
+                          updateItem(index, "hsnCode", e.target.value.replace(/\D/g, ""))
+                        }
+                        placeholder="HSN/SAC"
+                        aria-label="HSN/SAC code"
+                        className="w-24"
+                      />
+                    </div>
                     {errors[`items.${index}.description`] && (
                       <div className="text-xs text-red-500">
                         {errors[`items.${index}.description`]}
                       </div>
                     )}
+                    {errors[`items.${index}.hsnCode`] && (
+                      <div className="text-xs text-red-500">
+                        {errors[`items.${index}.hsnCode`]}
+                      </div>
+                    )}
                   </div>
 
-                  <div className="md:col-span-2 space-y-2">
-                    <Label htmlFor={`item-${index}-quantity`}>Quantity</Label>
+                  <div className="md:col-span-1 space-y-2">
+                    <Label htmlFor={`item-${index}-quantity`}>Qty</Label>
                     <Input
                       id={`item-${index}-quantity`}
                       type="number"
@@ -638,6 +895,65 @@ export default function CreateReceipt() {
                     )}
                   </div>
 
+                  <div className="md:col-span-2 space-y-2">
+                    <Label htmlFor={`item-${index}-discount`}>Discount</Label>
+                    <div className="flex gap-1">
+                      <Input
+                        id={`item-${index}-discount`}
+                        type="number"
+                        min="0"
+                        max={item.discountType === "percentage" ? 100 : item.quantity * item.price}
+                        step="0.01"
+                        value={item.discount || ""}
+                        onChange={(e) => updateItem(index, "discount", e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "-") e.preventDefault();
+                        }}
+                      />
+                      <Select
+                        value={item.discountType || "fixed"}
+                        onValueChange={(value) => updateItem(index, "discountType", value)}
+                      >
+                        <SelectTrigger className="w-16 px-2" aria-label="Discount type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="fixed">₹</SelectItem>
+                          <SelectItem value="percentage">%</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {errors[`items.${index}.discount`] && (
+                      <div className="text-xs text-red-500">
+                        {errors[`items.${index}.discount`]}
+                      </div>
+                    )}
+                  </div>
+
+                  {receiptData.paymentStatus !== "due" && (
+                    <div className="md:col-span-2 space-y-2">
+                      <Label htmlFor={`item-${index}-gst`}>GST</Label>
+                      <Select
+                        value={item.gstSlabId ? item.gstSlabId.toString() : "none"}
+                        onValueChange={(value) => updateItemGstSlab(index, value)}
+                      >
+                        <SelectTrigger id={`item-${index}-gst`}>
+                          <SelectValue placeholder="No GST" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No GST</SelectItem>
+                          {gstSlabs
+                            .filter((slab) => slab.isActive || slab.id === item.gstSlabId)
+                            .map((slab) => (
+                              <SelectItem key={slab.id} value={slab.id.toString()}>
+                                {slab.slabName}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   {receiptData.paymentStatus === "advance" && (
                     <div className="md:col-span-2 space-y-2">
                       <Label htmlFor={`item-${index}-advance`}>
@@ -700,25 +1016,95 @@ export default function CreateReceipt() {
                 </div>
               ))}
 
+              <div className="flex flex-col sm:flex-row sm:items-end justify-end gap-2 mt-4">
+                <Label htmlFor="receiptDiscount" className="sm:mb-3">
+                  Discount on whole receipt
+                </Label>
+                <div className="flex gap-1 sm:w-48">
+                  <Input
+                    id="receiptDiscount"
+                    type="number"
+                    min="0"
+                    max={receiptData.discountType === "percentage" ? 100 : totals.subtotal}
+                    step="0.01"
+                    value={receiptData.discount || ""}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      setReceiptData((prev) => ({
+                        ...prev,
+                        discount: isNaN(value) ? 0 : Math.max(value, 0),
+                      }));
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === "-") e.preventDefault();
+                    }}
+                  />
+                  <Select
+                    value={receiptData.discountType}
+                    onValueChange={(value) =>
+                      setReceiptData((prev) => ({
+                        ...prev,
+                        discountType: value as DiscountType,
+                      }))
+                    }
+                  >
+                    <SelectTrigger className="w-16 px-2" aria-label="Receipt discount type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fixed">₹</SelectItem>
+                      <SelectItem value="percentage">%</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {errors.discount && (
+                <div className="text-xs text-red-500 text-right">{errors.discount}</div>
+              )}
+
               <div className="flex justify-end gap-4 mt-4">
-                {receiptData.gstPercentage && receiptData.paymentStatus !== "due" && (
+                {(totals.totalTax > 0 || totals.totalDiscount > 0) && (
                   <div className="text-right">
                     <div className="text-sm text-gray-500">Subtotal</div>
-                    <div className="text-lg">
-                      ₹{(receiptData.total - receiptData.gstAmount).toFixed(2)}
+                    <div className="text-lg">₹{totals.grossTotal.toFixed(2)}</div>
+                  </div>
+                )}
+
+                {totals.totalDiscount > 0 && (
+                  <div className="text-right">
+                    <div className="text-sm text-gray-500">Discount</div>
+                    <div className="text-lg text-green-600">
+                      -₹{totals.totalDiscount.toFixed(2)}
                     </div>
                   </div>
                 )}
                 
-                {receiptData.gstPercentage && receiptData.paymentStatus !== "due" && (
+                {totals.totalTax > 0 && interState && (
                   <div className="text-right">
-                    <div className="text-sm text-gray-500">GST ({receiptData.gstPercentage}%)</div>
+                    <div className="text-sm text-gray-500">IGST</div>
                     <div className="text-lg">
-                      ₹{receiptData.gstAmount.toFixed(2)}
+                      ₹{totals.totalIgst.toFixed(2)}
                     </div>
                   </div>
                 )}
 
+                {totals.totalTax > 0 && !interState && (
+                  <>
+                    <div className="text-right">
+                      <div className="text-sm text-gray-500">CGST</div>
+                      <div className="text-lg">
+                        ₹{totals.totalCgst.toFixed(2)}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-sm text-gray-500">SGST</div>
+                      <div className="text-lg">
+                        ₹{totals.totalSgst.toFixed(2)}
+                      </div>
+                    </div>
+                  </>
+                )}
+
                 <div className="text-right">
                   <div className="text-sm text-gray-500">Total</div>
                   <div className="text-xl font-bold">
@@ -750,9 +1136,26 @@ export default function CreateReceipt() {
               />
             </div>
 
+            {editId && (
+              <div className="space-y-2">
+                <Label htmlFor="revisionReason">Reason for Change</Label>
+                <Input
+                  id="revisionReason"
+                  value={revisionReason}
+                  onChange={(e) => setRevisionReason(e.target.value)}
+                  placeholder="e.g. Corrected item price"
+                />
+                <div className="text-xs text-gray-500">
+                  The current version is kept in the receipt history.
+                </div>
+              </div>
+            )}
+
             <div className="flex justify-end">
               <Button type="submit" size="lg" disabled={isSubmitting}>
-                {isSubmitting ? "Creating..." : "Create Receipt"}
+                {editId
+                  ? isSubmitting ? "Saving..." : "Save Revision"
+                  : isSubmitting ? "Creating..." : "Create Receipt"}
               </Button>
             </div>
           </form>
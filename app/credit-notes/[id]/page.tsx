@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ArrowLeft, Printer } from "lucide-react";
+import Link from "next/link";
+
+interface CreditNoteItem {
+  id: number;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+interface CreditNoteData {
+  id: number;
+  creditNoteNumber: string;
+  date: string;
+  reason: string | null;
+  refundMode: "cash" | "online";
+  subtotal: number;
+  totalTax: number;
+  total: number;
+  dueAdjusted: number;
+  refundAmount: number;
+  receiptId: number;
+  receiptNumber: string;
+  receiptDate: string;
+  customerName: string;
+  customerContact: string;
+  items: CreditNoteItem[];
+  storeInfo: {
+    name: string;
+    address: string;
+    contact: string;
+    countryCode?: string;
+    gstNumber?: string;
+  };
+}
+
+export default function CreditNotePreview() {
+  const router = useRouter();
+  const [creditNote, setCreditNote] = useState<CreditNoteData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCreditNote = async () => {
+      const creditNoteId = window.location.pathname.split("/").pop();
+      const userJSON = localStorage.getItem("currentUser");
+      const token = userJSON ? JSON.parse(userJSON)?.token : null;
+
+      if (!token) {
+        router.push("/login");
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/credit-notes/${creditNoteId}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!response.ok) throw new Error("Credit note not found");
+        setCreditNote(await response.json());
+      } catch (err) {
+        router.push("/viewreceipts");
+      }
+      setLoading(false);
+    };
+
+    fetchCreditNote();
+  }, [router]);
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return isNaN(date.getTime()) ? "Invalid Date" : date.toLocaleDateString();
+  };
+
+  if (loading || !creditNote) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="flex justify-between items-center mb-6 print:hidden">
+        <Link href={`/receipts/${creditNote.receiptId}`}>
+          <Button
+            variant="outline"
+            className="text-blue-600 border-blue-200 hover:bg-blue-50"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Receipt
+          </Button>
+        </Link>
+        <Button variant="outline" onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" /> Print
+        </Button>
+      </div>
+
+      <Card className="p-8 shadow-lg print:shadow-none print:p-4 print:border-none">
+        <div className="text-center mb-8">
+          {creditNote.storeInfo?.name && (
+            <h1 className="text-2xl font-bold mb-1 print:text-xl">
+              {creditNote.storeInfo.name}
+            </h1>
+          )}
+          {creditNote.storeInfo?.address && (
+            <p className="text-gray-600 text-sm mb-1">
+              {creditNote.storeInfo.address}
+            </p>
+          )}
+          {creditNote.storeInfo?.gstNumber && (
+            <p className="text-gray-600 text-sm mb-1">
+              GST NUMBER: {creditNote.storeInfo.gstNumber}
+            </p>
+          )}
+          <h2 className="text-xl font-bold mt-4 print:text-lg">CREDIT NOTE</h2>
+          <p className="text-gray-500">#{creditNote.creditNoteNumber}</p>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 mb-8 print:grid-cols-2">
+          <div className="space-y-1">
+            <div>
+              <span className="font-medium">Date: </span>
+              {formatDate(creditNote.date)}
+            </div>
+            <div>
+              <span className="font-medium">Against Receipt: </span>
+              <Link
+                href={`/receipts/${creditNote.receiptId}`}
+                className="text-blue-600 underline print:text-black print:no-underline"
+              >
+                #{creditNote.receiptNumber}
+              </Link>{" "}
+              dated {formatDate(creditNote.receiptDate)}
+            </div>
+            {creditNote.reason && (
+              <div>
+                <span className="font-medium">Reason: </span>
+                {creditNote.reason}
+              </div>
+            )}
+          </div>
+          <div className="space-y-1">
+            <div>
+              <span className="font-medium">Customer: </span>
+              {creditNote.customerName}
+            </div>
+            {creditNote.customerContact && (
+              <div>
+                <span className="font-medium">Contact: </span>
+                {creditNote.customerContact}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <table className="w-full mb-6 print:text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-2">Returned Item</th>
+              <th className="text-right py-2">Qty</th>
+              <th className="text-right py-2">Rate</th>
+              <th className="text-right py-2">Taxable</th>
+              <th className="text-right py-2">GST</th>
+            </tr>
+          </thead>
+          <tbody>
+            {creditNote.items.map((item) => (
+              <tr key={item.id} className="border-b">
+                <td className="py-2">{item.description}</td>
+                <td className="text-right py-2">{item.quantity}</td>
+                <td className="text-right py-2">₹{item.unitPrice.toFixed(2)}</td>
+                <td className="text-right py-2">₹{item.taxableAmount.toFixed(2)}</td>
+                <td className="text-right py-2">₹{item.taxAmount.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="text-right space-y-1">
+          <div>Taxable Value: ₹{creditNote.subtotal.toFixed(2)}</div>
+          <div>GST Reversed: ₹{creditNote.totalTax.toFixed(2)}</div>
+          <div className="text-lg font-bold">
+            Credit Total: ₹{creditNote.total.toFixed(2)}
+          </div>
+          {creditNote.dueAdjusted > 0 && (
+            <div>Adjusted Against Due: ₹{creditNote.dueAdjusted.toFixed(2)}</div>
+          )}
+          {creditNote.refundAmount > 0 && (
+            <div>
+              Refunded ({creditNote.refundMode === "cash" ? "Cash" : "Online"}): ₹
+              {creditNote.refundAmount.toFixed(2)}
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft } from "lucide-react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { DiscountType, calculateReceiptTotals } from "@/lib/receipt-totals";
+
+interface ReceiptItem {
+  id: number;
+  description: string;
+  quantity: number;
+  price: number;
+  discount: number;
+  discountType: DiscountType;
+  taxAmount: number;
+  returnedQuantity: number;
+}
+
+interface ReceiptData {
+  receiptId: number;
+  receiptNumber: string;
+  customerName: string;
+  dueTotal: number;
+  discountAmount: number;
+  status: "active" | "void";
+  items: ReceiptItem[];
+}
+
+export default function NewCreditNote() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const receiptId = searchParams.get("receipt");
+
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  const [quantities, setQuantities] = useState<Record<number, number>>({});
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [reason, setReason] = useState("");
+  const [refundMode, setRefundMode] = useState<"cash" | "online">("cash");
+  const [loading, setLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReceipt = async () => {
+      if (!receiptId) {
+        router.push("/viewreceipts");
+        return;
+      }
+
+      const userJSON = localStorage.getItem("currentUser");
+      const token = userJSON ? JSON.parse(userJSON)?.token : null;
+      if (!token) {
+        router.push("/login");
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/receipts/${receiptId}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!response.ok) throw new Error("Receipt not found");
+        setReceipt(await response.json());
+      } catch (err) {
+        router.push("/viewreceipts");
+      }
+      setLoading(false);
+    };
+
+    fetchReceipt();
+  }, [router, receiptId]);
+
+  const ensureNumber = (value: any): number => {
+    const num = Number(value);
+    return isNaN(num) ? 0 : num;
+  };
+
+  const remainingQuantity = (item: ReceiptItem) =>
+    ensureNumber(item.quantity) - ensureNumber(item.returnedQuantity);
+
+  const lineAmounts = calculateReceiptTotals(receipt?.items || [], {
+    discount: ensureNumber(receipt?.discountAmount),
+    discountType: "fixed",
+  }).lines;
+
+  // Mirrors the server: credit is the returned share of the discounted line and its tax
+  const lineCredit = (item: ReceiptItem) => {
+    const index = receipt?.items.indexOf(item) ?? -1;
+    const qty = quantities[item.id] || 0;
+    const share = qty / ensureNumber(item.quantity);
+    return {
+      taxable: ensureNumber(lineAmounts[index]?.taxable) * share,
+      tax: ensureNumber(item.taxAmount) * share,
+    };
+  };
+
+  const totals = (receipt?.items || []).reduce(
+    (acc, item) => {
+      const { taxable, tax } = lineCredit(item);
+      return { taxable: acc.taxable + taxable, tax: acc.tax + tax };
+    },
+    { taxable: 0, tax: 0 }
+  );
+  const creditTotal = totals.taxable + totals.tax;
+  const dueOffset = Math.min(creditTotal, ensureNumber(receipt?.dueTotal));
+
+  const handleQuantityChange = (item: ReceiptItem, value: string) => {
+    const qty = Math.max(0, Math.min(parseInt(value) || 0, remainingQuantity(item)));
+    setQuantities((prev) => ({ ...prev, [item.id]: qty }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const userJSON = localStorage.getItem("currentUser");
+    const token = userJSON ? JSON.parse(userJSON)?.token : null;
+    if (!token) {
+      router.push("/login");
+      return;
+    }
+
+    const items = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([receiptItemId, quantity]) => ({
+        receiptItemId: Number(receiptItemId),
+        quantity,
+      }));
+
+    if (items.length === 0) {
+      setError("Enter a return quantity for at least one item");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/credit-notes", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          receiptId: Number(receiptId),
+          date,
+          reason,
+          refundMode,
+          items,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to create credit note");
+      }
+
+      router.push(`/credit-notes/${result.creditNoteId}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create credit note");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading || !receipt) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="mb-6">
+        <Link href={`/receipts/${receipt.receiptId}`}>
+          <Button
+            variant="outline"
+            className="text-blue-600 border-blue-200 hover:bg-blue-50"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Receipt
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Credit Note for Receipt #{receipt.receiptNumber}</CardTitle>
+          <p className="text-sm text-gray-500">{receipt.customerName}</p>
+        </CardHeader>
+        <CardContent>
+          {receipt.status === "void" ? (
+            <p className="text-red-600">
+              This receipt has been voided and cannot be credited.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="date">Date</Label>
+                  <Input
+                    id="date"
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Refund Mode</Label>
+                  <Select
+                    value={refundMode}
+                    onValueChange={(value) => setRefundMode(value as "cash" | "online")}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="cash">Cash</SelectItem>
+                      <SelectItem value="online">Online</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2">Description</th>
+                      <th className="text-right py-2">Sold</th>
+                      <th className="text-right py-2">Returned</th>
+                      <th className="text-right py-2">Return Now</th>
+                      <th className="text-right py-2">Credit</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {receipt.items.map((item) => {
+                      const { taxable, tax } = lineCredit(item);
+                      return (
+                        <tr key={item.id} className="border-b">
+                          <td className="py-2">{item.description}</td>
+                          <td className="text-right py-2">{item.quantity}</td>
+                          <td className="text-right py-2">
+                            {ensureNumber(item.returnedQuantity)}
+                          </td>
+                          <td className="text-right py-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              max={remainingQuantity(item)}
+                              value={quantities[item.id] || 0}
+                              onChange={(e) => handleQuantityChange(item, e.target.value)}
+                              disabled={remainingQuantity(item) === 0}
+                              className="w-20 ml-auto text-right"
+                            />
+                          </td>
+                          <td className="text-right py-2">
+                            ₹{(taxable + tax).toFixed(2)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reason">Reason</Label>
+                <Textarea
+                  id="reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Damaged on delivery"
+                />
+              </div>
+
+              <div className="text-right space-y-1">
+                <div>Taxable Value: ₹{totals.taxable.toFixed(2)}</div>
+                <div>GST Reversed: ₹{totals.tax.toFixed(2)}</div>
+                <div className="text-lg font-bold">
+                  Credit Total: ₹{creditTotal.toFixed(2)}
+                </div>
+                {dueOffset > 0 && (
+                  <div className="text-sm text-gray-600">
+                    Adjusted against due: ₹{dueOffset.toFixed(2)}
+                  </div>
+                )}
+                <div className="text-sm text-gray-600">
+                  To refund: ₹{(creditTotal - dueOffset).toFixed(2)}
+                </div>
+              </div>
+
+              {error && <div className="text-sm text-red-500">{error}</div>}
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={isSubmitting || creditTotal <= 0}>
+                  {isSubmitting ? "Issuing..." : "Issue Credit Note"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
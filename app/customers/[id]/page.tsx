@@ -0,0 +1,391 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CustomerStatementPanel } from "@/components/customer-statement-panel";
+
+interface CustomerLedger {
+  customer: {
+    id: number;
+    name: string;
+    countryCode: string;
+    contact: string;
+    gstNumber: string | null;
+    email: string | null;
+    createdAt: string;
+    receiptCount: number;
+    lifetimeValue: number;
+    outstanding: number;
+    lastPurchaseDate: string | null;
+  };
+  receipts: {
+    id: number;
+    receiptNumber: string;
+    date: string;
+    total: number;
+    dueTotal: number;
+    paymentStatus: string;
+    status: "active" | "void";
+  }[];
+  payments: {
+    id: number;
+    date: string;
+    particulars: string;
+    amount: number;
+    type: "credit" | "debit";
+    receiptNumber: string | null;
+  }[];
+  dues: {
+    id: number;
+    receiptNumber: string | null;
+    amountDue: number;
+    amountPaid: number;
+    remaining: number;
+    expectedPaymentDate: string;
+    installmentNumber: number;
+    installmentCount: number;
+    status: "open" | "disputed";
+  }[];
+  charges: {
+    id: number;
+    dueRecordId: number;
+    receiptNumber: string | null;
+    chargeType: "late_fee" | "interest";
+    amount: number;
+    periodStart: string;
+    periodEnd: string;
+    status: "outstanding" | "paid" | "waived";
+  }[];
+  totalPaid: number;
+  totalRefunded: number;
+}
+
+export default function CustomerDetails() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const [ledger, setLedger] = useState<CustomerLedger | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState("");
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+  const [emailError, setEmailError] = useState("");
+
+  useEffect(() => {
+    const userJSON = localStorage.getItem("currentUser");
+    const token = userJSON ? JSON.parse(userJSON)?.token : null;
+    if (!token) {
+      router.push("/login");
+      return;
+    }
+
+    fetch(`/api/customers/${id}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load customer");
+        setLedger(data);
+        setEmail(data.customer.email || "");
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load customer")
+      );
+  }, [router, id]);
+
+  const saveEmail = async () => {
+    const userJSON = localStorage.getItem("currentUser");
+    const token = userJSON ? JSON.parse(userJSON)?.token : null;
+    setIsSavingEmail(true);
+    setEmailError("");
+    try {
+      const response = await fetch(`/api/customers/${id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ email }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save email");
+      setLedger((current) =>
+        current ? { ...current, customer: { ...current.customer, email: data.email } } : current
+      );
+    } catch (err) {
+      setEmailError(err instanceof Error ? err.message : "Failed to save email");
+    } finally {
+      setIsSavingEmail(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`;
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return isNaN(date.getTime()) ? "Invalid Date" : date.toLocaleDateString();
+  };
+
+  if (error) {
+    return (
+      <div className="container mx-auto py-8 px-4 text-center text-red-500">
+        {error}
+      </div>
+    );
+  }
+
+  if (!ledger) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  const { customer } = ledger;
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl space-y-6">
+      <div className="flex justify-start">
+        <Link href="/customers">
+          <Button
+            variant="outline"
+            className="text-blue-600 border-blue-200 hover:bg-blue-50"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Customers
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">{customer.name}</CardTitle>
+          <div className="text-sm text-gray-500">
+            {customer.countryCode} {customer.contact}
+            {customer.gstNumber && ` · GSTIN ${customer.gstNumber}`}
+            {` · Customer since ${formatDate(customer.createdAt)}`}
+          </div>
+          <div className="flex items-center gap-2 pt-2">
+            <Input
+              type="email"
+              placeholder="Email for payment reminders"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="max-w-xs"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={saveEmail}
+              disabled={isSavingEmail || email.trim() === (customer.email || "")}
+            >
+              Save
+            </Button>
+          </div>
+          {emailError && <div className="text-xs text-red-500">{emailError}</div>}
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-muted rounded-lg text-center">
+              <div className="text-xs text-gray-500">Lifetime Value</div>
+              <div className="text-lg font-bold">
+                {formatCurrency(customer.lifetimeValue)}
+              </div>
+            </div>
+            <div className="p-3 bg-muted rounded-lg text-center">
+              <div className="text-xs text-gray-500">Receipts</div>
+              <div className="text-lg font-bold">{customer.receiptCount}</div>
+            </div>
+            <div className="p-3 bg-green-50 rounded-lg text-center">
+              <div className="text-xs text-gray-500">Paid</div>
+              <div className="text-lg font-bold text-green-700">
+                {formatCurrency(ledger.totalPaid - ledger.totalRefunded)}
+              </div>
+            </div>
+            <div className="p-3 bg-red-50 rounded-lg text-center">
+              <div className="text-xs text-gray-500">Outstanding</div>
+              <div className="text-lg font-bold text-red-600">
+                {formatCurrency(customer.outstanding)}
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {ledger.dues.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Outstanding Dues</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {ledger.dues.map((due) => (
+              <div key={due.id} className="flex justify-between py-2 text-sm">
+                <div>
+                  <div>
+                    {due.receiptNumber ? `Receipt #${due.receiptNumber}` : "Due"}
+                    {due.installmentCount > 1 &&
+                      ` · Installment ${due.installmentNumber} of ${due.installmentCount}`}
+                    {due.status === "disputed" && (
+                      <span className="ml-2 text-xs text-amber-600">Disputed</span>
+                    )}
+                  </div>
+                  <div
+                    className={
+                      due.expectedPaymentDate < today ? "text-red-500" : "text-gray-500"
+                    }
+                  >
+                    Due {formatDate(due.expectedPaymentDate)}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="font-medium text-red-600">
+                    {formatCurrency(due.remaining)}
+                  </div>
+                  {due.amountPaid > 0 && (
+                    <div className="text-xs text-gray-500">
+                      Paid {formatCurrency(due.amountPaid)} of{" "}
+                      {formatCurrency(due.amountDue)}
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div className="pt-3">
+              <Link href="/accounts/due" className="text-sm text-blue-600 underline">
+                Record a payment
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {ledger.charges.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Late Fees & Interest</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {ledger.charges.map((charge) => (
+              <div key={charge.id} className="flex justify-between py-2 text-sm">
+                <div>
+                  <div>
+                    {charge.chargeType === "interest" ? "Interest" : "Late fee"}
+                    {charge.receiptNumber && ` · Receipt #${charge.receiptNumber}`}
+                  </div>
+                  <div className="text-gray-500">
+                    {charge.periodStart === charge.periodEnd
+                      ? formatDate(charge.periodStart)
+                      : `${formatDate(charge.periodStart)} – ${formatDate(charge.periodEnd)}`}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div
+                    className={`font-medium ${
+                      charge.status === "waived"
+                        ? "line-through text-gray-400"
+                        : charge.status === "paid"
+                          ? "text-green-700"
+                          : "text-orange-600"
+                    }`}
+                  >
+                    {formatCurrency(charge.amount)}
+                  </div>
+                  <div className="text-xs text-gray-500 capitalize">{charge.status}</div>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Statement of Account</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <CustomerStatementPanel
+            customerId={customer.id}
+            customerName={customer.name}
+            customerContact={customer.contact}
+            customerCountryCode={customer.countryCode}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Receipts</CardTitle>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {ledger.receipts.length === 0 && (
+            <div className="text-sm text-gray-500">No receipts yet</div>
+          )}
+          {ledger.receipts.map((receipt) => (
+            <Link
+              key={receipt.id}
+              href={`/receipts/${receipt.id}`}
+              className="flex justify-between py-2 text-sm hover:bg-gray-50"
+            >
+              <div>
+                <div className="font-medium">
+                  #{receipt.receiptNumber}
+                  {receipt.status === "void" && (
+                    <span className="ml-2 text-xs text-red-500">VOID</span>
+                  )}
+                </div>
+                <div className="text-gray-500">
+                  {formatDate(receipt.date)} · {receipt.paymentStatus}
+                </div>
+              </div>
+              <div className="text-right">
+                <div
+                  className={`font-medium ${
+                    receipt.status === "void" ? "line-through text-gray-400" : ""
+                  }`}
+                >
+                  {formatCurrency(receipt.total)}
+                </div>
+                {receipt.status === "active" && receipt.dueTotal > 0 && (
+                  <div className="text-xs text-red-600">
+                    {formatCurrency(receipt.dueTotal)} due
+                  </div>
+                )}
+              </div>
+            </Link>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Payments & Refunds</CardTitle>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {ledger.payments.length === 0 && (
+            <div className="text-sm text-gray-500">No payments recorded</div>
+          )}
+          {ledger.payments.map((payment) => (
+            <div key={payment.id} className="flex justify-between py-2 text-sm">
+              <div>
+                <div>{payment.particulars}</div>
+                <div className="text-gray-500">{formatDate(payment.date)}</div>
+              </div>
+              <div
+                className={`font-medium ${
+                  payment.type === "credit" ? "text-green-700" : "text-red-600"
+                }`}
+              >
+                {payment.type === "credit" ? "+" : "-"}
+                {formatCurrency(payment.amount)}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
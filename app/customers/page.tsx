@@ -0,0 +1,129 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+interface CustomerSummary {
+  id: number;
+  name: string;
+  countryCode: string;
+  contact: string;
+  receiptCount: number;
+  lifetimeValue: number;
+  outstanding: number;
+  lastPurchaseDate: string | null;
+}
+
+export default function Customers() {
+  const router = useRouter();
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const userJSON = localStorage.getItem("currentUser");
+    const token = userJSON ? JSON.parse(userJSON)?.token : null;
+    if (!token) {
+      router.push("/login");
+      return;
+    }
+
+    // Wait for typing to settle before searching
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/customers?limit=100&search=${encodeURIComponent(search)}`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Failed to load customers");
+        setCustomers(data);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load customers");
+      } finally {
+        setIsLoading(false);
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [router, search]);
+
+  const formatCurrency = (amount: number) => `₹${amount.toFixed(2)}`;
+
+  return (
+    <div className="container mx-auto py-8 px-4">
+      <div className="flex justify-start mb-6">
+        <Link href="/accounts">
+          <Button
+            variant="outline"
+            className="text-blue-600 border-blue-200 hover:bg-blue-50"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Accounts
+          </Button>
+        </Link>
+      </div>
+
+      <Card className="max-w-4xl mx-auto">
+        <CardHeader>
+          <CardTitle className="text-2xl">Customers</CardTitle>
+          <div className="relative mt-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or phone"
+              className="pl-9"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {error && <div className="text-sm text-red-500 mb-4">{error}</div>}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500"></div>
+            </div>
+          ) : customers.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">No customers found</div>
+          ) : (
+            <div className="divide-y">
+              {customers.map((customer) => (
+                <Link
+                  key={customer.id}
+                  href={`/customers/${customer.id}`}
+                  className="flex justify-between items-center py-3 hover:bg-gray-50 px-2 rounded"
+                >
+                  <div>
+                    <div className="font-medium">{customer.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {customer.countryCode} {customer.contact} ·{" "}
+                      {customer.receiptCount}{" "}
+                      {customer.receiptCount === 1 ? "receipt" : "receipts"}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-medium">
+                      {formatCurrency(customer.lifetimeValue)}
+                    </div>
+                    {customer.outstanding > 0 && (
+                      <div className="text-sm text-red-600">
+                        {formatCurrency(customer.outstanding)} due
+                      </div>
+                    )}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
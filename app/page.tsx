@@ -1,8 +1,8 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import Link from "next/link";
-import { ArrowRight, Bell } from "lucide-react";
+import { ArrowRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -14,6 +14,7 @@ import {
 import { useRouter } from "next/navigation";
 import { ImageViewer } from "@/components/image-viewer";
 import { Footer } from "@/components/footer";
+import { NotificationBell } from "@/components/notification-bell";
 
 interface UserProfile {
   id: string;
@@ -26,15 +27,6 @@ export default function Home() {
   const router = useRouter();
   const [user, setUser] = useState<UserProfile | null>(null);
   const [isImageViewerOpen, setIsImageViewerOpen] = useState(false);
-  const [notifications, setNotifications] = useState<any[]>([]);
-  const [hasUnreadNotifications, setHasUnreadNotifications] = useState(false);
-  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
-  const notificationRef = useRef<HTMLDivElement | null>(null);
-  const [isClient, setIsClient] = useState(false);
-
-  useEffect(() => {
-    setIsClient(true);
-  }, []);
 
   useEffect(() => {
     const fetchUserProfile = async () => {
@@ -72,44 +64,6 @@ export default function Home() {
     fetchUserProfile();
   }, []);
 
-  useEffect(() => {
-    if (user && isClient) {
-      const overduePayments = checkOverduePayments();
-      setNotifications(overduePayments);
-
-      const lastReadTime = localStorage.getItem("notificationsLastRead");
-      if (lastReadTime) {
-        const lastRead = new Date(lastReadTime);
-        const hasNew = overduePayments.some((notification: any) => {
-          const createdAt = new Date(notification.createdAt);
-          return createdAt > lastRead;
-        });
-        setHasUnreadNotifications(hasNew || overduePayments.length > 0);
-      } else if (overduePayments.length > 0) {
-        setHasUnreadNotifications(true);
-      }
-    }
-  }, [user, isClient]);
-
-  useEffect(() => {
-    function handleClickOutside(event: MouseEvent) {
-      if (
-        notificationRef.current &&
-        !notificationRef.current.contains(event.target as Node)
-      ) {
-        setIsNotificationsOpen(false);
-      }
-    }
-
-    if (isNotificationsOpen) {
-      document.addEventListener("mousedown", handleClickOutside);
-    }
-
-    return () => {
-      document.removeEventListener("mousedown", handleClickOutside);
-    };
-  }, [isNotificationsOpen]);
-
   const getProfilePhotoUrl = (profilePhoto?: string | null): string => {
     if (!profilePhoto) return "/placeholder.svg";
     if (profilePhoto.startsWith("http") || profilePhoto.startsWith("data:")) return profilePhoto;
@@ -121,27 +75,6 @@ export default function Home() {
     setUser(null);
   };
 
-  const checkOverduePayments = () => {
-    const dueRecordsJSON = localStorage.getItem("dueRecords");
-    if (!dueRecordsJSON) return [];
-
-    const dueRecords = JSON.parse(dueRecordsJSON);
-    const today = new Date();
-
-    return dueRecords.filter((record: any) => {
-      const dueDate = new Date(record.expectedPaymentDate);
-      return !record.isPaid && dueDate < today;
-    });
-  };
-
-  const handleNotificationClick = () => {
-    setIsNotificationsOpen(!isNotificationsOpen);
-    if (hasUnreadNotifications) {
-      setHasUnreadNotifications(false);
-      localStorage.setItem("notificationsLastRead", new Date().toISOString());
-    }
-  };
-
   const handleViewReceiptsClick = (e: React.MouseEvent) => {
     if (!user) {
       e.preventDefault();
@@ -182,77 +115,7 @@ export default function Home() {
       <header className="w-full py-4 px-6 flex justify-between items-center text-white">
         <h1 className="text-xl font-bold">Cash-Box</h1>
         <div className="flex items-center space-x-4">
-          {user && (
-            <div className="relative">
-              <Button
-                variant="ghost"
-                size="icon"
-                className="relative text-white hover:bg-gray-800"
-                onClick={handleNotificationClick}
-              >
-                <Bell className="h-5 w-5" />
-                {hasUnreadNotifications && (
-                  <span className="absolute top-0 right-0 h-2 w-2 rounded-full bg-red-500"></span>
-                )}
-              </Button>
-
-              {isNotificationsOpen && (
-                <div
-                  ref={notificationRef}
-                  className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg overflow-hidden z-20"
-                >
-                  <div className="py-2 px-3 bg-gray-100 border-b">
-                    <h3 className="text-sm font-medium text-gray-800">
-                      Notifications
-                    </h3>
-                  </div>
-                  <div className="max-h-64 overflow-y-auto">
-                    {notifications.length > 0 ? (
-                      notifications.map((notification: any) => (
-                        <Link
-                          href="/accounts/due"
-                          key={notification.id}
-                          className="block px-4 py-3 border-b hover:bg-gray-50"
-                        >
-                          <div className="flex items-start">
-                            <div className="flex-1">
-                              <p className="text-sm font-medium text-gray-900">
-                                Payment Overdue: {notification.customerName}
-                              </p>
-                              <p className="text-xs text-gray-500">
-                                ₹{notification.amountDue.toFixed(2)} for{" "}
-                                {notification.productOrdered}
-                              </p>
-                              <p className="text-xs text-red-500">
-                                Due date:{" "}
-                                {new Date(
-                                  notification.expectedPaymentDate
-                                ).toLocaleDateString()}
-                              </p>
-                            </div>
-                          </div>
-                        </Link>
-                      ))
-                    ) : (
-                      <div className="px-4 py-6 text-center text-sm text-gray-500">
-                        No overdue payments
-                      </div>
-                    )}
-                  </div>
-                  {notifications.length > 0 && (
-                    <div className="py-2 px-3 bg-gray-100 border-t text-center">
-                      <Link
-                        href="/accounts/due"
-                        className="text-xs font-medium text-blue-600 hover:text-blue-500"
-                      >
-                        View all due payments
-                      </Link>
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-          )}
+          {user && <NotificationBell />}
           {user ? (
             <div className="flex items-center space-x-2">
               <DropdownMenu>
@@ -15,8 +15,24 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { ArrowLeft, AlertCircle, User, Upload, X, LogOut } from "lucide-react";
 import { PhoneInput } from "@/components/phone-input";
+import { GstSlabManager } from "@/components/gst-slab-manager";
+import { LateFeeSettings } from "@/components/late-fee-settings";
+import { ExpenseCategoryManager } from "@/components/expense-category-manager";
+import { MoneyAccountManager } from "@/components/money-account-manager";
+import {
+  GST_STATES,
+  getStateCodeFromGstin,
+  isValidGstin,
+} from "@/lib/gst-states";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ImageViewer } from "@/components/image-viewer";
 import {
@@ -37,6 +53,7 @@ interface UserProfile {
   storeContact: string;
   storeCountryCode: string;
   gstNumber?: string | null;
+  stateCode?: string | null;
   profilePhoto?: string | null;
   isProfileComplete: boolean;
 }
@@ -50,6 +67,7 @@ export default function ProfilePage() {
   const [storeContact, setStoreContact] = useState("");
   const [storeCountryCode, setStoreCountryCode] = useState("+91");
   const [gstNumber, setGstNumber] = useState<string>("");
+  const [stateCode, setStateCode] = useState<string>("");
   const [gstError, setGstError] = useState("");
   const [contactError, setContactError] = useState("");
   const [error, setError] = useState("");
@@ -75,6 +93,8 @@ export default function ProfilePage() {
   const [isImageViewerOpen, setIsImageViewerOpen] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
 
+  const [authToken, setAuthToken] = useState("");
+
   const checkProfileCompletion = useCallback(
     (profileData: Partial<UserProfile>): boolean => {
       return !!(
@@ -99,6 +119,7 @@ export default function ProfilePage() {
       setStoreContact(userData.storeContact || "");
       setStoreCountryCode(userData.storeCountryCode || "+91");
       setGstNumber(userData.gstNumber || "");
+      setStateCode(userData.stateCode || "");
       setProfilePhoto(userData.profilePhoto || null);
     },
     [checkProfileCompletion]
@@ -136,6 +157,7 @@ export default function ProfilePage() {
         router.push("/login");
         return;
       }
+      setAuthToken(currentUser.token);
 
       const response = await fetch("/api/profile", {
         headers: {
@@ -217,6 +239,11 @@ export default function ProfilePage() {
       setGstError("GST number must be 15 digit alphanumeric");
       return false;
     }
+
+    if (!isValidGstin(gst)) {
+      setGstError("GST number is not a valid GSTIN");
+      return false;
+    }
     
     setGstError("");
     return true;
@@ -232,6 +259,9 @@ export default function ProfilePage() {
     const value = e.target.value.toUpperCase();
     setGstNumber(value);
     validateGstNumber(value);
+    // A GSTIN fixes the registered state
+    const gstinState = getStateCodeFromGstin(value);
+    if (gstinState) setStateCode(gstinState);
   };
 
   const uploadProfilePhoto = async (file: File, token: string): Promise<string | null> => {
@@ -355,6 +385,7 @@ export default function ProfilePage() {
         storeContact,
         storeCountryCode,
         gstNumber: gstNumber || null,
+        stateCode: stateCode || null,
       };
 
       // If no new file is selected, but an existing photo is present, include it in the payload
@@ -662,8 +693,12 @@ export default function ProfilePage() {
         </Card>
 
         <Tabs defaultValue="profile">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="profile">Profile Information</TabsTrigger>
+            <TabsTrigger value="gst">GST Slabs</TabsTrigger>
+            <TabsTrigger value="late-fees">Late Fees</TabsTrigger>
+            <TabsTrigger value="expenses">Expenses</TabsTrigger>
+            <TabsTrigger value="money-accounts">Accounts</TabsTrigger>
             <TabsTrigger value="security">Security</TabsTrigger>
           </TabsList>
 
@@ -789,6 +824,30 @@ export default function ProfilePage() {
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="stateCode">State</Label>
+                    <Select
+                      value={stateCode || "none"}
+                      onValueChange={(value) => setStateCode(value === "none" ? "" : value)}
+                      disabled={!!getStateCodeFromGstin(gstNumber)}
+                    >
+                      <SelectTrigger id="stateCode">
+                        <SelectValue placeholder="Select state" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not set</SelectItem>
+                        {GST_STATES.map((state) => (
+                          <SelectItem key={state.code} value={state.code}>
+                            {state.code} - {state.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="text-sm text-gray-500">
+                      <p>Decides whether receipts charge CGST + SGST or IGST</p>
+                    </div>
+                  </div>
+
                   <Button type="submit" disabled={loading || isUploading} className="w-full">
                     {loading ? "Updating..." : isUploading ? "Uploading..." : "Update Profile"}
                   </Button>
@@ -797,6 +856,69 @@ export default function ProfilePage() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="gst">
+            <Card>
+              <CardHeader>
+                <CardTitle>GST Slabs</CardTitle>
+                <CardDescription>
+                  Rates available when adding items to a receipt. Changes
+                  only apply to new receipts.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {authToken && <GstSlabManager token={authToken} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="late-fees">
+            <Card>
+              <CardHeader>
+                <CardTitle>Late Fees & Interest</CardTitle>
+                <CardDescription>
+                  Charged on dues left unpaid past the grace period. Charges
+                  show in the customer ledger and can be waived when a due is
+                  settled.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {authToken && <LateFeeSettings token={authToken} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="expenses">
+            <Card>
+              <CardHeader>
+                <CardTitle>Expense Categories</CardTitle>
+                <CardDescription>
+                  Categories to choose from when adding an expense on the
+                  accounts page. Renaming a category also renames it on past
+                  expenses.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {authToken && <ExpenseCategoryManager token={authToken} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="money-accounts">
+            <Card>
+              <CardHeader>
+                <CardTitle>Money Accounts</CardTitle>
+                <CardDescription>
+                  Where your money is kept, such as cash in hand or a bank
+                  account. Receipt and due payments go to the account set to
+                  receive cash or online payments.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {authToken && <MoneyAccountManager token={authToken} />}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="security">
             <Card>
               <CardHeader>
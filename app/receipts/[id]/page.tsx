@@ -3,48 +3,70 @@
 import { useEffect, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Card } from "@/components/ui/card";
-import { ArrowLeft, Download, Printer } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  ArrowLeft,
+  Ban,
+  Download,
+  Pencil,
+  Printer,
+  Share2,
+  Undo2,
+} from "lucide-react";
 import Link from "next/link";
-
-interface ReceiptItem {
-  description: string;
-  quantity: number;
-  price: number;
-  advanceAmount?: number;
-  dueAmount?: number;
-}
-
-interface ReceiptData {
-  receiptNumber: string;
-  date: string;
-  customerName: string;
-  customerContact: string;
-  paymentType: string;
-  paymentStatus: string;
-  notes: string;
-  items: ReceiptItem[];
-  total: number;
-  dueTotal?: number;
+import { ReceiptData, ReceiptDocument } from "@/components/receipt-document";
+import { ReceiptShareDialog } from "@/components/receipt-share-dialog";
+import type { ReceiptPdfFormat } from "@/lib/receipt-pdf";
+
+interface ReceiptRevision {
+  revisionNumber: number;
+  changeType: "edit" | "void";
+  reason: string | null;
   createdAt: string;
-  paymentDetails?: {
-    phoneNumber?: string;
-  };
-  storeInfo?: {
-    name: string;
-    address: string;
-    contact: string;
-    countryCode?: string;
-    gstNumber?: string;
-  };
-  totalTax: number;
+  snapshot: ReceiptData;
 }
 
 export default function ReceiptPreview() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [receiptData, setReceiptData] = useState<ReceiptData | null>(null);
+  const [currentReceipt, setCurrentReceipt] = useState<ReceiptData | null>(null);
+  const [revisions, setRevisions] = useState<ReceiptRevision[]>([]);
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isVoidDialogOpen, setIsVoidDialogOpen] = useState(false);
+  const [voidReason, setVoidReason] = useState("");
+  const [isVoiding, setIsVoiding] = useState(false);
+  const [voidError, setVoidError] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+
+  // Older versions are rendered with the same layout as the current one
+  const receiptData =
+    revisions.find((r) => r.revisionNumber === selectedRevision)?.snapshot ||
+    currentReceipt;
+  const isViewingOldVersion = selectedRevision !== null;
 
   const fromView = searchParams.get('from') === 'view';
 
@@ -52,14 +74,23 @@ export default function ReceiptPreview() {
     const fetchReceipt = async () => {
       const receiptId = window.location.pathname.split("/").pop();
 
+      const token = getToken();
+      if (!token) {
+        router.push("/login");
+        return;
+      }
+
       if (receiptId) {
         try {
-          const response = await fetch(`/api/receipts/${receiptId}`);
+          const response = await fetch(`/api/receipts/${receiptId}`, {
+            headers: { Authorization: `Bearer ${token}` },
+          });
           if (!response.ok) throw new Error("Receipt not found");
           const data = await response.json();
           console.log("receiptData.createdAt type:", typeof data.createdAt);
           console.log("receiptData.createdAt value:", data.createdAt);
-          setReceiptData(data);
+          setCurrentReceipt(data);
+          await fetchRevisions(receiptId);
         } catch (err) {
           router.push("/create");
         }
@@ -72,55 +103,103 @@ export default function ReceiptPreview() {
     fetchReceipt();
   }, [router]);
 
-  const handlePrint = () => {
-    window.print();
+  const getToken = (): string | null => {
+    const userJSON = localStorage.getItem("currentUser");
+    if (!userJSON) return null;
+    return JSON.parse(userJSON)?.token || null;
   };
 
-  const handleDownload = () => {
-    const receiptHtml = document.getElementById("receipt-content")?.innerHTML;
-    if (!receiptHtml) return;
+  const fetchRevisions = async (receiptId: string) => {
+    const token = getToken();
+    if (!token) return;
 
-    const printWindow = window.open("", "_blank");
-    if (!printWindow) return;
+    try {
+      const response = await fetch(`/api/receipts/${receiptId}/revisions`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) return;
+      setRevisions(await response.json());
+    } catch (err) {
+      console.error("Failed to fetch receipt revisions:", err);
+    }
+  };
 
-    printWindow.document.write(`
-      <html>
-        <head>
-          <title>Receipt ${receiptData?.receiptNumber}</title>
-          <style>
-            @page { size: A4; margin: 1cm; }
-            body { font-family: Arial, sans-serif; padding: 20px; margin: 0; }
-            table { width: 100%; border-collapse: collapse; margin: 15px 0; }
-            th, td { padding: 8px; text-align: left; border-bottom: 1px solid #ddd; }
-            th { font-weight: bold; }
-            .receipt-header { text-align: center; margin-bottom: 20px; }
-            .receipt-info { margin-bottom: 20px; }
-            .receipt-total { font-weight: bold; text-align: right; margin-top: 20px; }
-            .receipt-notes { margin-top: 30px; font-style: italic; }
-            @media print {
-              body { width: 100%; }
-              table { page-break-inside: avoid; }
-            }
-          </style>
-        </head>
-        <body>
-          ${receiptHtml}
-        </body>
-      </html>
-    `);
+  const handleVoid = async () => {
+    const token = getToken();
+    const receiptId = window.location.pathname.split("/").pop();
+    if (!token || !receiptId) {
+      router.push("/login");
+      return;
+    }
+    if (!voidReason.trim()) {
+      setVoidError("Please enter a reason");
+      return;
+    }
 
-    printWindow.document.close();
-    printWindow.focus();
+    setIsVoiding(true);
+    setVoidError(null);
+    try {
+      const response = await fetch(`/api/receipts/${receiptId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ action: "void", reason: voidReason }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to void receipt");
+
+      const refreshed = await fetch(`/api/receipts/${receiptId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (refreshed.ok) setCurrentReceipt(await refreshed.json());
+      await fetchRevisions(receiptId);
+      setSelectedRevision(null);
+      setIsVoidDialogOpen(false);
+      setVoidReason("");
+    } catch (err) {
+      setVoidError(err instanceof Error ? err.message : "Failed to void receipt");
+    } finally {
+      setIsVoiding(false);
+    }
+  };
 
-    setTimeout(() => {
-      printWindow.print();
-    }, 250);
+  const handlePrint = () => {
+    window.print();
   };
 
-  const ensureNumber = (value: any): number => {
-    if (value === undefined || value === null) return 0;
-    const num = Number(value);
-    return isNaN(num) ? 0 : num;
+  const handleDownload = async (format: ReceiptPdfFormat) => {
+    const token = getToken();
+    const receiptId = window.location.pathname.split("/").pop();
+    if (!token || !receiptId) {
+      router.push("/login");
+      return;
+    }
+
+    setIsDownloading(true);
+    try {
+      const response = await fetch(`/api/receipts/${receiptId}/pdf?format=${format}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error("Failed to generate PDF");
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.setAttribute(
+        "download",
+        `receipt_${currentReceipt?.receiptNumber}${format === "a4" ? "" : `_${format}`}.pdf`
+      );
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Failed to download receipt PDF:", err);
+    } finally {
+      setIsDownloading(false);
+    }
   };
 
   const formatDate = (dateString: string) => {
@@ -137,41 +216,6 @@ export default function ReceiptPreview() {
     }
   };
 
-  const formatDateTime = (dateString: string) => {
-    if (!dateString) return "N/A";
-    return dateString; // Return the exact database timestamp
-  };
-
-  const calculateSubtotal = () => {
-    if (!receiptData) return 0;
-    return receiptData.items.reduce((total, item) => {
-      return total + ensureNumber(item.quantity) * ensureNumber(item.price);
-    }, 0);
-  };
-
-  const calculateTotalGST = () => {
-    if (!receiptData) return 0;
-    return ensureNumber(receiptData.totalTax);
-  };
-
-  const calculateTotalAmount = () => {
-    return calculateSubtotal() + calculateTotalGST();
-  };
-
-  const calculateTotalAdvanceAmount = () => {
-    if (!receiptData) return 0;
-    return receiptData.items.reduce((total, item) => {
-      return total + ensureNumber(item.advanceAmount);
-    }, 0);
-  };
-
-  const calculateAverageGSTRate = () => {
-    if (!receiptData || calculateSubtotal() === 0) return 0;
-    const subtotal = calculateSubtotal();
-    const totalTax = calculateTotalGST();
-    return ensureNumber((totalTax / subtotal) * 100);
-  };
-
   if (loading) {
     return (
       <div className="flex justify-center items-center min-h-screen">
@@ -214,248 +258,169 @@ export default function ReceiptPreview() {
           </Link>
         )}
         <div className="space-x-2">
+          {currentReceipt?.status !== "void" && !isViewingOldVersion && (
+            <>
+              {/* Once goods are credited the receipt is frozen */}
+              {!currentReceipt?.creditNotes?.length && (
+                <>
+                  <Link href={`/create?edit=${currentReceipt?.receiptId}`}>
+                    <Button variant="outline">
+                      <Pencil className="mr-2 h-4 w-4" /> Edit
+                    </Button>
+                  </Link>
+                  <Button
+                    variant="outline"
+                    className="text-red-600 border-red-200 hover:bg-red-50"
+                    onClick={() => setIsVoidDialogOpen(true)}
+                  >
+                    <Ban className="mr-2 h-4 w-4" /> Void
+                  </Button>
+                </>
+              )}
+              <Link href={`/credit-notes/new?receipt=${currentReceipt?.receiptId}`}>
+                <Button variant="outline">
+                  <Undo2 className="mr-2 h-4 w-4" /> Credit Note
+                </Button>
+              </Link>
+            </>
+          )}
           <Button variant="outline" onClick={handlePrint}>
             <Printer className="mr-2 h-4 w-4" /> Print
           </Button>
-          <Button onClick={handleDownload}>
-            <Download className="mr-2 h-4 w-4" /> Download
-          </Button>
-        </div>
-      </div>
-
-      <Card
-        className="p-8 shadow-lg print:shadow-none print:p-4 print:border-none"
-        id="receipt-content"
-      >
-        <div className="receipt-header text-center mb-8">
-          {receiptData.storeInfo?.name && (
-            <h1 className="text-2xl font-bold mb-1 print:text-xl">
-              {receiptData.storeInfo.name}
-            </h1>
-          )}
-          {receiptData.storeInfo?.address && (
-            <p className="text-gray-600 text-sm mb-1">
-              {receiptData.storeInfo.address}
-            </p>
-          )}
-          {receiptData.storeInfo?.gstNumber && (
-            <p className="text-gray-600 text-sm mb-1">
-              GST NUMBER: {receiptData.storeInfo.gstNumber}
-            </p>
+          {!isViewingOldVersion && (
+            <Button variant="outline" onClick={() => setIsShareDialogOpen(true)}>
+              <Share2 className="mr-2 h-4 w-4" /> Share
+            </Button>
           )}
-          {receiptData.storeInfo?.contact && (
-            <p className="text-gray-600 text-sm mb-3">
-              Contact: {receiptData.storeInfo.countryCode || "+91"}{" "}
-              {receiptData.storeInfo.contact}
-            </p>
+          {/* The PDF is rendered from the current version on the server */}
+          {!isViewingOldVersion && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button disabled={isDownloading}>
+                  <Download className="mr-2 h-4 w-4" />
+                  {isDownloading ? "Preparing..." : "Download"}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleDownload("a4")}>
+                  A4 PDF
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleDownload("80mm")}>
+                  Thermal roll (80mm)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleDownload("58mm")}>
+                  Thermal roll (58mm)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           )}
-          <h2 className="text-xl font-bold mt-4 print:text-lg">RECEIPT</h2>
-          <p className="text-gray-500">#{receiptData.receiptNumber}</p>
         </div>
+      </div>
 
-        <div className="grid grid-cols-1 gap-6 mb-8 print:grid-cols-2">
-          <div>
-            <h2 className="text-lg font-semibold mb-2">Receipt Details</h2>
-            <div className="space-y-1">
-              <div>
-                <span className="font-medium">Date: </span>
-                {formatDate(receiptData.date)}
-              </div>
-              {(receiptData.paymentStatus === "full" ||
-                receiptData.paymentStatus === "advance") && (
-                <div>
-                  <span className="font-medium">Payment Method: </span>
-                  {receiptData.paymentType === "mobile"
-                    ? "Online"
-                    : receiptData.paymentType.charAt(0).toUpperCase() +
-                      receiptData.paymentType.slice(1)}
-                </div>
-              )}
-              <div>
-                <span className="font-medium">Payment Status: </span>
-                {receiptData.paymentStatus === "full"
-                  ? "Full Payment"
-                  : receiptData.paymentStatus === "advance"
-                  ? "Advance Payment"
-                  : receiptData.paymentStatus === "due" && receiptData.dueTotal === 0
-                  ? (
-                      <span className="px-2 py-1 rounded-full bg-green-100 text-green-800 font-semibold text-xs ml-1">Due Paid</span>
-                    )
-                  : "Due Payment"}
-              </div>
-              {receiptData.paymentDetails?.phoneNumber &&
-                receiptData.paymentStatus !== "due" && (
-                <div>
-                  <span className="font-medium">Phone Number: </span>
-                  XXXXXXX{receiptData.paymentDetails.phoneNumber.slice(-3)}
-                </div>
-              )}
-            </div>
-          </div>
-          <div>
-            <h2 className="text-lg font-semibold mb-2">Customer Details</h2>
-            <div className="space-y-1">
-              <div>
-                <span className="font-medium">Name: </span>
-                {receiptData.customerName}
-              </div>
-              {receiptData.customerContact && (
-                <div>
-                  <span className="font-medium">Contact: </span>
-                  {receiptData.customerContact}
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
-
-        <div className="mb-8 overflow-x-auto print:overflow-visible">
-          <h2 className="text-lg font-semibold mb-4 print:text-base">Items</h2>
-          <table className="w-full print:text-sm">
-            <thead>
-              <tr className="border-b">
-                <th className="text-left py-2">Description</th>
-                <th className="text-right py-2">Qty</th>
-                <th className="text-right py-2">Rate</th>
-                <th className="text-right py-2">Amount</th>
-                {receiptData.paymentStatus === "advance" && (
-                  <>
-                    <th className="text-right py-2">Advance</th>
-                    <th className="text-right py-2">Balance Due</th>
-                  </>
-                )}
-                {receiptData.paymentStatus === "due" && (
-                  <>
-                    <th className="text-right py-2">Paid Already</th>
-                    <th className="text-right py-2">Balance Due</th>
-                  </>
-                )}
-              </tr>
-            </thead>
-            <tbody>
-              {receiptData.items.map((item, index) => (
-                <tr key={index} className="border-b">
-                  <td className="py-2 max-w-[150px] md:max-w-none">
-                    {item.description}
-                  </td>
-                  <td className="text-right py-2">{item.quantity}</td>
-                  <td className="text-right py-2">
-                    ₹{ensureNumber(item.price).toFixed(2)}
-                  </td>
-                  <td className="text-right py-2">
-                    ₹{ensureNumber(item.quantity * item.price).toFixed(2)}
-                  </td>
-                  {receiptData.paymentStatus === "advance" && (
-                    <>
-                      <td className="text-right py-2">
-                        ₹{ensureNumber(item.advanceAmount).toFixed(2)}
-                      </td>
-                      <td className="text-right py-2 font-medium">
-                        ₹
-                        {(
-                          ensureNumber(item.quantity * item.price) -
-                          ensureNumber(item.advanceAmount)
-                        ).toFixed(2)}
-                      </td>
-                    </>
-                  )}
-                  {receiptData.paymentStatus === "due" && (
-                    <>
-                      <td className="text-right py-2">
-                        ₹
-                        {(
-                          ensureNumber(item.quantity * item.price) -
-                          ensureNumber(item.dueAmount)
-                        ).toFixed(2)}
-                      </td>
-                      <td className="text-right py-2 font-medium">
-                        ₹{ensureNumber(item.dueAmount).toFixed(2)}
-                      </td>
-                    </>
-                  )}
-                </tr>
-              ))}
-            </tbody>
-          </table>
-
-          <div className="mt-4 text-right space-y-1">
-            <div className="text-base">
-              Subtotal: ₹{calculateSubtotal().toFixed(2)}
-            </div>
-            <div className="text-base">
-              GST @ {calculateAverageGSTRate().toFixed(2)}%: ₹{calculateTotalGST().toFixed(2)}
-            </div>
-            
-            {receiptData.paymentStatus === "full" && (
-              <div className="text-lg font-bold print:text-base mt-2">
-                Total: ₹{calculateSubtotal() + calculateTotalGST()}
-              </div>
-            )}
-
-            {receiptData.paymentStatus === "advance" && (
+      {revisions.length > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-4 print:hidden">
+          <div className="text-sm text-gray-600">
+            {isViewingOldVersion ? (
               <>
-                <div className="text-lg font-bold print:text-base mt-2">
-                  Total Amount: ₹{calculateSubtotal() + calculateTotalGST()}
-                </div>
-                <div className="text-base">
-                  Advance Paid: ₹{calculateTotalAdvanceAmount().toFixed(2)}
-                </div>
-                <div className="text-base font-bold text-red-500 mt-1 print:text-black">
-                  Balance Due: ₹{(calculateSubtotal() + calculateTotalGST() - calculateTotalAdvanceAmount()).toFixed(2)}
-                </div>
+                Viewing version {selectedRevision} of{" "}
+                {currentReceipt?.revisionNumber}
+                {(() => {
+                  const revision = revisions.find(
+                    (r) => r.revisionNumber === selectedRevision
+                  );
+                  return revision?.reason
+                    ? ` — replaced because: ${revision.reason}`
+                    : "";
+                })()}
               </>
-            )}
-
-            {receiptData.paymentStatus === "due" && (
+            ) : (
               <>
-                <div className="text-lg font-bold print:text-base mt-2">
-                  Total Amount: ₹{calculateSubtotal() + calculateTotalGST()}
-                </div>
-                <div className="text-base">
-                  Already Paid: ₹
-                  {(
-                    (calculateSubtotal() + calculateTotalGST()) -
-                    ensureNumber(receiptData.dueTotal)
-                  ).toFixed(2)}
-                </div>
-                <div className="text-base font-bold text-red-500 mt-1 print:text-black">
-                  Balance Due: ₹{ensureNumber(receiptData.dueTotal).toFixed(2)}
-                </div>
+                Current version {currentReceipt?.revisionNumber} ·{" "}
+                {revisions.length} earlier{" "}
+                {revisions.length === 1 ? "version" : "versions"}
               </>
             )}
           </div>
+          <Select
+            value={selectedRevision === null ? "current" : selectedRevision.toString()}
+            onValueChange={(value) =>
+              setSelectedRevision(value === "current" ? null : parseInt(value))
+            }
+          >
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue placeholder="Select version" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="current">
+                Version {currentReceipt?.revisionNumber} (current)
+              </SelectItem>
+              {revisions.map((revision) => (
+                <SelectItem
+                  key={revision.revisionNumber}
+                  value={revision.revisionNumber.toString()}
+                >
+                  Version {revision.revisionNumber} · {formatDate(revision.createdAt)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
-
-        {receiptData.notes && (
-          <div className="mt-8 border-t pt-4">
-            <h2 className="text-lg font-semibold mb-2">Notes</h2>
-            <p className="text-gray-700">{receiptData.notes}</p>
+      )}
+
+      <ReceiptDocument
+        receiptData={receiptData}
+        isSuperseded={isViewingOldVersion}
+        creditNotes={isViewingOldVersion ? undefined : currentReceipt?.creditNotes}
+        linkCreditNotes
+      />
+
+      {currentReceipt && getToken() && (
+        <ReceiptShareDialog
+          open={isShareDialogOpen}
+          onOpenChange={setIsShareDialogOpen}
+          token={getToken()!}
+          receiptId={currentReceipt.receiptId!}
+          receiptNumber={currentReceipt.receiptNumber}
+          storeName={currentReceipt.storeInfo?.name}
+          customerName={currentReceipt.customerName}
+          customerContact={currentReceipt.customerContact}
+          customerCountryCode={currentReceipt.customerCountryCode}
+        />
+      )}
+
+      <Dialog open={isVoidDialogOpen} onOpenChange={setIsVoidDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void receipt #{currentReceipt?.receiptNumber}</DialogTitle>
+            <DialogDescription>
+              The receipt stays on record marked as void. Its payment entries
+              and any due record are reversed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="voidReason">Reason</Label>
+            <Input
+              id="voidReason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="e.g. Entered for the wrong customer"
+            />
+            {voidError && <div className="text-xs text-red-500">{voidError}</div>}
           </div>
-        )}
-
-        {(receiptData.paymentStatus === "advance" ||
-          receiptData.paymentStatus === "due") &&
-          receiptData.dueTotal &&
-          receiptData.dueTotal > 0 && (
-            <div className="mt-4 p-3 border border-red-200 bg-red-50 rounded-md print:border-black print:bg-white">
-              <p className="text-red-700 font-medium print:text-black">
-                Due Payment Notice
-              </p>
-              <p className="text-sm text-red-600 print:text-black">
-                A balance of ₹{(receiptData.paymentStatus === "advance" 
-                  ? (calculateSubtotal() + calculateTotalGST() - calculateTotalAdvanceAmount()).toFixed(2)
-                  : ensureNumber(receiptData.dueTotal).toFixed(2))} is
-                due for this transaction. Please ensure timely payment to avoid
-                any inconvenience.
-              </p>
-            </div>
-          )}
-
-        <div className="mt-12 text-center text-gray-500 text-sm">
-          <p>Created at: {formatDateTime(receiptData.createdAt)}</p>
-          <p>Thank you for your business!</p>
-        </div>
-      </Card>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsVoidDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              onClick={handleVoid}
+              disabled={isVoiding}
+            >
+              {isVoiding ? "Voiding..." : "Void Receipt"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,544 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DEFAULT_REMINDER_TEMPLATE,
+  REMINDER_PLACEHOLDERS,
+  ReminderChannel,
+  ReminderRule,
+  ReminderRuleBody,
+  ReminderStatus,
+  validateReminderRule,
+} from "@/lib/reminder-templates";
+
+interface OutboxMessage {
+  id: number;
+  ruleName: string | null;
+  receiptNumber: string | null;
+  customerName: string;
+  channel: ReminderChannel;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  status: ReminderStatus;
+  attempts: number;
+  lastError: string | null;
+  scheduledFor: string;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+type Timing = "before" | "on" | "after";
+
+interface RuleForm {
+  name: string;
+  channel: ReminderChannel;
+  timing: Timing;
+  days: number;
+  repeatEveryDays: string;
+  subject: string;
+  template: string;
+  isActive: boolean;
+}
+
+const CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: "Email",
+  sms: "SMS",
+  whatsapp: "WhatsApp",
+};
+
+const STATUS_STYLES: Record<ReminderStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  sending: "bg-blue-100 text-blue-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-100 text-gray-600",
+};
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  channel: "sms",
+  timing: "before",
+  days: 3,
+  repeatEveryDays: "",
+  subject: "",
+  template: DEFAULT_REMINDER_TEMPLATE,
+  isActive: true,
+};
+
+const toForm = (rule: ReminderRule): RuleForm => ({
+  name: rule.name,
+  channel: rule.channel,
+  timing: rule.offsetDays < 0 ? "before" : rule.offsetDays === 0 ? "on" : "after",
+  days: Math.abs(rule.offsetDays),
+  repeatEveryDays: rule.repeatEveryDays ? String(rule.repeatEveryDays) : "",
+  subject: rule.subject || "",
+  template: rule.template,
+  isActive: rule.isActive,
+});
+
+const toRuleBody = (form: RuleForm): ReminderRuleBody => ({
+  name: form.name,
+  channel: form.channel,
+  offsetDays: form.timing === "on" ? 0 : form.timing === "before" ? -form.days : form.days,
+  repeatEveryDays: form.repeatEveryDays ? parseInt(form.repeatEveryDays) : null,
+  subject: form.channel === "email" ? form.subject : null,
+  template: form.template,
+  isActive: form.isActive,
+});
+
+const describeTiming = (rule: ReminderRule) => {
+  const days = Math.abs(rule.offsetDays);
+  const base =
+    rule.offsetDays === 0
+      ? "On the due date"
+      : `${days} ${days === 1 ? "day" : "days"} ${rule.offsetDays < 0 ? "before" : "after"} the due date`;
+  return rule.repeatEveryDays ? `${base}, then every ${rule.repeatEveryDays} days` : base;
+};
+
+export default function Reminders() {
+  const router = useRouter();
+  const [rules, setRules] = useState<ReminderRule[]>([]);
+  const [outbox, setOutbox] = useState<OutboxMessage[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ReminderStatus | "all">("all");
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const getToken = useCallback(() => {
+    const userJSON = localStorage.getItem("currentUser");
+    const token = userJSON ? JSON.parse(userJSON)?.token : null;
+    if (!token) router.push("/login");
+    return token;
+  }, [router]);
+
+  const fetchRules = useCallback(async () => {
+    const token = getToken();
+    if (!token) return;
+    const response = await fetch("/api/reminders/rules", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to load reminder rules");
+    setRules(data);
+  }, [getToken]);
+
+  const fetchOutbox = useCallback(async () => {
+    const token = getToken();
+    if (!token) return;
+    const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+    const response = await fetch(`/api/reminders/outbox${query}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to load outbox");
+    setOutbox(data);
+  }, [getToken, statusFilter]);
+
+  useEffect(() => {
+    Promise.all([fetchRules(), fetchOutbox()])
+      .then(() => setError(null))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load reminders"))
+      .finally(() => setIsLoading(false));
+  }, [fetchRules, fetchOutbox]);
+
+  const openDialog = (rule?: ReminderRule) => {
+    setEditingId(rule?.id ?? null);
+    setForm(rule ? toForm(rule) : EMPTY_FORM);
+    setFormError("");
+    setIsDialogOpen(true);
+  };
+
+  const saveRule = async () => {
+    const body = toRuleBody(form);
+    const validationError = validateReminderRule(body);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        editingId ? `/api/reminders/rules/${editingId}` : "/api/reminders/rules",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${getToken()}`,
+          },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to save rule");
+      setIsDialogOpen(false);
+      await fetchRules();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save rule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: ReminderRule) => {
+    try {
+      const response = await fetch(`/api/reminders/rules/${rule.id}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${getToken()}`,
+        },
+        body: JSON.stringify({ isActive: !rule.isActive }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to update rule");
+      setRules((current) => current.map((r) => (r.id === rule.id ? data : r)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update rule");
+    }
+  };
+
+  const deleteRule = async (rule: ReminderRule) => {
+    if (!confirm(`Delete the reminder rule "${rule.name}"? Messages it has queued will be cancelled.`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/reminders/rules/${rule.id}`, {
+        method: "DELETE",
+        headers: { Authorization: `Bearer ${getToken()}` },
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to delete rule");
+      await Promise.all([fetchRules(), fetchOutbox()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete rule");
+    }
+  };
+
+  const updateMessage = async (message: OutboxMessage, action: "retry" | "cancel") => {
+    try {
+      const response = await fetch(`/api/reminders/outbox/${message.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${getToken()}`,
+        },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Failed to update message");
+      await fetchOutbox();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update message");
+    }
+  };
+
+  const formatDateTime = (value: string) => {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toLocaleString();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl space-y-6">
+      <div className="flex justify-start">
+        <Link href="/accounts/due">
+          <Button
+            variant="outline"
+            className="text-blue-600 border-blue-200 hover:bg-blue-50"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to Dues
+          </Button>
+        </Link>
+      </div>
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl flex justify-between items-center">
+            <span>Reminder Rules</span>
+            <Button onClick={() => openDialog()} className="bg-blue-600 hover:bg-blue-700">
+              <Plus className="mr-2 h-4 w-4" /> Add Rule
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <div className="text-center text-gray-500 py-6">
+              No reminder rules yet. Customers are not reminded until you add one.
+            </div>
+          ) : (
+            <div className="divide-y">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between py-3 gap-4">
+                  <div className="min-w-0">
+                    <div className="font-medium">
+                      {rule.name}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {CHANNEL_LABELS[rule.channel]}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-500">{describeTiming(rule)}</div>
+                    <div className="text-xs text-gray-400 truncate">{rule.template}</div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={() => toggleRule(rule)}
+                      aria-label={rule.isActive ? "Pause rule" : "Resume rule"}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(rule)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => deleteRule(rule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl flex justify-between items-center">
+            <span>Outbox</span>
+            <div className="flex items-center gap-2">
+              <Select
+                value={statusFilter}
+                onValueChange={(value) => setStatusFilter(value as ReminderStatus | "all")}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="sent">Sent</SelectItem>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => fetchOutbox().catch(() => undefined)}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {outbox.length === 0 ? (
+            <div className="text-center text-gray-500 py-6">No messages</div>
+          ) : (
+            <div className="divide-y">
+              {outbox.map((message) => (
+                <div key={message.id} className="py-3 space-y-1">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="text-sm">
+                      <span className="font-medium">{message.customerName}</span>
+                      <span className="ml-2 text-gray-500">
+                        {CHANNEL_LABELS[message.channel]} · {message.recipient}
+                      </span>
+                    </div>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[message.status]}`}
+                    >
+                      {message.status}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {message.ruleName || "Deleted rule"}
+                    {message.receiptNumber && ` · Receipt #${message.receiptNumber}`}
+                    {" · "}
+                    {message.sentAt
+                      ? `Sent ${formatDateTime(message.sentAt)}`
+                      : `Scheduled ${formatDateTime(message.scheduledFor)}`}
+                    {message.attempts > 0 && ` · ${message.attempts} attempt${message.attempts === 1 ? "" : "s"}`}
+                  </div>
+                  {message.subject && <div className="text-sm font-medium">{message.subject}</div>}
+                  <div className="text-sm text-gray-700 whitespace-pre-wrap">{message.body}</div>
+                  {message.lastError && (
+                    <div className="text-xs text-red-500">{message.lastError}</div>
+                  )}
+                  {(message.status === "failed" || message.status === "cancelled") && (
+                    <Button variant="outline" size="sm" onClick={() => updateMessage(message, "retry")}>
+                      Retry
+                    </Button>
+                  )}
+                  {message.status === "pending" && (
+                    <Button variant="outline" size="sm" onClick={() => updateMessage(message, "cancel")}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Reminder Rule" : "Add Reminder Rule"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="ruleName">Name</Label>
+              <Input
+                id="ruleName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. 3 days before"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-2">
+                <Label>Send</Label>
+                <Select
+                  value={form.timing}
+                  onValueChange={(value) => setForm({ ...form, timing: value as Timing })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="before">Before due date</SelectItem>
+                    <SelectItem value="on">On due date</SelectItem>
+                    <SelectItem value="after">After due date</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ruleDays">Days</Label>
+                <Input
+                  id="ruleDays"
+                  type="number"
+                  min={1}
+                  disabled={form.timing === "on"}
+                  value={form.timing === "on" ? 0 : form.days || ""}
+                  onChange={(e) => setForm({ ...form, days: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ruleRepeat">Then every (days)</Label>
+                <Input
+                  id="ruleRepeat"
+                  type="number"
+                  min={1}
+                  placeholder="Once"
+                  value={form.repeatEveryDays}
+                  onChange={(e) => setForm({ ...form, repeatEveryDays: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Select
+                value={form.channel}
+                onValueChange={(value) => setForm({ ...form, channel: value as ReminderChannel })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sms">SMS</SelectItem>
+                  <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                  <SelectItem value="email">Email</SelectItem>
+                </SelectContent>
+              </Select>
+              {form.channel === "email" && (
+                <p className="text-xs text-gray-500">
+                  Only customers with an email address on their customer page are emailed.
+                </p>
+              )}
+            </div>
+
+            {form.channel === "email" && (
+              <div className="space-y-2">
+                <Label htmlFor="ruleSubject">Subject</Label>
+                <Input
+                  id="ruleSubject"
+                  value={form.subject}
+                  onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                  placeholder="Payment reminder for receipt #{{receiptNumber}}"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="ruleTemplate">Message</Label>
+              <Textarea
+                id="ruleTemplate"
+                rows={4}
+                value={form.template}
+                onChange={(e) => setForm({ ...form, template: e.target.value })}
+              />
+              <p className="text-xs text-gray-500">
+                Placeholders: {REMINDER_PLACEHOLDERS.map((name) => `{{${name}}}`).join(", ")}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                id="ruleActive"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="ruleActive">Active</Label>
+            </div>
+
+            {formError && <div className="text-sm text-red-500">{formError}</div>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveRule} disabled={isSaving} className="bg-blue-600 hover:bg-blue-700">
+              {isSaving ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -12,9 +12,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArrowLeft, Download, ChevronLeft, ChevronRight } from "lucide-react";
 import Link from "next/link";
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isToday, getYear, setYear } from "date-fns";
+import { format, startOfMonth, endOfMonth, startOfYear, endOfYear, eachDayOfInterval, isSameMonth, isToday, getYear, setYear } from "date-fns";
+import { TaxBreakupRow } from "@/lib/receipt-totals";
+import { GstReturnsPanel } from "@/components/gst-returns-panel";
+import { AgingReportPanel } from "@/components/aging-report-panel";
+import { WriteOffReportPanel } from "@/components/write-off-report-panel";
+import { ExpenseReportPanel } from "@/components/expense-report-panel";
+import { LedgerPanel } from "@/components/ledger-panel";
 
 interface Transaction {
   id: string;
@@ -24,6 +31,8 @@ interface Transaction {
   date: string;
   receiptNumber?: string;
   createdAt: string;
+  isNonCash?: boolean;
+  isTransfer?: boolean;
   details?: {
     credit: number;
     debit: number;
@@ -31,6 +40,28 @@ interface Transaction {
   };
 }
 
+interface CreditNote {
+  id: number;
+  creditNoteNumber: string;
+  date: string;
+  receiptId: number;
+  receiptNumber: string;
+  customerName: string;
+  totalTax: number;
+  total: number;
+  dueAdjusted: number;
+  refundAmount: number;
+}
+
+interface GstSummary {
+  rows: TaxBreakupRow[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
 export default function ReportPage() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [filterType, setFilterType] = useState<"day" | "month" | "year">("month");
@@ -40,9 +71,13 @@ export default function ReportPage() {
   const [aggregatedTransactions, setAggregatedTransactions] = useState<Transaction[]>([]);
   const [showMonthPicker, setShowMonthPicker] = useState(false);
   const [showYearPicker, setShowYearPicker] = useState(false);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [gstSummary, setGstSummary] = useState<GstSummary | null>(null);
 
   useEffect(() => {
     fetchTransactions();
+    fetchCreditNotes();
+    fetchGstSummary();
   }, [filterType, filterDate]);
 
   const handleReportTypeChange = (value: "day" | "month" | "year") => {
@@ -157,7 +192,13 @@ export default function ReportPage() {
       if (!response.ok) throw new Error("Failed to fetch transactions");
       
       const data = await response.json();
-      let filteredAndSortedTransactions = filterTransactionsByDate(data.transactions);
+      // Write-offs are book entries, listed on the Write-offs tab instead;
+      // transfers only move money between the user's own accounts
+      let filteredAndSortedTransactions = filterTransactionsByDate(
+        data.transactions.filter(
+          (transaction: Transaction) => !transaction.isNonCash && !transaction.isTransfer
+        )
+      );
 
       // Apply secondary sort by createdAt for transactions on the same date
       filteredAndSortedTransactions.sort((a, b) => {
@@ -187,24 +228,80 @@ export default function ReportPage() {
     }
   };
 
-  const filterTransactionsByDate = (transactions: Transaction[]) => {
+  const fetchCreditNotes = async () => {
+    try {
+      const userJSON = localStorage.getItem("currentUser");
+      if (!userJSON) return;
+
+      const userData = JSON.parse(userJSON);
+      const response = await fetch("/api/credit-notes", {
+        headers: { Authorization: `Bearer ${userData.token}` },
+      });
+
+      if (!response.ok) throw new Error("Failed to fetch credit notes");
+
+      const data: CreditNote[] = await response.json();
+      setCreditNotes(data.filter((creditNote) => isInSelectedPeriod(creditNote.date)));
+    } catch (error) {
+      console.error("Error fetching credit notes:", error);
+    }
+  };
+
+  const getPeriodRange = () => {
     const date = new Date(filterDate);
-    return transactions.filter(transaction => {
-      const transactionDate = new Date(transaction.date);
-      switch (filterType) {
-        case "day":
-          return transactionDate.toDateString() === date.toDateString();
-        case "month":
-          return (
-            transactionDate.getMonth() === date.getMonth() &&
-            transactionDate.getFullYear() === date.getFullYear()
-          );
-        case "year":
-          return transactionDate.getFullYear() === date.getFullYear();
-        default:
-          return true;
-      }
-    });
+    switch (filterType) {
+      case "year":
+        return { from: startOfYear(date), to: endOfYear(date) };
+      case "month":
+        return { from: startOfMonth(date), to: endOfMonth(date) };
+      default:
+        return { from: date, to: date };
+    }
+  };
+
+  const fetchGstSummary = async () => {
+    try {
+      const userJSON = localStorage.getItem("currentUser");
+      if (!userJSON) return;
+
+      const userData = JSON.parse(userJSON);
+      const { from, to } = getPeriodRange();
+      const params = new URLSearchParams({
+        from: format(from, "yyyy-MM-dd"),
+        to: format(to, "yyyy-MM-dd"),
+      });
+      const response = await fetch(`/api/gst/summary?${params}`, {
+        headers: { Authorization: `Bearer ${userData.token}` },
+      });
+
+      if (!response.ok) throw new Error("Failed to fetch GST summary");
+
+      setGstSummary(await response.json());
+    } catch (error) {
+      console.error("Error fetching GST summary:", error);
+    }
+  };
+
+  const isInSelectedPeriod = (dateString: string) => {
+    const date = new Date(filterDate);
+    const transactionDate = new Date(dateString);
+    switch (filterType) {
+      case "day":
+        return transactionDate.toDateString() === date.toDateString();
+      case "month":
+        return (
+          transactionDate.getMonth() === date.getMonth() &&
+          transactionDate.getFullYear() === date.getFullYear()
+        );
+      case "year":
+        return transactionDate.getFullYear() === date.getFullYear();
+      default:
+        return true;
+    }
+  };
+
+  const filterTransactionsByDate = (transactions: Transaction[]) => {
+    return transactions.filter(transaction => isInSelectedPeriod(transaction.date));
   };
 
   const aggregateMonthlyTransactions = (transactions: Transaction[]) => {
@@ -318,9 +415,38 @@ export default function ReportPage() {
       ].join(",");
     });
 
+    const gstRows = gstSummary && gstSummary.rows.length > 0
+      ? [
+          "",
+          `"GST SUMMARY"`,
+          ["Rate", "Taxable Value", "CGST", "SGST", "IGST", "Total Tax"]
+            .map((h) => `"${h.toUpperCase()}"`)
+            .join(","),
+          ...gstSummary.rows.map((row) =>
+            [
+              `"${row.rate}%"`,
+              `"${row.taxableValue.toFixed(2)}"`,
+              `"${row.cgst.toFixed(2)}"`,
+              `"${row.sgst.toFixed(2)}"`,
+              `"${row.igst.toFixed(2)}"`,
+              `"${row.tax.toFixed(2)}"`,
+            ].join(",")
+          ),
+          [
+            `"Total"`,
+            `"${gstSummary.taxableValue.toFixed(2)}"`,
+            `"${gstSummary.cgst.toFixed(2)}"`,
+            `"${gstSummary.sgst.toFixed(2)}"`,
+            `"${gstSummary.igst.toFixed(2)}"`,
+            `"${gstSummary.totalTax.toFixed(2)}"`,
+          ].join(","),
+        ]
+      : [];
+
     const csvContent = [
       headers.map((h) => `"${h.toUpperCase()}"`).join(","),
       ...csvRows,
+      ...gstRows,
     ].join("\n");
 
     const bom = "\uFEFF";
@@ -376,226 +502,470 @@ export default function ReportPage() {
           </Button>
         </div>
 
-        <Card className="mb-6">
-          <CardHeader>
-            <CardTitle>Transaction Report</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-              <div>
-                <Label className="text-sm font-medium mb-1.5">Report Type</Label>
-                <Select
-                  value={filterType}
-                  onValueChange={handleReportTypeChange}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select report type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="day">Daily</SelectItem>
-                    <SelectItem value="month">Monthly</SelectItem>
-                    <SelectItem value="year">Yearly</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div>
-                <Label className="text-sm font-medium mb-1.5">
-                  {filterType === "year" ? "Year" : 
-                   filterType === "month" ? "Month" : "Date"}
-                </Label>
-                {filterType === "year" ? (
-                  <div className="relative">
-                    <Input
-                      type="text"
-                      value={format(new Date(filterDate), 'yyyy')}
-                      onClick={() => setShowYearPicker(!showYearPicker)}
-                      readOnly
-                      className="cursor-pointer"
-                    />
-                    {showYearPicker && (
-                      <div className="absolute z-10 mt-1 w-64 bg-white rounded-md shadow-lg border border-gray-200">
-                        <div className="p-2 border-b">
-                          <div className="text-center font-medium mb-2">
-                            Select Year
+        <Tabs defaultValue="transactions">
+          <TabsList className="grid w-full grid-cols-6 mb-6">
+            <TabsTrigger value="transactions">Transactions</TabsTrigger>
+            <TabsTrigger value="expenses">Expenses</TabsTrigger>
+            <TabsTrigger value="aging">Receivables Aging</TabsTrigger>
+            <TabsTrigger value="write-offs">Write-offs</TabsTrigger>
+            <TabsTrigger value="gst-returns">GST Returns</TabsTrigger>
+            <TabsTrigger value="ledger">Ledger</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="transactions">
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Transaction Report</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <Label className="text-sm font-medium mb-1.5">Report Type</Label>
+                    <Select
+                      value={filterType}
+                      onValueChange={handleReportTypeChange}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select report type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="day">Daily</SelectItem>
+                        <SelectItem value="month">Monthly</SelectItem>
+                        <SelectItem value="year">Yearly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium mb-1.5">
+                      {filterType === "year" ? "Year" : 
+                       filterType === "month" ? "Month" : "Date"}
+                    </Label>
+                    {filterType === "year" ? (
+                      <div className="relative">
+                        <Input
+                          type="text"
+                          value={format(new Date(filterDate), 'yyyy')}
+                          onClick={() => setShowYearPicker(!showYearPicker)}
+                          readOnly
+                          className="cursor-pointer"
+                        />
+                        {showYearPicker && (
+                          <div className="absolute z-10 mt-1 w-64 bg-white rounded-md shadow-lg border border-gray-200">
+                            <div className="p-2 border-b">
+                              <div className="text-center font-medium mb-2">
+                                Select Year
+                              </div>
+                            </div>
+                            <div className="grid grid-cols-4 gap-1 p-2 max-h-60 overflow-y-auto">
+                              {getYearRange().map((year) => (
+                                <Button
+                                  key={year}
+                                  variant="ghost"
+                                  size="sm"
+                                  className={`h-8 w-12 p-0 ${
+                                    year === getYear(new Date(filterDate)) ? 'bg-blue-100' : ''
+                                  }`}
+                                  onClick={() => handleYearSelect(year)}
+                                >
+                                  {year}
+                                </Button>
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                        <div className="grid grid-cols-4 gap-1 p-2 max-h-60 overflow-y-auto">
-                          {getYearRange().map((year) => (
-                            <Button
-                              key={year}
-                              variant="ghost"
-                              size="sm"
-                              className={`h-8 w-12 p-0 ${
-                                year === getYear(new Date(filterDate)) ? 'bg-blue-100' : ''
-                              }`}
-                              onClick={() => handleYearSelect(year)}
-                            >
-                              {year}
-                            </Button>
-                          ))}
-                        </div>
+                        )}
                       </div>
-                    )}
-                  </div>
-                ) : filterType === "month" ? (
-                  <div className="relative">
-                    <Input
-                      type="text"
-                      value={format(new Date(filterDate), 'MMMM yyyy')}
-                      onClick={() => setShowMonthPicker(!showMonthPicker)}
-                      readOnly
-                      className="cursor-pointer"
-                    />
-                    {showMonthPicker && (
-                      <div className="absolute z-10 mt-1 w-64 bg-white rounded-md shadow-lg border border-gray-200">
-                        <div className="p-2 flex items-center justify-between border-b">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={handlePrevMonth}
-                            className="h-8 w-8 p-0"
-                          >
-                            <ChevronLeft className="h-4 w-4" />
-                          </Button>
-                          <span className="font-medium">
-                            {format(new Date(filterDate), 'MMMM yyyy')}
-                          </span>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={handleNextMonth}
-                            className="h-8 w-8 p-0"
-                          >
-                            <ChevronRight className="h-4 w-4" />
-                          </Button>
-                        </div>
-                        <div className="grid grid-cols-7 gap-1 p-2">
-                          {['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'].map(day => (
-                            <div key={day} className="text-center text-sm text-gray-500 py-1">
-                              {day}
+                    ) : filterType === "month" ? (
+                      <div className="relative">
+                        <Input
+                          type="text"
+                          value={format(new Date(filterDate), 'MMMM yyyy')}
+                          onClick={() => setShowMonthPicker(!showMonthPicker)}
+                          readOnly
+                          className="cursor-pointer"
+                        />
+                        {showMonthPicker && (
+                          <div className="absolute z-10 mt-1 w-64 bg-white rounded-md shadow-lg border border-gray-200">
+                            <div className="p-2 flex items-center justify-between border-b">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={handlePrevMonth}
+                                className="h-8 w-8 p-0"
+                              >
+                                <ChevronLeft className="h-4 w-4" />
+                              </Button>
+                              <span className="font-medium">
+                                {format(new Date(filterDate), 'MMMM yyyy')}
+                              </span>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={handleNextMonth}
+                                className="h-8 w-8 p-0"
+                              >
+                                <ChevronRight className="h-4 w-4" />
+                              </Button>
                             </div>
-                          ))}
-                          {getMonthDays().map((date, index) => (
-                            <Button
-                              key={index}
-                              variant="ghost"
-                              size="sm"
-                              className={`h-8 w-8 p-0 ${
-                                isToday(date) ? 'bg-blue-100' : ''
-                              }`}
-                              onClick={() => handleMonthSelect(date)}
-                            >
-                              {format(date, 'd')}
-                            </Button>
-                          ))}
-                        </div>
+                            <div className="grid grid-cols-7 gap-1 p-2">
+                              {['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'].map(day => (
+                                <div key={day} className="text-center text-sm text-gray-500 py-1">
+                                  {day}
+                                </div>
+                              ))}
+                              {getMonthDays().map((date, index) => (
+                                <Button
+                                  key={index}
+                                  variant="ghost"
+                                  size="sm"
+                                  className={`h-8 w-8 p-0 ${
+                                    isToday(date) ? 'bg-blue-100' : ''
+                                  }`}
+                                  onClick={() => handleMonthSelect(date)}
+                                >
+                                  {format(date, 'd')}
+                                </Button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
+                    ) : (
+                      <Input
+                        type="date"
+                        value={filterDate}
+                        onChange={handleDateChange}
+                        min={getDateInputMin()}
+                        max={getDateInputMax()}
+                      />
                     )}
                   </div>
+                </div>
+
+                {isLoading ? (
+                  <div className="text-center py-8">Loading...</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Date
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Particulars
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Credit
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Debit
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Balance
+                          </th>
+                          {filterType === "year" && (
+                            <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                              Transactions
+                            </th>
+                          )}
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {(filterType === "year" ? aggregatedTransactions : transactions).map((transaction, index) => (
+                          <tr key={transaction.id}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {formatDate(transaction.date)}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {transaction.particulars}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600">
+                              {filterType === "year"
+                                ? formatCurrency(transaction.details?.credit || 0)
+                                : transaction.type === "credit"
+                                  ? formatCurrency(transaction.amount)
+                                  : ""}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                              {filterType === "year"
+                                ? formatCurrency(transaction.details?.debit || 0)
+                                : transaction.type === "debit"
+                                  ? formatCurrency(transaction.amount)
+                                  : ""}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium">
+                              {formatCurrency(runningBalance[index])}
+                            </td>
+                            {filterType === "year" && (
+                              <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                                {transaction.details?.transactionCount}
+                              </td>
+                            )}
+                          </tr>
+                        ))}
+                        <tr className="bg-gray-100 font-semibold">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            Total
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {filterType === "year" 
+                              ? "Yearly Summary" 
+                              : `${transactions.length} transactions`}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600">
+                            {formatCurrency(totalCredit)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                            {formatCurrency(totalDebit)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {formatCurrency(runningBalance[runningBalance.length - 1] || 0)}
+                          </td>
+                          {filterType === "year" && (
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                              {transactions.length}
+                            </td>
+                          )}
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>GST Summary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!gstSummary || gstSummary.rows.length === 0 ? (
+                  <div className="text-center py-4 text-gray-500">
+                    No GST collected in this period
+                  </div>
                 ) : (
-                  <Input
-                    type="date"
-                    value={filterDate}
-                    onChange={handleDateChange}
-                    min={getDateInputMin()}
-                    max={getDateInputMax()}
-                  />
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Rate
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Taxable Value
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            CGST
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            SGST
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            IGST
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Total Tax
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {gstSummary.rows.map((row) => (
+                          <tr key={row.rate}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {row.rate}%
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                              {formatCurrency(row.taxableValue)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                              {formatCurrency(row.cgst)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                              {formatCurrency(row.sgst)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                              {formatCurrency(row.igst)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium">
+                              {formatCurrency(row.tax)}
+                            </td>
+                          </tr>
+                        ))}
+                        <tr className="bg-gray-100 font-semibold">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            Total
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {formatCurrency(gstSummary.taxableValue)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {formatCurrency(gstSummary.cgst)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {formatCurrency(gstSummary.sgst)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {formatCurrency(gstSummary.igst)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {formatCurrency(gstSummary.totalTax)}
+                          </td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
                 )}
-              </div>
-            </div>
-
-            {isLoading ? (
-              <div className="text-center py-8">Loading...</div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-gray-200">
-                  <thead className="bg-gray-100">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
-                        Date
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
-                        Particulars
-                      </th>
-                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
-                        Credit
-                      </th>
-                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
-                        Debit
-                      </th>
-                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
-                        Balance
-                      </th>
-                      {filterType === "year" && (
-                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
-                          Transactions
-                        </th>
-                      )}
-                    </tr>
-                  </thead>
-                  <tbody className="bg-white divide-y divide-gray-200">
-                    {(filterType === "year" ? aggregatedTransactions : transactions).map((transaction, index) => (
-                      <tr key={transaction.id}>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {formatDate(transaction.date)}
-                        </td>
-                        <td className="px-6 py-4 text-sm text-gray-900">
-                          {transaction.particulars}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600">
-                          {filterType === "year"
-                            ? formatCurrency(transaction.details?.credit || 0)
-                            : transaction.type === "credit"
-                              ? formatCurrency(transaction.amount)
-                              : ""}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
-                          {filterType === "year"
-                            ? formatCurrency(transaction.details?.debit || 0)
-                            : transaction.type === "debit"
-                              ? formatCurrency(transaction.amount)
-                              : ""}
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium">
-                          {formatCurrency(runningBalance[index])}
-                        </td>
-                        {filterType === "year" && (
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
-                            {transaction.details?.transactionCount}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Credit Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {creditNotes.length === 0 ? (
+                  <div className="text-center py-4 text-gray-500">
+                    No credit notes issued in this period
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Date
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Credit Note
+                          </th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Receipt
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            GST Reversed
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Due Adjusted
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Refunded
+                          </th>
+                          <th className="px-6 py-3 text-right text-xs font-medium text-gray-600 uppercase tracking-wider">
+                            Total
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {creditNotes.map((creditNote) => (
+                          <tr key={creditNote.id}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {formatDate(creditNote.date)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-blue-600">
+                              <Link href={`/credit-notes/${creditNote.id}`}>
+                                {creditNote.creditNoteNumber}
+                              </Link>
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {creditNote.receiptNumber} · {creditNote.customerName}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                              {formatCurrency(creditNote.totalTax)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                              {formatCurrency(creditNote.dueAdjusted)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                              {formatCurrency(creditNote.refundAmount)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium">
+                              {formatCurrency(creditNote.total)}
+                            </td>
+                          </tr>
+                        ))}
+                        <tr className="bg-gray-100 font-semibold">
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            Total
                           </td>
-                        )}
-                      </tr>
-                    ))}
-                    <tr className="bg-gray-100 font-semibold">
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        Total
-                      </td>
-                      <td className="px-6 py-4 text-sm text-gray-900">
-                        {filterType === "year" 
-                          ? "Yearly Summary" 
-                          : `${transactions.length} transactions`}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600">
-                        {formatCurrency(totalCredit)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
-                        {formatCurrency(totalDebit)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
-                        {formatCurrency(runningBalance[runningBalance.length - 1] || 0)}
-                      </td>
-                      {filterType === "year" && (
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
-                          {transactions.length}
-                        </td>
-                      )}
-                    </tr>
-                  </tbody>
-                </table>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                          <td className="px-6 py-4 text-sm text-gray-900" colSpan={2}>
+                            {creditNotes.length} credit notes
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {formatCurrency(creditNotes.reduce((sum, c) => sum + c.totalTax, 0))}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {formatCurrency(creditNotes.reduce((sum, c) => sum + c.dueAdjusted, 0))}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-red-600">
+                            {formatCurrency(creditNotes.reduce((sum, c) => sum + c.refundAmount, 0))}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                            {formatCurrency(creditNotes.reduce((sum, c) => sum + c.total, 0))}
+                          </td>
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="expenses">
+            <Card>
+              <CardHeader>
+                <CardTitle>Spending by Category</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ExpenseReportPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="aging">
+            <Card>
+              <CardHeader>
+                <CardTitle>Receivables Aging</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AgingReportPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="write-offs">
+            <Card>
+              <CardHeader>
+                <CardTitle>Bad Debt Write-offs</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <WriteOffReportPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="gst-returns">
+            <Card>
+              <CardHeader>
+                <CardTitle>GST Returns</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <GstReturnsPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="ledger">
+            <Card>
+              <CardHeader>
+                <CardTitle>General Ledger</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <LedgerPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Download, Printer } from "lucide-react";
+import { ReceiptData, ReceiptDocument } from "@/components/receipt-document";
+
+// Read-only receipt for customers opening a share link; no login needed
+export default function SharedReceipt() {
+  const { token } = useParams<{ token: string }>();
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReceipt = async () => {
+      try {
+        const response = await fetch(`/api/share/${token}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Receipt not found");
+        setReceipt(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Receipt not found");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReceipt();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  if (!receipt) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen px-4 text-center">
+        <p className="text-gray-600">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="flex justify-end items-center gap-2 mb-6 print:hidden">
+        <Button variant="outline" onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" /> Print
+        </Button>
+        <a href={`/api/share/${token}/pdf`}>
+          <Button>
+            <Download className="mr-2 h-4 w-4" /> Download PDF
+          </Button>
+        </a>
+      </div>
+
+      <ReceiptDocument receiptData={receipt} creditNotes={receipt.creditNotes} />
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Download, Printer } from "lucide-react";
+import { StatementData, StatementTable } from "@/components/statement-table";
+
+interface SharedStatementData extends StatementData {
+  customer: {
+    name: string;
+    countryCode: string;
+    contact: string;
+    gstNumber: string | null;
+  };
+  storeInfo: {
+    name: string;
+    address: string;
+    contact: string;
+    countryCode?: string;
+    gstNumber?: string;
+  };
+}
+
+// Read-only statement for customers opening a share link; no login needed
+export default function SharedStatement() {
+  const { token } = useParams<{ token: string }>();
+  const [statement, setStatement] = useState<SharedStatementData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchStatement = async () => {
+      try {
+        const response = await fetch(`/api/statements/${token}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Statement not found");
+        setStatement(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Statement not found");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStatement();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-screen">
+        Loading...
+      </div>
+    );
+  }
+
+  if (!statement) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen px-4 text-center">
+        <p className="text-gray-600">{error}</p>
+      </div>
+    );
+  }
+
+  const { storeInfo: store, customer } = statement;
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-4xl">
+      <div className="flex justify-end items-center gap-2 mb-6 print:hidden">
+        <Button variant="outline" onClick={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" /> Print
+        </Button>
+        <a href={`/api/statements/${token}?format=csv`}>
+          <Button variant="outline">
+            <Download className="mr-2 h-4 w-4" /> CSV
+          </Button>
+        </a>
+        <a href={`/api/statements/${token}?format=pdf`}>
+          <Button>
+            <Download className="mr-2 h-4 w-4" /> Download PDF
+          </Button>
+        </a>
+      </div>
+
+      <Card className="p-8 shadow-lg print:shadow-none print:p-4 print:border-none">
+        <div className="text-center mb-6">
+          {store.name && (
+            <h1 className="text-2xl font-bold mb-1 print:text-xl">{store.name}</h1>
+          )}
+          {store.address && <p className="text-gray-600 text-sm mb-1">{store.address}</p>}
+          {store.gstNumber && (
+            <p className="text-gray-600 text-sm mb-1">GST NUMBER: {store.gstNumber}</p>
+          )}
+          <h2 className="text-xl font-bold mt-4 print:text-lg">STATEMENT OF ACCOUNT</h2>
+          <p className="text-gray-500">
+            {new Date(statement.from).toLocaleDateString()} to{" "}
+            {new Date(statement.to).toLocaleDateString()}
+          </p>
+        </div>
+
+        <div className="mb-6">
+          <div className="font-semibold">{customer.name}</div>
+          <div className="text-sm text-gray-600">
+            {customer.countryCode} {customer.contact}
+          </div>
+          {customer.gstNumber && (
+            <div className="text-sm text-gray-600">GSTIN: {customer.gstNumber}</div>
+          )}
+        </div>
+
+        <StatementTable statement={statement} />
+
+        <div className="mt-6 text-right font-semibold">
+          {statement.closingBalance > 0
+            ? `Amount due: ₹${statement.closingBalance.toFixed(2)}`
+            : statement.closingBalance < 0
+            ? `Amount in your favour: ₹${(-statement.closingBalance).toFixed(2)}`
+            : "Nothing is due on this account."}
+        </div>
+      </Card>
+    </div>
+  );
+}
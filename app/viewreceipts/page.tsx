@@ -14,13 +14,14 @@ import {
 } from "@/components/ui/dropdown-menu"
 
 interface Receipt {
+  documentType: "receipt" | "credit_note"
   id: string | number
   receiptNumber: string
   date: string
   customerName: string
   total: number | string
   paymentStatus: "full" | "advance" | "due"
-  displayStatus: "full" | "advance" | "due" | "due_paid"
+  displayStatus: "full" | "advance" | "due" | "due_paid" | "void" | "credit_note"
 }
 
 export default function ViewReceipts() {
@@ -29,7 +30,7 @@ export default function ViewReceipts() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [searchTerm, setSearchTerm] = useState("")
-  const [statusFilter, setStatusFilter] = useState<"all" | "full" | "advance" | "due" | "due_paid">("all")
+  const [statusFilter, setStatusFilter] = useState<"all" | "full" | "advance" | "due" | "due_paid" | "void" | "credit_note">("all")
   const [isSearching, setIsSearching] = useState(false)
   const [selectedYear, setSelectedYear] = useState<string>("all")
   const [selectedMonth, setSelectedMonth] = useState<string>("all")
@@ -278,7 +279,9 @@ export default function ViewReceipts() {
               {statusFilter === "all" ? "All Statuses" : 
                statusFilter === "full" ? "Full payment" :
                statusFilter === "advance" ? "Advance Payment" :
-               statusFilter === "due_paid" ? "Due Paid" : "Due Payment"}
+               statusFilter === "due_paid" ? "Due Paid" :
+               statusFilter === "void" ? "Void" :
+               statusFilter === "credit_note" ? "Credit Notes" : "Due Payment"}
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent className="w-56">
@@ -291,6 +294,8 @@ export default function ViewReceipts() {
               <DropdownMenuRadioItem value="advance">Advance payment</DropdownMenuRadioItem>
               <DropdownMenuRadioItem value="due">Due payment</DropdownMenuRadioItem>
               <DropdownMenuRadioItem value="due_paid">Due Paid</DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="void">Void</DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="credit_note">Credit Notes</DropdownMenuRadioItem>
             </DropdownMenuRadioGroup>
           </DropdownMenuContent>
         </DropdownMenu>
@@ -334,7 +339,7 @@ export default function ViewReceipts() {
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
               {filteredReceipts.map((receipt) => (
-                <tr key={receipt.id.toString()}>
+                <tr key={`${receipt.documentType}-${receipt.id}`}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     {receipt.receiptNumber}
                   </td>
@@ -344,7 +349,9 @@ export default function ViewReceipts() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {receipt.customerName || 'N/A'}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${
+                    receipt.documentType === "credit_note" ? "text-purple-700" : "text-gray-500"
+                  }`}>
                     ₹{formatCurrency(receipt.total)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm">
@@ -356,6 +363,10 @@ export default function ViewReceipts() {
                           ? "bg-yellow-100 text-yellow-800"
                           : receipt.displayStatus === "due_paid"
                           ? "bg-green-100 text-green-800"
+                          : receipt.displayStatus === "void"
+                          ? "bg-gray-200 text-gray-700 line-through"
+                          : receipt.displayStatus === "credit_note"
+                          ? "bg-purple-100 text-purple-800"
                           : "bg-red-100 text-red-800"
                       }`}
                     >
@@ -365,11 +376,21 @@ export default function ViewReceipts() {
                         ? "Advance payment"
                         : receipt.displayStatus === "due_paid"
                         ? "Due Paid"
+                        : receipt.displayStatus === "void"
+                        ? "Void"
+                        : receipt.displayStatus === "credit_note"
+                        ? "Credit note"
                         : "Due payment"}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                    <Link href={`/receipts/${receipt.id}?from=view`}>
+                    <Link
+                      href={
+                        receipt.documentType === "credit_note"
+                          ? `/credit-notes/${receipt.id}`
+                          : `/receipts/${receipt.id}?from=view`
+                      }
+                    >
                       <Button variant="outline" size="sm">
                         View Details
                       </Button>
@@ -0,0 +1,253 @@
+"use client"
+
+import { Fragment, useEffect, useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ChevronDown, ChevronRight, Download } from "lucide-react"
+import type { AgingBucket, AgingReport } from "@/lib/aging"
+
+const getToken = () => {
+  const userJSON = localStorage.getItem("currentUser")
+  return userJSON ? JSON.parse(userJSON).token : null
+}
+
+const formatAmount = (amount: number) => (amount ? `₹${amount.toFixed(2)}` : "—")
+
+const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: "current", label: "Current" },
+  { key: "1-30", label: "1–30 days" },
+  { key: "31-60", label: "31–60 days" },
+  { key: "61-90", label: "61–90 days" },
+  { key: "90+", label: "90+ days" },
+]
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  current: "text-gray-700",
+  "1-30": "text-yellow-700",
+  "31-60": "text-orange-600",
+  "61-90": "text-red-600",
+  "90+": "text-red-800",
+}
+
+export function AgingReportPanel() {
+  const [asOf, setAsOf] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [report, setReport] = useState<AgingReport | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setIsLoading(true)
+      setError("")
+      try {
+        const response = await fetch(`/api/reports/aging?asOf=${asOf}`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to prepare aging report")
+        setReport(data)
+      } catch (err) {
+        setReport(null)
+        setError(err instanceof Error ? err.message : "Failed to prepare aging report")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (asOf) fetchReport()
+  }, [asOf])
+
+  const downloadCsv = async () => {
+    try {
+      const response = await fetch(`/api/reports/aging?asOf=${asOf}&format=csv`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      })
+      if (!response.ok) throw new Error("Failed to export aging report")
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.setAttribute("download", `aging_${asOf}.csv`)
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export aging report")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+        <div className="space-y-2">
+          <Label htmlFor="agingAsOf">As of</Label>
+          <Input
+            id="agingAsOf"
+            type="date"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <Button
+          onClick={downloadCsv}
+          disabled={!report || report.customers.length === 0 || isLoading}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export to Excel
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          {AGING_BUCKETS.map((bucket) => (
+            <div key={bucket.key} className="rounded-md border p-4">
+              <div className="text-sm text-gray-500">{bucket.label}</div>
+              <div className={`text-xl font-bold ${BUCKET_COLORS[bucket.key]}`}>
+                ₹{report.totals[bucket.key].toFixed(2)}
+              </div>
+            </div>
+          ))}
+          <div className="rounded-md border p-4 bg-gray-50">
+            <div className="text-sm text-gray-500">Total Outstanding</div>
+            <div className="text-xl font-bold">₹{report.totals.total.toFixed(2)}</div>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-4 text-gray-500">Preparing aging report...</div>
+      ) : (
+        report &&
+        (report.customers.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No outstanding dues</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Customer</th>
+                  {AGING_BUCKETS.map((bucket) => (
+                    <th key={bucket.key} className="py-2 pr-4 font-medium text-right">
+                      {bucket.label}
+                    </th>
+                  ))}
+                  <th className="py-2 font-medium text-right">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.customers.map((customer) => {
+                  const key = customer.customerId
+                    ? `id:${customer.customerId}`
+                    : `contact:${customer.countryCode}${customer.contact}`
+                  const isExpanded = expanded === key
+                  return (
+                    <Fragment key={key}>
+                      <tr
+                        className="border-b cursor-pointer hover:bg-gray-50"
+                        onClick={() => setExpanded(isExpanded ? null : key)}
+                      >
+                        <td className="py-2 pr-4">
+                          <div className="flex items-center">
+                            {isExpanded ? (
+                              <ChevronDown className="mr-1 h-4 w-4 text-gray-400" />
+                            ) : (
+                              <ChevronRight className="mr-1 h-4 w-4 text-gray-400" />
+                            )}
+                            <div>
+                              <div className="font-medium">{customer.name}</div>
+                              <div className="text-xs text-gray-500">
+                                {customer.countryCode} {customer.contact}
+                              </div>
+                            </div>
+                          </div>
+                        </td>
+                        {AGING_BUCKETS.map((bucket) => (
+                          <td
+                            key={bucket.key}
+                            className={`py-2 pr-4 text-right ${BUCKET_COLORS[bucket.key]}`}
+                          >
+                            {formatAmount(customer.totals[bucket.key])}
+                          </td>
+                        ))}
+                        <td className="py-2 text-right font-semibold">
+                          {formatAmount(customer.totals.total)}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b bg-gray-50">
+                          <td colSpan={AGING_BUCKETS.length + 2} className="px-6 py-3">
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-gray-500">
+                                  <th className="py-1 pr-4 font-medium">Receipt</th>
+                                  <th className="py-1 pr-4 font-medium">Receipt Date</th>
+                                  <th className="py-1 pr-4 font-medium">Due Date</th>
+                                  <th className="py-1 pr-4 font-medium text-right">Days Overdue</th>
+                                  <th className="py-1 font-medium text-right">Outstanding</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {customer.items.map((item) => (
+                                  <tr key={item.dueRecordId}>
+                                    <td className="py-1 pr-4">
+                                      {item.receiptId ? (
+                                        <Link
+                                          href={`/receipts/${item.receiptId}`}
+                                          className="text-blue-600 underline"
+                                        >
+                                          #{item.receiptNumber}
+                                        </Link>
+                                      ) : (
+                                        item.receiptNumber || "—"
+                                      )}
+                                      {item.installmentCount > 1 && (
+                                        <span className="ml-2 text-gray-500">
+                                          Installment {item.installmentNumber} of {item.installmentCount}
+                                        </span>
+                                      )}
+                                    </td>
+                                    <td className="py-1 pr-4">{item.receiptDate || "—"}</td>
+                                    <td className="py-1 pr-4">{item.expectedPaymentDate}</td>
+                                    <td className={`py-1 pr-4 text-right ${BUCKET_COLORS[item.bucket]}`}>
+                                      {item.daysOverdue || "—"}
+                                    </td>
+                                    <td className="py-1 text-right">₹{item.remaining.toFixed(2)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            {customer.customerId && (
+                              <Link
+                                href={`/customers/${customer.customerId}`}
+                                className="mt-2 inline-block text-xs text-blue-600 underline"
+                              >
+                                Open customer ledger
+                              </Link>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+"use client"
+
+import { useState } from "react"
+import { format, startOfMonth } from "date-fns"
+import { Check, Copy, Download, Link2, MessageCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { StatementData, StatementTable } from "@/components/statement-table"
+
+interface CustomerStatementPanelProps {
+  customerId: number
+  customerName: string
+  customerContact: string
+  customerCountryCode: string
+}
+
+export function CustomerStatementPanel({
+  customerId,
+  customerName,
+  customerContact,
+  customerCountryCode,
+}: CustomerStatementPanelProps) {
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"))
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [statement, setStatement] = useState<StatementData | null>(null)
+  const [shareUrl, setShareUrl] = useState("")
+  const [shareExpiresAt, setShareExpiresAt] = useState("")
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const getToken = () => {
+    const userJSON = localStorage.getItem("currentUser")
+    return userJSON ? JSON.parse(userJSON)?.token : null
+  }
+
+  const statementUrl = (fileFormat: string) =>
+    `/api/customers/${customerId}/statement?from=${from}&to=${to}&format=${fileFormat}`
+
+  const run = async (action: () => Promise<void>) => {
+    setIsLoading(true)
+    setError("")
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleView = () =>
+    run(async () => {
+      const response = await fetch(statementUrl("json"), {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load statement")
+      setStatement(data)
+    })
+
+  const handleDownload = (fileFormat: "pdf" | "csv") =>
+    run(async () => {
+      const response = await fetch(statementUrl(fileFormat), {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || "Failed to download statement")
+      }
+      const disposition = response.headers.get("Content-Disposition") || ""
+      const filename =
+        disposition.match(/filename="([^"]+)"/)?.[1] || `statement_${from}_${to}.${fileFormat}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    })
+
+  const handleShare = () =>
+    run(async () => {
+      const response = await fetch(`/api/customers/${customerId}/statement/share`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${getToken()}`,
+        },
+        body: JSON.stringify({ from, to }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to create link")
+      setShareUrl(`${window.location.origin}/statements/${data.token}`)
+      setShareExpiresAt(data.expiresAt)
+      setCopied(false)
+    })
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      setError("Could not copy the link; select it and copy it manually")
+    }
+  }
+
+  const phone = `${customerCountryCode}${customerContact}`.replace(/\D/g, "")
+  const message = `Hi ${customerName}, here is your statement of account: ${shareUrl}`
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-3 md:items-end">
+        <div className="space-y-2">
+          <Label htmlFor="statementFrom">From</Label>
+          <Input
+            id="statementFrom"
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => {
+              setFrom(e.target.value)
+              setShareUrl("")
+            }}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="statementTo">To</Label>
+          <Input
+            id="statementTo"
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => {
+              setTo(e.target.value)
+              setShareUrl("")
+            }}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleView} disabled={isLoading}>
+            View
+          </Button>
+          <Button variant="outline" onClick={() => handleDownload("pdf")} disabled={isLoading}>
+            <Download className="mr-2 h-4 w-4" /> PDF
+          </Button>
+          <Button variant="outline" onClick={() => handleDownload("csv")} disabled={isLoading}>
+            <Download className="mr-2 h-4 w-4" /> CSV
+          </Button>
+          <Button variant="outline" onClick={handleShare} disabled={isLoading}>
+            <Link2 className="mr-2 h-4 w-4" /> Share Link
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {shareUrl && (
+        <div className="rounded-md border p-3 space-y-2">
+          <Input value={shareUrl} readOnly onFocus={(e) => e.target.select()} />
+          <div className="text-xs text-gray-500">
+            Anyone with this link can view the statement until{" "}
+            {new Date(shareExpiresAt).toLocaleDateString()}.
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={handleCopy}>
+              {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+              {copied ? "Copied" : "Copy"}
+            </Button>
+            <a
+              href={`https://wa.me/${phone}?text=${encodeURIComponent(message)}`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <Button size="sm" variant="outline">
+                <MessageCircle className="mr-2 h-4 w-4" /> WhatsApp
+              </Button>
+            </a>
+          </div>
+        </div>
+      )}
+
+      {statement && <StatementTable statement={statement} />}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { UserRound } from "lucide-react"
+
+export interface CustomerSuggestion {
+  id: number
+  name: string
+  countryCode: string
+  contact: string
+  gstNumber: string | null
+  outstanding: number
+}
+
+interface CustomerSuggestionsProps {
+  // Name or phone text typed so far
+  query: string
+  onSelect: (customer: CustomerSuggestion) => void
+}
+
+const MIN_QUERY_LENGTH = 2
+
+export function CustomerSuggestions({ query, onSelect }: CustomerSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<CustomerSuggestion[]>([])
+
+  useEffect(() => {
+    const search = query.trim()
+    if (search.length < MIN_QUERY_LENGTH) {
+      setSuggestions([])
+      return
+    }
+
+    const userJSON = localStorage.getItem("currentUser")
+    const token = userJSON ? JSON.parse(userJSON)?.token : null
+    if (!token) return
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => {
+      fetch(`/api/customers?limit=5&search=${encodeURIComponent(search)}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        signal: controller.signal,
+      })
+        .then((response) => (response.ok ? response.json() : []))
+        .then(setSuggestions)
+        .catch(() => {
+          // Suggestions are a convenience; typing a new customer still works
+        })
+    }, 250)
+
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [query])
+
+  if (suggestions.length === 0) return null
+
+  return (
+    <div className="rounded-md border bg-white shadow-sm divide-y">
+      {suggestions.map((customer) => (
+        <button
+          key={customer.id}
+          type="button"
+          onClick={() => {
+            setSuggestions([])
+            onSelect(customer)
+          }}
+          className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-gray-50"
+        >
+          <span className="flex items-center">
+            <UserRound className="mr-2 h-4 w-4 text-gray-400" />
+            <span className="font-medium">{customer.name}</span>
+            <span className="ml-2 text-gray-500">
+              {customer.countryCode} {customer.contact}
+            </span>
+          </span>
+          {customer.outstanding > 0 && (
+            <span className="text-xs text-red-600">₹{customer.outstanding.toFixed(2)} due</span>
+          )}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,187 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, Check, Pencil, Trash2, X } from "lucide-react"
+import type { ExpenseCategory } from "@/lib/expenses"
+
+interface ExpenseCategoryManagerProps {
+  token: string
+}
+
+export function ExpenseCategoryManager({ token }: ExpenseCategoryManagerProps) {
+  const [categories, setCategories] = useState<ExpenseCategory[]>([])
+  const [name, setName] = useState("")
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editName, setEditName] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || "Request failed")
+    return data
+  }
+
+  const fetchCategories = async () => {
+    try {
+      setCategories(await request("/api/expense-categories"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load expense categories")
+    }
+  }
+
+  useEffect(() => {
+    fetchCategories()
+  }, [token])
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    setError("")
+    try {
+      await action()
+      await fetchCategories()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save expense category")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    runAction(async () => {
+      await request("/api/expense-categories", {
+        method: "POST",
+        body: JSON.stringify({ name }),
+      })
+      setName("")
+    })
+  }
+
+  const handleSaveEdit = (id: number) => {
+    runAction(async () => {
+      await request(`/api/expense-categories/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ name: editName }),
+      })
+      setEditingId(null)
+    })
+  }
+
+  const handleToggle = (category: ExpenseCategory) => {
+    runAction(async () => {
+      await request(`/api/expense-categories/${category.id}`, {
+        method: "PUT",
+        body: JSON.stringify({ isActive: !category.isActive }),
+      })
+    })
+  }
+
+  const handleDelete = (category: ExpenseCategory) => {
+    runAction(async () => {
+      const result = await request(`/api/expense-categories/${category.id}`, { method: "DELETE" })
+      if (result.deactivated) {
+        setError(`"${category.name}" is used on expenses, so it was deactivated instead`)
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="divide-y rounded-md border">
+        {categories.map((category) => (
+          <div key={category.id} className="flex items-center gap-3 p-3">
+            {editingId === category.id ? (
+              <>
+                <Input
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  className="flex-1"
+                  aria-label="Category name"
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  disabled={isSaving}
+                  onClick={() => handleSaveEdit(category.id)}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <div className={`flex-1 font-medium ${category.isActive ? "" : "text-gray-400"}`}>
+                  {category.name}
+                </div>
+                <Switch
+                  checked={category.isActive}
+                  onCheckedChange={() => handleToggle(category)}
+                  disabled={isSaving}
+                  aria-label={category.isActive ? "Deactivate category" : "Activate category"}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => {
+                    setEditingId(category.id)
+                    setEditName(category.name)
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-700"
+                  disabled={isSaving}
+                  onClick={() => handleDelete(category)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3 sm:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="newCategoryName">Category Name</Label>
+          <Input
+            id="newCategoryName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Transport"
+            maxLength={50}
+            required
+          />
+        </div>
+        <Button type="submit" disabled={isSaving}>
+          Add Category
+        </Button>
+      </form>
+    </div>
+  )
+}
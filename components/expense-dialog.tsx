@@ -0,0 +1,268 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { ExpenseCategory, ExpensePaymentMode } from "@/lib/expenses"
+import type { MoneyAccount } from "@/lib/money-accounts"
+
+const PAYMENT_MODE_LABELS: Record<ExpensePaymentMode, string> = {
+  cash: "Cash",
+  online: "Online / UPI",
+  card: "Card",
+  cheque: "Cheque",
+}
+
+interface ExpenseDialogProps {
+  token: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+export function ExpenseDialog({ token, open, onOpenChange, onSaved }: ExpenseDialogProps) {
+  const [categories, setCategories] = useState<ExpenseCategory[]>([])
+  const [categoryId, setCategoryId] = useState("")
+  const [accounts, setAccounts] = useState<MoneyAccount[]>([])
+  const [accountId, setAccountId] = useState("")
+  const [payee, setPayee] = useState("")
+  const [amount, setAmount] = useState("")
+  const [taxAmount, setTaxAmount] = useState("")
+  const [paymentMode, setPaymentMode] = useState<ExpensePaymentMode>("cash")
+  const [date, setDate] = useState("")
+  const [notes, setNotes] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setCategoryId("")
+    setPayee("")
+    setAmount("")
+    setTaxAmount("")
+    setPaymentMode("cash")
+    setDate(format(new Date(), "yyyy-MM-dd"))
+    setNotes("")
+    setError("")
+
+    fetch("/api/expense-categories?active=true", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load expense categories")
+        setCategories(data)
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load expense categories")
+      )
+
+    fetch("/api/money-accounts", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load accounts")
+        const active = (data as MoneyAccount[]).filter((account) => account.isActive)
+        setAccounts(active)
+        const cashAccount = active.find((account) => account.receives === "cash") ?? active[0]
+        setAccountId(cashAccount?.id.toString() ?? "")
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load accounts"))
+  }, [open, token])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amountValue = parseFloat(amount)
+    const taxValue = taxAmount ? parseFloat(taxAmount) : 0
+    const category = categories.find((c) => c.id.toString() === categoryId)
+
+    if (!category) return setError("Choose a category")
+    if (isNaN(amountValue) || amountValue <= 0) return setError("Enter an amount greater than zero")
+    if (isNaN(taxValue) || taxValue < 0 || taxValue > amountValue) {
+      return setError("Tax paid must be between zero and the amount")
+    }
+
+    setIsSaving(true)
+    setError("")
+    try {
+      const response = await fetch("/api/transactions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          particulars:
+            notes.trim() || `${category.name}${payee.trim() ? ` – ${payee.trim()}` : ""}`,
+          amount: Math.round(amountValue * 100) / 100,
+          type: "debit",
+          transactionDate: date,
+          categoryId: category.id,
+          payee: payee.trim() || null,
+          paymentMode,
+          taxAmount: Math.round(taxValue * 100) / 100,
+          moneyAccountId: accountId ? Number(accountId) : undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save expense")
+      onSaved()
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save expense")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Add expense</DialogTitle>
+            <DialogDescription>
+              Recorded as a debit from the chosen account.{" "}
+              <Link href="/profile" className="underline">
+                Manage categories
+              </Link>
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expensePayee">Payee</Label>
+              <Input
+                id="expensePayee"
+                value={payee}
+                maxLength={255}
+                onChange={(e) => setPayee(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expenseAmount">Amount (₹)</Label>
+              <Input
+                id="expenseAmount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expenseTax">Tax paid (₹, included in amount)</Label>
+              <Input
+                id="expenseTax"
+                type="number"
+                min="0"
+                step="0.01"
+                value={taxAmount}
+                onChange={(e) => setTaxAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Payment mode</Label>
+              <Select
+                value={paymentMode}
+                onValueChange={(value) => setPaymentMode(value as ExpensePaymentMode)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PAYMENT_MODE_LABELS) as ExpensePaymentMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {PAYMENT_MODE_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Paid from</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id.toString()}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expenseDate">Date</Label>
+              <Input
+                id="expenseDate"
+                type="date"
+                value={date}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="expenseNotes">Particulars (optional)</Label>
+            <Input
+              id="expenseNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Defaults to the category and payee"
+            />
+          </div>
+
+          {error && <div className="text-xs text-red-500">{error}</div>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-red-600 hover:bg-red-700" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Add Expense"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
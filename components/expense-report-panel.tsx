@@ -0,0 +1,216 @@
+"use client"
+
+import { Fragment, useEffect, useState } from "react"
+import { format, startOfMonth } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { ChevronDown, ChevronRight, Download } from "lucide-react"
+import type { ExpenseReport } from "@/lib/expenses"
+
+const getToken = () => {
+  const userJSON = localStorage.getItem("currentUser")
+  return userJSON ? JSON.parse(userJSON).token : null
+}
+
+export function ExpenseReportPanel() {
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"))
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [report, setReport] = useState<ExpenseReport | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setIsLoading(true)
+      setError("")
+      try {
+        const response = await fetch(`/api/reports/expenses?from=${from}&to=${to}`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to prepare expense report")
+        setReport(data)
+      } catch (err) {
+        setReport(null)
+        setError(err instanceof Error ? err.message : "Failed to prepare expense report")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (from && to) fetchReport()
+  }, [from, to])
+
+  const downloadCsv = async () => {
+    try {
+      const response = await fetch(`/api/reports/expenses?from=${from}&to=${to}&format=csv`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      })
+      if (!response.ok) throw new Error("Failed to export expense report")
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.setAttribute("download", `expenses_${from}_${to}.csv`)
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export expense report")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+        <div className="space-y-2">
+          <Label htmlFor="expenseFrom">From</Label>
+          <Input
+            id="expenseFrom"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="expenseTo">To</Label>
+          <Input
+            id="expenseTo"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <Button
+          onClick={downloadCsv}
+          disabled={!report || report.items.length === 0 || isLoading}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export to Excel
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="rounded-md border p-4 bg-gray-50">
+            <div className="text-sm text-gray-500">Total Spent</div>
+            <div className="text-xl font-bold text-red-600">₹{report.total.toFixed(2)}</div>
+          </div>
+          <div className="rounded-md border p-4">
+            <div className="text-sm text-gray-500">Tax Paid</div>
+            <div className="text-xl font-bold">₹{report.totalTax.toFixed(2)}</div>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-4 text-gray-500">Preparing expense report...</div>
+      ) : (
+        report &&
+        (report.items.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No expenses in this period</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Category</th>
+                  <th className="py-2 pr-4 font-medium text-right">Entries</th>
+                  <th className="py-2 pr-4 font-medium text-right">Tax Paid</th>
+                  <th className="py-2 pr-4 font-medium text-right">Share</th>
+                  <th className="py-2 font-medium text-right">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.categories.map((category) => {
+                  const key = category.categoryId?.toString() ?? "none"
+                  const isExpanded = expanded === key
+                  const share = report.total ? (category.amount / report.total) * 100 : 0
+                  return (
+                    <Fragment key={key}>
+                      <tr
+                        className="border-b cursor-pointer hover:bg-gray-50"
+                        onClick={() => setExpanded(isExpanded ? null : key)}
+                      >
+                        <td className="py-2 pr-4">
+                          <div className="flex items-center font-medium">
+                            {isExpanded ? (
+                              <ChevronDown className="mr-1 h-4 w-4 text-gray-400" />
+                            ) : (
+                              <ChevronRight className="mr-1 h-4 w-4 text-gray-400" />
+                            )}
+                            {category.name}
+                          </div>
+                        </td>
+                        <td className="py-2 pr-4 text-right">{category.count}</td>
+                        <td className="py-2 pr-4 text-right">₹{category.taxAmount.toFixed(2)}</td>
+                        <td className="py-2 pr-4 text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <div className="h-2 w-16 rounded bg-gray-100">
+                              <div
+                                className="h-2 rounded bg-red-400"
+                                style={{ width: `${share}%` }}
+                              />
+                            </div>
+                            {share.toFixed(1)}%
+                          </div>
+                        </td>
+                        <td className="py-2 text-right font-semibold">
+                          ₹{category.amount.toFixed(2)}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr className="border-b bg-gray-50">
+                          <td colSpan={5} className="px-6 py-3">
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-left text-gray-500">
+                                  <th className="py-1 pr-4 font-medium">Date</th>
+                                  <th className="py-1 pr-4 font-medium">Payee</th>
+                                  <th className="py-1 pr-4 font-medium">Particulars</th>
+                                  <th className="py-1 pr-4 font-medium">Mode</th>
+                                  <th className="py-1 font-medium text-right">Amount</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {report.items
+                                  .filter((item) => item.categoryId === category.categoryId)
+                                  .map((item) => (
+                                    <tr key={item.id}>
+                                      <td className="py-1 pr-4">{item.date}</td>
+                                      <td className="py-1 pr-4">{item.payee || "—"}</td>
+                                      <td className="py-1 pr-4">{item.particulars}</td>
+                                      <td className="py-1 pr-4 capitalize">
+                                        {item.paymentMode || "—"}
+                                      </td>
+                                      <td className="py-1 text-right">₹{item.amount.toFixed(2)}</td>
+                                    </tr>
+                                  ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,266 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle, Download } from "lucide-react"
+
+type Gstr1Section = "b2b" | "b2cl" | "b2cs" | "hsn"
+
+interface Gstr1Response {
+  month: string
+  gstr1: {
+    b2b: { ctin: string; inv: unknown[] }[]
+    b2cl: { pos: string; inv: unknown[] }[]
+    b2cs: unknown[]
+    nil: { inv: unknown[] }
+    hsn: { data: unknown[] }
+  }
+  warnings: string[]
+}
+
+interface GstLiability {
+  taxableValue: number
+  cgst: number
+  sgst: number
+  igst: number
+  totalTax: number
+}
+
+interface TaxRateRow {
+  rate: number
+  taxableValue: number
+  cgst: number
+  sgst: number
+  igst: number
+  tax: number
+}
+
+interface Gstr3bResponse {
+  outward: GstLiability & { rows: TaxRateRow[] }
+  nilRatedValue: number
+  creditNotes: GstLiability & { rows: TaxRateRow[] }
+  netPayable: GstLiability
+}
+
+const SECTION_LABELS: Record<Gstr1Section, string> = {
+  b2b: "B2B Invoices",
+  b2cl: "B2C Large",
+  b2cs: "B2C Small",
+  hsn: "HSN Summary",
+}
+
+const getToken = () => {
+  const userJSON = localStorage.getItem("currentUser")
+  return userJSON ? JSON.parse(userJSON).token : null
+}
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`
+
+const getMonthRange = (month: string) => {
+  const [year, monthNumber] = month.split("-").map(Number)
+  return {
+    from: `${month}-01`,
+    to: format(new Date(year, monthNumber, 0), "yyyy-MM-dd"),
+  }
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.setAttribute("download", filename)
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export function GstReturnsPanel() {
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"))
+  const [report, setReport] = useState<Gstr1Response | null>(null)
+  const [gstr3b, setGstr3b] = useState<Gstr3bResponse | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setIsLoading(true)
+      setError("")
+      try {
+        const headers = { Authorization: `Bearer ${getToken()}` }
+        const { from, to } = getMonthRange(month)
+        const [gstr1Response, gstr3bResponse] = await Promise.all([
+          fetch(`/api/reports/gstr1?month=${month}`, { headers }),
+          fetch(`/api/reports/gstr3b?from=${from}&to=${to}`, { headers }),
+        ])
+        const gstr1Data = await gstr1Response.json()
+        if (!gstr1Response.ok) throw new Error(gstr1Data.error || "Failed to prepare GSTR-1")
+        const gstr3bData = await gstr3bResponse.json()
+        if (!gstr3bResponse.ok) throw new Error(gstr3bData.error || "Failed to prepare GSTR-3B")
+        setReport(gstr1Data)
+        setGstr3b(gstr3bData)
+      } catch (err) {
+        setReport(null)
+        setGstr3b(null)
+        setError(err instanceof Error ? err.message : "Failed to prepare GST returns")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (month) fetchReport()
+  }, [month])
+
+  const downloadJson = () => {
+    if (!report) return
+    downloadBlob(
+      new Blob([JSON.stringify(report.gstr1, null, 2)], { type: "application/json" }),
+      `gstr1_${month}.json`
+    )
+  }
+
+  const downloadCsv = async (section: Gstr1Section) => {
+    try {
+      const response = await fetch(`/api/reports/gstr1?month=${month}&format=csv&section=${section}`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      })
+      if (!response.ok) throw new Error("Failed to download CSV")
+      downloadBlob(await response.blob(), `gstr1_${section}_${month}.csv`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to download CSV")
+    }
+  }
+
+  const sectionCounts: Record<Gstr1Section, number> = {
+    b2b: report?.gstr1.b2b.reduce((sum, party) => sum + party.inv.length, 0) ?? 0,
+    b2cl: report?.gstr1.b2cl.reduce((sum, place) => sum + place.inv.length, 0) ?? 0,
+    b2cs: report?.gstr1.b2cs.length ?? 0,
+    hsn: report?.gstr1.hsn.data.length ?? 0,
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+        <div className="space-y-2">
+          <Label htmlFor="gstr1Month">Return Period</Label>
+          <Input
+            id="gstr1Month"
+            type="month"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <Button onClick={downloadJson} disabled={!report || isLoading} className="bg-blue-600 hover:bg-blue-700">
+          <Download className="mr-2 h-4 w-4" />
+          Download GSTR-1 JSON
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {report && report.warnings.length > 0 && (
+        <Alert className="bg-yellow-50 text-yellow-800 border-yellow-200">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc list-inside space-y-1">
+              {report.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-4 text-gray-500">Preparing GST returns...</div>
+      ) : (
+        report && (
+          <div className="space-y-3">
+            <h3 className="font-semibold">GSTR-1</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-4">
+              {(Object.keys(SECTION_LABELS) as Gstr1Section[]).map((section) => (
+                <div key={section} className="rounded-md border p-4 space-y-2">
+                  <div className="text-sm text-gray-500">{SECTION_LABELS[section]}</div>
+                  <div className="text-2xl font-bold">{sectionCounts[section]}</div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => downloadCsv(section)}
+                    disabled={sectionCounts[section] === 0}
+                  >
+                    <Download className="mr-2 h-4 w-4" />
+                    CSV
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+
+      {!isLoading && gstr3b && (
+        <div className="space-y-3">
+          <h3 className="font-semibold">GSTR-3B Liability</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Particulars</th>
+                  <th className="py-2 pr-4 font-medium text-right">Taxable Value</th>
+                  <th className="py-2 pr-4 font-medium text-right">IGST</th>
+                  <th className="py-2 pr-4 font-medium text-right">CGST</th>
+                  <th className="py-2 pr-4 font-medium text-right">SGST</th>
+                  <th className="py-2 font-medium text-right">Total Tax</th>
+                </tr>
+              </thead>
+              <tbody>
+                {gstr3b.outward.rows.map((row) => (
+                  <tr key={`outward-${row.rate}`} className="border-b">
+                    <td className="py-2 pr-4">Outward supplies @ {row.rate}%</td>
+                    <td className="py-2 pr-4 text-right">{formatAmount(row.taxableValue)}</td>
+                    <td className="py-2 pr-4 text-right">{formatAmount(row.igst)}</td>
+                    <td className="py-2 pr-4 text-right">{formatAmount(row.cgst)}</td>
+                    <td className="py-2 pr-4 text-right">{formatAmount(row.sgst)}</td>
+                    <td className="py-2 text-right">{formatAmount(row.tax)}</td>
+                  </tr>
+                ))}
+                <tr className="border-b">
+                  <td className="py-2 pr-4">Nil rated supplies</td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(gstr3b.nilRatedValue)}</td>
+                  <td colSpan={4} />
+                </tr>
+                {gstr3b.creditNotes.rows.map((row) => (
+                  <tr key={`credit-${row.rate}`} className="border-b text-red-600">
+                    <td className="py-2 pr-4">Less: credit notes @ {row.rate}%</td>
+                    <td className="py-2 pr-4 text-right">-{formatAmount(row.taxableValue)}</td>
+                    <td className="py-2 pr-4 text-right">-{formatAmount(row.igst)}</td>
+                    <td className="py-2 pr-4 text-right">-{formatAmount(row.cgst)}</td>
+                    <td className="py-2 pr-4 text-right">-{formatAmount(row.sgst)}</td>
+                    <td className="py-2 text-right">-{formatAmount(row.tax)}</td>
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className="py-2 pr-4">Net tax payable</td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(gstr3b.netPayable.taxableValue)}</td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(gstr3b.netPayable.igst)}</td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(gstr3b.netPayable.cgst)}</td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(gstr3b.netPayable.sgst)}</td>
+                  <td className="py-2 text-right">{formatAmount(gstr3b.netPayable.totalTax)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
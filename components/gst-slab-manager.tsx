@@ -0,0 +1,215 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertCircle, Check, Pencil, Trash2, X } from "lucide-react"
+
+interface GstSlab {
+  id: number
+  slabName: string
+  percentage: number
+  isActive: boolean
+}
+
+interface GstSlabManagerProps {
+  token: string
+}
+
+export function GstSlabManager({ token }: GstSlabManagerProps) {
+  const [slabs, setSlabs] = useState<GstSlab[]>([])
+  const [slabName, setSlabName] = useState("")
+  const [percentage, setPercentage] = useState("")
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editName, setEditName] = useState("")
+  const [editPercentage, setEditPercentage] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || "Request failed")
+    return data
+  }
+
+  const fetchSlabs = async () => {
+    try {
+      setSlabs(await request("/api/gst-slabs"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load GST slabs")
+    }
+  }
+
+  useEffect(() => {
+    fetchSlabs()
+  }, [token])
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    setError("")
+    try {
+      await action()
+      await fetchSlabs()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save GST slab")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    runAction(async () => {
+      await request("/api/gst-slabs", {
+        method: "POST",
+        body: JSON.stringify({ slabName, percentage: parseFloat(percentage) }),
+      })
+      setSlabName("")
+      setPercentage("")
+    })
+  }
+
+  const handleSaveEdit = (id: number) => {
+    runAction(async () => {
+      await request(`/api/gst-slabs/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ slabName: editName, percentage: parseFloat(editPercentage) }),
+      })
+      setEditingId(null)
+    })
+  }
+
+  const handleToggle = (slab: GstSlab) => {
+    runAction(async () => {
+      await request(`/api/gst-slabs/${slab.id}`, {
+        method: "PUT",
+        body: JSON.stringify({ isActive: !slab.isActive }),
+      })
+    })
+  }
+
+  const handleDelete = (slab: GstSlab) => {
+    runAction(async () => {
+      const result = await request(`/api/gst-slabs/${slab.id}`, { method: "DELETE" })
+      if (result.deactivated) {
+        setError(`"${slab.slabName}" is used on receipts, so it was deactivated instead`)
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="divide-y rounded-md border">
+        {slabs.map((slab) => (
+          <div key={slab.id} className="flex items-center gap-3 p-3">
+            {editingId === slab.id ? (
+              <>
+                <Input
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  className="flex-1"
+                  aria-label="Slab name"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  max="28"
+                  step="0.01"
+                  value={editPercentage}
+                  onChange={(e) => setEditPercentage(e.target.value)}
+                  className="w-24"
+                  aria-label="Percentage"
+                />
+                <Button size="icon" variant="ghost" disabled={isSaving} onClick={() => handleSaveEdit(slab.id)}>
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <div className={`flex-1 ${slab.isActive ? "" : "text-gray-400"}`}>
+                  <div className="font-medium">{slab.slabName}</div>
+                  <div className="text-sm">{slab.percentage}%</div>
+                </div>
+                <Switch
+                  checked={slab.isActive}
+                  onCheckedChange={() => handleToggle(slab)}
+                  disabled={isSaving}
+                  aria-label={slab.isActive ? "Deactivate slab" : "Activate slab"}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => {
+                    setEditingId(slab.id)
+                    setEditName(slab.slabName)
+                    setEditPercentage(slab.percentage.toString())
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-700"
+                  disabled={isSaving}
+                  onClick={() => handleDelete(slab)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3 sm:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="newSlabName">Slab Name</Label>
+          <Input
+            id="newSlabName"
+            value={slabName}
+            onChange={(e) => setSlabName(e.target.value)}
+            placeholder="e.g. GST 3% (Gold)"
+            required
+          />
+        </div>
+        <div className="sm:w-32 space-y-2">
+          <Label htmlFor="newSlabPercentage">Percentage</Label>
+          <Input
+            id="newSlabPercentage"
+            type="number"
+            min="0"
+            max="28"
+            step="0.01"
+            value={percentage}
+            onChange={(e) => setPercentage(e.target.value)}
+            required
+          />
+        </div>
+        <Button type="submit" disabled={isSaving}>
+          Add Slab
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, Trash2 } from "lucide-react"
+import {
+  DEFAULT_INSTALLMENT_INTERVAL_DAYS,
+  InstallmentPlan,
+  InstallmentPlanType,
+  MAX_INSTALLMENTS,
+  ScheduledInstallment,
+  buildInstallmentSchedule,
+} from "@/lib/installments"
+import { roundCurrency } from "@/lib/receipt-totals"
+
+interface InstallmentPlanEditorProps {
+  plan: InstallmentPlan
+  onChange: (plan: InstallmentPlan) => void
+  dueTotal: number
+  firstDueDate: string
+  minDate?: string
+  error?: string
+}
+
+export function InstallmentPlanEditor({
+  plan,
+  onChange,
+  dueTotal,
+  firstDueDate,
+  minDate,
+  error,
+}: InstallmentPlanEditorProps) {
+  const schedule = buildInstallmentSchedule(plan, dueTotal, firstDueDate)
+  const scheduled = roundCurrency(schedule.reduce((sum, i) => sum + i.amount, 0))
+
+  const handleTypeChange = (type: InstallmentPlanType) => {
+    if (type === "custom") {
+      // Start from the current schedule so only the odd amount needs editing
+      const seed =
+        plan.type === "single"
+          ? buildInstallmentSchedule({ type: "monthly", count: 2 }, dueTotal, firstDueDate)
+          : schedule
+      onChange({ type, installments: seed })
+    } else if (type === "single") {
+      onChange({ type })
+    } else {
+      onChange({
+        type,
+        count: plan.count || 3,
+        intervalDays: type === "equal" ? plan.intervalDays || DEFAULT_INSTALLMENT_INTERVAL_DAYS : undefined,
+      })
+    }
+  }
+
+  const updateCustom = (index: number, field: keyof ScheduledInstallment, value: string) => {
+    const installments = [...(plan.installments || [])]
+    installments[index] = {
+      ...installments[index],
+      [field]: field === "amount" ? parseFloat(value) || 0 : value,
+    }
+    onChange({ ...plan, installments })
+  }
+
+  const addCustom = () => {
+    const installments = plan.installments || []
+    const last = installments[installments.length - 1]
+    onChange({
+      ...plan,
+      installments: [
+        ...installments,
+        { amount: Math.max(roundCurrency(dueTotal - scheduled), 0), dueDate: last?.dueDate || firstDueDate },
+      ],
+    })
+  }
+
+  const removeCustom = (index: number) => {
+    onChange({ ...plan, installments: (plan.installments || []).filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="installmentPlan">Installments</Label>
+          <Select value={plan.type} onValueChange={(value) => handleTypeChange(value as InstallmentPlanType)}>
+            <SelectTrigger id="installmentPlan">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="single">Single payment</SelectItem>
+              <SelectItem value="equal">Equal installments</SelectItem>
+              <SelectItem value="monthly">Monthly installments</SelectItem>
+              <SelectItem value="custom">Custom schedule</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {(plan.type === "equal" || plan.type === "monthly") && (
+          <div className="space-y-2">
+            <Label htmlFor="installmentCount">Number of installments</Label>
+            <Input
+              id="installmentCount"
+              type="number"
+              min={2}
+              max={MAX_INSTALLMENTS}
+              value={plan.count || ""}
+              onChange={(e) => onChange({ ...plan, count: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        )}
+
+        {plan.type === "equal" && (
+          <div className="space-y-2">
+            <Label htmlFor="installmentInterval">Days between installments</Label>
+            <Input
+              id="installmentInterval"
+              type="number"
+              min={1}
+              value={plan.intervalDays || ""}
+              onChange={(e) => onChange({ ...plan, intervalDays: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        )}
+      </div>
+
+      {plan.type === "custom" && (
+        <div className="space-y-2">
+          {(plan.installments || []).map((installment, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="w-6 text-sm text-gray-500">{index + 1}.</span>
+              <Input
+                type="number"
+                min={0.01}
+                step={0.01}
+                value={installment.amount || ""}
+                onChange={(e) => updateCustom(index, "amount", e.target.value)}
+                aria-label={`Installment ${index + 1} amount`}
+              />
+              <Input
+                type="date"
+                min={minDate}
+                value={installment.dueDate}
+                onChange={(e) => updateCustom(index, "dueDate", e.target.value)}
+                aria-label={`Installment ${index + 1} due date`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeCustom(index)}
+                disabled={(plan.installments || []).length <= 2}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addCustom}
+              disabled={(plan.installments || []).length >= MAX_INSTALLMENTS}
+            >
+              <Plus className="mr-1 h-4 w-4" /> Add installment
+            </Button>
+            <span className={`text-xs ${Math.abs(scheduled - dueTotal) > 0.01 ? "text-red-500" : "text-gray-500"}`}>
+              Scheduled ₹{scheduled.toFixed(2)} of ₹{dueTotal.toFixed(2)}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {(plan.type === "equal" || plan.type === "monthly") && schedule.length > 1 && (
+        <div className="rounded-md border text-sm">
+          {schedule.map((installment, index) => (
+            <div key={index} className="flex justify-between px-3 py-1.5 border-b last:border-b-0">
+              <span className="text-gray-600">
+                {index + 1}. {installment.dueDate}
+              </span>
+              <span className="font-medium">₹{installment.amount.toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <div className="text-xs text-red-500">{error}</div>}
+    </div>
+  )
+}
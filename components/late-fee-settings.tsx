@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AlertCircle } from "lucide-react"
+import type { LateFeeChargeType, LateFeeSettings as Settings } from "@/lib/late-fees"
+
+const CHARGE_TYPE_LABELS: Record<LateFeeChargeType, string> = {
+  none: "No late charges",
+  flat: "Flat late fee",
+  daily_interest: "Interest per day",
+  monthly_interest: "Interest per month",
+}
+
+interface LateFeeSettingsProps {
+  token: string
+}
+
+export function LateFeeSettings({ token }: LateFeeSettingsProps) {
+  const [chargeType, setChargeType] = useState<LateFeeChargeType>("none")
+  const [flatFee, setFlatFee] = useState("")
+  const [interestRate, setInterestRate] = useState("")
+  const [graceDays, setGraceDays] = useState("0")
+  const [error, setError] = useState("")
+  const [saved, setSaved] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const applySettings = (settings: Settings) => {
+    setChargeType(settings.chargeType)
+    setFlatFee(settings.flatFee ? settings.flatFee.toString() : "")
+    setInterestRate(settings.interestRate ? settings.interestRate.toString() : "")
+    setGraceDays(settings.graceDays.toString())
+  }
+
+  useEffect(() => {
+    fetch("/api/late-fees", { headers: { Authorization: `Bearer ${token}` } })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load late fee settings")
+        applySettings(data)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load late fee settings"))
+  }, [token])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError("")
+    setSaved(false)
+    try {
+      const response = await fetch("/api/late-fees", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          chargeType,
+          flatFee: parseFloat(flatFee) || 0,
+          interestRate: parseFloat(interestRate) || 0,
+          graceDays: parseInt(graceDays) || 0,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save late fee settings")
+      applySettings(data)
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save late fee settings")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const isInterest = chargeType === "daily_interest" || chargeType === "monthly_interest"
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <Label>Charge</Label>
+        <Select
+          value={chargeType}
+          onValueChange={(value) => {
+            setChargeType(value as LateFeeChargeType)
+            setSaved(false)
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CHARGE_TYPE_LABELS) as LateFeeChargeType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {CHARGE_TYPE_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {chargeType !== "none" && (
+          <p className="text-xs text-gray-500">
+            Charges are added by the server&apos;s late fee worker, which runs only when
+            LATE_FEE_WORKER=on is set.
+          </p>
+        )}
+      </div>
+
+      {chargeType === "flat" && (
+        <div className="space-y-2">
+          <Label htmlFor="lateFee">Late fee (₹, charged once per due)</Label>
+          <Input
+            id="lateFee"
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={flatFee}
+            onChange={(e) => setFlatFee(e.target.value)}
+            required
+          />
+        </div>
+      )}
+
+      {isInterest && (
+        <div className="space-y-2">
+          <Label htmlFor="interestRate">
+            Interest rate (% per {chargeType === "daily_interest" ? "day" : "month"})
+          </Label>
+          <Input
+            id="interestRate"
+            type="number"
+            min="0.001"
+            step="0.001"
+            value={interestRate}
+            onChange={(e) => setInterestRate(e.target.value)}
+            required
+          />
+          <p className="text-xs text-gray-500">
+            Simple interest on the unpaid amount, added daily
+            {chargeType === "monthly_interest" && " (monthly rate × 12 ÷ 365 per day)"}.
+          </p>
+        </div>
+      )}
+
+      {chargeType !== "none" && (
+        <div className="space-y-2">
+          <Label htmlFor="graceDays">Grace period (days after the due date)</Label>
+          <Input
+            id="graceDays"
+            type="number"
+            min="0"
+            max="365"
+            step="1"
+            value={graceDays}
+            onChange={(e) => setGraceDays(e.target.value)}
+          />
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+        {saved && <span className="text-sm text-green-600">Saved</span>}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,219 @@
+"use client"
+
+import { Fragment, useEffect, useState } from "react"
+import { format, startOfMonth } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Download } from "lucide-react"
+import type { JournalEntry, TrialBalance } from "@/lib/ledger"
+
+const getToken = () => {
+  const userJSON = localStorage.getItem("currentUser")
+  return userJSON ? JSON.parse(userJSON).token : null
+}
+
+const formatAmount = (amount: number) => (amount ? `₹${amount.toFixed(2)}` : "")
+
+export function LedgerPanel() {
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"))
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [trialBalance, setTrialBalance] = useState<TrialBalance | null>(null)
+  const [journal, setJournal] = useState<JournalEntry[]>([])
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    const fetchLedger = async () => {
+      setIsLoading(true)
+      setError("")
+      try {
+        const headers = { Authorization: `Bearer ${getToken()}` }
+        const trialResponse = await fetch(`/api/ledger/trial-balance?asOf=${to}`, { headers })
+        const trialData = await trialResponse.json()
+        if (!trialResponse.ok) throw new Error(trialData.error || "Failed to prepare trial balance")
+
+        const journalResponse = await fetch(`/api/ledger/journals?from=${from}&to=${to}`, {
+          headers,
+        })
+        const journalData = await journalResponse.json()
+        if (!journalResponse.ok) throw new Error(journalData.error || "Failed to load journal")
+
+        setTrialBalance(trialData)
+        setJournal(journalData)
+      } catch (err) {
+        setTrialBalance(null)
+        setJournal([])
+        setError(err instanceof Error ? err.message : "Failed to load ledger")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (from && to) fetchLedger()
+  }, [from, to])
+
+  const downloadCsv = async () => {
+    try {
+      const response = await fetch(`/api/ledger/trial-balance?asOf=${to}&format=csv`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      })
+      if (!response.ok) throw new Error("Failed to export trial balance")
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.setAttribute("download", `trial_balance_${to}.csv`)
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export trial balance")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+        <div className="space-y-2">
+          <Label htmlFor="ledgerFrom">Journal from</Label>
+          <Input
+            id="ledgerFrom"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="ledgerTo">To (trial balance as of)</Label>
+          <Input
+            id="ledgerTo"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <Button
+          onClick={downloadCsv}
+          disabled={!trialBalance || trialBalance.rows.length === 0 || isLoading}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export to Excel
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-4 text-gray-500">Preparing ledger...</div>
+      ) : (
+        trialBalance && (
+          <>
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-medium">Trial balance as of {trialBalance.asOf}</h3>
+                <span
+                  className={`px-2 text-xs font-semibold rounded-full ${
+                    trialBalance.balanced
+                      ? "bg-green-100 text-green-800"
+                      : "bg-red-100 text-red-800"
+                  }`}
+                >
+                  {trialBalance.balanced ? "Balanced" : "Out of balance"}
+                </span>
+              </div>
+              {trialBalance.rows.length === 0 ? (
+                <div className="text-center py-4 text-gray-500">Nothing posted yet</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Code</th>
+                        <th className="py-2 pr-4 font-medium">Account</th>
+                        <th className="py-2 pr-4 font-medium">Type</th>
+                        <th className="py-2 pr-4 font-medium text-right">Debit</th>
+                        <th className="py-2 font-medium text-right">Credit</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {trialBalance.rows.map((row) => (
+                        <tr key={row.accountId} className="border-b">
+                          <td className="py-2 pr-4 text-gray-500">{row.code}</td>
+                          <td className="py-2 pr-4">{row.name}</td>
+                          <td className="py-2 pr-4 capitalize text-gray-500">{row.type}</td>
+                          <td className="py-2 pr-4 text-right">{formatAmount(row.debit)}</td>
+                          <td className="py-2 text-right">{formatAmount(row.credit)}</td>
+                        </tr>
+                      ))}
+                      <tr className="font-semibold">
+                        <td className="py-2 pr-4" colSpan={3}>
+                          Total
+                        </td>
+                        <td className="py-2 pr-4 text-right">
+                          ₹{trialBalance.totalDebit.toFixed(2)}
+                        </td>
+                        <td className="py-2 text-right">₹{trialBalance.totalCredit.toFixed(2)}</td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-medium mb-2">Journal</h3>
+              {journal.length === 0 ? (
+                <div className="text-center py-4 text-gray-500">No entries in this period</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Date</th>
+                        <th className="py-2 pr-4 font-medium">Account</th>
+                        <th className="py-2 pr-4 font-medium text-right">Debit</th>
+                        <th className="py-2 font-medium text-right">Credit</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {journal.map((entry) => (
+                        <Fragment key={entry.id}>
+                          <tr className="border-t bg-gray-50">
+                            <td className="py-2 pr-4 text-gray-500">{entry.date}</td>
+                            <td className="py-2 text-gray-700" colSpan={3}>
+                              {entry.narration}
+                            </td>
+                          </tr>
+                          {entry.lines.map((line, index) => (
+                            <tr key={`${entry.id}-${index}`}>
+                              <td />
+                              <td className={`py-1 pr-4 ${line.credit ? "pl-6" : ""}`}>
+                                <span className="text-gray-400 mr-2">{line.code}</span>
+                                {line.account}
+                              </td>
+                              <td className="py-1 pr-4 text-right">{formatAmount(line.debit)}</td>
+                              <td className="py-1 text-right">{formatAmount(line.credit)}</td>
+                            </tr>
+                          ))}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )
+      )}
+    </div>
+  )
+}
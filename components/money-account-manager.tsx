@@ -0,0 +1,240 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AlertCircle, Check, Pencil, Trash2, X } from "lucide-react"
+import type { MoneyAccount, MoneyAccountKind, PaymentChannel } from "@/lib/money-accounts"
+
+const KIND_LABELS: Record<MoneyAccountKind, string> = {
+  cash: "Cash",
+  bank: "Bank",
+  wallet: "Wallet",
+}
+
+const RECEIVES_OPTIONS: { value: PaymentChannel | "none"; label: string }[] = [
+  { value: "none", label: "No payments" },
+  { value: "cash", label: "Cash payments" },
+  { value: "online", label: "Online payments" },
+]
+
+interface MoneyAccountManagerProps {
+  token: string
+}
+
+export function MoneyAccountManager({ token }: MoneyAccountManagerProps) {
+  const [accounts, setAccounts] = useState<MoneyAccount[]>([])
+  const [name, setName] = useState("")
+  const [kind, setKind] = useState<MoneyAccountKind>("bank")
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [editName, setEditName] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || "Request failed")
+    return data
+  }
+
+  const fetchAccounts = async () => {
+    try {
+      setAccounts(await request("/api/money-accounts"))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load accounts")
+    }
+  }
+
+  useEffect(() => {
+    fetchAccounts()
+  }, [token])
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    setError("")
+    try {
+      await action()
+      await fetchAccounts()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save account")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const update = (id: number, body: Record<string, unknown>) =>
+    request(`/api/money-accounts/${id}`, { method: "PUT", body: JSON.stringify(body) })
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    runAction(async () => {
+      await request("/api/money-accounts", {
+        method: "POST",
+        body: JSON.stringify({ name, kind }),
+      })
+      setName("")
+    })
+  }
+
+  const handleSaveEdit = (id: number) => {
+    runAction(async () => {
+      await update(id, { name: editName })
+      setEditingId(null)
+    })
+  }
+
+  const handleDelete = (account: MoneyAccount) => {
+    runAction(async () => {
+      const result = await request(`/api/money-accounts/${account.id}`, { method: "DELETE" })
+      if (result.deactivated) {
+        setError(`"${account.name}" has entries, so it was deactivated instead`)
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="divide-y rounded-md border">
+        {accounts.map((account) => (
+          <div key={account.id} className="flex flex-wrap items-center gap-3 p-3">
+            {editingId === account.id ? (
+              <>
+                <Input
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  className="flex-1"
+                  aria-label="Account name"
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  disabled={isSaving}
+                  onClick={() => handleSaveEdit(account.id)}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            ) : (
+              <>
+                <div className={`flex-1 ${account.isActive ? "" : "text-gray-400"}`}>
+                  <div className="font-medium">{account.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {KIND_LABELS[account.kind]} · ₹{account.balance.toFixed(2)}
+                  </div>
+                </div>
+                <Select
+                  value={account.receives ?? "none"}
+                  onValueChange={(value) =>
+                    runAction(async () => {
+                      await update(account.id, { receives: value === "none" ? null : value })
+                    })
+                  }
+                  disabled={isSaving || !account.isActive}
+                >
+                  <SelectTrigger className="w-40" aria-label="Receives">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECEIVES_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Switch
+                  checked={account.isActive}
+                  onCheckedChange={() =>
+                    runAction(async () => {
+                      await update(account.id, { isActive: !account.isActive })
+                    })
+                  }
+                  disabled={isSaving}
+                  aria-label={account.isActive ? "Deactivate account" : "Activate account"}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => {
+                    setEditingId(account.id)
+                    setEditName(account.name)
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-700"
+                  disabled={isSaving}
+                  onClick={() => handleDelete(account)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3 sm:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="newAccountName">Account Name</Label>
+          <Input
+            id="newAccountName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. HDFC Current"
+            maxLength={50}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Kind</Label>
+          <Select value={kind} onValueChange={(value) => setKind(value as MoneyAccountKind)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(KIND_LABELS) as MoneyAccountKind[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {KIND_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={isSaving}>
+          Add Account
+        </Button>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Bell, Check, Circle, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useLiveEvents } from "@/hooks/use-live-events"
+import type { AppNotification, NotificationType } from "@/lib/notifications"
+
+const TYPE_STYLES: Record<NotificationType, string> = {
+  overdue: "text-red-500",
+  payment: "text-green-600",
+  gst: "text-blue-600",
+  system: "text-gray-500",
+}
+
+const getToken = () => {
+  const userJSON = localStorage.getItem("currentUser")
+  return userJSON ? JSON.parse(userJSON)?.token : null
+}
+
+const formatTime = (value: string) => {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? "" : date.toLocaleString()
+}
+
+export function NotificationBell() {
+  const router = useRouter()
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [isOpen, setIsOpen] = useState(false)
+  const panelRef = useRef<HTMLDivElement | null>(null)
+
+  const fetchNotifications = useCallback(async () => {
+    const token = getToken()
+    if (!token) return
+    try {
+      const response = await fetch("/api/notifications", {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (!response.ok) throw new Error("Failed to fetch notifications")
+      const data = await response.json()
+      setNotifications(data.notifications)
+      setUnreadCount(data.unreadCount)
+    } catch (error) {
+      console.error("Error fetching notifications:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchNotifications()
+  }, [fetchNotifications])
+
+  useLiveEvents(() => {
+    fetchNotifications()
+  })
+
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) document.addEventListener("mousedown", handleClickOutside)
+    return () => document.removeEventListener("mousedown", handleClickOutside)
+  }, [isOpen])
+
+  // Update the list straight away and let the server catch up
+  const send = (url: string, method: "PATCH" | "DELETE", body?: object) =>
+    fetch(url, {
+      method,
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${getToken()}` },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to update notification")
+      })
+      .catch((error) => {
+        console.error(error)
+        fetchNotifications()
+      })
+
+  const setRead = (notification: AppNotification, isRead: boolean) => {
+    if (notification.isRead === isRead) return
+    setNotifications((current) =>
+      current.map((n) => (n.id === notification.id ? { ...n, isRead } : n))
+    )
+    setUnreadCount((count) => Math.max(count + (isRead ? -1 : 1), 0))
+    send(`/api/notifications/${notification.id}`, "PATCH", { isRead })
+  }
+
+  const dismiss = (notification: AppNotification) => {
+    setNotifications((current) => current.filter((n) => n.id !== notification.id))
+    if (!notification.isRead) setUnreadCount((count) => Math.max(count - 1, 0))
+    send(`/api/notifications/${notification.id}`, "DELETE")
+  }
+
+  const markAllRead = () => {
+    setNotifications((current) => current.map((n) => ({ ...n, isRead: true })))
+    setUnreadCount(0)
+    send("/api/notifications", "PATCH", { isRead: true })
+  }
+
+  const open = (notification: AppNotification) => {
+    setRead(notification, true)
+    setIsOpen(false)
+    if (notification.link) router.push(notification.link)
+  }
+
+  return (
+    <div ref={panelRef} className="relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="relative text-white hover:bg-gray-800"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-[10px] leading-4 text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg overflow-hidden z-20">
+          <div className="py-2 px-3 bg-gray-100 border-b flex items-center justify-between">
+            <h3 className="text-sm font-medium text-gray-800">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={markAllRead}
+                className="text-xs font-medium text-blue-600 hover:text-blue-500"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-80 overflow-y-auto">
+            {notifications.length > 0 ? (
+              notifications.map((notification) => (
+                <div
+                  key={notification.id}
+                  className={`flex items-start gap-2 px-3 py-3 border-b hover:bg-gray-50 ${
+                    notification.isRead ? "" : "bg-blue-50/50"
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => open(notification)}
+                    className="flex-1 text-left"
+                  >
+                    <p
+                      className={`text-sm text-gray-900 ${notification.isRead ? "" : "font-semibold"}`}
+                    >
+                      {notification.title}
+                    </p>
+                    <p className={`text-xs ${TYPE_STYLES[notification.type]}`}>
+                      {notification.message}
+                    </p>
+                    <p className="text-[11px] text-gray-400">{formatTime(notification.createdAt)}</p>
+                  </button>
+                  <div className="flex flex-col gap-1">
+                    <button
+                      type="button"
+                      onClick={() => setRead(notification, !notification.isRead)}
+                      className="text-gray-400 hover:text-gray-700"
+                      title={notification.isRead ? "Mark as unread" : "Mark as read"}
+                    >
+                      {notification.isRead ? (
+                        <Circle className="h-3.5 w-3.5" />
+                      ) : (
+                        <Check className="h-3.5 w-3.5" />
+                      )}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => dismiss(notification)}
+                      className="text-gray-400 hover:text-gray-700"
+                      title="Dismiss"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <div className="px-4 py-6 text-center text-sm text-gray-500">
+                You&apos;re all caught up
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
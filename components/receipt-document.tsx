@@ -0,0 +1,587 @@
+"use client";
+
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import {
+  DiscountType,
+  getDiscountAmount,
+  TaxBreakupRow,
+} from "@/lib/receipt-totals";
+import { getStateName } from "@/lib/gst-states";
+
+export interface ReceiptItem {
+  id?: number;
+  description: string;
+  hsnCode?: string | null;
+  quantity: number;
+  price: number;
+  advanceAmount?: number;
+  dueAmount?: number;
+  discount?: number;
+  discountType?: DiscountType;
+  gstRate?: number | null;
+  returnedQuantity?: number;
+}
+
+export interface CreditNoteSummary {
+  id: number;
+  creditNoteNumber: string;
+  date: string;
+  total: number;
+}
+
+export interface ReceiptInstallment {
+  installmentNumber: number;
+  amount: number;
+  amountPaid: number;
+  dueDate: string;
+  isPaid: boolean;
+}
+
+export interface ReceiptData {
+  receiptNumber: string;
+  date: string;
+  customerName: string;
+  customerContact: string;
+  customerCountryCode?: string;
+  customerGstNumber?: string | null;
+  paymentType: string;
+  paymentStatus: string;
+  notes: string;
+  items: ReceiptItem[];
+  total: number;
+  dueTotal?: number;
+  createdAt: string;
+  updatedAt?: string;
+  receiptId?: string | number;
+  paymentDetails?: {
+    phoneNumber?: string;
+  };
+  storeInfo?: {
+    name: string;
+    address: string;
+    contact: string;
+    countryCode?: string;
+    gstNumber?: string;
+  };
+  totalTax: number;
+  status?: "active" | "void";
+  revisionNumber?: number;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  creditNotes?: CreditNoteSummary[];
+  installments?: ReceiptInstallment[];
+  discount?: number;
+  discountType?: DiscountType;
+  discountAmount?: number;
+  taxBreakup?: TaxBreakupRow[];
+  placeOfSupply?: string | null;
+  interState?: boolean;
+  invoiceType?: "tax_invoice" | "bill_of_supply";
+}
+
+interface ReceiptDocumentProps {
+  receiptData: ReceiptData;
+  // An older version is on screen, watermarked as superseded
+  isSuperseded?: boolean;
+  creditNotes?: CreditNoteSummary[];
+  // Credit note pages are only reachable by the receipt's owner
+  linkCreditNotes?: boolean;
+}
+
+/**
+ * The printable receipt, shared by the owner's receipt page and the
+ * customer's public share page.
+ */
+export function ReceiptDocument({
+  receiptData,
+  isSuperseded = false,
+  creditNotes,
+  linkCreditNotes = false,
+}: ReceiptDocumentProps) {
+  const ensureNumber = (value: any): number => {
+    if (value === undefined || value === null) return 0;
+    const num = Number(value);
+    return isNaN(num) ? 0 : num;
+  };
+
+  const formatDate = (dateString: string) => {
+    if (!dateString) return "N/A";
+    
+    try {
+      const date = new Date(dateString);
+      if (isNaN(date.getTime())) {
+        return "Invalid Date";
+      }
+      return date.toLocaleDateString();
+    } catch (error) {
+      return "Invalid Date";
+    }
+  };
+
+  const formatDateTime = (dateString: string) => {
+    if (!dateString) return "N/A";
+    return dateString; // Return the exact database timestamp
+  };
+
+  const calculateSubtotal = () => {
+    if (!receiptData) return 0;
+    return receiptData.items.reduce((total, item) => {
+      return total + ensureNumber(item.quantity) * ensureNumber(item.price);
+    }, 0);
+  };
+
+  const calculateLineDiscount = (item: ReceiptItem) =>
+    getDiscountAmount(
+      ensureNumber(item.quantity) * ensureNumber(item.price),
+      item.discount,
+      item.discountType
+    );
+
+  const calculateLineAmount = (item: ReceiptItem) =>
+    ensureNumber(item.quantity) * ensureNumber(item.price) - calculateLineDiscount(item);
+
+  const calculateTotalDiscount = () => {
+    if (!receiptData) return 0;
+    const lineDiscounts = receiptData.items.reduce(
+      (total, item) => total + calculateLineDiscount(item),
+      0
+    );
+    return lineDiscounts + ensureNumber(receiptData.discountAmount);
+  };
+
+  const calculateTaxableValue = () => {
+    return calculateSubtotal() - calculateTotalDiscount();
+  };
+
+  const calculateTotalGST = () => {
+    if (!receiptData) return 0;
+    return ensureNumber(receiptData.totalTax);
+  };
+
+  const calculateTotalAmount = () => {
+    return calculateTaxableValue() + calculateTotalGST();
+  };
+
+  const hasLineDiscounts = () =>
+    !!receiptData?.items.some((item) => calculateLineDiscount(item) > 0);
+
+  const hasHsnCodes = () => !!receiptData?.items.some((item) => item.hsnCode);
+
+  const getDocumentTitle = () => {
+    // Snapshots taken before invoice types existed stay plain receipts
+    if (receiptData?.invoiceType === "tax_invoice") return "TAX INVOICE";
+    if (receiptData?.invoiceType === "bill_of_supply") return "BILL OF SUPPLY";
+    return "RECEIPT";
+  };
+
+  const calculateTotalAdvanceAmount = () => {
+    if (!receiptData) return 0;
+    return receiptData.items.reduce((total, item) => {
+      return total + ensureNumber(item.advanceAmount);
+    }, 0);
+  };
+
+  const calculateAverageGSTRate = () => {
+    if (!receiptData || calculateTaxableValue() === 0) return 0;
+    const taxableValue = calculateTaxableValue();
+    const totalTax = calculateTotalGST();
+    return ensureNumber((totalTax / taxableValue) * 100);
+  };
+
+  return (
+    <Card
+      className="relative overflow-hidden p-8 shadow-lg print:shadow-none print:p-4 print:border-none"
+      id="receipt-content"
+    >
+      {(receiptData.status === "void" ||
+        (receiptData.revisionNumber ?? 1) > 1 ||
+        isSuperseded) && (
+        <div
+          className="pointer-events-none absolute inset-0 flex items-center justify-center"
+          aria-hidden="true"
+        >
+          <span
+            className={`select-none text-8xl font-extrabold uppercase tracking-widest opacity-10 ${
+              receiptData.status === "void" ? "text-red-600" : "text-gray-600"
+            }`}
+            style={{ transform: "rotate(-30deg)" }}
+          >
+            {receiptData.status === "void"
+              ? "Void"
+              : isSuperseded
+              ? "Superseded"
+              : "Revised"}
+          </span>
+        </div>
+      )}
+      <div className="receipt-header text-center mb-8">
+        {receiptData.storeInfo?.name && (
+          <h1 className="text-2xl font-bold mb-1 print:text-xl">
+            {receiptData.storeInfo.name}
+          </h1>
+        )}
+        {receiptData.storeInfo?.address && (
+          <p className="text-gray-600 text-sm mb-1">
+            {receiptData.storeInfo.address}
+          </p>
+        )}
+        {receiptData.storeInfo?.gstNumber && (
+          <p className="text-gray-600 text-sm mb-1">
+            GST NUMBER: {receiptData.storeInfo.gstNumber}
+          </p>
+        )}
+        {receiptData.storeInfo?.contact && (
+          <p className="text-gray-600 text-sm mb-3">
+            Contact: {receiptData.storeInfo.countryCode || "+91"}{" "}
+            {receiptData.storeInfo.contact}
+          </p>
+        )}
+        <h2 className="text-xl font-bold mt-4 print:text-lg">{getDocumentTitle()}</h2>
+        <p className="text-gray-500">#{receiptData.receiptNumber}</p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 mb-8 print:grid-cols-2">
+        <div>
+          <h2 className="text-lg font-semibold mb-2">Receipt Details</h2>
+          <div className="space-y-1">
+            <div>
+              <span className="font-medium">Date: </span>
+              {formatDate(receiptData.date)}
+            </div>
+            {(receiptData.paymentStatus === "full" ||
+              receiptData.paymentStatus === "advance") && (
+              <div>
+                <span className="font-medium">Payment Method: </span>
+                {receiptData.paymentType === "mobile"
+                  ? "Online"
+                  : receiptData.paymentType.charAt(0).toUpperCase() +
+                    receiptData.paymentType.slice(1)}
+              </div>
+            )}
+            <div>
+              <span className="font-medium">Payment Status: </span>
+              {receiptData.paymentStatus === "full"
+                ? "Full Payment"
+                : receiptData.paymentStatus === "advance"
+                ? "Advance Payment"
+                : receiptData.paymentStatus === "due" && receiptData.dueTotal === 0
+                ? (
+                    <span className="px-2 py-1 rounded-full bg-green-100 text-green-800 font-semibold text-xs ml-1">Due Paid</span>
+                  )
+                : "Due Payment"}
+            </div>
+            {receiptData.paymentDetails?.phoneNumber &&
+              receiptData.paymentStatus !== "due" && (
+              <div>
+                <span className="font-medium">Phone Number: </span>
+                XXXXXXX{receiptData.paymentDetails.phoneNumber.slice(-3)}
+              </div>
+            )}
+          </div>
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold mb-2">Customer Details</h2>
+          <div className="space-y-1">
+            <div>
+              <span className="font-medium">Name: </span>
+              {receiptData.customerName}
+            </div>
+            {receiptData.customerContact && (
+              <div>
+                <span className="font-medium">Contact: </span>
+                {receiptData.customerContact}
+              </div>
+            )}
+            {receiptData.customerGstNumber && (
+              <div>
+                <span className="font-medium">GSTIN: </span>
+                {receiptData.customerGstNumber}
+              </div>
+            )}
+            {receiptData.placeOfSupply && (
+              <div>
+                <span className="font-medium">Place of Supply: </span>
+                {receiptData.placeOfSupply} - {getStateName(receiptData.placeOfSupply)}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="mb-8 overflow-x-auto print:overflow-visible">
+        <h2 className="text-lg font-semibold mb-4 print:text-base">Items</h2>
+        <table className="w-full print:text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-2">Description</th>
+              {hasHsnCodes() && <th className="text-left py-2">HSN/SAC</th>}
+              <th className="text-right py-2">Qty</th>
+              <th className="text-right py-2">Rate</th>
+              {hasLineDiscounts() && (
+                <th className="text-right py-2">Discount</th>
+              )}
+              <th className="text-right py-2">Amount</th>
+              {receiptData.paymentStatus === "advance" && (
+                <>
+                  <th className="text-right py-2">Advance</th>
+                  <th className="text-right py-2">Balance Due</th>
+                </>
+              )}
+              {receiptData.paymentStatus === "due" && (
+                <>
+                  <th className="text-right py-2">Paid Already</th>
+                  <th className="text-right py-2">Balance Due</th>
+                </>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {receiptData.items.map((item, index) => (
+              <tr key={index} className="border-b">
+                <td className="py-2 max-w-[150px] md:max-w-none">
+                  {item.description}
+                </td>
+                {hasHsnCodes() && <td className="py-2">{item.hsnCode || "-"}</td>}
+                <td className="text-right py-2">{item.quantity}</td>
+                <td className="text-right py-2">
+                  ₹{ensureNumber(item.price).toFixed(2)}
+                </td>
+                {hasLineDiscounts() && (
+                  <td className="text-right py-2">
+                    {calculateLineDiscount(item) > 0
+                      ? item.discountType === "percentage"
+                        ? `${ensureNumber(item.discount)}%`
+                        : `₹${calculateLineDiscount(item).toFixed(2)}`
+                      : "-"}
+                  </td>
+                )}
+                <td className="text-right py-2">
+                  ₹{calculateLineAmount(item).toFixed(2)}
+                </td>
+                {receiptData.paymentStatus === "advance" && (
+                  <>
+                    <td className="text-right py-2">
+                      ₹{ensureNumber(item.advanceAmount).toFixed(2)}
+                    </td>
+                    <td className="text-right py-2 font-medium">
+                      ₹
+                      {(
+                        calculateLineAmount(item) -
+                        ensureNumber(item.advanceAmount)
+                      ).toFixed(2)}
+                    </td>
+                  </>
+                )}
+                {receiptData.paymentStatus === "due" && (
+                  <>
+                    <td className="text-right py-2">
+                      ₹
+                      {(
+                        calculateLineAmount(item) -
+                        ensureNumber(item.dueAmount)
+                      ).toFixed(2)}
+                    </td>
+                    <td className="text-right py-2 font-medium">
+                      ₹{ensureNumber(item.dueAmount).toFixed(2)}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="mt-4 text-right space-y-1">
+          <div className="text-base">
+            Subtotal: ₹{calculateSubtotal().toFixed(2)}
+          </div>
+          {hasLineDiscounts() && (
+            <div className="text-base">
+              Item Discounts: -₹
+              {(calculateTotalDiscount() - ensureNumber(receiptData.discountAmount)).toFixed(2)}
+            </div>
+          )}
+          {ensureNumber(receiptData.discountAmount) > 0 && (
+            <div className="text-base">
+              Discount
+              {receiptData.discountType === "percentage"
+                ? ` (${ensureNumber(receiptData.discount)}%)`
+                : ""}
+              : -₹{ensureNumber(receiptData.discountAmount).toFixed(2)}
+            </div>
+          )}
+          {receiptData.taxBreakup && receiptData.taxBreakup.length > 0 ? (
+            // Older revision snapshots predate the breakup or the CGST/SGST/IGST split
+            receiptData.taxBreakup.map((row) =>
+              row.cgst === undefined ? (
+                <div key={row.rate} className="text-base">
+                  GST @ {ensureNumber(row.rate)}% on ₹{ensureNumber(row.taxableValue).toFixed(2)}: ₹
+                  {ensureNumber(row.tax).toFixed(2)}
+                </div>
+              ) : receiptData.interState ? (
+                <div key={row.rate} className="text-base">
+                  IGST @ {ensureNumber(row.rate)}% on ₹{ensureNumber(row.taxableValue).toFixed(2)}: ₹
+                  {ensureNumber(row.igst).toFixed(2)}
+                </div>
+              ) : (
+                <div key={row.rate}>
+                  <div className="text-base">
+                    CGST @ {ensureNumber(row.rate) / 2}% on ₹{ensureNumber(row.taxableValue).toFixed(2)}: ₹
+                    {ensureNumber(row.cgst).toFixed(2)}
+                  </div>
+                  <div className="text-base">
+                    SGST @ {ensureNumber(row.rate) / 2}% on ₹{ensureNumber(row.taxableValue).toFixed(2)}: ₹
+                    {ensureNumber(row.sgst).toFixed(2)}
+                  </div>
+                </div>
+              )
+            )
+          ) : (
+            <div className="text-base">
+              GST @ {calculateAverageGSTRate().toFixed(2)}%: ₹{calculateTotalGST().toFixed(2)}
+            </div>
+          )}
+          
+          {receiptData.paymentStatus === "full" && (
+            <div className="text-lg font-bold print:text-base mt-2">
+              Total: ₹{calculateTotalAmount().toFixed(2)}
+            </div>
+          )}
+
+          {receiptData.paymentStatus === "advance" && (
+            <>
+              <div className="text-lg font-bold print:text-base mt-2">
+                Total Amount: ₹{calculateTotalAmount().toFixed(2)}
+              </div>
+              <div className="text-base">
+                Advance Paid: ₹{calculateTotalAdvanceAmount().toFixed(2)}
+              </div>
+              <div className="text-base font-bold text-red-500 mt-1 print:text-black">
+                Balance Due: ₹{(calculateTotalAmount() - calculateTotalAdvanceAmount()).toFixed(2)}
+              </div>
+            </>
+          )}
+
+          {receiptData.paymentStatus === "due" && (
+            <>
+              <div className="text-lg font-bold print:text-base mt-2">
+                Total Amount: ₹{calculateTotalAmount().toFixed(2)}
+              </div>
+              <div className="text-base">
+                Already Paid: ₹
+                {(
+                  (calculateTotalAmount()) -
+                  ensureNumber(receiptData.dueTotal)
+                ).toFixed(2)}
+              </div>
+              <div className="text-base font-bold text-red-500 mt-1 print:text-black">
+                Balance Due: ₹{ensureNumber(receiptData.dueTotal).toFixed(2)}
+              </div>
+            </>
+          )}
+
+          {calculateTotalDiscount() > 0 && (
+            <div className="text-base font-semibold text-green-700 mt-2 print:text-black">
+              You saved ₹{calculateTotalDiscount().toFixed(2)} on this purchase
+            </div>
+          )}
+        </div>
+      </div>
+
+      {receiptData.notes && (
+        <div className="mt-8 border-t pt-4">
+          <h2 className="text-lg font-semibold mb-2">Notes</h2>
+          <p className="text-gray-700">{receiptData.notes}</p>
+        </div>
+      )}
+
+      {(receiptData.paymentStatus === "advance" ||
+        receiptData.paymentStatus === "due") &&
+        receiptData.dueTotal &&
+        receiptData.dueTotal > 0 && (
+          <div className="mt-4 p-3 border border-red-200 bg-red-50 rounded-md print:border-black print:bg-white">
+            <p className="text-red-700 font-medium print:text-black">
+              Due Payment Notice
+            </p>
+            <p className="text-sm text-red-600 print:text-black">
+              A balance of ₹{(receiptData.paymentStatus === "advance" 
+                ? (calculateTotalAmount() - calculateTotalAdvanceAmount()).toFixed(2)
+                : ensureNumber(receiptData.dueTotal).toFixed(2))} is
+              due for this transaction. Please ensure timely payment to avoid
+              any inconvenience.
+            </p>
+            {receiptData.installments && receiptData.installments.length > 1 && (
+              <>
+                <p className="text-red-700 font-medium mt-2 print:text-black">
+                  Installment schedule
+                </p>
+                <ul className="text-sm text-red-600 print:text-black mt-1 space-y-1">
+                  {receiptData.installments.map((installment) => (
+                    <li key={installment.installmentNumber} className="flex justify-between">
+                      <span>
+                        {installment.installmentNumber}. {formatDate(installment.dueDate)}
+                        {installment.isPaid && " (paid)"}
+                      </span>
+                      <span>₹{ensureNumber(installment.amount).toFixed(2)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+      {creditNotes && creditNotes.length > 0 && (
+          <div className="mt-4 p-3 border border-amber-200 bg-amber-50 rounded-md print:border-black print:bg-white">
+            <p className="text-amber-800 font-medium print:text-black">
+              Credit notes issued against this receipt
+            </p>
+            <ul className="text-sm text-amber-700 print:text-black mt-1 space-y-1">
+              {creditNotes.map((creditNote) => (
+                <li key={creditNote.id} className="flex justify-between">
+                  {linkCreditNotes ? (
+                    <Link
+                      href={`/credit-notes/${creditNote.id}`}
+                      className="underline print:no-underline"
+                    >
+                      {creditNote.creditNoteNumber} · {formatDate(creditNote.date)}
+                    </Link>
+                  ) : (
+                    <span>
+                      {creditNote.creditNoteNumber} · {formatDate(creditNote.date)}
+                    </span>
+                  )}
+                  <span>-₹{ensureNumber(creditNote.total).toFixed(2)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+      {receiptData.status === "void" && (
+        <div className="mt-4 p-3 border border-red-200 bg-red-50 rounded-md print:border-black print:bg-white">
+          <p className="text-red-700 font-medium print:text-black">
+            This receipt has been voided
+          </p>
+          {receiptData.voidReason && (
+            <p className="text-sm text-red-600 print:text-black">
+              Reason: {receiptData.voidReason}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="mt-12 text-center text-gray-500 text-sm">
+        <p>Created at: {formatDateTime(receiptData.createdAt)}</p>
+        {(receiptData.revisionNumber ?? 1) > 1 && receiptData.updatedAt && (
+          <p>
+            Revision {receiptData.revisionNumber} updated at:{" "}
+            {formatDateTime(receiptData.updatedAt)}
+          </p>
+        )}
+        <p>Thank you for your business!</p>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Check, Copy, MessageCircle, MessageSquare, Trash2 } from "lucide-react"
+
+interface ShareLink {
+  id: number
+  token: string
+  expiresAt: string | null
+  lastViewedAt: string | null
+  createdAt: string
+}
+
+interface ReceiptShareDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  token: string
+  receiptId: string | number
+  receiptNumber: string
+  storeName?: string
+  customerName: string
+  customerContact?: string
+  customerCountryCode?: string
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+  { value: "90", label: "Expires in 90 days" },
+]
+
+export function ReceiptShareDialog({
+  open,
+  onOpenChange,
+  token,
+  receiptId,
+  receiptNumber,
+  storeName,
+  customerName,
+  customerContact,
+  customerCountryCode,
+}: ReceiptShareDialogProps) {
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [expiry, setExpiry] = useState("30")
+  const [copiedId, setCopiedId] = useState<number | null>(null)
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const request = async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || "Request failed")
+    return data
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setError("")
+    request(`/api/receipts/${receiptId}/share`)
+      .then(setLinks)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load share links"))
+  }, [open, receiptId])
+
+  const getUrl = (link: ShareLink) => `${window.location.origin}/share/${link.token}`
+
+  const getMessage = (link: ShareLink) =>
+    `Hi ${customerName}, here is your receipt #${receiptNumber}` +
+    `${storeName ? ` from ${storeName}` : ""}: ${getUrl(link)}`
+
+  // wa.me and sms: want the number with its country code and no symbols
+  const phone = customerContact
+    ? `${customerCountryCode || "+91"}${customerContact}`.replace(/\D/g, "")
+    : ""
+
+  const handleCreate = async () => {
+    setIsSaving(true)
+    setError("")
+    try {
+      const link: ShareLink = await request(`/api/receipts/${receiptId}/share`, {
+        method: "POST",
+        body: JSON.stringify({ expiresInDays: expiry === "never" ? null : parseInt(expiry) }),
+      })
+      setLinks((prev) => [link, ...prev])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create share link")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevoke = async (link: ShareLink) => {
+    setIsSaving(true)
+    setError("")
+    try {
+      await request(`/api/receipts/${receiptId}/share/${link.id}`, { method: "DELETE" })
+      setLinks((prev) => prev.filter((l) => l.id !== link.id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke share link")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getUrl(link))
+      setCopiedId(link.id)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch (err) {
+      setError("Could not copy the link; select it and copy it manually")
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share receipt #{receiptNumber}</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can view this receipt without logging in. Revoke a link to stop it
+            working.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="shareExpiry">New link</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger id="shareExpiry">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCreate} disabled={isSaving}>
+            Create Link
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {links.map((link) => (
+            <div key={link.id} className="rounded-md border p-3 space-y-2">
+              <Input value={getUrl(link)} readOnly onFocus={(e) => e.target.select()} />
+              <div className="text-xs text-gray-500">
+                {link.expiresAt ? `Expires ${link.expiresAt}` : "Never expires"}
+                {link.lastViewedAt ? ` · Last opened ${link.lastViewedAt}` : " · Not opened yet"}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleCopy(link)}>
+                  {copiedId === link.id ? (
+                    <Check className="mr-2 h-4 w-4" />
+                  ) : (
+                    <Copy className="mr-2 h-4 w-4" />
+                  )}
+                  {copiedId === link.id ? "Copied" : "Copy"}
+                </Button>
+                <a
+                  href={`https://wa.me/${phone}?text=${encodeURIComponent(getMessage(link))}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Button size="sm" variant="outline">
+                    <MessageCircle className="mr-2 h-4 w-4" /> WhatsApp
+                  </Button>
+                </a>
+                <a href={`sms:${phone ? `+${phone}` : ""}?body=${encodeURIComponent(getMessage(link))}`}>
+                  <Button size="sm" variant="outline">
+                    <MessageSquare className="mr-2 h-4 w-4" /> SMS
+                  </Button>
+                </a>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-700"
+                  disabled={isSaving}
+                  onClick={() => handleRevoke(link)}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" /> Revoke
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,81 @@
+"use client"
+
+export interface StatementLine {
+  date: string
+  type: "invoice" | "late_charge" | "payment" | "waiver" | "write_off" | "credit_note" | "refund"
+  reference: string
+  description: string
+  debit: number
+  credit: number
+  balance: number
+}
+
+export interface StatementData {
+  from: string
+  to: string
+  openingBalance: number
+  lines: StatementLine[]
+  totalDebit: number
+  totalCredit: number
+  closingBalance: number
+}
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`
+
+// Negative balances are money the store owes the customer
+const formatBalance = (amount: number) =>
+  amount < 0 ? `${formatAmount(-amount)} Cr` : formatAmount(amount)
+
+const formatDate = (date: string) => {
+  const parsed = new Date(date)
+  return isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString()
+}
+
+export function StatementTable({ statement }: { statement: StatementData }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-xs uppercase tracking-wider text-gray-500">
+            <th className="py-2 pr-3">Date</th>
+            <th className="py-2 pr-3">Reference</th>
+            <th className="py-2 pr-3">Description</th>
+            <th className="py-2 pr-3 text-right">Debit</th>
+            <th className="py-2 pr-3 text-right">Credit</th>
+            <th className="py-2 text-right">Balance</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          <tr>
+            <td className="py-2 pr-3">{formatDate(statement.from)}</td>
+            <td />
+            <td className="py-2 pr-3 italic text-gray-600">Opening balance</td>
+            <td />
+            <td />
+            <td className="py-2 text-right">{formatBalance(statement.openingBalance)}</td>
+          </tr>
+          {statement.lines.map((line, index) => (
+            <tr key={index}>
+              <td className="py-2 pr-3 whitespace-nowrap">{formatDate(line.date)}</td>
+              <td className="py-2 pr-3 whitespace-nowrap">{line.reference}</td>
+              <td className="py-2 pr-3">{line.description}</td>
+              <td className="py-2 pr-3 text-right">{line.debit ? formatAmount(line.debit) : ""}</td>
+              <td className="py-2 pr-3 text-right text-green-700">
+                {line.credit ? formatAmount(line.credit) : ""}
+              </td>
+              <td className="py-2 text-right">{formatBalance(line.balance)}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="py-2 pr-3">{formatDate(statement.to)}</td>
+            <td />
+            <td className="py-2 pr-3">Closing balance</td>
+            <td className="py-2 pr-3 text-right">{formatAmount(statement.totalDebit)}</td>
+            <td className="py-2 pr-3 text-right">{formatAmount(statement.totalCredit)}</td>
+            <td className="py-2 text-right">{formatBalance(statement.closingBalance)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
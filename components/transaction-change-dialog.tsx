@@ -0,0 +1,354 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { ExpenseCategory, ExpensePaymentMode } from "@/lib/expenses"
+import type { MoneyAccount } from "@/lib/money-accounts"
+import type { TransactionChangeType } from "@/lib/transactions"
+
+export interface ChangeableTransaction {
+  id: string
+  particulars: string
+  amount: number
+  type: "credit" | "debit"
+  date: string
+  categoryId?: number
+  payee?: string
+  paymentMode?: ExpensePaymentMode
+  taxAmount?: number
+  moneyAccountId?: number
+}
+
+const PAYMENT_MODE_LABELS: Record<ExpensePaymentMode, string> = {
+  cash: "Cash",
+  online: "Online / UPI",
+  card: "Card",
+  cheque: "Cheque",
+}
+
+const TITLES: Record<TransactionChangeType, string> = {
+  edit: "Edit entry",
+  delete: "Delete entry",
+  reverse: "Reverse entry",
+}
+
+const NO_CATEGORY = "none"
+
+interface TransactionChangeDialogProps {
+  token: string
+  accounts: MoneyAccount[]
+  transaction: ChangeableTransaction | null
+  mode: TransactionChangeType
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+export function TransactionChangeDialog({
+  token,
+  accounts,
+  transaction,
+  mode,
+  onOpenChange,
+  onSaved,
+}: TransactionChangeDialogProps) {
+  const activeAccounts = accounts.filter((account) => account.isActive)
+  const [categories, setCategories] = useState<ExpenseCategory[]>([])
+  const [particulars, setParticulars] = useState("")
+  const [amount, setAmount] = useState("")
+  const [type, setType] = useState<"credit" | "debit">("debit")
+  const [date, setDate] = useState("")
+  const [accountId, setAccountId] = useState("")
+  const [categoryId, setCategoryId] = useState(NO_CATEGORY)
+  const [payee, setPayee] = useState("")
+  const [paymentMode, setPaymentMode] = useState<ExpensePaymentMode | "">("")
+  const [taxAmount, setTaxAmount] = useState("")
+  const [reason, setReason] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!transaction) return
+    setParticulars(transaction.particulars)
+    setAmount(transaction.amount.toString())
+    setType(transaction.type)
+    setDate(format(new Date(transaction.date), "yyyy-MM-dd"))
+    setAccountId(transaction.moneyAccountId?.toString() ?? "")
+    setCategoryId(transaction.categoryId?.toString() ?? NO_CATEGORY)
+    setPayee(transaction.payee ?? "")
+    setPaymentMode(transaction.paymentMode ?? "")
+    setTaxAmount(transaction.taxAmount ? transaction.taxAmount.toString() : "")
+    setReason("")
+    setError("")
+
+    if (mode !== "edit") return
+    fetch("/api/expense-categories?active=true", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load expense categories")
+        setCategories(data)
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load expense categories")
+      )
+  }, [transaction, mode, token])
+
+  const buildEdit = () => {
+    const amountValue = parseFloat(amount)
+    const taxValue = type === "debit" && taxAmount ? parseFloat(taxAmount) : 0
+    if (!particulars.trim()) throw new Error("Enter the particulars")
+    if (isNaN(amountValue) || amountValue <= 0) throw new Error("Enter an amount greater than zero")
+    if (isNaN(taxValue) || taxValue < 0 || taxValue > amountValue) {
+      throw new Error("Tax paid must be between zero and the amount")
+    }
+    if (!accountId) throw new Error("Choose an account")
+
+    const isDebit = type === "debit"
+    return {
+      particulars: particulars.trim(),
+      amount: Math.round(amountValue * 100) / 100,
+      type,
+      transactionDate: date,
+      moneyAccountId: Number(accountId),
+      categoryId: isDebit && categoryId !== NO_CATEGORY ? Number(categoryId) : null,
+      payee: isDebit ? payee.trim() || null : null,
+      paymentMode: isDebit ? paymentMode || null : null,
+      taxAmount: Math.round(taxValue * 100) / 100,
+    }
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!transaction) return
+
+    setIsSaving(true)
+    setError("")
+    try {
+      if (!reason.trim()) throw new Error("Give a reason for the change")
+      const url =
+        mode === "reverse"
+          ? `/api/transactions/${transaction.id}/reverse`
+          : `/api/transactions/${transaction.id}`
+      const response = await fetch(url, {
+        method: mode === "edit" ? "PUT" : mode === "delete" ? "DELETE" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          ...(mode === "edit" ? buildEdit() : {}),
+          reason: reason.trim(),
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save the change")
+      onSaved()
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the change")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{TITLES[mode]}</DialogTitle>
+            <DialogDescription>
+              {mode === "reverse"
+                ? "Posts an equal and opposite entry dated today. The original stays in the books."
+                : "The entry as it stands now is kept in the change history with your reason."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {transaction && mode !== "edit" && (
+            <div className="rounded-md border p-3 text-sm">
+              <div className="font-medium">{transaction.particulars}</div>
+              <div className="text-gray-500">
+                {format(new Date(transaction.date), "dd MMM yyyy")} ·{" "}
+                {transaction.type === "credit" ? "Credit" : "Debit"} ₹
+                {transaction.amount.toFixed(2)}
+              </div>
+            </div>
+          )}
+
+          {mode === "edit" && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="changeParticulars">Particulars</Label>
+                <Input
+                  id="changeParticulars"
+                  value={particulars}
+                  onChange={(e) => setParticulars(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="changeAmount">Amount (₹)</Label>
+                <Input
+                  id="changeAmount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={type} onValueChange={(value) => setType(value as "credit" | "debit")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="credit">Credit</SelectItem>
+                    <SelectItem value="debit">Debit</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="changeDate">Date</Label>
+                <Input
+                  id="changeDate"
+                  type="date"
+                  value={date}
+                  max={format(new Date(), "yyyy-MM-dd")}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Account</Label>
+                <Select value={accountId} onValueChange={setAccountId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose an account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {activeAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id.toString()}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {type === "debit" && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Category</Label>
+                    <Select value={categoryId} onValueChange={setCategoryId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>Not an expense</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id.toString()}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="changePayee">Payee</Label>
+                    <Input
+                      id="changePayee"
+                      value={payee}
+                      maxLength={255}
+                      onChange={(e) => setPayee(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Payment mode</Label>
+                    <Select
+                      value={paymentMode}
+                      onValueChange={(value) => setPaymentMode(value as ExpensePaymentMode)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Not set" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(PAYMENT_MODE_LABELS) as ExpensePaymentMode[]).map(
+                          (paymentModeOption) => (
+                            <SelectItem key={paymentModeOption} value={paymentModeOption}>
+                              {PAYMENT_MODE_LABELS[paymentModeOption]}
+                            </SelectItem>
+                          )
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="changeTax">Tax paid (₹, included in amount)</Label>
+                    <Input
+                      id="changeTax"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={taxAmount}
+                      onChange={(e) => setTaxAmount(e.target.value)}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="changeReason">Reason</Label>
+            <Textarea
+              id="changeReason"
+              value={reason}
+              maxLength={500}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={
+                mode === "reverse" ? "e.g. Cheque bounced" : "e.g. Amount was mistyped"
+              }
+              required
+            />
+          </div>
+
+          {error && <div className="text-xs text-red-500">{error}</div>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant={mode === "edit" ? "default" : "destructive"}
+              disabled={isSaving}
+            >
+              {isSaving ? "Saving..." : TITLES[mode].split(" ")[0]}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
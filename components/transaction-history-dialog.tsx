@@ -0,0 +1,111 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import type { TransactionAuditEntry, TransactionChangeType } from "@/lib/transactions"
+
+const CHANGE_LABELS: Record<TransactionChangeType, string> = {
+  edit: "Edited",
+  delete: "Deleted",
+  reverse: "Reversed",
+}
+
+const CHANGE_STYLES: Record<TransactionChangeType, string> = {
+  edit: "bg-blue-100 text-blue-700",
+  delete: "bg-red-100 text-red-700",
+  reverse: "bg-amber-100 text-amber-800",
+}
+
+interface TransactionHistoryDialogProps {
+  token: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Every edit, deletion and reversal with its reason and the entry as it was
+export function TransactionHistoryDialog({ token, open, onOpenChange }: TransactionHistoryDialogProps) {
+  const [entries, setEntries] = useState<TransactionAuditEntry[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!open) return
+    setIsLoading(true)
+    setError("")
+
+    fetch("/api/transactions/audit", {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to load change history")
+        setEntries(data.entries)
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load change history")
+      )
+      .finally(() => setIsLoading(false))
+  }, [open, token])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Change history</DialogTitle>
+          <DialogDescription>
+            Edits, deletions and reversals of entries, with the entry as it stood before.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <div className="text-sm text-red-500">{error}</div>}
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading...</div>
+        ) : entries.length === 0 ? (
+          !error && <div className="text-sm text-gray-500">No entries have been changed yet.</div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto space-y-3">
+            {entries.map((entry) => (
+              <div key={entry.id} className="rounded-md border p-3 text-sm">
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <span
+                      className={`px-2 inline-flex text-xs font-semibold rounded-full ${
+                        CHANGE_STYLES[entry.changeType]
+                      }`}
+                    >
+                      {CHANGE_LABELS[entry.changeType]}
+                    </span>
+                    <span className="ml-2 font-medium">{entry.snapshot.particulars}</span>
+                  </div>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {format(new Date(entry.createdAt), "dd MMM yyyy, HH:mm")}
+                  </span>
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  {[
+                    format(new Date(entry.snapshot.date), "dd MMM yyyy"),
+                    `${entry.snapshot.type === "credit" ? "Credit" : "Debit"} ₹${entry.snapshot.amount.toFixed(2)}`,
+                    entry.snapshot.moneyAccount,
+                    entry.snapshot.category,
+                    entry.snapshot.payee,
+                    entry.snapshot.receiptNumber && `Receipt ${entry.snapshot.receiptNumber}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </div>
+                <div className="mt-2 text-gray-700">{entry.reason}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { MoneyAccount } from "@/lib/money-accounts"
+
+interface TransferDialogProps {
+  token: string
+  accounts: MoneyAccount[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSaved: () => void
+}
+
+export function TransferDialog({
+  token,
+  accounts,
+  open,
+  onOpenChange,
+  onSaved,
+}: TransferDialogProps) {
+  const activeAccounts = accounts.filter((account) => account.isActive)
+  const [fromAccountId, setFromAccountId] = useState("")
+  const [toAccountId, setToAccountId] = useState("")
+  const [amount, setAmount] = useState("")
+  const [date, setDate] = useState("")
+  const [notes, setNotes] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setFromAccountId(activeAccounts[0]?.id.toString() ?? "")
+    setToAccountId(activeAccounts[1]?.id.toString() ?? "")
+    setAmount("")
+    setDate(format(new Date(), "yyyy-MM-dd"))
+    setNotes("")
+    setError("")
+  }, [open])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amountValue = parseFloat(amount)
+
+    if (!fromAccountId || !toAccountId) return setError("Choose both accounts")
+    if (fromAccountId === toAccountId) return setError("Choose two different accounts")
+    if (isNaN(amountValue) || amountValue <= 0) return setError("Enter an amount greater than zero")
+
+    setIsSaving(true)
+    setError("")
+    try {
+      const response = await fetch("/api/transfers", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          fromAccountId: Number(fromAccountId),
+          toAccountId: Number(toAccountId),
+          amount: Math.round(amountValue * 100) / 100,
+          transferDate: date,
+          notes: notes.trim() || undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to record transfer")
+      onSaved()
+      onOpenChange(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record transfer")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const accountSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose an account" />
+      </SelectTrigger>
+      <SelectContent>
+        {activeAccounts.map((account) => (
+          <SelectItem key={account.id} value={account.id.toString()}>
+            {account.name} (₹{account.balance.toFixed(2)})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSave} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Transfer between accounts</DialogTitle>
+            <DialogDescription>
+              Moves money from one account to another, e.g. depositing cash in the bank.
+              The overall balance does not change.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              {accountSelect(fromAccountId, setFromAccountId)}
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              {accountSelect(toAccountId, setToAccountId)}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transferAmount">Amount (₹)</Label>
+              <Input
+                id="transferAmount"
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transferDate">Date</Label>
+              <Input
+                id="transferDate"
+                type="date"
+                value={date}
+                max={format(new Date(), "yyyy-MM-dd")}
+                onChange={(e) => setDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transferNotes">Notes (optional)</Label>
+            <Input
+              id="transferNotes"
+              value={notes}
+              maxLength={255}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          {error && <div className="text-xs text-red-500">{error}</div>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700"
+              disabled={isSaving || activeAccounts.length < 2}
+            >
+              {isSaving ? "Saving..." : "Transfer"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,178 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { format, startOfYear } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Download } from "lucide-react"
+import type { WriteOffReport } from "@/lib/write-offs"
+
+const getToken = () => {
+  const userJSON = localStorage.getItem("currentUser")
+  return userJSON ? JSON.parse(userJSON).token : null
+}
+
+const formatMonth = (month: string) => format(new Date(`${month}-01T00:00:00`), "MMMM yyyy")
+
+export function WriteOffReportPanel() {
+  const [from, setFrom] = useState(format(startOfYear(new Date()), "yyyy-MM-dd"))
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"))
+  const [report, setReport] = useState<WriteOffReport | null>(null)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setIsLoading(true)
+      setError("")
+      try {
+        const response = await fetch(`/api/reports/write-offs?from=${from}&to=${to}`, {
+          headers: { Authorization: `Bearer ${getToken()}` },
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || "Failed to prepare write-off report")
+        setReport(data)
+      } catch (err) {
+        setReport(null)
+        setError(err instanceof Error ? err.message : "Failed to prepare write-off report")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    if (from && to) fetchReport()
+  }, [from, to])
+
+  const downloadCsv = async () => {
+    try {
+      const response = await fetch(`/api/reports/write-offs?from=${from}&to=${to}&format=csv`, {
+        headers: { Authorization: `Bearer ${getToken()}` },
+      })
+      if (!response.ok) throw new Error("Failed to export write-off report")
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.setAttribute("download", `write_offs_${from}_${to}.csv`)
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export write-off report")
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+        <div className="space-y-2">
+          <Label htmlFor="writeOffFrom">From</Label>
+          <Input
+            id="writeOffFrom"
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="writeOffTo">To</Label>
+          <Input
+            id="writeOffTo"
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="w-48"
+          />
+        </div>
+        <Button
+          onClick={downloadCsv}
+          disabled={!report || report.items.length === 0 || isLoading}
+          className="bg-blue-600 hover:bg-blue-700"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export to Excel
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-4 text-gray-500">Preparing write-off report...</div>
+      ) : (
+        report &&
+        (report.items.length === 0 ? (
+          <div className="text-center py-4 text-gray-500">No dues written off in this period</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {report.periods.map((period) => (
+                <div key={period.month} className="rounded-md border p-4">
+                  <div className="text-sm text-gray-500">{formatMonth(period.month)}</div>
+                  <div className="text-xl font-bold text-red-600">₹{period.total.toFixed(2)}</div>
+                  <div className="text-xs text-gray-500">
+                    {period.count} {period.count === 1 ? "due" : "dues"}
+                  </div>
+                </div>
+              ))}
+              <div className="rounded-md border p-4 bg-gray-50">
+                <div className="text-sm text-gray-500">Total Bad Debt</div>
+                <div className="text-xl font-bold">₹{report.total.toFixed(2)}</div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Written Off</th>
+                    <th className="py-2 pr-4 font-medium">Customer</th>
+                    <th className="py-2 pr-4 font-medium">Receipt</th>
+                    <th className="py-2 pr-4 font-medium">Reason</th>
+                    <th className="py-2 font-medium text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.items.map((item) => (
+                    <tr key={item.dueRecordId} className="border-b">
+                      <td className="py-2 pr-4 whitespace-nowrap">{item.writtenOffOn}</td>
+                      <td className="py-2 pr-4">
+                        {item.customerId ? (
+                          <Link
+                            href={`/customers/${item.customerId}`}
+                            className="text-blue-600 underline"
+                          >
+                            {item.customerName}
+                          </Link>
+                        ) : (
+                          item.customerName
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {item.receiptNumber ? `#${item.receiptNumber}` : "—"}
+                        {item.installmentCount > 1 && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            Installment {item.installmentNumber} of {item.installmentCount}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-600">{item.reason}</td>
+                      <td className="py-2 text-right font-medium">₹{item.amount.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ))
+      )}
+    </div>
+  )
+}
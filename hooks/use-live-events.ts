@@ -0,0 +1,109 @@
+"use client"
+
+import * as React from "react"
+import type { LiveEvent, LiveEventType } from "@/lib/events"
+
+type Listener = (event: LiveEvent) => void
+
+const EVENT_TYPES: LiveEventType[] = [
+  "receipt-created",
+  "receipt-updated",
+  "due-paid",
+  "due-status-changed",
+  "transaction-added",
+  "transaction-updated",
+  "transaction-deleted",
+  "transfer-created",
+]
+
+// Every component in the tab shares one stream
+const listeners = new Set<Listener>()
+let source: EventSource | null = null
+// The login the stream is open, or opening, for
+let sourceToken: string | null = null
+// Bumped on every (re)connect so a stale token request is dropped
+let attempt = 0
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+const RETRY_MS = 5000
+
+function getToken(): string | null {
+  const userJSON = localStorage.getItem("currentUser")
+  return userJSON ? JSON.parse(userJSON)?.token ?? null : null
+}
+
+// The stream URL carries a short-lived token, never the login token
+async function fetchStreamToken(token: string): Promise<string> {
+  const response = await fetch("/api/events/token", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || "Failed to open live updates")
+  return data.token
+}
+
+function retryLater() {
+  disconnect()
+  retryTimer = setTimeout(() => {
+    retryTimer = null
+    if (listeners.size > 0) connect()
+  }, RETRY_MS)
+}
+
+function connect() {
+  const token = getToken()
+  if (token && sourceToken === token) return
+  disconnect()
+  if (!token) return
+
+  sourceToken = token
+  const current = ++attempt
+  fetchStreamToken(token)
+    .then((streamToken) => {
+      if (current !== attempt) return
+      source = new EventSource(`/api/events?token=${encodeURIComponent(streamToken)}`)
+      for (const type of EVENT_TYPES) {
+        source.addEventListener(type, (message) => {
+          const event = JSON.parse((message as MessageEvent).data) as LiveEvent
+          listeners.forEach((listener) => listener(event))
+        })
+      }
+      // The browser retries dropped streams itself, but gives up once the
+      // stream token has expired; start over with a fresh one
+      source.onerror = () => {
+        if (current === attempt && source?.readyState === EventSource.CLOSED) retryLater()
+      }
+    })
+    .catch(() => {
+      if (current === attempt) retryLater()
+    })
+}
+
+function disconnect() {
+  attempt++
+  if (retryTimer) clearTimeout(retryTimer)
+  retryTimer = null
+  source?.close()
+  source = null
+  sourceToken = null
+}
+
+/**
+ * Call `onEvent` for new and revised receipts, due payments, due status
+ * changes, transactions and transfers recorded by any of the user's devices.
+ */
+export function useLiveEvents(onEvent: Listener) {
+  const handler = React.useRef(onEvent)
+  handler.current = onEvent
+
+  React.useEffect(() => {
+    const listener: Listener = (event) => handler.current(event)
+    listeners.add(listener)
+    connect()
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) disconnect()
+    }
+  }, [])
+}
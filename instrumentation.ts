@@ -0,0 +1,14 @@
+export async function register() {
+  // The workers are opt-in so builds and serverless deployments never open
+  // database connections on start-up
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  if (process.env.REMINDER_WORKER === "on") {
+    const { startReminderWorker } = await import("@/lib/reminder-worker");
+    startReminderWorker();
+  }
+  if (process.env.LATE_FEE_WORKER === "on") {
+    const { startLateFeeWorker } = await import("@/lib/late-fee-worker");
+    startLateFeeWorker();
+  }
+}
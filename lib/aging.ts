@@ -0,0 +1,195 @@
+// lib/aging.ts
+import mysql from "mysql2/promise";
+import { roundCurrency } from "@/lib/receipt-totals";
+import { toCsv } from "@/lib/csv";
+
+export type AgingBucket = "current" | "1-30" | "31-60" | "61-90" | "90+";
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string; maxDays: number }[] = [
+  { key: "current", label: "Current", maxDays: 0 },
+  { key: "1-30", label: "1–30 days", maxDays: 30 },
+  { key: "31-60", label: "31–60 days", maxDays: 60 },
+  { key: "61-90", label: "61–90 days", maxDays: 90 },
+  { key: "90+", label: "90+ days", maxDays: Infinity },
+];
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export interface AgingItem {
+  dueRecordId: number;
+  receiptId: number | null;
+  receiptNumber: string | null;
+  receiptDate: string | null;
+  expectedPaymentDate: string;
+  installmentNumber: number;
+  installmentCount: number;
+  daysOverdue: number;
+  bucket: AgingBucket;
+  remaining: number;
+}
+
+export interface AgingCustomer {
+  customerId: number | null;
+  name: string;
+  countryCode: string;
+  contact: string;
+  totals: AgingTotals;
+  items: AgingItem[];
+}
+
+export interface AgingReport {
+  asOf: string;
+  customers: AgingCustomer[];
+  totals: AgingTotals;
+}
+
+export function getAgingBucket(daysOverdue: number): AgingBucket {
+  return AGING_BUCKETS.find((bucket) => daysOverdue <= bucket.maxDays)!.key;
+}
+
+const emptyTotals = (): AgingTotals => ({
+  current: 0,
+  "1-30": 0,
+  "31-60": 0,
+  "61-90": 0,
+  "90+": 0,
+  total: 0,
+});
+
+function addToTotals(totals: AgingTotals, bucket: AgingBucket, amount: number) {
+  totals[bucket] = roundCurrency(totals[bucket] + amount);
+  totals.total = roundCurrency(totals.total + amount);
+}
+
+/**
+ * Open dues as of `asOf`, bucketed by how many days each installment is past
+ * its expected payment date. Dues raised after `asOf` are left out and
+ * payments made after it are added back, so a past date shows what was owed
+ * then; disputes, write-offs and cancellations are taken as they are now.
+ * Customers owing the most come first; dues saved before the customer master
+ * are grouped by phone number.
+ */
+export async function buildAgingReport(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  asOf: string
+): Promise<AgingReport> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      d.id, d.customer_id, d.receipt_number, d.amount_due, d.amount_paid,
+      (SELECT COALESCE(SUM(p.amount), 0) FROM due_payments p
+       WHERE p.due_record_id = d.id AND p.payment_date > ?
+       AND NOT EXISTS (
+         SELECT 1 FROM account_transactions t
+         JOIN account_transactions rv ON rv.reverses_transaction_id = t.id
+         WHERE t.due_payment_id = p.id
+       )) AS paid_after,
+      d.installment_number, d.installment_count,
+      DATE_FORMAT(d.expected_payment_date, '%Y-%m-%d') AS expected_payment_date,
+      DATEDIFF(?, d.expected_payment_date) AS days_overdue,
+      COALESCE(c.name, d.customer_name) AS customer_name,
+      COALESCE(c.country_code, d.customer_country_code, '+91') AS country_code,
+      COALESCE(c.contact, d.customer_contact) AS contact,
+      r.id AS receipt_id, DATE_FORMAT(r.date, '%Y-%m-%d') AS receipt_date
+     FROM due_records d
+     LEFT JOIN customers c ON d.customer_id = c.id
+     LEFT JOIN receipts r ON r.user_id = d.user_id AND r.receipt_number = d.receipt_number
+     WHERE d.user_id = ? AND d.status = 'open'
+     AND d.created_at < DATE_ADD(?, INTERVAL 1 DAY)
+     AND (d.is_paid = FALSE OR DATE(d.paid_at) > ?)
+     ORDER BY d.expected_payment_date ASC, d.id ASC`,
+    [asOf, asOf, userId, asOf, asOf]
+  );
+
+  const customers = new Map<string, AgingCustomer>();
+  const totals = emptyTotals();
+
+  for (const row of rows) {
+    const remaining = roundCurrency(
+      Number(row.amount_due) - Number(row.amount_paid) + Number(row.paid_after)
+    );
+    if (remaining <= 0) continue;
+
+    const daysOverdue = Math.max(Number(row.days_overdue) || 0, 0);
+    const bucket = getAgingBucket(daysOverdue);
+    const key = row.customer_id ? `id:${row.customer_id}` : `contact:${row.country_code}${row.contact}`;
+
+    let customer = customers.get(key);
+    if (!customer) {
+      customer = {
+        customerId: row.customer_id || null,
+        name: row.customer_name,
+        countryCode: row.country_code,
+        contact: row.contact,
+        totals: emptyTotals(),
+        items: [],
+      };
+      customers.set(key, customer);
+    }
+
+    customer.items.push({
+      dueRecordId: row.id,
+      receiptId: row.receipt_id || null,
+      receiptNumber: row.receipt_number || null,
+      receiptDate: row.receipt_date || null,
+      expectedPaymentDate: row.expected_payment_date,
+      installmentNumber: Number(row.installment_number) || 1,
+      installmentCount: Number(row.installment_count) || 1,
+      daysOverdue,
+      bucket,
+      remaining,
+    });
+    addToTotals(customer.totals, bucket, remaining);
+    addToTotals(totals, bucket, remaining);
+  }
+
+  return {
+    asOf,
+    customers: [...customers.values()].sort(
+      (a, b) => b.totals.total - a.totals.total || a.name.localeCompare(b.name)
+    ),
+    totals,
+  };
+}
+
+// One row per open installment, so the sheet can be pivoted by customer or bucket
+export function agingReportToCsv(report: AgingReport): string {
+  return toCsv(
+    [
+      "Customer",
+      "Contact",
+      "Receipt Number",
+      "Receipt Date",
+      "Installment",
+      "Due Date",
+      "Days Overdue",
+      ...AGING_BUCKETS.map((bucket) => bucket.label),
+    ],
+    [
+      ...report.customers.flatMap((customer) =>
+        customer.items.map((item) => [
+          customer.name,
+          `${customer.countryCode} ${customer.contact}`,
+          item.receiptNumber || "",
+          item.receiptDate || "",
+          item.installmentCount > 1 ? `${item.installmentNumber} of ${item.installmentCount}` : "",
+          item.expectedPaymentDate,
+          item.daysOverdue,
+          ...AGING_BUCKETS.map((bucket) =>
+            bucket.key === item.bucket ? item.remaining.toFixed(2) : ""
+          ),
+        ])
+      ),
+      [
+        "Total",
+        "",
+        "",
+        "",
+        "",
+        "",
+        "",
+        ...AGING_BUCKETS.map((bucket) => report.totals[bucket.key].toFixed(2)),
+      ],
+    ]
+  );
+}
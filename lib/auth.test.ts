@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { signJwt, signStreamToken, verifyJwt, verifyStreamToken } from "@/lib/auth";
+
+describe("stream tokens", () => {
+  it("identify the user they were issued for", () => {
+    expect(verifyStreamToken(signStreamToken("42"))).toBe("42");
+  });
+
+  it("are not accepted in place of a login", async () => {
+    expect(await verifyJwt(signStreamToken("42"))).toBeUndefined();
+  });
+
+  it("cannot be a login token", async () => {
+    expect(verifyStreamToken(await signJwt("42"))).toBeNull();
+  });
+
+  it("are rejected once tampered with", () => {
+    expect(verifyStreamToken(`${signStreamToken("42")}x`)).toBeNull();
+  });
+});
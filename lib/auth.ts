@@ -22,6 +22,117 @@ export async function verifyJwt(token: string) {
   }
 }
 
+interface ShareTokenPayload {
+  purpose: "receipt-share";
+  receiptId: number;
+  linkId: number;
+}
+
+/**
+ * Sign a public receipt link. Revocation is checked against the
+ * receipt_share_links row, so a link can be re-signed for the same row.
+ */
+export function signShareToken(
+  receiptId: number,
+  linkId: number,
+  expiresAt?: Date | null
+) {
+  const payload: ShareTokenPayload & { exp?: number } = {
+    purpose: "receipt-share",
+    receiptId,
+    linkId,
+  };
+  if (expiresAt) payload.exp = Math.floor(expiresAt.getTime() / 1000);
+  return jwt.sign(payload, JWT_SECRET, { noTimestamp: true });
+}
+
+export function verifyShareToken(token: string): ShareTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as Partial<ShareTokenPayload>;
+    if (
+      decoded.purpose !== "receipt-share" ||
+      !Number.isInteger(decoded.receiptId) ||
+      !Number.isInteger(decoded.linkId)
+    ) {
+      return null;
+    }
+    return decoded as ShareTokenPayload;
+  } catch (error) {
+    return null;
+  }
+}
+
+interface StatementTokenPayload {
+  purpose: "customer-statement";
+  // Not named userId, so the token can never pass verifyJwt as a login
+  ownerId: string | number;
+  customerId: number;
+  from: string;
+  to: string;
+}
+
+/**
+ * Sign a public statement link. Statements are rebuilt on every view, so
+ * the link shows current figures for the period until it expires.
+ */
+export function signStatementToken(
+  statement: Omit<StatementTokenPayload, "purpose">,
+  expiresAt: Date
+) {
+  const payload: StatementTokenPayload & { exp: number } = {
+    purpose: "customer-statement",
+    ...statement,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  };
+  return jwt.sign(payload, JWT_SECRET, { noTimestamp: true });
+}
+
+export function verifyStatementToken(token: string): StatementTokenPayload | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as Partial<StatementTokenPayload>;
+    if (
+      decoded.purpose !== "customer-statement" ||
+      !decoded.ownerId ||
+      !Number.isInteger(decoded.customerId) ||
+      !decoded.from ||
+      !decoded.to
+    ) {
+      return null;
+    }
+    return decoded as StatementTokenPayload;
+  } catch (error) {
+    return null;
+  }
+}
+
+interface StreamTokenPayload {
+  purpose: "event-stream";
+  // Not named userId, so the token can never pass verifyJwt as a login
+  streamUserId: string;
+}
+
+// Only has to last until the stream is open; reconnects ask for a new one
+const STREAM_TOKEN_TTL_SECONDS = 60;
+
+/**
+ * Sign a short-lived token for opening the live event stream. EventSource
+ * cannot send headers, so it goes in the URL, where the login token must not.
+ */
+export function signStreamToken(userId: string) {
+  const payload: StreamTokenPayload = { purpose: "event-stream", streamUserId: userId };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: STREAM_TOKEN_TTL_SECONDS });
+}
+
+export function verifyStreamToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as Partial<StreamTokenPayload>;
+    if (decoded.purpose !== "event-stream" || !decoded.streamUserId) return null;
+    return decoded.streamUserId;
+  } catch (error) {
+    return null;
+  }
+}
+
 export async function auth() {
   const cookieStore = await cookies();
   const token = cookieStore.get("token")?.value;
@@ -0,0 +1,164 @@
+import { readFileSync } from "fs";
+import { describe, expect, it } from "vitest";
+import {
+  CsvColumnMapping,
+  detectStatementFormat,
+  parseCamtStatement,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseStatementAmount,
+  parseStatementDate,
+} from "@/lib/bank-statements";
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8");
+
+// A net-banking export with separate withdrawal and deposit columns
+const CSV_MAPPING: CsvColumnMapping = {
+  hasHeader: true,
+  dateFormat: "DD/MM/YYYY",
+  date: 0,
+  description: 1,
+  reference: 2,
+  debit: 3,
+  credit: 4,
+};
+
+describe("detectStatementFormat", () => {
+  it("goes by the extension, then the content", () => {
+    expect(detectStatementFormat("april.qfx", "")).toBe("ofx");
+    expect(detectStatementFormat("april.txt", fixture("bank-statement.ofx"))).toBe("ofx");
+    expect(detectStatementFormat("april.xml", fixture("bank-statement.camt053.xml"))).toBe("camt053");
+    expect(detectStatementFormat("april.csv", fixture("bank-statement.csv"))).toBe("csv");
+  });
+});
+
+describe("parseCsvStatement", () => {
+  it("reads debit and credit columns, quoted fields and skips the balance row", () => {
+    expect(parseCsvStatement(fixture("bank-statement.csv"), CSV_MAPPING)).toEqual([
+      {
+        date: "2026-04-02",
+        description: "NEFT-ASHA TRADERS, R-1042",
+        reference: "N0923341",
+        amount: 1250.5,
+        externalId: null,
+      },
+      {
+        date: "2026-04-03",
+        description: 'Rent for April "Shop 4"',
+        reference: "CHQ000881",
+        amount: -8000,
+        externalId: null,
+      },
+      {
+        date: "2026-04-05",
+        description: "UPI/ramesh@okbank/Due R-1001",
+        reference: "412233445566",
+        amount: 500,
+        externalId: null,
+      },
+      {
+        date: "2026-04-05",
+        description: "Bank charges",
+        reference: null,
+        amount: -11.8,
+        externalId: null,
+      },
+    ]);
+  });
+
+  it("names the row that cannot be read", () => {
+    const content = "Date,Narration,Amount\n02/04/2026,Deposit,100\n31/04/2026,Deposit,100\n";
+    const mapping: CsvColumnMapping = {
+      hasHeader: true,
+      dateFormat: "DD/MM/YYYY",
+      date: 0,
+      description: 1,
+      amount: 2,
+    };
+    expect(() => parseCsvStatement(content, mapping)).toThrow("Row 3: date does not match DD/MM/YYYY");
+    expect(() => parseCsvStatement("02/04/2026,Deposit,ten", { ...mapping, hasHeader: false })).toThrow(
+      "Row 1: amount is not a number"
+    );
+  });
+});
+
+describe("parseStatementAmount and parseStatementDate", () => {
+  it("reads amounts the way banks print them", () => {
+    expect(parseStatementAmount("₹1,250.50")).toBe(1250.5);
+    expect(parseStatementAmount("(8,000.00)")).toBe(-8000);
+    expect(parseStatementAmount("500.00 Dr")).toBe(-500);
+    expect(parseStatementAmount("Rs. 500 Cr")).toBe(500);
+    expect(parseStatementAmount("")).toBe(0);
+    expect(parseStatementAmount("n/a")).toBeNull();
+  });
+
+  it("reads each supported date format and rejects impossible dates", () => {
+    expect(parseStatementDate("05/04/2026", "DD/MM/YYYY")).toBe("2026-04-05");
+    expect(parseStatementDate("04/05/2026", "MM/DD/YYYY")).toBe("2026-04-05");
+    expect(parseStatementDate("2026-04-05", "YYYY-MM-DD")).toBe("2026-04-05");
+    expect(parseStatementDate("05-Apr-26", "DD-MMM-YYYY")).toBe("2026-04-05");
+    expect(parseStatementDate("29/02/2026", "DD/MM/YYYY")).toBeNull();
+  });
+});
+
+describe("parseOfxStatement", () => {
+  it("reads unclosed leaf tags and skips zero-amount entries", () => {
+    expect(parseOfxStatement(fixture("bank-statement.ofx"))).toEqual([
+      {
+        date: "2026-04-02",
+        description: "ASHA TRADERS - NEFT R-1042 & freight",
+        reference: null,
+        amount: 1250.5,
+        externalId: "2026040200017",
+      },
+      {
+        date: "2026-04-03",
+        description: "Shop 4 rent",
+        reference: "000881",
+        amount: -8000,
+        externalId: "2026040300004",
+      },
+      {
+        date: "2026-04-05",
+        description: "Bank entry",
+        reference: "SC-0405",
+        amount: -11.8,
+        externalId: "2026040500009",
+      },
+    ]);
+  });
+});
+
+describe("parseCamtStatement", () => {
+  it("signs entries by CdtDbtInd and prefers the booking date", () => {
+    expect(parseCamtStatement(fixture("bank-statement.camt053.xml"))).toEqual([
+      {
+        date: "2026-04-02",
+        description: "Asha Traders - Invoice R-1042 & freight",
+        reference: "R-1042",
+        amount: 1250.5,
+        externalId: "BANK-REF-0001",
+      },
+      {
+        date: "2026-04-03",
+        description: "Shop 4 Landlord - Rent April",
+        reference: "E2",
+        amount: -8000,
+        externalId: "BANK-REF-0002",
+      },
+      {
+        date: "2026-04-05",
+        description: "Service charge",
+        reference: null,
+        amount: -11.8,
+        externalId: null,
+      },
+    ]);
+  });
+
+  it("reads namespace-prefixed tags", () => {
+    const prefixed = fixture("bank-statement.camt053.xml").replace(/<(\/?)(\w+)/g, "<$1ns2:$2");
+    expect(parseCamtStatement(prefixed)).toHaveLength(3);
+  });
+});
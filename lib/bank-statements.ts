@@ -0,0 +1,309 @@
+// lib/bank-statements.ts
+export type StatementFileFormat = "csv" | "ofx" | "camt053";
+
+export type StatementLineStatus = "unmatched" | "matched" | "reconciled" | "ignored";
+
+export type CsvDateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY" | "DD-MMM-YYYY";
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = [
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+  "YYYY-MM-DD",
+  "DD-MMM-YYYY",
+];
+
+/**
+ * Where each field sits in a CSV statement, as zero-based column indexes.
+ * Either `amount` (signed, money in positive) or `debit` and `credit` must
+ * be set.
+ */
+export interface CsvColumnMapping {
+  hasHeader: boolean;
+  dateFormat: CsvDateFormat;
+  date: number;
+  description: number;
+  reference?: number | null;
+  amount?: number | null;
+  debit?: number | null;
+  credit?: number | null;
+}
+
+export interface ParsedStatementLine {
+  date: string;
+  description: string;
+  reference: string | null;
+  // Money in is positive, money out negative
+  amount: number;
+  // The bank's own id for the line when the format has one
+  externalId: string | null;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+export function detectStatementFormat(fileName: string, content: string): StatementFileFormat {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (/OFXHEADER|<OFX>/i.test(content.slice(0, 1000))) return "ofx";
+  if (/<(\w+:)?BkToCstmrStmt\b|camt\.053/.test(content)) return "camt053";
+  return "csv";
+}
+
+/** Split CSV text into rows, honouring quoted fields that hold commas, quotes or line breaks. */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export function parseStatementDate(value: string, format: CsvDateFormat): string | null {
+  const parts = value.trim().split(/[\s/.-]+/);
+  if (parts.length < 3) return null;
+
+  let [day, month, year] = [0, 0, 0];
+  if (format === "YYYY-MM-DD") {
+    [year, month, day] = parts.map(Number);
+  } else if (format === "MM/DD/YYYY") {
+    [month, day, year] = parts.map(Number);
+  } else if (format === "DD-MMM-YYYY") {
+    day = Number(parts[0]);
+    month = MONTHS.indexOf(parts[1].slice(0, 3).toLowerCase()) + 1;
+    year = Number(parts[2]);
+  } else {
+    [day, month, year] = parts.map(Number);
+  }
+  if (year < 100) year += 2000;
+  if (!Number.isInteger(day) || !Number.isInteger(month) || !Number.isInteger(year)) return null;
+  return toIsoDate(year, month, day);
+}
+
+/**
+ * Read an amount as banks print it: thousands separators, a currency
+ * symbol, a trailing Cr/Dr or brackets for money out. Blank cells are 0.
+ */
+export function parseStatementAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return 0;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  const suffix = text.match(/\s*(cr|dr)\.?$/i);
+  if (suffix) {
+    if (suffix[1].toLowerCase() === "dr") sign = -sign;
+    text = text.slice(0, suffix.index);
+  }
+  text = text.replace(/[₹$€£,\s]|INR|Rs\.?/gi, "");
+  if (!/^[+-]?\d+(\.\d+)?$/.test(text)) return null;
+
+  return Math.round(sign * parseFloat(text) * 100) / 100;
+}
+
+export function validateCsvMapping(mapping: Partial<CsvColumnMapping> | null | undefined): string | null {
+  if (!mapping) return "Choose which columns hold the date, description and amount";
+  const isColumn = (value: unknown) => Number.isInteger(value) && (value as number) >= 0;
+  if (!CSV_DATE_FORMATS.includes(mapping.dateFormat!)) return "Choose the statement's date format";
+  if (!isColumn(mapping.date)) return "Choose the date column";
+  if (!isColumn(mapping.description)) return "Choose the description column";
+  if (mapping.reference != null && !isColumn(mapping.reference)) return "Invalid reference column";
+  const hasAmount = mapping.amount != null;
+  const hasDebitCredit = mapping.debit != null || mapping.credit != null;
+  if (hasAmount === hasDebitCredit) {
+    return "Choose either an amount column or separate debit and credit columns";
+  }
+  if (hasAmount && !isColumn(mapping.amount)) return "Invalid amount column";
+  if (hasDebitCredit && (!isColumn(mapping.debit) || !isColumn(mapping.credit))) {
+    return "Choose both the debit and the credit column";
+  }
+  return null;
+}
+
+/**
+ * Turn CSV rows into statement lines. Rows with no amount, such as opening
+ * balance lines, are skipped; a row that cannot be read fails the import
+ * with its line number.
+ */
+export function parseCsvStatement(content: string, mapping: CsvColumnMapping): ParsedStatementLine[] {
+  const rows = parseCsv(content).slice(mapping.hasHeader ? 1 : 0);
+  const firstRow = mapping.hasHeader ? 2 : 1;
+  const lines: ParsedStatementLine[] = [];
+
+  rows.forEach((cells, index) => {
+    const cell = (column: number | null | undefined) =>
+      column == null ? "" : (cells[column] ?? "").trim();
+    const rowNumber = firstRow + index;
+
+    let amount: number | null;
+    if (mapping.amount != null) {
+      amount = parseStatementAmount(cell(mapping.amount));
+    } else {
+      const credit = parseStatementAmount(cell(mapping.credit));
+      const debit = parseStatementAmount(cell(mapping.debit));
+      amount = credit === null || debit === null ? null : Math.abs(credit) - Math.abs(debit);
+    }
+    if (amount === null) throw new Error(`Row ${rowNumber}: amount is not a number`);
+    if (amount === 0) return;
+
+    const date = parseStatementDate(cell(mapping.date), mapping.dateFormat);
+    if (!date) throw new Error(`Row ${rowNumber}: date does not match ${mapping.dateFormat}`);
+
+    lines.push({
+      date,
+      description: cell(mapping.description) || "Bank entry",
+      reference: cell(mapping.reference) || null,
+      amount: Math.round(amount * 100) / 100,
+      externalId: null,
+    });
+  });
+
+  return lines;
+}
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// OFX 1.x leaves leaf tags unclosed, so a value runs to the next tag or line end
+function ofxValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  return match ? decodeXml(match[1].trim()) || null : null;
+}
+
+export function parseOfxStatement(content: string): ParsedStatementLine[] {
+  const blocks = content.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || [];
+
+  return blocks.map((block, index) => {
+    const posted = ofxValue(block, "DTPOSTED") || "";
+    const date = toIsoDate(
+      Number(posted.slice(0, 4)),
+      Number(posted.slice(4, 6)),
+      Number(posted.slice(6, 8))
+    );
+    const amount = Number(ofxValue(block, "TRNAMT"));
+    if (!date || !isFinite(amount)) {
+      throw new Error(`Transaction ${index + 1}: missing date or amount`);
+    }
+    const name = ofxValue(block, "NAME");
+    const memo = ofxValue(block, "MEMO");
+
+    return {
+      date,
+      description: [name, memo].filter(Boolean).join(" - ") || "Bank entry",
+      reference: ofxValue(block, "CHECKNUM") || ofxValue(block, "REFNUM"),
+      amount: Math.round(amount * 100) / 100,
+      externalId: ofxValue(block, "FITID"),
+    };
+  }).filter((line) => line.amount !== 0);
+}
+
+// Tags may carry a namespace prefix, e.g. <ns2:Ntry>
+function xmlValue(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${tag}>`));
+  return match ? decodeXml(match[1].trim()) || null : null;
+}
+
+function xmlBlock(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`));
+  return match ? match[1] : null;
+}
+
+/** Read the entries of an ISO 20022 camt.053 end-of-day statement. */
+export function parseCamtStatement(content: string): ParsedStatementLine[] {
+  const entries = content.match(/<(\w+:)?Ntry>[\s\S]*?<\/(\w+:)?Ntry>/g) || [];
+
+  return entries.map((entry, index) => {
+    const bookingDate = xmlBlock(entry, "BookgDt") || xmlBlock(entry, "ValDt") || "";
+    const dateText = xmlValue(bookingDate, "Dt") || xmlValue(bookingDate, "DtTm") || "";
+    const date = toIsoDate(
+      Number(dateText.slice(0, 4)),
+      Number(dateText.slice(5, 7)),
+      Number(dateText.slice(8, 10))
+    );
+    const amount = Number(xmlValue(entry, "Amt"));
+    if (!date || !isFinite(amount)) {
+      throw new Error(`Entry ${index + 1}: missing booking date or amount`);
+    }
+    const isDebit = xmlValue(entry, "CdtDbtInd") === "DBIT";
+    const remittance = xmlBlock(entry, "RmtInf");
+    const counterparty = xmlBlock(entry, isDebit ? "Cdtr" : "Dbtr");
+    const description = [
+      counterparty && xmlValue(counterparty, "Nm"),
+      (remittance && xmlValue(remittance, "Ustrd")) || xmlValue(entry, "AddtlNtryInf"),
+    ]
+      .filter(Boolean)
+      .join(" - ");
+    const endToEndId = xmlValue(entry, "EndToEndId");
+
+    return {
+      date,
+      description: description || "Bank entry",
+      reference: (endToEndId !== "NOTPROVIDED" && endToEndId) || xmlValue(entry, "NtryRef"),
+      amount: Math.round((isDebit ? -amount : amount) * 100) / 100,
+      externalId: xmlValue(entry, "AcctSvcrRef"),
+    };
+  }).filter((line) => line.amount !== 0);
+}
+
+export function parseStatementFile(
+  format: StatementFileFormat,
+  content: string,
+  mapping?: CsvColumnMapping | null
+): ParsedStatementLine[] {
+  if (format === "ofx") return parseOfxStatement(content);
+  if (format === "camt053") return parseCamtStatement(content);
+  return parseCsvStatement(content, mapping!);
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { toCsv, toCsvCell } from "@/lib/csv";
+
+describe("toCsvCell", () => {
+  it("quotes values and doubles embedded quotes", () => {
+    expect(toCsvCell('Ravi "RK" Kumar')).toBe('"Ravi ""RK"" Kumar"');
+    expect(toCsvCell(12.5)).toBe('"12.5"');
+  });
+
+  it("defuses text a spreadsheet would run as a formula", () => {
+    expect(toCsvCell("=HYPERLINK(\"http://x\")")).toBe('"\'=HYPERLINK(""http://x"")"');
+    expect(toCsvCell("+91 98765")).toBe('"\'+91 98765"');
+    expect(toCsvCell("-cmd")).toBe('"\'-cmd"');
+    expect(toCsvCell("@SUM(A1)")).toBe('"\'@SUM(A1)"');
+  });
+
+  it("leaves negative and signed amounts readable as numbers", () => {
+    expect(toCsvCell("-120.50")).toBe('"-120.50"');
+    expect(toCsvCell(-120.5)).toBe('"-120.5"');
+    expect(toCsvCell("+15")).toBe('"+15"');
+  });
+});
+
+describe("toCsv", () => {
+  it("writes the header row followed by the data rows", () => {
+    expect(toCsv(["Name", "Amount"], [["Asha", "10.00"]])).toBe('"Name","Amount"\n"Asha","10.00"');
+  });
+});
@@ -0,0 +1,22 @@
+// lib/csv.ts
+
+// Spreadsheets run a cell that starts with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+/**
+ * Quote a value for a CSV cell. Text that a spreadsheet would read as a
+ * formula is prefixed with an apostrophe; plain numbers such as a negative
+ * balance are left as they are.
+ */
+export function toCsvCell(value: string | number): string {
+  let text = String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function toCsv(headers: string[], rows: (string | number)[][]): string {
+  return [headers, ...rows].map((row) => row.map(toCsvCell).join(",")).join("\n");
+}
@@ -0,0 +1,283 @@
+// lib/customers.ts
+import mysql from "mysql2/promise";
+import { roundCurrency } from "@/lib/receipt-totals";
+import type { DueChargeStatus, DueChargeType } from "@/lib/late-fees";
+
+export interface Customer {
+  id: number;
+  name: string;
+  countryCode: string;
+  contact: string;
+  gstNumber: string | null;
+  email: string | null;
+  createdAt: string;
+}
+
+export interface CustomerSummary extends Customer {
+  receiptCount: number;
+  lifetimeValue: number;
+  outstanding: number;
+  lastPurchaseDate: string | null;
+}
+
+export interface CustomerReceipt {
+  id: number;
+  receiptNumber: string;
+  date: string;
+  total: number;
+  dueTotal: number;
+  paymentStatus: string;
+  status: "active" | "void";
+}
+
+export interface CustomerPayment {
+  id: number;
+  date: string;
+  particulars: string;
+  amount: number;
+  type: "credit" | "debit";
+  receiptNumber: string | null;
+}
+
+export interface CustomerDue {
+  id: number;
+  receiptNumber: string | null;
+  amountDue: number;
+  amountPaid: number;
+  remaining: number;
+  expectedPaymentDate: string;
+  installmentNumber: number;
+  installmentCount: number;
+  status: "open" | "disputed";
+}
+
+export interface CustomerCharge {
+  id: number;
+  dueRecordId: number;
+  receiptNumber: string | null;
+  chargeType: DueChargeType;
+  amount: number;
+  periodStart: string;
+  periodEnd: string;
+  status: DueChargeStatus;
+}
+
+export interface CustomerLedger {
+  customer: CustomerSummary;
+  receipts: CustomerReceipt[];
+  payments: CustomerPayment[];
+  dues: CustomerDue[];
+  charges: CustomerCharge[];
+  totalPaid: number;
+  totalRefunded: number;
+}
+
+interface CustomerDetails {
+  name: string;
+  countryCode?: string | null;
+  contact: string;
+  gstNumber?: string | null;
+}
+
+/**
+ * Find or create the customer for a phone number, refreshing the stored name
+ * and GSTIN from the latest receipt. Returns the customer id.
+ */
+export async function upsertCustomer(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  details: CustomerDetails
+): Promise<number> {
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT INTO customers (user_id, name, country_code, contact, gst_number)
+     VALUES (?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       id = LAST_INSERT_ID(id),
+       name = VALUES(name),
+       gst_number = COALESCE(VALUES(gst_number), gst_number)`,
+    [
+      userId,
+      details.name.trim(),
+      details.countryCode || "+91",
+      details.contact.trim(),
+      details.gstNumber || null,
+    ]
+  );
+  return result.insertId;
+}
+
+// Lifetime value counts active receipts net of credit notes; outstanding
+// includes late fees and interest not yet collected or waived
+const SUMMARY_COLUMNS = `
+  c.id, c.name, c.country_code, c.contact, c.gst_number, c.email,
+  CAST(c.created_at AS CHAR) AS created_at,
+  (SELECT COUNT(*) FROM receipts r
+   WHERE r.customer_id = c.id AND r.status = 'active') AS receipt_count,
+  (SELECT COALESCE(SUM(r.total), 0) FROM receipts r
+   WHERE r.customer_id = c.id AND r.status = 'active')
+  - (SELECT COALESCE(SUM(cn.total), 0) FROM credit_notes cn
+     JOIN receipts r ON cn.receipt_id = r.id
+     WHERE r.customer_id = c.id AND r.status = 'active') AS lifetime_value,
+  (SELECT COALESCE(SUM(d.amount_due - d.amount_paid), 0) FROM due_records d
+   WHERE d.customer_id = c.id AND d.is_paid = FALSE AND d.status IN ('open', 'disputed'))
+  + (SELECT COALESCE(SUM(dc.amount), 0) FROM due_charges dc
+     JOIN due_records d ON dc.due_record_id = d.id
+     WHERE d.customer_id = c.id AND dc.status = 'outstanding') AS outstanding,
+  (SELECT DATE_FORMAT(MAX(r.date), '%Y-%m-%d') FROM receipts r
+   WHERE r.customer_id = c.id AND r.status = 'active') AS last_purchase_date`;
+
+function toCustomerSummary(row: mysql.RowDataPacket): CustomerSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    countryCode: row.country_code,
+    contact: row.contact,
+    gstNumber: row.gst_number || null,
+    email: row.email || null,
+    createdAt: row.created_at,
+    receiptCount: Number(row.receipt_count) || 0,
+    lifetimeValue: roundCurrency(Number(row.lifetime_value) || 0),
+    outstanding: roundCurrency(Number(row.outstanding) || 0),
+    lastPurchaseDate: row.last_purchase_date || null,
+  };
+}
+
+/**
+ * Customers whose name or phone number contains the search text, most
+ * recently updated first. An empty search lists everyone.
+ */
+export async function searchCustomers(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  search: string,
+  limit = 20
+): Promise<CustomerSummary[]> {
+  const pattern = `%${search.trim().replace(/[\\%_]/g, "\\$&")}%`;
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT ${SUMMARY_COLUMNS}
+     FROM customers c
+     WHERE c.user_id = ? AND (c.name LIKE ? OR c.contact LIKE ?)
+     ORDER BY c.updated_at DESC, c.id DESC
+     LIMIT ?`,
+    [userId, pattern, pattern, limit]
+  );
+  return rows.map(toCustomerSummary);
+}
+
+/**
+ * Everything recorded against one customer: receipts, money received or
+ * refunded, the dues still open and the late charges levied on them.
+ */
+export async function loadCustomerLedger(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  customerId: number
+): Promise<CustomerLedger | null> {
+  const [customers] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT ${SUMMARY_COLUMNS}
+     FROM customers c
+     WHERE c.id = ? AND c.user_id = ?`,
+    [customerId, userId]
+  );
+  if (customers.length === 0) return null;
+
+  const [receiptRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, receipt_number, DATE_FORMAT(date, '%Y-%m-%d') AS date,
+            total, due_total, payment_status, status
+     FROM receipts
+     WHERE customer_id = ?
+     ORDER BY date DESC, id DESC`,
+    [customerId]
+  );
+
+  const [paymentRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      t.id, t.particulars, t.amount, t.type,
+      DATE_FORMAT(t.transaction_date, '%Y-%m-%d') AS date,
+      COALESCE(r.receipt_number, d.receipt_number, cr.receipt_number) AS receipt_number
+     FROM account_transactions t
+     LEFT JOIN account_transactions o ON t.reverses_transaction_id = o.id
+     LEFT JOIN receipts r ON COALESCE(t.receipt_id, o.receipt_id) = r.id
+     LEFT JOIN due_records d ON COALESCE(t.due_record_id, o.due_record_id) = d.id
+     LEFT JOIN credit_notes cn ON COALESCE(t.credit_note_id, o.credit_note_id) = cn.id
+     LEFT JOIN receipts cr ON cn.receipt_id = cr.id
+     WHERE t.user_id = ? AND t.is_non_cash = FALSE
+     AND (r.customer_id = ? OR d.customer_id = ? OR cr.customer_id = ?)
+     ORDER BY t.transaction_date DESC, t.id DESC`,
+    [userId, customerId, customerId, customerId]
+  );
+
+  const [dueRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, receipt_number, amount_due, amount_paid,
+            DATE_FORMAT(expected_payment_date, '%Y-%m-%d') AS expected_payment_date,
+            installment_number, installment_count, status
+     FROM due_records
+     WHERE customer_id = ? AND is_paid = FALSE AND status IN ('open', 'disputed')
+     ORDER BY expected_payment_date ASC, id ASC`,
+    [customerId]
+  );
+
+  const [chargeRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT c.id, c.due_record_id, d.receipt_number, c.charge_type, c.amount, c.status,
+            DATE_FORMAT(c.period_start, '%Y-%m-%d') AS period_start,
+            DATE_FORMAT(c.period_end, '%Y-%m-%d') AS period_end
+     FROM due_charges c
+     JOIN due_records d ON c.due_record_id = d.id
+     WHERE d.customer_id = ? AND c.user_id = ?
+     ORDER BY c.period_end DESC, c.id DESC`,
+    [customerId, userId]
+  );
+
+  const payments: CustomerPayment[] = paymentRows.map((row) => ({
+    id: row.id,
+    date: row.date,
+    particulars: row.particulars,
+    amount: Number(row.amount) || 0,
+    type: row.type === "debit" ? "debit" : "credit",
+    receiptNumber: row.receipt_number || null,
+  }));
+
+  const sumOf = (type: "credit" | "debit") =>
+    roundCurrency(
+      payments
+        .filter((payment) => payment.type === type)
+        .reduce((sum, payment) => sum + payment.amount, 0)
+    );
+
+  return {
+    customer: toCustomerSummary(customers[0]),
+    receipts: receiptRows.map((row) => ({
+      id: row.id,
+      receiptNumber: row.receipt_number,
+      date: row.date,
+      total: Number(row.total) || 0,
+      dueTotal: Number(row.due_total) || 0,
+      paymentStatus: row.payment_status,
+      status: row.status === "void" ? "void" : "active",
+    })),
+    payments,
+    dues: dueRows.map((row) => ({
+      id: row.id,
+      receiptNumber: row.receipt_number || null,
+      amountDue: Number(row.amount_due) || 0,
+      amountPaid: Number(row.amount_paid) || 0,
+      remaining: roundCurrency(Number(row.amount_due) - Number(row.amount_paid)),
+      expectedPaymentDate: row.expected_payment_date,
+      installmentNumber: Number(row.installment_number) || 1,
+      installmentCount: Number(row.installment_count) || 1,
+      status: row.status,
+    })),
+    charges: chargeRows.map((row) => ({
+      id: row.id,
+      dueRecordId: row.due_record_id,
+      receiptNumber: row.receipt_number || null,
+      chargeType: row.charge_type,
+      amount: Number(row.amount) || 0,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      status: row.status,
+    })),
+    totalPaid: sumOf("credit"),
+    totalRefunded: sumOf("debit"),
+  };
+}
@@ -22,6 +22,73 @@ const dbConfig = {
   timezone: '+00:00', // UTC
 };
 
+// Columns added to tables after they first shipped. CREATE TABLE IF NOT
+// EXISTS leaves an existing table as it is, so databases created by an
+// earlier version get them here.
+const COLUMN_MIGRATIONS = [
+  ['users', 'state_code', 'VARCHAR(2)'],
+  ['receipts', 'place_of_supply', 'VARCHAR(2)'],
+  ['receipts', 'discount', 'DECIMAL(10,2) DEFAULT 0'],
+  ['receipts', 'discount_type', "ENUM('percentage', 'fixed') DEFAULT 'fixed'"],
+  ['receipts', 'discount_amount', 'DECIMAL(10,2) DEFAULT 0'],
+  ['receipts', 'status', "ENUM('active', 'void') DEFAULT 'active'"],
+  ['receipts', 'revision_number', 'INT NOT NULL DEFAULT 1'],
+  ['receipts', 'voided_at', 'TIMESTAMP NULL'],
+  ['receipts', 'void_reason', 'TEXT'],
+  ['receipts', 'customer_id', 'INT'],
+  ['receipt_items', 'hsn_code', 'VARCHAR(8)'],
+  ['receipt_items', 'gst_rate', 'DECIMAL(5, 2)'],
+  ['receipt_items', 'cgst_amount', 'DECIMAL(10, 2) DEFAULT 0'],
+  ['receipt_items', 'sgst_amount', 'DECIMAL(10, 2) DEFAULT 0'],
+  ['receipt_items', 'igst_amount', 'DECIMAL(10, 2) DEFAULT 0'],
+  ['customers', 'email', 'VARCHAR(255)'],
+  ['due_records', 'amount_paid', 'DECIMAL(10,2) NOT NULL DEFAULT 0'],
+  ['due_records', 'status', "ENUM('open', 'disputed', 'written_off', 'cancelled') NOT NULL DEFAULT 'open'"],
+  ['due_records', 'status_reason', 'VARCHAR(255)'],
+  ['due_records', 'status_date', 'DATE'],
+  ['due_records', 'installment_number', 'INT NOT NULL DEFAULT 1'],
+  ['due_records', 'installment_count', 'INT NOT NULL DEFAULT 1'],
+  ['due_records', 'customer_id', 'INT'],
+  ['account_transactions', 'due_payment_id', 'INT'],
+  ['account_transactions', 'credit_note_id', 'INT'],
+  ['account_transactions', 'is_non_cash', 'BOOLEAN NOT NULL DEFAULT FALSE'],
+  ['account_transactions', 'is_late_fee', 'BOOLEAN NOT NULL DEFAULT FALSE'],
+  ['due_charges', 'settlement_transaction_id', 'INT'],
+  ['account_transactions', 'expense_category_id', 'INT'],
+  ['account_transactions', 'payee', 'VARCHAR(255)'],
+  ['account_transactions', 'payment_mode', "ENUM('cash', 'online', 'card', 'cheque')"],
+  ['account_transactions', 'money_account_id', 'INT'],
+  ['account_transactions', 'transfer_id', 'INT'],
+  ['account_transactions', 'reverses_transaction_id', 'INT'],
+  ['notifications', 'is_dismissed', 'BOOLEAN NOT NULL DEFAULT FALSE'],
+  ['notifications', 'link', 'VARCHAR(255)'],
+  ['notifications', 'dedupe_key', 'VARCHAR(100)'],
+];
+
+// Foreign keys on the columns above, as [table, column, reference]
+const FOREIGN_KEY_MIGRATIONS = [
+  ['receipts', 'customer_id', 'customers(id) ON DELETE SET NULL'],
+  ['due_records', 'customer_id', 'customers(id) ON DELETE SET NULL'],
+  ['account_transactions', 'due_payment_id', 'due_payments(id) ON DELETE SET NULL'],
+  ['account_transactions', 'credit_note_id', 'credit_notes(id) ON DELETE SET NULL'],
+  ['account_transactions', 'expense_category_id', 'expense_categories(id) ON DELETE SET NULL'],
+  ['account_transactions', 'money_account_id', 'money_accounts(id)'],
+  ['account_transactions', 'transfer_id', 'account_transfers(id) ON DELETE CASCADE'],
+  ['account_transactions', 'reverses_transaction_id', 'account_transactions(id) ON DELETE CASCADE'],
+  ['due_charges', 'settlement_transaction_id', 'account_transactions(id) ON DELETE SET NULL'],
+];
+
+// Keys added alongside them, as [table, key name, definition]
+const INDEX_MIGRATIONS = [
+  ['due_records', 'idx_due_records_receipt', 'INDEX idx_due_records_receipt (user_id, receipt_number)'],
+  ['due_records', 'idx_due_records_status', 'INDEX idx_due_records_status (user_id, status, status_date)'],
+  ['account_transactions', 'unique_transaction_reversal', 'UNIQUE KEY unique_transaction_reversal (reverses_transaction_id)'],
+  ['account_transactions', 'idx_transactions_category', 'INDEX idx_transactions_category (user_id, expense_category_id)'],
+  ['account_transactions', 'idx_transactions_money_account', 'INDEX idx_transactions_money_account (money_account_id, transaction_date)'],
+  ['notifications', 'unique_notification_dedupe', 'UNIQUE KEY unique_notification_dedupe (user_id, dedupe_key)'],
+  ['notifications', 'idx_notifications_unread', 'INDEX idx_notifications_unread (user_id, is_dismissed, is_read)'],
+];
+
 // Database state management
 let pool = null;
 let isInitializing = false;
@@ -294,6 +361,7 @@ class DatabaseSetup {
           store_contact VARCHAR(20) NOT NULL UNIQUE,
           store_country_code VARCHAR(10) DEFAULT '+91',
           gst_number VARCHAR(15),
+          state_code VARCHAR(2),
           profile_complete BOOLEAN DEFAULT FALSE,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -318,6 +386,39 @@ class DatabaseSetup {
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
       `, [], conn);
 
+      // Expense Categories (retired instead of deleted once used on a transaction)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS expense_categories (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          name VARCHAR(50) NOT NULL,
+          is_active BOOLEAN DEFAULT TRUE,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_expense_category_per_user (user_id, name)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Customers (one per user and phone number; receipts keep their own copy
+      // of the name and contact as printed)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS customers (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          name VARCHAR(100) NOT NULL,
+          country_code VARCHAR(10) NOT NULL DEFAULT '+91',
+          contact VARCHAR(20) NOT NULL,
+          gst_number VARCHAR(15),
+          email VARCHAR(255),
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_customer_per_user (user_id, country_code, contact),
+          INDEX idx_customers_name (user_id, name)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
       // Receipts table
       await this.executeQuery(`
         CREATE TABLE IF NOT EXISTS receipts (
@@ -328,18 +429,28 @@ class DatabaseSetup {
           customer_contact VARCHAR(20) NOT NULL,
           customer_country_code VARCHAR(10) DEFAULT '+91',
           customer_gst_number VARCHAR(15),
+          place_of_supply VARCHAR(2),
           payment_type ENUM('cash', 'online') NOT NULL,
           payment_status ENUM('full', 'advance', 'due') NOT NULL,
           notes TEXT,
           subtotal DECIMAL(10,2) NOT NULL,
           total_tax DECIMAL(10,2) DEFAULT 0,
           total_discount DECIMAL(10,2) DEFAULT 0,
+          discount DECIMAL(10,2) DEFAULT 0,
+          discount_type ENUM('percentage', 'fixed') DEFAULT 'fixed',
+          discount_amount DECIMAL(10,2) DEFAULT 0,
           total DECIMAL(10,2) NOT NULL,
           due_total DECIMAL(10,2) DEFAULT 0,
+          status ENUM('active', 'void') DEFAULT 'active',
+          revision_number INT NOT NULL DEFAULT 1,
+          voided_at TIMESTAMP NULL,
+          void_reason TEXT,
+          customer_id INT,
           user_id INT NOT NULL,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
           FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
           INDEX idx_receipts_user_id (user_id),
           INDEX idx_receipts_date (date)
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -351,12 +462,17 @@ class DatabaseSetup {
           id INT AUTO_INCREMENT PRIMARY KEY,
           receipt_id INT NOT NULL,
           description VARCHAR(255) NOT NULL,
+          hsn_code VARCHAR(8),
           quantity INT NOT NULL CHECK (quantity > 0),
           price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
           discount DECIMAL(10, 2) DEFAULT 0,
           discount_type ENUM('percentage', 'fixed') DEFAULT 'fixed',
           gst_slab_id INT,
+          gst_rate DECIMAL(5, 2),
           tax_amount DECIMAL(10, 2) DEFAULT 0,
+          cgst_amount DECIMAL(10, 2) DEFAULT 0,
+          sgst_amount DECIMAL(10, 2) DEFAULT 0,
+          igst_amount DECIMAL(10, 2) DEFAULT 0,
           advance_amount DECIMAL(10, 2) DEFAULT 0,
           due_amount DECIMAL(10, 2) DEFAULT 0,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
@@ -366,6 +482,40 @@ class DatabaseSetup {
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
       `, [], conn);
 
+      // Receipt Revisions (snapshot of every superseded version of a receipt)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS receipt_revisions (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          receipt_id INT NOT NULL,
+          revision_number INT NOT NULL,
+          change_type ENUM('edit', 'void') NOT NULL,
+          reason TEXT,
+          snapshot JSON NOT NULL,
+          user_id INT NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (receipt_id) REFERENCES receipts(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_receipt_revision (receipt_id, revision_number),
+          INDEX idx_receipt_revisions_receipt_id (receipt_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Receipt Share Links (public, read-only customer links; the token itself is signed, not stored)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS receipt_share_links (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          receipt_id INT NOT NULL,
+          user_id INT NOT NULL,
+          expires_at DATETIME NULL,
+          revoked_at DATETIME NULL,
+          last_viewed_at DATETIME NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (receipt_id) REFERENCES receipts(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          INDEX idx_receipt_share_links_receipt_id (receipt_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
       // Payment Details
       await this.executeQuery(`
         CREATE TABLE IF NOT EXISTS payment_details (
@@ -389,22 +539,169 @@ class DatabaseSetup {
           customer_gst_number VARCHAR(15),
           product_ordered TEXT NOT NULL,
           quantity INT NOT NULL CHECK (quantity > 0),
-          amount_due DECIMAL(10,2) NOT NULL CHECK (amount_due > 0),
+          amount_due DECIMAL(10,2) NOT NULL CHECK (amount_due >= 0),
+          amount_paid DECIMAL(10,2) NOT NULL DEFAULT 0,
           tax_amount DECIMAL(10,2) DEFAULT 0,
           expected_payment_date DATE NOT NULL,
           is_paid BOOLEAN DEFAULT FALSE,
           paid_at TIMESTAMP NULL,
+          status ENUM('open', 'disputed', 'written_off', 'cancelled') NOT NULL DEFAULT 'open',
+          status_reason VARCHAR(255),
+          status_date DATE,
           receipt_number VARCHAR(20),
+          installment_number INT NOT NULL DEFAULT 1,
+          installment_count INT NOT NULL DEFAULT 1,
+          customer_id INT,
           user_id INT NOT NULL,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
           FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
           INDEX idx_due_records_user_id (user_id),
-          INDEX idx_due_records_is_paid (is_paid)
+          INDEX idx_due_records_is_paid (is_paid),
+          INDEX idx_due_records_receipt (user_id, receipt_number),
+          INDEX idx_due_records_status (user_id, status, status_date)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Due Payments (instalments against a due record; the record closes once fully paid)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS due_payments (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          due_record_id INT NOT NULL,
+          amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+          payment_date DATE NOT NULL,
+          payment_mode ENUM('cash', 'online') NOT NULL DEFAULT 'cash',
+          notes TEXT,
+          user_id INT NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (due_record_id) REFERENCES due_records(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          INDEX idx_due_payments_due_record_id (due_record_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Late Fee Settings (one row per user; interest_rate is a percentage
+      // per day or per month depending on charge_type)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS late_fee_settings (
+          user_id INT PRIMARY KEY,
+          charge_type ENUM('none', 'flat', 'daily_interest', 'monthly_interest') NOT NULL DEFAULT 'none',
+          flat_fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+          interest_rate DECIMAL(6,3) NOT NULL DEFAULT 0,
+          grace_days INT NOT NULL DEFAULT 0,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Due Charges (late fees and interest accrued on overdue dues; interest
+      // builds up in one row per due and calendar month; paid charges point
+      // to the account_transactions row that collected them)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS due_charges (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          due_record_id INT NOT NULL,
+          user_id INT NOT NULL,
+          charge_type ENUM('late_fee', 'interest') NOT NULL,
+          amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+          period_start DATE NOT NULL,
+          period_end DATE NOT NULL,
+          status ENUM('outstanding', 'paid', 'waived') NOT NULL DEFAULT 'outstanding',
+          settled_at TIMESTAMP NULL,
+          settlement_transaction_id INT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (due_record_id) REFERENCES due_records(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_due_charge_period (due_record_id, charge_type, period_start),
+          INDEX idx_due_charges_user_status (user_id, status)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Credit Notes (returns against an issued receipt, numbered separately)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS credit_notes (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          credit_note_number VARCHAR(20) NOT NULL UNIQUE,
+          receipt_id INT NOT NULL,
+          date DATE NOT NULL,
+          reason TEXT,
+          refund_mode ENUM('cash', 'online') NOT NULL DEFAULT 'cash',
+          subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+          total_tax DECIMAL(10,2) NOT NULL DEFAULT 0,
+          total DECIMAL(10,2) NOT NULL DEFAULT 0,
+          due_adjusted DECIMAL(10,2) NOT NULL DEFAULT 0,
+          refund_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+          user_id INT NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (receipt_id) REFERENCES receipts(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          INDEX idx_credit_notes_user_id (user_id),
+          INDEX idx_credit_notes_receipt_id (receipt_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Credit Note Items
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS credit_note_items (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          credit_note_id INT NOT NULL,
+          receipt_item_id INT,
+          description VARCHAR(255) NOT NULL,
+          quantity INT NOT NULL CHECK (quantity > 0),
+          unit_price DECIMAL(10, 2) NOT NULL,
+          taxable_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+          tax_amount DECIMAL(10, 2) NOT NULL DEFAULT 0,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (credit_note_id) REFERENCES credit_notes(id) ON DELETE CASCADE,
+          FOREIGN KEY (receipt_item_id) REFERENCES receipt_items(id) ON DELETE SET NULL,
+          INDEX idx_credit_note_items_credit_note_id (credit_note_id)
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
       `, [], conn);
 
-      // Account Transactions
+      // Money Accounts (cash drawer, bank account, UPI wallet; receives marks
+      // the account that cash or online receipt payments land in)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS money_accounts (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          name VARCHAR(50) NOT NULL,
+          kind ENUM('cash', 'bank', 'wallet') NOT NULL DEFAULT 'cash',
+          receives ENUM('cash', 'online'),
+          is_active BOOLEAN DEFAULT TRUE,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_money_account_per_user (user_id, name),
+          UNIQUE KEY unique_money_account_receives (user_id, receives)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Account Transfers (each posts a debit and a credit to account_transactions)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS account_transfers (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          from_account_id INT NOT NULL,
+          to_account_id INT NOT NULL,
+          amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+          transfer_date DATE NOT NULL,
+          notes VARCHAR(255),
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (from_account_id) REFERENCES money_accounts(id),
+          FOREIGN KEY (to_account_id) REFERENCES money_accounts(id),
+          INDEX idx_account_transfers_user (user_id, transfer_date)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Account Transactions (is_non_cash marks book entries such as bad-debt
+      // write-offs that are listed but never move the balance and have no
+      // money account; is_late_fee marks late fees and interest collected on
+      // a due, as against payments of the due itself; on expenses, tax_amount
+      // is the tax paid;
+      // reverses_transaction_id marks a reversing entry, one per original)
       await this.executeQuery(`
         CREATE TABLE IF NOT EXISTS account_transactions (
           id INT AUTO_INCREMENT PRIMARY KEY,
@@ -415,12 +712,31 @@ class DatabaseSetup {
           user_id INT NOT NULL,
           receipt_id INT,
           due_record_id INT,
+          due_payment_id INT,
+          credit_note_id INT,
+          is_non_cash BOOLEAN NOT NULL DEFAULT FALSE,
+          is_late_fee BOOLEAN NOT NULL DEFAULT FALSE,
+          expense_category_id INT,
+          payee VARCHAR(255),
+          payment_mode ENUM('cash', 'online', 'card', 'cheque'),
+          money_account_id INT,
+          transfer_id INT,
+          reverses_transaction_id INT,
           transaction_date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
           FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
           FOREIGN KEY (receipt_id) REFERENCES receipts(id) ON DELETE SET NULL,
           FOREIGN KEY (due_record_id) REFERENCES due_records(id) ON DELETE SET NULL,
-          INDEX idx_transactions_user_id (user_id)
+          FOREIGN KEY (due_payment_id) REFERENCES due_payments(id) ON DELETE SET NULL,
+          FOREIGN KEY (credit_note_id) REFERENCES credit_notes(id) ON DELETE SET NULL,
+          FOREIGN KEY (expense_category_id) REFERENCES expense_categories(id) ON DELETE SET NULL,
+          FOREIGN KEY (money_account_id) REFERENCES money_accounts(id),
+          FOREIGN KEY (transfer_id) REFERENCES account_transfers(id) ON DELETE CASCADE,
+          FOREIGN KEY (reverses_transaction_id) REFERENCES account_transactions(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_transaction_reversal (reverses_transaction_id),
+          INDEX idx_transactions_user_id (user_id),
+          INDEX idx_transactions_category (user_id, expense_category_id),
+          INDEX idx_transactions_money_account (money_account_id, transaction_date)
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
       `, [], conn);
 
@@ -438,7 +754,147 @@ class DatabaseSetup {
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
       `, [], conn);
 
-      // Notifications
+      // Transaction Audit Log (every edit, deletion or reversal of an account
+      // entry with the reason given; snapshot is the entry before the change,
+      // and there is no foreign key so the log outlives deleted entries)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS transaction_audit_log (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          account_transaction_id INT NOT NULL,
+          change_type ENUM('edit', 'delete', 'reverse') NOT NULL,
+          reason TEXT NOT NULL,
+          snapshot JSON NOT NULL,
+          reversal_transaction_id INT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          INDEX idx_transaction_audit_user (user_id, created_at),
+          INDEX idx_transaction_audit_transaction (account_transaction_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Ledger Accounts (chart of accounts; system_key marks the accounts
+      // journals are posted to automatically, and cash/bank accounts and
+      // expense categories each get one of their own)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS ledger_accounts (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          code VARCHAR(10) NOT NULL,
+          name VARCHAR(100) NOT NULL,
+          type ENUM('asset', 'liability', 'equity', 'income', 'expense') NOT NULL,
+          system_key VARCHAR(30),
+          money_account_id INT,
+          expense_category_id INT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (money_account_id) REFERENCES money_accounts(id) ON DELETE CASCADE,
+          FOREIGN KEY (expense_category_id) REFERENCES expense_categories(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_ledger_account_code (user_id, code),
+          UNIQUE KEY unique_ledger_account_system (user_id, system_key),
+          UNIQUE KEY unique_ledger_account_money (money_account_id),
+          UNIQUE KEY unique_ledger_account_category (expense_category_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Journal Entries (exactly one source link is set; each source has at
+      // most one entry, and it goes when the source row is deleted)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS journal_entries (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          entry_date DATE NOT NULL,
+          narration VARCHAR(255) NOT NULL,
+          receipt_id INT,
+          credit_note_id INT,
+          account_transaction_id INT,
+          transfer_id INT,
+          due_record_id INT,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (receipt_id) REFERENCES receipts(id) ON DELETE CASCADE,
+          FOREIGN KEY (credit_note_id) REFERENCES credit_notes(id) ON DELETE CASCADE,
+          FOREIGN KEY (account_transaction_id) REFERENCES account_transactions(id) ON DELETE CASCADE,
+          FOREIGN KEY (transfer_id) REFERENCES account_transfers(id) ON DELETE CASCADE,
+          FOREIGN KEY (due_record_id) REFERENCES due_records(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_journal_receipt (receipt_id),
+          UNIQUE KEY unique_journal_credit_note (credit_note_id),
+          UNIQUE KEY unique_journal_transaction (account_transaction_id),
+          UNIQUE KEY unique_journal_transfer (transfer_id),
+          UNIQUE KEY unique_journal_due (due_record_id),
+          INDEX idx_journal_entries_user_date (user_id, entry_date)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Journal Lines (one side per line; an entry's debits equal its credits)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS journal_lines (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          journal_entry_id INT NOT NULL,
+          ledger_account_id INT NOT NULL,
+          debit DECIMAL(12,2) NOT NULL DEFAULT 0,
+          credit DECIMAL(12,2) NOT NULL DEFAULT 0,
+          FOREIGN KEY (journal_entry_id) REFERENCES journal_entries(id) ON DELETE CASCADE,
+          FOREIGN KEY (ledger_account_id) REFERENCES ledger_accounts(id),
+          CHECK (debit >= 0 AND credit >= 0 AND (debit = 0 OR credit = 0)),
+          INDEX idx_journal_lines_account (ledger_account_id)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Bank Statements (an uploaded statement for one money account;
+      // column_mapping keeps a CSV's layout so the next upload can reuse it)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS bank_statements (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          money_account_id INT NOT NULL,
+          file_name VARCHAR(255) NOT NULL,
+          format ENUM('csv', 'ofx', 'camt053') NOT NULL,
+          column_mapping JSON,
+          period_start DATE,
+          period_end DATE,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (money_account_id) REFERENCES money_accounts(id) ON DELETE CASCADE,
+          INDEX idx_bank_statements_account (money_account_id, created_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Bank Statement Lines (amount is signed, money in positive; external_id
+      // is the bank's id for the line, or a hash of it, so re-uploading a
+      // statement skips lines already imported; a transaction can be matched
+      // to one line only)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS bank_statement_lines (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          statement_id INT NOT NULL,
+          user_id INT NOT NULL,
+          money_account_id INT NOT NULL,
+          line_date DATE NOT NULL,
+          description VARCHAR(255) NOT NULL,
+          reference VARCHAR(100),
+          amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0),
+          external_id VARCHAR(100) NOT NULL,
+          status ENUM('unmatched', 'matched', 'reconciled', 'ignored') NOT NULL DEFAULT 'unmatched',
+          account_transaction_id INT,
+          due_record_id INT,
+          match_score INT,
+          reconciled_at TIMESTAMP NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (statement_id) REFERENCES bank_statements(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (money_account_id) REFERENCES money_accounts(id) ON DELETE CASCADE,
+          FOREIGN KEY (account_transaction_id) REFERENCES account_transactions(id) ON DELETE SET NULL,
+          FOREIGN KEY (due_record_id) REFERENCES due_records(id) ON DELETE SET NULL,
+          UNIQUE KEY unique_statement_line (money_account_id, external_id),
+          UNIQUE KEY unique_statement_line_transaction (account_transaction_id),
+          INDEX idx_statement_lines_status (statement_id, status)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Notifications (dedupe_key stops an event such as "due #12 is overdue"
+      // from being announced twice; NULL keys never collide)
       await this.executeQuery(`
         CREATE TABLE IF NOT EXISTS notifications (
           id INT AUTO_INCREMENT PRIMARY KEY,
@@ -447,13 +903,80 @@ class DatabaseSetup {
           message TEXT NOT NULL,
           type ENUM('overdue', 'system', 'payment', 'gst') NOT NULL,
           is_read BOOLEAN DEFAULT FALSE,
+          is_dismissed BOOLEAN NOT NULL DEFAULT FALSE,
           related_id INT,
+          link VARCHAR(255),
+          dedupe_key VARCHAR(100),
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_notification_dedupe (user_id, dedupe_key),
+          INDEX idx_notifications_user_id (user_id),
+          INDEX idx_notifications_unread (user_id, is_dismissed, is_read)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Reminder Rules (when to remind customers about an open due, relative
+      // to its expected payment date, and the message to send)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS reminder_rules (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          name VARCHAR(100) NOT NULL,
+          channel ENUM('email', 'sms', 'whatsapp') NOT NULL,
+          offset_days INT NOT NULL DEFAULT 0,
+          repeat_every_days INT,
+          subject VARCHAR(255),
+          template TEXT NOT NULL,
+          is_active BOOLEAN NOT NULL DEFAULT TRUE,
           created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
           FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-          INDEX idx_notifications_user_id (user_id)
+          INDEX idx_reminder_rules_user_id (user_id)
         ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
       `, [], conn);
 
+      // Reminder Outbox (rendered messages waiting for the background worker;
+      // one row per rule, due and day so a rule never fires twice)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS reminder_outbox (
+          id INT AUTO_INCREMENT PRIMARY KEY,
+          user_id INT NOT NULL,
+          rule_id INT,
+          due_record_id INT NOT NULL,
+          channel ENUM('email', 'sms', 'whatsapp') NOT NULL,
+          recipient VARCHAR(255) NOT NULL,
+          subject VARCHAR(255),
+          body TEXT NOT NULL,
+          status ENUM('pending', 'sending', 'sent', 'failed', 'cancelled') NOT NULL DEFAULT 'pending',
+          attempts INT NOT NULL DEFAULT 0,
+          last_error TEXT,
+          occurrence_date DATE NOT NULL,
+          scheduled_for DATETIME NOT NULL,
+          sent_at DATETIME NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (rule_id) REFERENCES reminder_rules(id) ON DELETE SET NULL,
+          FOREIGN KEY (due_record_id) REFERENCES due_records(id) ON DELETE CASCADE,
+          UNIQUE KEY unique_reminder_occurrence (rule_id, due_record_id, occurrence_date),
+          INDEX idx_reminder_outbox_status (status, scheduled_for),
+          INDEX idx_reminder_outbox_user_id (user_id, created_at)
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Schema Migrations (one-off data fixes that have been applied)
+      await this.executeQuery(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          name VARCHAR(100) PRIMARY KEY,
+          applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+      `, [], conn);
+
+      // Bring tables from earlier versions up to date before the triggers
+      // and procedures that read the new columns are recreated
+      await this.migrateSchema(conn);
+      await this.runDataMigrations(conn);
+
       await conn.commit();
       console.log("✅ Database setup completed successfully");
       // === Triggers & Procedures (must be outside transaction) ===
@@ -469,6 +992,202 @@ class DatabaseSetup {
     }
   }
 
+  /**
+   * Add the columns, foreign keys and indexes an existing database is
+   * missing. Each is looked up in information_schema first, so this is a
+   * no-op on a database that is already current.
+   */
+  async migrateSchema(conn) {
+    const hasColumn = async (table, column) => {
+      const rows = await this.executeQuery(
+        `SELECT 1 FROM information_schema.COLUMNS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+        [table, column], conn
+      );
+      return rows.length > 0;
+    };
+
+    for (const [table, column, definition] of COLUMN_MIGRATIONS) {
+      if (await hasColumn(table, column)) continue;
+      console.log(`Adding ${table}.${column}...`);
+      await this.executeQuery(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`, [], conn);
+    }
+
+    for (const [table, column, reference] of FOREIGN_KEY_MIGRATIONS) {
+      const rows = await this.executeQuery(
+        `SELECT 1 FROM information_schema.KEY_COLUMN_USAGE
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?
+         AND REFERENCED_TABLE_NAME IS NOT NULL`,
+        [table, column], conn
+      );
+      if (rows.length > 0) continue;
+      await this.executeQuery(
+        `ALTER TABLE ${table} ADD CONSTRAINT fk_${table}_${column}
+         FOREIGN KEY (${column}) REFERENCES ${reference}`,
+        [], conn
+      );
+    }
+
+    for (const [table, name, definition] of INDEX_MIGRATIONS) {
+      const rows = await this.executeQuery(
+        `SELECT 1 FROM information_schema.STATISTICS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?`,
+        [table, name], conn
+      );
+      if (rows.length > 0) continue;
+      await this.executeQuery(`ALTER TABLE ${table} ADD ${definition}`, [], conn);
+    }
+  }
+
+  /**
+   * Fill in data that rows saved by earlier versions lack. Each step is
+   * recorded in schema_migrations and never runs twice.
+   */
+  async runDataMigrations(conn) {
+    const migrations = [
+      // Dues settled before partial payments kept no running total
+      ['due_records_amount_paid', () => this.executeQuery(`
+        UPDATE due_records SET amount_paid = amount_due, updated_at = updated_at
+        WHERE is_paid = TRUE AND amount_paid = 0
+      `, [], conn)],
+      // Tax on items saved before the CGST/SGST split was all intra-state
+      ['receipt_items_gst_split', () => this.executeQuery(`
+        UPDATE receipt_items
+        SET cgst_amount = ROUND(tax_amount / 2, 2),
+            sgst_amount = tax_amount - ROUND(tax_amount / 2, 2)
+        WHERE tax_amount > 0 AND cgst_amount = 0 AND sgst_amount = 0 AND igst_amount = 0
+      `, [], conn)],
+      ['backfill_customers', () => this.backfillCustomers(conn)],
+      ['account_transactions_late_fee', () => this.flagLateFeeTransactions(conn)],
+      // A due closed by a credit note before anything was paid owes nothing
+      ['due_records_amount_due_check', () => this.relaxDueAmountCheck(conn)],
+      // Link charges collected before the link existed to the late fee
+      // entry that was recorded with them
+      ['due_charges_settlement', () => this.executeQuery(`
+        UPDATE due_charges c
+        JOIN account_transactions t
+          ON t.due_record_id = c.due_record_id AND t.is_late_fee = TRUE
+          AND ABS(TIMESTAMPDIFF(SECOND, c.settled_at, t.created_at)) < 60
+        SET c.settlement_transaction_id = t.id, c.updated_at = c.updated_at
+        WHERE c.status = 'paid' AND c.settlement_transaction_id IS NULL
+      `, [], conn)],
+      // Reversals used to drop the receipt, due and credit note they undo
+      ['account_transactions_reversal_links', () => this.executeQuery(`
+        UPDATE account_transactions rv
+        JOIN account_transactions t ON rv.reverses_transaction_id = t.id
+        SET rv.receipt_id = t.receipt_id, rv.due_record_id = t.due_record_id,
+            rv.credit_note_id = t.credit_note_id
+        WHERE rv.receipt_id IS NULL AND rv.due_record_id IS NULL AND rv.credit_note_id IS NULL
+      `, [], conn)],
+      // Runs last, so it also posts whatever the steps above left unposted
+      ['ledger_backfill', () => this.backfillLedger(conn)],
+    ];
+
+    const applied = await this.executeQuery(`SELECT name FROM schema_migrations`, [], conn);
+    const appliedNames = new Set(applied.map((row) => row.name));
+
+    for (const [name, run] of migrations) {
+      if (appliedNames.has(name)) continue;
+      console.log(`Running data migration ${name}...`);
+      await run();
+      await this.executeQuery(`INSERT INTO schema_migrations (name) VALUES (?)`, [name], conn);
+    }
+  }
+
+  /**
+   * Create customers for receipts and dues saved before the customer master
+   * existed and link the rows to them. The latest name and GSTIN seen for a
+   * phone number win.
+   */
+  async backfillCustomers(conn) {
+    for (const table of ['receipts', 'due_records']) {
+      await this.executeQuery(`
+        INSERT INTO customers (user_id, name, country_code, contact, gst_number)
+        SELECT user_id, customer_name, COALESCE(customer_country_code, '+91'),
+               customer_contact, customer_gst_number
+        FROM ${table}
+        WHERE customer_id IS NULL
+        ORDER BY id ASC
+        ON DUPLICATE KEY UPDATE
+          name = VALUES(name),
+          gst_number = COALESCE(VALUES(gst_number), gst_number)
+      `, [], conn);
+
+      await this.executeQuery(`
+        UPDATE ${table} t
+        JOIN customers c
+          ON c.user_id = t.user_id
+          AND c.country_code = COALESCE(t.customer_country_code, '+91')
+          AND c.contact = t.customer_contact
+        SET t.customer_id = c.id, t.updated_at = t.updated_at
+        WHERE t.customer_id IS NULL
+      `, [], conn);
+    }
+  }
+
+  /**
+   * Mark the late fees collected before is_late_fee existed, then drop the
+   * journals of due settlements that were posted as late fee income, along
+   * with their reversals, so the ledger posts them again against receivables.
+   */
+  async flagLateFeeTransactions(conn) {
+    await this.executeQuery(`
+      UPDATE account_transactions SET is_late_fee = TRUE
+      WHERE due_record_id IS NOT NULL AND due_payment_id IS NULL AND type = 'credit'
+      AND reverses_transaction_id IS NULL AND particulars LIKE 'Late fee & interest from %'
+    `, [], conn);
+
+    await this.executeQuery(`
+      DELETE je FROM journal_entries je
+      JOIN account_transactions t ON je.account_transaction_id = t.id
+      LEFT JOIN account_transactions o ON t.reverses_transaction_id = o.id
+      WHERE COALESCE(o.due_record_id, t.due_record_id) IS NOT NULL
+      AND COALESCE(o.due_payment_id, t.due_payment_id) IS NULL
+      AND COALESCE(o.type, t.type) = 'credit'
+      AND COALESCE(o.is_late_fee, t.is_late_fee) = FALSE
+      AND COALESCE(o.is_non_cash, t.is_non_cash) = FALSE
+      AND COALESCE(o.credit_note_id, t.credit_note_id) IS NULL
+    `, [], conn);
+  }
+
+  /**
+   * Swap the amount_due > 0 check that earlier versions created for
+   * amount_due >= 0.
+   */
+  async relaxDueAmountCheck(conn) {
+    const checks = await this.executeQuery(`
+      SELECT cc.CONSTRAINT_NAME AS name, cc.CHECK_CLAUSE AS clause
+      FROM information_schema.TABLE_CONSTRAINTS tc
+      JOIN information_schema.CHECK_CONSTRAINTS cc
+        ON cc.CONSTRAINT_SCHEMA = tc.TABLE_SCHEMA AND cc.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+      WHERE tc.TABLE_SCHEMA = DATABASE() AND tc.TABLE_NAME = 'due_records'
+      AND tc.CONSTRAINT_TYPE = 'CHECK'
+    `, [], conn);
+
+    for (const check of checks) {
+      if (!/amount_due`?\s*>\s*0/.test(check.clause)) continue;
+      await this.executeQuery(`ALTER TABLE due_records DROP CHECK \`${check.name}\``, [], conn);
+      await this.executeQuery(
+        `ALTER TABLE due_records ADD CONSTRAINT chk_due_records_amount_due CHECK (amount_due >= 0)`,
+        [], conn
+      );
+    }
+  }
+
+  /**
+   * Post journal entries for everything recorded before the ledger existed.
+   * From then on each write posts its own entry.
+   */
+  async backfillLedger(conn) {
+    // Loaded only when the step runs, so plain database access doesn't pull
+    // in the ledger
+    const { postUnpostedJournals } = require('./ledger');
+    const users = await this.executeQuery(`SELECT id FROM users`, [], conn);
+    for (const user of users) {
+      await postUnpostedJournals(conn, user.id);
+    }
+  }
+
   async createTriggers(conn) {
     console.log("Creating triggers...");
 
@@ -478,19 +1197,26 @@ class DatabaseSetup {
       AFTER INSERT ON account_transactions
       FOR EACH ROW
       BEGIN
-        IF (SELECT COUNT(*) FROM account_balances WHERE user_id = NEW.user_id) = 0 THEN
-          INSERT INTO account_balances (user_id, balance, total_tax_collected)
-          VALUES (NEW.user_id, IF(NEW.type = 'credit', NEW.amount, -NEW.amount), NEW.tax_amount);
-        ELSE
-          IF NEW.type = 'credit' THEN
-            UPDATE account_balances 
-            SET balance = balance + NEW.amount,
-                total_tax_collected = total_tax_collected + NEW.tax_amount
-            WHERE user_id = NEW.user_id;
+        -- Book entries such as bad-debt write-offs leave the balance alone
+        IF NOT NEW.is_non_cash THEN
+          IF (SELECT COUNT(*) FROM account_balances WHERE user_id = NEW.user_id) = 0 THEN
+            INSERT INTO account_balances (user_id, balance, total_tax_collected)
+            VALUES (
+              NEW.user_id,
+              IF(NEW.type = 'credit', NEW.amount, -NEW.amount),
+              IF(NEW.type = 'credit', NEW.tax_amount, 0)
+            );
           ELSE
-            UPDATE account_balances 
-            SET balance = balance - NEW.amount
-            WHERE user_id = NEW.user_id;
+            IF NEW.type = 'credit' THEN
+              UPDATE account_balances 
+              SET balance = balance + NEW.amount,
+                  total_tax_collected = total_tax_collected + NEW.tax_amount
+              WHERE user_id = NEW.user_id;
+            ELSE
+              UPDATE account_balances 
+              SET balance = balance - NEW.amount
+              WHERE user_id = NEW.user_id;
+            END IF;
           END IF;
         END IF;
       END
@@ -504,13 +1230,13 @@ class DatabaseSetup {
       BEGIN
         IF (SELECT COUNT(*) FROM account_balances WHERE user_id = NEW.user_id) = 0 THEN
           INSERT INTO account_balances (user_id, total_due_balance)
-          VALUES (NEW.user_id, NEW.amount_due);
+          VALUES (NEW.user_id, NEW.amount_due - NEW.amount_paid);
         ELSE
           UPDATE account_balances 
           SET total_due_balance = (
-            SELECT COALESCE(SUM(amount_due), 0) 
+            SELECT COALESCE(SUM(amount_due - amount_paid), 0) 
             FROM due_records 
-            WHERE user_id = NEW.user_id AND is_paid = FALSE
+            WHERE user_id = NEW.user_id AND is_paid = FALSE AND status = 'open'
           )
           WHERE user_id = NEW.user_id;
         END IF;
@@ -522,32 +1248,20 @@ class DatabaseSetup {
       AFTER UPDATE ON due_records
       FOR EACH ROW
       BEGIN
-        IF NEW.is_paid != OLD.is_paid THEN
+        -- Each due payment posts its own transaction, so this only keeps
+        -- the outstanding total in step; disputed, written-off and
+        -- cancelled dues are left out of it
+        IF NEW.is_paid != OLD.is_paid
+          OR NEW.status != OLD.status
+          OR NEW.amount_due != OLD.amount_due
+          OR NEW.amount_paid != OLD.amount_paid THEN
           UPDATE account_balances 
           SET total_due_balance = (
-            SELECT COALESCE(SUM(amount_due), 0)
+            SELECT COALESCE(SUM(amount_due - amount_paid), 0)
             FROM due_records 
-            WHERE user_id = NEW.user_id AND is_paid = FALSE
+            WHERE user_id = NEW.user_id AND is_paid = FALSE AND status = 'open'
           )
           WHERE user_id = NEW.user_id;
-          
-          IF NEW.is_paid = TRUE THEN
-            INSERT INTO account_transactions (
-              particulars, 
-              amount, 
-              type, 
-              tax_amount,
-              user_id, 
-              due_record_id
-            ) VALUES (
-              CONCAT('Payment received for due record #', NEW.id),
-              NEW.amount_due,
-              'credit',
-              NEW.tax_amount,
-              NEW.user_id,
-              NEW.id
-            );
-          END IF;
         END IF;
       END
     `, [], conn);
@@ -587,30 +1301,31 @@ class DatabaseSetup {
       AFTER INSERT ON receipt_items
       FOR EACH ROW
       BEGIN
-        -- Recalculate totals for the receipt based on all its items, including discounts
+        -- Recalculate totals for the receipt based on all its items, including discounts.
+        -- discount_amount is the whole-receipt discount, resolved by the app on save.
         UPDATE receipts
         SET 
           subtotal = (SELECT COALESCE(SUM(
             ri.quantity * ri.price -
             CASE ri.discount_type
-              WHEN 'percentage' THEN (ri.quantity * ri.price * ri.discount / 100)
+              WHEN 'percentage' THEN ROUND(ri.quantity * ri.price * ri.discount / 100, 2)
               ELSE ri.discount
             END
           ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id),
           total_tax = (SELECT COALESCE(SUM(tax_amount), 0) FROM receipt_items WHERE receipt_id = NEW.receipt_id),
           total_discount = (SELECT COALESCE(SUM(
             CASE ri.discount_type
-              WHEN 'percentage' THEN (ri.quantity * ri.price * ri.discount / 100)
+              WHEN 'percentage' THEN ROUND(ri.quantity * ri.price * ri.discount / 100, 2)
               ELSE ri.discount
             END
-          ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id),
+          ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id) + discount_amount,
           total = (SELECT COALESCE(SUM(
             ri.quantity * ri.price -
             CASE ri.discount_type
-              WHEN 'percentage' THEN (ri.quantity * ri.price * ri.discount / 100)
+              WHEN 'percentage' THEN ROUND(ri.quantity * ri.price * ri.discount / 100, 2)
               ELSE ri.discount
             END + ri.tax_amount
-          ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id)
+          ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id) - discount_amount
         WHERE id = NEW.receipt_id;
       END
     `, [], conn);
@@ -626,24 +1341,24 @@ class DatabaseSetup {
           subtotal = (SELECT COALESCE(SUM(
             ri.quantity * ri.price -
             CASE ri.discount_type
-              WHEN 'percentage' THEN (ri.quantity * ri.price * ri.discount / 100)
+              WHEN 'percentage' THEN ROUND(ri.quantity * ri.price * ri.discount / 100, 2)
               ELSE ri.discount
             END
           ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id),
           total_tax = (SELECT COALESCE(SUM(tax_amount), 0) FROM receipt_items WHERE receipt_id = NEW.receipt_id),
           total_discount = (SELECT COALESCE(SUM(
             CASE ri.discount_type
-              WHEN 'percentage' THEN (ri.quantity * ri.price * ri.discount / 100)
+              WHEN 'percentage' THEN ROUND(ri.quantity * ri.price * ri.discount / 100, 2)
               ELSE ri.discount
             END
-          ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id),
+          ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id) + discount_amount,
           total = (SELECT COALESCE(SUM(
             ri.quantity * ri.price -
             CASE ri.discount_type
-              WHEN 'percentage' THEN (ri.quantity * ri.price * ri.discount / 100)
+              WHEN 'percentage' THEN ROUND(ri.quantity * ri.price * ri.discount / 100, 2)
               ELSE ri.discount
             END + ri.tax_amount
-          ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id)
+          ), 0) FROM receipt_items ri WHERE ri.receipt_id = NEW.receipt_id) - discount_amount
         WHERE id = NEW.receipt_id;
       END
     `, [], conn);
@@ -659,24 +1374,24 @@ class DatabaseSetup {
           subtotal = (SELECT COALESCE(SUM(
             ri.quantity * ri.price -
             CASE ri.discount_type
-              WHEN 'percentage' THEN (ri.quantity * ri.price * ri.discount / 100)
+              WHEN 'percentage' THEN ROUND(ri.quantity * ri.price * ri.discount / 100, 2)
               ELSE ri.discount
             END
           ), 0) FROM receipt_items ri WHERE ri.receipt_id = OLD.receipt_id),
-          total_tax = (SELECT COALESCE(SUM(tax_amount), 0) FROM receipt_items WHERE ri.receipt_id = OLD.receipt_id),
+          total_tax = (SELECT COALESCE(SUM(ri.tax_amount), 0) FROM receipt_items ri WHERE ri.receipt_id = OLD.receipt_id),
           total_discount = (SELECT COALESCE(SUM(
             CASE ri.discount_type
-              WHEN 'percentage' THEN (ri.quantity * ri.price * ri.discount / 100)
+              WHEN 'percentage' THEN ROUND(ri.quantity * ri.price * ri.discount / 100, 2)
               ELSE ri.discount
             END
-          ), 0) FROM receipt_items ri WHERE ri.receipt_id = OLD.receipt_id),
+          ), 0) FROM receipt_items ri WHERE ri.receipt_id = OLD.receipt_id) + discount_amount,
           total = (SELECT COALESCE(SUM(
             ri.quantity * ri.price -
             CASE ri.discount_type
-              WHEN 'percentage' THEN (ri.quantity * ri.price * ri.discount / 100)
+              WHEN 'percentage' THEN ROUND(ri.quantity * ri.price * ri.discount / 100, 2)
               ELSE ri.discount
             END + ri.tax_amount
-          ), 0) FROM receipt_items ri WHERE ri.receipt_id = OLD.receipt_id)
+          ), 0) FROM receipt_items ri WHERE ri.receipt_id = OLD.receipt_id) - discount_amount
         WHERE id = OLD.receipt_id;
       END
     `, [], conn);
@@ -688,6 +1403,7 @@ class DatabaseSetup {
     console.log("Creating stored procedures...");
 
     await this.executeQuery(`DROP PROCEDURE IF EXISTS check_profile_complete`, [], conn);
+    // Superseded by the GST reports in lib/gst-reports.ts
     await this.executeQuery(`DROP PROCEDURE IF EXISTS calculate_gst_report`, [], conn);
     await this.executeQuery(`DROP PROCEDURE IF EXISTS generate_gst_invoice`, [], conn);
 
@@ -706,33 +1422,6 @@ class DatabaseSetup {
       END
     `, [], conn);
 
-    // GST report generation
-    await this.executeQuery(`
-      CREATE PROCEDURE calculate_gst_report(
-        IN user_id INT,
-        IN from_date DATE,
-        IN to_date DATE,
-        OUT total_sales DECIMAL(12,2),
-        OUT total_tax DECIMAL(12,2),
-        OUT taxable_value DECIMAL(12,2)
-      )
-      BEGIN
-        -- Calculate totals for the period
-        SELECT 
-          COALESCE(SUM(total), 0),
-          COALESCE(SUM(total_tax), 0),
-          COALESCE(SUM(subtotal), 0)
-        INTO 
-          total_sales,
-          total_tax,
-          taxable_value
-        FROM receipts
-        WHERE 
-          user_id = user_id AND
-          date BETWEEN from_date AND to_date;
-      END
-    `, [], conn);
-
     // GST invoice generation
     await this.executeQuery(`
       CREATE PROCEDURE generate_gst_invoice(IN receipt_id INT)
@@ -755,16 +1444,22 @@ class DatabaseSetup {
           u.gst_number AS seller_gst,
           user_gst_number IS NOT NULL AS has_seller_gst,
           customer_gst_number IS NOT NULL AS has_customer_gst,
+          -- Only GST-registered sellers may issue a tax invoice
+          IF(user_gst_number IS NOT NULL, 'Tax Invoice', 'Bill of Supply') AS invoice_type,
           (SELECT JSON_ARRAYAGG(
             JSON_OBJECT(
               'description', ri.description,
+              'hsn_code', ri.hsn_code,
               'quantity', ri.quantity,
               'price', ri.price,
               'discount', ri.discount,
               'discount_type', ri.discount_type,
               'tax_amount', ri.tax_amount,
+              'cgst_amount', ri.cgst_amount,
+              'sgst_amount', ri.sgst_amount,
+              'igst_amount', ri.igst_amount,
               'gst_slab', IFNULL(gs.slab_name, 'N/A'),
-              'gst_rate', IFNULL(gs.percentage, 0),
+              'gst_rate', COALESCE(ri.gst_rate, gs.percentage, 0),
               'total', (ri.price * ri.quantity) - 
                 CASE WHEN ri.discount_type = 'percentage' 
                 THEN (ri.price * ri.quantity * ri.discount / 100) 
@@ -0,0 +1,364 @@
+// lib/dues.ts
+import mysql from "mysql2/promise";
+import { roundCurrency } from "@/lib/receipt-totals";
+import { formatDateOnlyForMySQL, refreshDueBalance } from "@/lib/receipts";
+import { createNotification } from "@/lib/notifications";
+import { settleDueCharges } from "@/lib/late-fees";
+import { resolveMoneyAccountId } from "@/lib/money-accounts";
+import { postDueJournal, postTransactionJournal } from "@/lib/ledger";
+
+export type DuePaymentMode = "cash" | "online";
+
+export type DueStatus = "open" | "disputed" | "written_off" | "cancelled";
+
+export const DUE_STATUSES: DueStatus[] = ["open", "disputed", "written_off", "cancelled"];
+
+export type DueStatusAction = "dispute" | "reopen" | "write_off" | "cancel";
+
+export interface DueStatusInput {
+  action: DueStatusAction;
+  reason?: string;
+  date?: string;
+}
+
+export interface DueStatusResult {
+  status: DueStatus;
+  // Bad-debt expense posted for a write-off
+  amountWrittenOff: number;
+  chargesWaived: number;
+}
+
+const STATUS_FOR_ACTION: Record<DueStatusAction, DueStatus> = {
+  dispute: "disputed",
+  reopen: "open",
+  write_off: "written_off",
+  cancel: "cancelled",
+};
+
+// Written-off and cancelled dues are closed for good
+const ALLOWED_FROM: Record<DueStatusAction, DueStatus[]> = {
+  dispute: ["open"],
+  reopen: ["disputed"],
+  write_off: ["open", "disputed"],
+  cancel: ["open", "disputed"],
+};
+
+export interface DuePaymentInput {
+  amount: number;
+  paymentDate?: string;
+  paymentMode?: DuePaymentMode;
+  notes?: string;
+}
+
+export interface DuePayment {
+  id: number;
+  amount: number;
+  paymentDate: string;
+  paymentMode: DuePaymentMode;
+  notes: string | null;
+  createdAt: string;
+}
+
+export interface DuePaymentResult {
+  payment: DuePayment;
+  amountPaid: number;
+  remaining: number;
+  isPaid: boolean;
+}
+
+export function validateDuePayment(input: DuePaymentInput): string | null {
+  if (typeof input.amount !== "number" || !isFinite(input.amount) || input.amount <= 0) {
+    return "Payment amount must be greater than zero";
+  }
+  if (roundCurrency(input.amount) !== input.amount) {
+    return "Payment amount can have at most two decimal places";
+  }
+  if (input.paymentMode && !["cash", "online"].includes(input.paymentMode)) {
+    return "Payment mode must be cash or online";
+  }
+  if (input.paymentDate && isNaN(new Date(input.paymentDate).getTime())) {
+    return "Invalid payment date";
+  }
+  return null;
+}
+
+/**
+ * Record a payment against an open due record inside the caller's
+ * transaction: posts the matching credit to account_transactions, moves the
+ * record's amount_paid and the receipt's due_total, and closes the record
+ * once nothing is left to collect.
+ */
+export async function recordDuePayment(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  dueId: number,
+  input: DuePaymentInput
+): Promise<DuePaymentResult> {
+  const [dueRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, customer_name, amount_due, amount_paid, tax_amount,
+            is_paid, status, receipt_number
+     FROM due_records
+     WHERE id = ? AND user_id = ?
+     FOR UPDATE`,
+    [dueId, userId]
+  );
+  if (dueRows.length === 0) throw new Error("Due record not found");
+
+  const due = dueRows[0];
+  if (due.is_paid) throw new Error("Due record is already paid");
+  if (due.status === "written_off" || due.status === "cancelled") {
+    throw new Error(`Due record is ${due.status.replace("_", " ")}`);
+  }
+
+  const amountDue = Number(due.amount_due);
+  const paidBefore = Number(due.amount_paid) || 0;
+  const remainingBefore = roundCurrency(amountDue - paidBefore);
+  if (input.amount > remainingBefore) {
+    throw new Error(`Payment exceeds the remaining balance of ₹${remainingBefore.toFixed(2)}`);
+  }
+
+  const paidAfter = roundCurrency(paidBefore + input.amount);
+  const remaining = roundCurrency(amountDue - paidAfter);
+  const isPaid = remaining === 0;
+  const paymentDate = formatDateOnlyForMySQL(input.paymentDate || new Date());
+  const paymentMode = input.paymentMode || "cash";
+
+  // Tax is recognised in proportion to what has been collected, so the
+  // instalments always add up to the record's tax
+  const taxAmount = Number(due.tax_amount) || 0;
+  const taxShare = roundCurrency(
+    roundCurrency((taxAmount * paidAfter) / amountDue) -
+      roundCurrency((taxAmount * paidBefore) / amountDue)
+  );
+
+  const [paymentResult] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT INTO due_payments (
+      due_record_id, amount, payment_date, payment_mode, notes, user_id
+    ) VALUES (?, ?, ?, ?, ?, ?)`,
+    [dueId, input.amount, paymentDate, paymentMode, input.notes?.trim() || null, userId]
+  );
+
+  const moneyAccountId = await resolveMoneyAccountId(connection, userId, paymentMode);
+  const [transactionResult] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT INTO account_transactions (
+      particulars, amount, type, tax_amount, user_id,
+      due_record_id, due_payment_id, money_account_id, transaction_date
+    ) VALUES (?, ?, 'credit', ?, ?, ?, ?, ?, ?)`,
+    [
+      `Due payment from ${due.customer_name}` +
+        (due.receipt_number ? ` (Receipt: ${due.receipt_number})` : ""),
+      input.amount,
+      taxShare,
+      userId,
+      dueId,
+      paymentResult.insertId,
+      moneyAccountId,
+      paymentDate,
+    ]
+  );
+  await postTransactionJournal(connection, userId, transactionResult.insertId);
+
+  await connection.query(
+    `UPDATE due_records
+     SET amount_paid = ?, is_paid = ?, paid_at = IF(?, NOW(), NULL)
+     WHERE id = ?`,
+    [paidAfter, isPaid, isPaid, dueId]
+  );
+
+  if (due.receipt_number) {
+    await connection.query(
+      `UPDATE receipts SET due_total = GREATEST(due_total - ?, 0)
+       WHERE receipt_number = ? AND user_id = ?`,
+      [input.amount, due.receipt_number, userId]
+    );
+  }
+
+  await createNotification(connection, userId, {
+    type: "payment",
+    title: `Payment received: ${due.customer_name}`,
+    message:
+      `₹${input.amount.toFixed(2)} received` +
+      (due.receipt_number ? ` for receipt #${due.receipt_number}` : "") +
+      (isPaid ? "; the due is now settled" : `; ₹${remaining.toFixed(2)} still to collect`),
+    relatedId: dueId,
+    link: "/accounts/due",
+  });
+
+  return {
+    payment: {
+      id: paymentResult.insertId,
+      amount: input.amount,
+      paymentDate,
+      paymentMode,
+      notes: input.notes?.trim() || null,
+      createdAt: new Date().toISOString(),
+    },
+    amountPaid: paidAfter,
+    remaining,
+    isPaid,
+  };
+}
+
+/**
+ * Payment history for the given due records, keyed by due record id.
+ * Reversed payments were never collected and are left out.
+ */
+export async function loadDuePayments(
+  connection: mysql.PoolConnection,
+  dueIds: number[]
+): Promise<Map<number, DuePayment[]>> {
+  const payments = new Map<number, DuePayment[]>();
+  if (dueIds.length === 0) return payments;
+
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      id, due_record_id, amount,
+      DATE_FORMAT(payment_date, '%Y-%m-%d') AS payment_date,
+      payment_mode, notes,
+      CAST(created_at AS CHAR) AS created_at
+     FROM due_payments p
+     WHERE due_record_id IN (?)
+     AND NOT EXISTS (
+       SELECT 1 FROM account_transactions t
+       JOIN account_transactions rv ON rv.reverses_transaction_id = t.id
+       WHERE t.due_payment_id = p.id
+     )
+     ORDER BY payment_date ASC, id ASC`,
+    [dueIds]
+  );
+
+  for (const row of rows) {
+    const list = payments.get(row.due_record_id) || [];
+    list.push({
+      id: row.id,
+      amount: Number(row.amount) || 0,
+      paymentDate: row.payment_date,
+      paymentMode: row.payment_mode,
+      notes: row.notes || null,
+      createdAt: row.created_at,
+    });
+    payments.set(row.due_record_id, list);
+  }
+
+  return payments;
+}
+
+export function validateDueStatusInput(input: DueStatusInput): string | null {
+  if (!input.action || !(input.action in STATUS_FOR_ACTION)) {
+    return "Action must be dispute, reopen, write_off or cancel";
+  }
+  if (input.action !== "reopen" && !input.reason?.trim()) {
+    return "A reason is required";
+  }
+  if (input.reason && input.reason.trim().length > 255) {
+    return "Reason must be 255 characters or fewer";
+  }
+  if (input.date && isNaN(new Date(input.date).getTime())) {
+    return "Invalid date";
+  }
+  return null;
+}
+
+/**
+ * Move an unpaid due between open, disputed, written off and cancelled
+ * inside the caller's transaction. Only open dues count towards the due
+ * total, notifications, reminders and late charges. Writing off posts the
+ * unpaid amount as a non-cash bad-debt expense; writing off or cancelling
+ * waives outstanding late charges and takes the amount off the receipt's
+ * due_total.
+ */
+export async function changeDueStatus(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  dueId: number,
+  input: DueStatusInput
+): Promise<DueStatusResult> {
+  const [dueRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, customer_name, amount_due, amount_paid, is_paid, status, receipt_number
+     FROM due_records
+     WHERE id = ? AND user_id = ?
+     FOR UPDATE`,
+    [dueId, userId]
+  );
+  if (dueRows.length === 0) throw new Error("Due record not found");
+
+  const due = dueRows[0];
+  if (due.is_paid) throw new Error("Due record is already paid");
+
+  const status = STATUS_FOR_ACTION[input.action];
+  if (!ALLOWED_FROM[input.action].includes(due.status)) {
+    throw new Error(
+      `Cannot ${input.action.replace("_", " ")} a due that is ${due.status.replace("_", " ")}`
+    );
+  }
+
+  const statusDate = formatDateOnlyForMySQL(input.date || new Date());
+  await connection.query(
+    `UPDATE due_records
+     SET status = ?, status_reason = ?, status_date = ?
+     WHERE id = ?`,
+    [
+      status,
+      status === "open" ? null : input.reason!.trim(),
+      status === "open" ? null : statusDate,
+      dueId,
+    ]
+  );
+
+  let amountWrittenOff = 0;
+  let chargesWaived = 0;
+
+  if (status === "written_off" || status === "cancelled") {
+    const remaining = roundCurrency(Number(due.amount_due) - Number(due.amount_paid));
+    ({ waived: chargesWaived } = await settleDueCharges(connection, userId, dueId, {
+      waive: true,
+    }));
+
+    if (status === "written_off" && remaining > 0) {
+      const [writeOff] = await connection.query<mysql.ResultSetHeader>(
+        `INSERT INTO account_transactions (
+          particulars, amount, type, user_id, due_record_id, is_non_cash, transaction_date
+        ) VALUES (?, ?, 'debit', ?, ?, TRUE, ?)`,
+        [
+          `Bad debt written off: ${due.customer_name}` +
+            (due.receipt_number ? ` (Receipt: ${due.receipt_number})` : ""),
+          remaining,
+          userId,
+          dueId,
+          statusDate,
+        ]
+      );
+      await postTransactionJournal(connection, userId, writeOff.insertId);
+      amountWrittenOff = remaining;
+    }
+    if (status === "cancelled") {
+      await postDueJournal(connection, userId, dueId);
+    }
+
+    if (due.receipt_number && remaining > 0) {
+      await connection.query(
+        `UPDATE receipts SET due_total = GREATEST(due_total - ?, 0)
+         WHERE receipt_number = ? AND user_id = ?`,
+        [remaining, due.receipt_number, userId]
+      );
+    }
+  }
+
+  if (status !== "open") {
+    await connection.query(
+      `UPDATE reminder_outbox
+       SET status = 'cancelled', last_error = ?
+       WHERE due_record_id = ? AND status = 'pending'`,
+      [`The due was marked ${status.replace("_", " ")}`, dueId]
+    );
+    await connection.query(
+      `UPDATE notifications
+       SET is_dismissed = TRUE
+       WHERE user_id = ? AND type = 'overdue' AND related_id = ?`,
+      [userId, dueId]
+    );
+  }
+
+  await refreshDueBalance(connection, userId);
+  return { status, amountWrittenOff, chargesWaived };
+}
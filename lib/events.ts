@@ -0,0 +1,43 @@
+// lib/events.ts
+import { EventEmitter } from "events";
+import type { DueStatus } from "@/lib/dues";
+
+export type LiveEvent =
+  | { type: "receipt-created"; receiptId: number }
+  | { type: "receipt-updated"; receiptId: number }
+  | { type: "due-paid"; dueId: number; amount: number; isPaid: boolean }
+  | { type: "due-status-changed"; dueId: number; status: DueStatus }
+  | { type: "transaction-added"; transactionId: number; amount: number; kind: "credit" | "debit" }
+  | { type: "transaction-updated"; transactionId: number; amount: number; kind: "credit" | "debit" }
+  | { type: "transaction-deleted"; transactionId: number; amount: number; kind: "credit" | "debit" }
+  | { type: "transfer-created"; transferId: number; amount: number };
+
+export type LiveEventType = LiveEvent["type"];
+
+// Kept on globalThis so every route bundle (and dev hot reloads) share one bus
+const globalForEvents = globalThis as typeof globalThis & { liveEvents?: EventEmitter };
+const bus = (globalForEvents.liveEvents ??= new EventEmitter());
+// One listener per open stream, so there is no sensible cap
+bus.setMaxListeners(0);
+
+const channel = (userId: string | number) => `user:${userId}`;
+
+/**
+ * Push an event to every stream the user has open on this server. Call it
+ * after the change is committed. Events only reach streams served by the
+ * same Node process; with several instances, clients still catch up on
+ * their next fetch.
+ */
+export function publishEvent(userId: string | number, event: LiveEvent) {
+  bus.emit(channel(userId), event);
+}
+
+export function subscribeEvents(
+  userId: string | number,
+  listener: (event: LiveEvent) => void
+): () => void {
+  bus.on(channel(userId), listener);
+  return () => {
+    bus.off(channel(userId), listener);
+  };
+}
@@ -0,0 +1,193 @@
+// lib/expenses.ts
+import mysql from "mysql2/promise";
+import { roundCurrency } from "@/lib/receipt-totals";
+import { toCsv } from "@/lib/csv";
+
+export type ExpensePaymentMode = "cash" | "online" | "card" | "cheque";
+
+export const EXPENSE_PAYMENT_MODES: ExpensePaymentMode[] = ["cash", "online", "card", "cheque"];
+
+// Seeded the first time a user opens their categories so the picker is never empty
+export const DEFAULT_EXPENSE_CATEGORIES = ["Rent", "Salary", "Purchases", "Utilities"];
+
+export interface ExpenseCategory {
+  id: number;
+  name: string;
+  isActive: boolean;
+}
+
+export interface ExpenseFields {
+  categoryId?: number | null;
+  payee?: string | null;
+  paymentMode?: ExpensePaymentMode | null;
+  // Part of the amount that went on tax, e.g. GST on a purchase bill
+  taxAmount?: number | null;
+}
+
+export const toExpenseCategory = (row: mysql.RowDataPacket): ExpenseCategory => ({
+  id: row.id,
+  name: row.name,
+  isActive: !!row.is_active,
+});
+
+export function validateExpenseCategoryName(name: unknown): string | null {
+  if (typeof name !== "string" || !name.trim()) return "Category name is required";
+  if (name.trim().length > 50) return "Category name must be 50 characters or fewer";
+  return null;
+}
+
+/**
+ * Check the expense details sent with a manual transaction. They only apply
+ * to debits; the category must belong to the user and be active.
+ */
+export async function validateExpenseFields(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  type: "credit" | "debit",
+  amount: number,
+  fields: ExpenseFields
+): Promise<string | null> {
+  const { categoryId, payee, paymentMode, taxAmount } = fields;
+  const hasExpenseFields =
+    categoryId != null || !!payee || paymentMode != null || !!taxAmount;
+  if (!hasExpenseFields) return null;
+  if (type !== "debit") return "Expense details can only be added to debit entries";
+
+  if (payee != null && (typeof payee !== "string" || payee.trim().length > 255)) {
+    return "Payee must be 255 characters or fewer";
+  }
+  if (paymentMode != null && !EXPENSE_PAYMENT_MODES.includes(paymentMode)) {
+    return "Payment mode must be cash, online, card or cheque";
+  }
+  if (taxAmount != null) {
+    if (typeof taxAmount !== "number" || !isFinite(taxAmount) || taxAmount < 0) {
+      return "Tax paid must be zero or more";
+    }
+    if (taxAmount > amount) return "Tax paid cannot exceed the amount";
+  }
+  if (categoryId != null) {
+    if (!Number.isInteger(categoryId)) return "Invalid expense category";
+    const [rows] = await connection.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM expense_categories WHERE id = ? AND user_id = ? AND is_active = TRUE`,
+      [categoryId, userId]
+    );
+    if (rows.length === 0) return "Expense category not found";
+  }
+  return null;
+}
+
+export interface ExpenseReportCategory {
+  categoryId: number | null;
+  name: string;
+  count: number;
+  amount: number;
+  taxAmount: number;
+}
+
+export interface ExpenseReportItem {
+  id: number;
+  date: string;
+  categoryId: number | null;
+  category: string;
+  payee: string | null;
+  paymentMode: ExpensePaymentMode | null;
+  particulars: string;
+  amount: number;
+  taxAmount: number;
+}
+
+export interface ExpenseReport {
+  from: string;
+  to: string;
+  categories: ExpenseReportCategory[];
+  items: ExpenseReportItem[];
+  total: number;
+  totalTax: number;
+}
+
+const UNCATEGORISED = "Uncategorised";
+
+/**
+ * Spending between `from` and `to` by expense category, largest first.
+ * Only manual debits count; refunds and write-offs posted by receipts,
+ * credit notes and dues, transfers between accounts and reversing entries
+ * are left out. Debits without a category are grouped as uncategorised.
+ */
+export async function buildExpenseReport(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  from: string,
+  to: string
+): Promise<ExpenseReport> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      t.id, t.particulars, t.amount, t.tax_amount, t.payee, t.payment_mode,
+      t.expense_category_id, c.name AS category_name,
+      DATE_FORMAT(t.transaction_date, '%Y-%m-%d') AS date
+     FROM account_transactions t
+     LEFT JOIN expense_categories c ON t.expense_category_id = c.id
+     WHERE t.user_id = ? AND t.type = 'debit' AND t.is_non_cash = FALSE
+     AND t.receipt_id IS NULL AND t.due_record_id IS NULL AND t.credit_note_id IS NULL
+     AND t.transfer_id IS NULL AND t.reverses_transaction_id IS NULL
+     AND DATE(t.transaction_date) BETWEEN ? AND ?
+     ORDER BY t.transaction_date DESC, t.id DESC`,
+    [userId, from, to]
+  );
+
+  const items: ExpenseReportItem[] = rows.map((row) => ({
+    id: row.id,
+    date: row.date,
+    categoryId: row.expense_category_id || null,
+    category: row.category_name || UNCATEGORISED,
+    payee: row.payee || null,
+    paymentMode: row.payment_mode || null,
+    particulars: row.particulars,
+    amount: Number(row.amount) || 0,
+    taxAmount: Number(row.tax_amount) || 0,
+  }));
+
+  const categories = new Map<number | null, ExpenseReportCategory>();
+  for (const item of items) {
+    const category = categories.get(item.categoryId) || {
+      categoryId: item.categoryId,
+      name: item.category,
+      count: 0,
+      amount: 0,
+      taxAmount: 0,
+    };
+    category.count++;
+    category.amount = roundCurrency(category.amount + item.amount);
+    category.taxAmount = roundCurrency(category.taxAmount + item.taxAmount);
+    categories.set(item.categoryId, category);
+  }
+
+  return {
+    from,
+    to,
+    categories: [...categories.values()].sort(
+      (a, b) => b.amount - a.amount || a.name.localeCompare(b.name)
+    ),
+    items,
+    total: roundCurrency(items.reduce((sum, item) => sum + item.amount, 0)),
+    totalTax: roundCurrency(items.reduce((sum, item) => sum + item.taxAmount, 0)),
+  };
+}
+
+// One row per expense, so the sheet can be pivoted by category or payee
+export function expenseReportToCsv(report: ExpenseReport): string {
+  return toCsv(
+    ["Date", "Category", "Payee", "Payment Mode", "Particulars", "Tax Paid", "Amount"],
+    [
+      ...report.items.map((item) => [
+        item.date,
+        item.category,
+        item.payee || "",
+        item.paymentMode || "",
+        item.particulars,
+        item.taxAmount.toFixed(2),
+        item.amount.toFixed(2),
+      ]),
+      ["Total", "", "", "", "", report.totalTax.toFixed(2), report.total.toFixed(2)],
+    ]
+  );
+}
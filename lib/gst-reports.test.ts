@@ -0,0 +1,149 @@
+import type mysql from "mysql2/promise";
+import { describe, expect, it } from "vitest";
+import { buildGstr3b } from "@/lib/gst-reports";
+
+// Two stores in the same state, each with a receipt and a credit note in April
+const users = [
+  { id: 1, state_code: "27", gst_number: null },
+  { id: 2, state_code: "27", gst_number: null },
+  { id: 3, state_code: "27", gst_number: null },
+];
+
+const receipts = [
+  { id: 11, user_id: 1, status: "active", date: "2026-04-10", total: 1180 },
+  { id: 12, user_id: 1, status: "void", date: "2026-04-11", total: 590 },
+  { id: 21, user_id: 2, status: "active", date: "2026-04-12", total: 5600 },
+].map((receipt) => ({
+  ...receipt,
+  receipt_number: `R-${receipt.id}`,
+  customer_name: "Walk-in",
+  customer_gst_number: null,
+  place_of_supply: "27",
+  discount_amount: 0,
+}));
+
+const receiptItems = [
+  { receipt_id: 11, price: 1000, gstRate: 18, taxAmount: 180, cgstAmount: 90, sgstAmount: 90 },
+  { receipt_id: 12, price: 500, gstRate: 18, taxAmount: 90, cgstAmount: 45, sgstAmount: 45 },
+  { receipt_id: 21, price: 5000, gstRate: 12, taxAmount: 600, cgstAmount: 300, sgstAmount: 300 },
+].map((item) => ({
+  ...item,
+  description: "Item",
+  hsn_code: null,
+  quantity: 1,
+  discount: 0,
+  discountType: "fixed",
+  igstAmount: 0,
+}));
+
+const creditNoteLines = [
+  { user_id: 1, receipt_user_id: 1, date: "2026-04-20", taxable_amount: 500, tax_amount: 90, gst_rate: 18 },
+  { user_id: 2, receipt_user_id: 2, date: "2026-04-21", taxable_amount: 1000, tax_amount: 120, gst_rate: 12 },
+].map((line) => ({ ...line, place_of_supply: "27", receipt_igst: 0 }));
+
+// The value bound to the placeholder that follows `pattern` in the query
+function boundValue(sql: string, params: unknown[], pattern: RegExp): unknown {
+  const match = pattern.exec(sql);
+  if (!match) return undefined;
+  const position = sql.slice(0, match.index + match[0].length).split("?").length - 2;
+  return params[position];
+}
+
+/**
+ * Stands in for MySQL by answering the report's queries from the fixtures.
+ * A user filter is only applied when the query itself has one, so a query
+ * that forgets it hands back every user's rows.
+ */
+function fakeConnection(): mysql.PoolConnection {
+  const query = async (sql: string, params: unknown[] = []) => {
+    if (/FROM users/.test(sql)) {
+      return [users.filter((user) => user.id === params[0])];
+    }
+    if (/FROM receipt_items\s+WHERE receipt_id IN/.test(sql)) {
+      const ids = params[0] as number[];
+      return [receiptItems.filter((item) => ids.includes(item.receipt_id))];
+    }
+    if (/FROM receipts\s+WHERE/.test(sql)) {
+      const userId = boundValue(sql, params, /\buser_id = \?/);
+      const from = boundValue(sql, params, /BETWEEN \?/) as string;
+      const to = boundValue(sql, params, /BETWEEN \? AND \?/) as string;
+      return [
+        receipts.filter(
+          (receipt) =>
+            (userId === undefined || receipt.user_id === userId) &&
+            receipt.status === "active" &&
+            receipt.date >= from &&
+            receipt.date <= to
+        ),
+      ];
+    }
+    if (/FROM credit_note_items/.test(sql)) {
+      const noteUserId = boundValue(sql, params, /\bcn\.user_id = \?/);
+      const receiptUserId = boundValue(sql, params, /\br\.user_id = \?/);
+      const from = boundValue(sql, params, /BETWEEN \?/) as string;
+      const to = boundValue(sql, params, /BETWEEN \? AND \?/) as string;
+      return [
+        creditNoteLines.filter(
+          (line) =>
+            (noteUserId === undefined || line.user_id === noteUserId) &&
+            (receiptUserId === undefined || line.receipt_user_id === receiptUserId) &&
+            line.date >= from &&
+            line.date <= to
+        ),
+      ];
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  return { query } as unknown as mysql.PoolConnection;
+}
+
+describe("buildGstr3b", () => {
+  it("only counts the caller's active receipts", async () => {
+    const report = await buildGstr3b(fakeConnection(), 1, "2026-04-01", "2026-04-30");
+
+    expect(report.outward).toMatchObject({
+      taxableValue: 1000,
+      cgst: 90,
+      sgst: 90,
+      igst: 0,
+      totalTax: 180,
+    });
+    expect(report.outward.rows.map((row) => row.rate)).toEqual([18]);
+  });
+
+  it("only subtracts the caller's credit notes", async () => {
+    const report = await buildGstr3b(fakeConnection(), 1, "2026-04-01", "2026-04-30");
+
+    expect(report.creditNotes).toMatchObject({ taxableValue: 500, totalTax: 90 });
+    expect(report.netPayable).toEqual({
+      taxableValue: 500,
+      cgst: 45,
+      sgst: 45,
+      igst: 0,
+      totalTax: 90,
+    });
+  });
+
+  it("reports each user's own figures", async () => {
+    const report = await buildGstr3b(fakeConnection(), 2, "2026-04-01", "2026-04-30");
+
+    expect(report.outward).toMatchObject({ taxableValue: 5000, totalTax: 600 });
+    expect(report.creditNotes).toMatchObject({ taxableValue: 1000, totalTax: 120 });
+    expect(report.netPayable).toMatchObject({ taxableValue: 4000, totalTax: 480 });
+  });
+
+  it("is empty for a user with no receipts of their own", async () => {
+    const report = await buildGstr3b(fakeConnection(), 3, "2026-04-01", "2026-04-30");
+
+    expect(report.outward.totalTax).toBe(0);
+    expect(report.creditNotes.totalTax).toBe(0);
+    expect(report.netPayable).toEqual({
+      taxableValue: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+      totalTax: 0,
+    });
+  });
+});
@@ -0,0 +1,582 @@
+// lib/gst-reports.ts
+import mysql from "mysql2/promise";
+import {
+  ReceiptLineAmounts,
+  TaxBreakupRow,
+  getTaxBreakup,
+  roundCurrency,
+  splitGst,
+} from "@/lib/receipt-totals";
+import { getStateName, isInterStateSupply, isValidGstin } from "@/lib/gst-states";
+import { getItemTaxLines, getStoreState } from "@/lib/receipts";
+import { toCsv } from "@/lib/csv";
+
+export interface GstSummary {
+  from: string;
+  to: string;
+  rows: TaxBreakupRow[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+interface PeriodItem extends ReceiptLineAmounts {
+  description: string;
+  hsnCode: string | null;
+  quantity: number;
+}
+
+interface PeriodReceipt {
+  receiptNumber: string;
+  date: string;
+  customerName: string;
+  customerGstNumber: string | null;
+  placeOfSupply: string | null;
+  interState: boolean;
+  total: number;
+  items: PeriodItem[];
+}
+
+/**
+ * Active receipts dated within [from, to] with each item's taxable value,
+ * rate and CGST/SGST/IGST split rebuilt from the stored rows.
+ */
+async function loadPeriodReceipts(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  from: string,
+  to: string
+): Promise<PeriodReceipt[]> {
+  const storeState = await getStoreState(connection, userId);
+
+  const [receipts] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      id, receipt_number, DATE_FORMAT(date, '%Y-%m-%d') AS date,
+      customer_name, customer_gst_number, place_of_supply,
+      discount_amount, total
+     FROM receipts
+     WHERE user_id = ? AND status = 'active' AND date BETWEEN ? AND ?
+     ORDER BY date ASC, id ASC`,
+    [userId, from, to]
+  );
+  if (receipts.length === 0) return [];
+
+  const [items] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      receipt_id, description, hsn_code, quantity, price, discount,
+      discount_type AS discountType, gst_rate AS gstRate,
+      tax_amount AS taxAmount, cgst_amount AS cgstAmount,
+      sgst_amount AS sgstAmount, igst_amount AS igstAmount
+     FROM receipt_items
+     WHERE receipt_id IN (?)
+     ORDER BY id ASC`,
+    [receipts.map((receipt) => receipt.id)]
+  );
+
+  return receipts.map((receipt) => {
+    const receiptItems = items.filter((item) => item.receipt_id === receipt.id);
+    const { lines, interState } = getItemTaxLines(
+      receiptItems,
+      Number(receipt.discount_amount),
+      storeState,
+      receipt.place_of_supply
+    );
+    return {
+      receiptNumber: receipt.receipt_number,
+      date: receipt.date,
+      customerName: receipt.customer_name,
+      customerGstNumber: receipt.customer_gst_number || null,
+      placeOfSupply: receipt.place_of_supply || storeState,
+      interState,
+      total: Number(receipt.total) || 0,
+      items: lines.map((line, index) => ({
+        ...line,
+        description: receiptItems[index].description,
+        hsnCode: receiptItems[index].hsn_code || null,
+        quantity: Number(receiptItems[index].quantity) || 0,
+      })),
+    };
+  });
+}
+
+/**
+ * Rate-wise GST collected on active receipts dated within [from, to].
+ */
+export async function loadGstSummary(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  from: string,
+  to: string
+): Promise<GstSummary> {
+  const receipts = await loadPeriodReceipts(connection, userId, from, to);
+
+  const rows = getTaxBreakup(receipts.flatMap((receipt) => receipt.items));
+  const sum = (pick: (row: TaxBreakupRow) => number) =>
+    roundCurrency(rows.reduce((total, row) => total + pick(row), 0));
+
+  return {
+    from,
+    to,
+    rows,
+    taxableValue: sum((row) => row.taxableValue),
+    cgst: sum((row) => row.cgst),
+    sgst: sum((row) => row.sgst),
+    igst: sum((row) => row.igst),
+    totalTax: sum((row) => row.tax),
+  };
+}
+
+// === GSTR-1 ===
+
+export type Gstr1Section = "b2b" | "b2cl" | "b2cs" | "hsn";
+
+export const GSTR1_SECTIONS: Gstr1Section[] = ["b2b", "b2cl", "b2cs", "hsn"];
+
+// Inter-state B2C invoices above this value are reported invoice-wise (B2CL)
+const B2CL_INVOICE_LIMIT = 100000;
+
+interface Gstr1ItemDetail {
+  txval: number;
+  rt: number;
+  iamt: number;
+  camt?: number;
+  samt?: number;
+  csamt: number;
+}
+
+interface Gstr1Invoice {
+  inum: string;
+  idt: string;
+  val: number;
+  pos: string;
+  rchrg?: "N";
+  inv_typ?: "R";
+  itms: { num: number; itm_det: Gstr1ItemDetail }[];
+}
+
+interface Gstr1B2cs {
+  sply_ty: "INTRA" | "INTER";
+  pos: string;
+  typ: "OE";
+  rt: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+interface Gstr1Nil {
+  sply_ty: "INTRB2B" | "INTRAB2B" | "INTRB2C" | "INTRAB2C";
+  nil_amt: number;
+  expt_amt: number;
+  ngsup_amt: number;
+}
+
+interface Gstr1Hsn {
+  num: number;
+  hsn_sc: string;
+  desc: string;
+  uqc: string;
+  qty: number;
+  rt: number;
+  val: number;
+  txval: number;
+  iamt: number;
+  camt: number;
+  samt: number;
+  csamt: number;
+}
+
+/**
+ * The JSON accepted by the GSTN offline tool's "Open JSON file" import.
+ */
+export interface Gstr1Json {
+  gstin: string;
+  fp: string;
+  version: string;
+  hash: string;
+  b2b: { ctin: string; inv: Gstr1Invoice[] }[];
+  b2cl: { pos: string; inv: Gstr1Invoice[] }[];
+  b2cs: Gstr1B2cs[];
+  nil: { inv: Gstr1Nil[] };
+  hsn: { data: Gstr1Hsn[] };
+}
+
+export interface Gstr1Report {
+  month: string;
+  gstr1: Gstr1Json;
+  csv: Record<Gstr1Section, string>;
+  warnings: string[];
+}
+
+// YYYY-MM-DD -> dd-mm-yyyy, the JSON invoice date format
+const toPortalDate = (date: string) => date.split("-").reverse().join("-");
+
+// YYYY-MM-DD -> dd-MMM-yy, the offline tool's CSV date format
+const toCsvDate = (date: string) => {
+  const [year, month, day] = date.split("-");
+  const monthName = new Date(Number(year), Number(month) - 1, 1).toLocaleString(
+    "en-US",
+    { month: "short" }
+  );
+  return `${day}-${monthName}-${year.slice(2)}`;
+};
+
+const toCsvPlace = (code: string) => `${code}-${getStateName(code)}`;
+
+/**
+ * Group an invoice's taxed lines by rate, one GSTR-1 item per rate.
+ */
+function toInvoiceItems(items: PeriodItem[], interState: boolean) {
+  return getTaxBreakup(items.filter((item) => item.rate > 0)).map((row, index) => ({
+    num: index + 1,
+    itm_det: interState
+      ? { txval: row.taxableValue, rt: row.rate, iamt: row.igst, csamt: 0 }
+      : {
+          txval: row.taxableValue,
+          rt: row.rate,
+          iamt: 0,
+          camt: row.cgst,
+          samt: row.sgst,
+          csamt: 0,
+        },
+  }));
+}
+
+/**
+ * Build the month's GSTR-1: invoice-wise B2B and B2C-large sections, B2C-small
+ * and nil-rated supplies aggregated, and the HSN-wise summary.
+ */
+export async function buildGstr1(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  month: string
+): Promise<Gstr1Report> {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const from = `${month}-01`;
+  const to = `${month}-${String(new Date(year, monthNumber, 0).getDate()).padStart(2, "0")}`;
+
+  const [users] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT gst_number FROM users WHERE id = ? LIMIT 1`,
+    [userId]
+  );
+  const gstin: string = users[0]?.gst_number || "";
+  const receipts = await loadPeriodReceipts(connection, userId, from, to);
+
+  const warnings: string[] = [];
+  if (!isValidGstin(gstin)) {
+    warnings.push("Store GSTIN is missing or invalid; set it on the profile page before filing");
+  }
+
+  const [creditNotes] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT COUNT(*) AS count FROM credit_notes
+     WHERE user_id = ? AND date BETWEEN ? AND ?`,
+    [userId, from, to]
+  );
+  if (Number(creditNotes[0]?.count) > 0) {
+    warnings.push(
+      `${creditNotes[0].count} credit note(s) this month are not included; report them under CDNR/CDNUR`
+    );
+  }
+
+  const b2b = new Map<string, Gstr1Invoice[]>();
+  const b2cl = new Map<string, Gstr1Invoice[]>();
+  const b2cs = new Map<string, Gstr1B2cs>();
+  const nil = new Map<Gstr1Nil["sply_ty"], Gstr1Nil>();
+  const hsn = new Map<string, Gstr1Hsn>();
+  const b2bRows: (string | number)[][] = [];
+  const b2clRows: (string | number)[][] = [];
+
+  for (const receipt of receipts) {
+    const pos = receipt.placeOfSupply || "";
+    let ctin = receipt.customerGstNumber;
+    if (ctin && !isValidGstin(ctin)) {
+      warnings.push(
+        `Receipt ${receipt.receiptNumber}: customer GSTIN ${ctin} is invalid, reported as B2C`
+      );
+      ctin = null;
+    }
+
+    if (receipt.items.some((item) => !item.hsnCode)) {
+      warnings.push(
+        `Receipt ${receipt.receiptNumber}: items without an HSN/SAC code are left out of the HSN summary`
+      );
+    }
+
+    const invoice: Gstr1Invoice = {
+      inum: receipt.receiptNumber,
+      idt: toPortalDate(receipt.date),
+      val: receipt.total,
+      pos,
+      itms: toInvoiceItems(receipt.items, receipt.interState),
+    };
+
+    if (invoice.itms.length > 0) {
+      if (ctin) {
+        b2b.set(ctin, [
+          ...(b2b.get(ctin) || []),
+          { ...invoice, rchrg: "N", inv_typ: "R" },
+        ]);
+        for (const { itm_det } of invoice.itms) {
+          b2bRows.push([
+            ctin, receipt.customerName, invoice.inum, toCsvDate(receipt.date),
+            invoice.val, toCsvPlace(pos), "N", "", "Regular B2B", "",
+            itm_det.rt, itm_det.txval, 0,
+          ]);
+        }
+      } else if (receipt.interState && receipt.total > B2CL_INVOICE_LIMIT) {
+        b2cl.set(pos, [...(b2cl.get(pos) || []), invoice]);
+        for (const { itm_det } of invoice.itms) {
+          b2clRows.push([
+            invoice.inum, toCsvDate(receipt.date), invoice.val, toCsvPlace(pos),
+            "", itm_det.rt, itm_det.txval, 0, "",
+          ]);
+        }
+      } else {
+        for (const row of getTaxBreakup(receipt.items.filter((item) => item.rate > 0))) {
+          const key = `${receipt.interState ? "INTER" : "INTRA"}|${pos}|${row.rate}`;
+          const entry = b2cs.get(key) || {
+            sply_ty: receipt.interState ? "INTER" : "INTRA",
+            pos,
+            typ: "OE",
+            rt: row.rate,
+            txval: 0,
+            iamt: 0,
+            camt: 0,
+            samt: 0,
+            csamt: 0,
+          };
+          entry.txval = roundCurrency(entry.txval + row.taxableValue);
+          entry.iamt = roundCurrency(entry.iamt + row.igst);
+          entry.camt = roundCurrency(entry.camt + row.cgst);
+          entry.samt = roundCurrency(entry.samt + row.sgst);
+          b2cs.set(key, entry);
+        }
+      }
+    }
+
+    const nilValue = roundCurrency(
+      receipt.items
+        .filter((item) => item.rate === 0)
+        .reduce((sum, item) => sum + item.taxable, 0)
+    );
+    if (nilValue > 0) {
+      const splyTy = `${receipt.interState ? "INTR" : "INTRA"}${ctin ? "B2B" : "B2C"}` as Gstr1Nil["sply_ty"];
+      const entry = nil.get(splyTy) || { sply_ty: splyTy, nil_amt: 0, expt_amt: 0, ngsup_amt: 0 };
+      entry.nil_amt = roundCurrency(entry.nil_amt + nilValue);
+      nil.set(splyTy, entry);
+    }
+
+    for (const item of receipt.items) {
+      if (!item.hsnCode) continue;
+      const key = `${item.hsnCode}|${item.rate}`;
+      // SAC codes (chapter 99) are services, which have no unit quantity
+      const isService = item.hsnCode.startsWith("99");
+      const entry = hsn.get(key) || {
+        num: hsn.size + 1,
+        hsn_sc: item.hsnCode,
+        desc: item.description.slice(0, 30),
+        uqc: isService ? "NA" : "NOS",
+        qty: 0,
+        rt: item.rate,
+        val: 0,
+        txval: 0,
+        iamt: 0,
+        camt: 0,
+        samt: 0,
+        csamt: 0,
+      };
+      if (!isService) entry.qty += item.quantity;
+      entry.val = roundCurrency(entry.val + item.taxable + item.tax);
+      entry.txval = roundCurrency(entry.txval + item.taxable);
+      entry.iamt = roundCurrency(entry.iamt + item.igst);
+      entry.camt = roundCurrency(entry.camt + item.cgst);
+      entry.samt = roundCurrency(entry.samt + item.sgst);
+      hsn.set(key, entry);
+    }
+  }
+
+  const gstr1: Gstr1Json = {
+    gstin,
+    fp: `${String(monthNumber).padStart(2, "0")}${year}`,
+    version: "GST3.0.4",
+    hash: "hash",
+    b2b: Array.from(b2b, ([ctin, inv]) => ({ ctin, inv })),
+    b2cl: Array.from(b2cl, ([pos, inv]) => ({ pos, inv })),
+    b2cs: Array.from(b2cs.values()),
+    nil: { inv: Array.from(nil.values()) },
+    hsn: { data: Array.from(hsn.values()) },
+  };
+
+  const csv: Record<Gstr1Section, string> = {
+    b2b: toCsv(
+      [
+        "GSTIN/UIN of Recipient", "Receiver Name", "Invoice Number", "Invoice date",
+        "Invoice Value", "Place Of Supply", "Reverse Charge", "Applicable % of Tax Rate",
+        "Invoice Type", "E-Commerce GSTIN", "Rate", "Taxable Value", "Cess Amount",
+      ],
+      b2bRows
+    ),
+    b2cl: toCsv(
+      [
+        "Invoice Number", "Invoice date", "Invoice Value", "Place Of Supply",
+        "Applicable % of Tax Rate", "Rate", "Taxable Value", "Cess Amount",
+        "E-Commerce GSTIN",
+      ],
+      b2clRows
+    ),
+    b2cs: toCsv(
+      [
+        "Type", "Place Of Supply", "Applicable % of Tax Rate", "Rate",
+        "Taxable Value", "Cess Amount", "E-Commerce GSTIN",
+      ],
+      gstr1.b2cs.map((row) => [
+        row.typ, toCsvPlace(row.pos), "", row.rt, row.txval, row.csamt, "",
+      ])
+    ),
+    hsn: toCsv(
+      [
+        "HSN", "Description", "UQC", "Total Quantity", "Total Value", "Rate",
+        "Taxable Value", "Integrated Tax Amount", "Central Tax Amount",
+        "State/UT Tax Amount", "Cess Amount",
+      ],
+      gstr1.hsn.data.map((row) => [
+        row.hsn_sc, row.desc, row.uqc, row.qty, row.val, row.rt,
+        row.txval, row.iamt, row.camt, row.samt, row.csamt,
+      ])
+    ),
+  };
+
+  return { month, gstr1, csv, warnings };
+}
+
+// === GSTR-3B ===
+
+export interface GstLiability {
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+export interface Gstr3bSummary {
+  from: string;
+  to: string;
+  // Table 3.1(a): taxable outward supplies, before credit notes
+  outward: GstLiability & { rows: TaxBreakupRow[] };
+  // Table 3.1(c): nil-rated outward supplies
+  nilRatedValue: number;
+  creditNotes: GstLiability & { rows: TaxBreakupRow[] };
+  netPayable: GstLiability;
+}
+
+function toLiability(rows: TaxBreakupRow[]): GstLiability {
+  const sum = (pick: (row: TaxBreakupRow) => number) =>
+    roundCurrency(rows.reduce((total, row) => total + pick(row), 0));
+  return {
+    taxableValue: sum((row) => row.taxableValue),
+    cgst: sum((row) => row.cgst),
+    sgst: sum((row) => row.sgst),
+    igst: sum((row) => row.igst),
+    totalTax: sum((row) => row.tax),
+  };
+}
+
+/**
+ * Credit note lines issued within [from, to], at the rate and CGST/SGST/IGST
+ * treatment of the receipt line they reverse.
+ */
+async function loadPeriodCreditNoteLines(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  from: string,
+  to: string
+): Promise<ReceiptLineAmounts[]> {
+  const storeState = await getStoreState(connection, userId);
+
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      cni.taxable_amount, cni.tax_amount,
+      ri.gst_rate,
+      r.place_of_supply,
+      (SELECT COALESCE(SUM(x.igst_amount), 0)
+       FROM receipt_items x
+       WHERE x.receipt_id = r.id) AS receipt_igst
+     FROM credit_note_items cni
+     JOIN credit_notes cn ON cni.credit_note_id = cn.id
+     JOIN receipts r ON cn.receipt_id = r.id
+     LEFT JOIN receipt_items ri ON cni.receipt_item_id = ri.id
+     WHERE cn.user_id = ? AND r.user_id = ? AND cn.date BETWEEN ? AND ?`,
+    [userId, userId, from, to]
+  );
+
+  return rows.map((row) => {
+    const taxable = Number(row.taxable_amount) || 0;
+    const tax = Number(row.tax_amount) || 0;
+    const interState =
+      Number(row.receipt_igst) > 0 ||
+      isInterStateSupply(storeState, row.place_of_supply);
+    const rate =
+      row.gst_rate !== null
+        ? Number(row.gst_rate)
+        : taxable > 0
+        ? roundCurrency((tax / taxable) * 100)
+        : 0;
+    return {
+      gross: taxable,
+      lineDiscount: 0,
+      receiptDiscountShare: 0,
+      taxable,
+      rate,
+      tax,
+      ...splitGst(tax, interState),
+    };
+  });
+}
+
+/**
+ * GSTR-3B liability for [from, to]: tax on the caller's own active receipts,
+ * less tax reversed by their credit notes.
+ */
+export async function buildGstr3b(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  from: string,
+  to: string
+): Promise<Gstr3bSummary> {
+  const receipts = await loadPeriodReceipts(connection, userId, from, to);
+  const lines = receipts.flatMap((receipt) => receipt.items);
+
+  const outwardRows = getTaxBreakup(lines.filter((line) => line.rate > 0));
+  const creditNoteRows = getTaxBreakup(
+    (await loadPeriodCreditNoteLines(connection, userId, from, to)).filter(
+      (line) => line.rate > 0
+    )
+  );
+
+  const outward = toLiability(outwardRows);
+  const creditNotes = toLiability(creditNoteRows);
+
+  return {
+    from,
+    to,
+    outward: { ...outward, rows: outwardRows },
+    nilRatedValue: roundCurrency(
+      lines
+        .filter((line) => line.rate === 0)
+        .reduce((sum, line) => sum + line.taxable, 0)
+    ),
+    creditNotes: { ...creditNotes, rows: creditNoteRows },
+    netPayable: {
+      taxableValue: roundCurrency(outward.taxableValue - creditNotes.taxableValue),
+      cgst: roundCurrency(outward.cgst - creditNotes.cgst),
+      sgst: roundCurrency(outward.sgst - creditNotes.sgst),
+      igst: roundCurrency(outward.igst - creditNotes.igst),
+      totalTax: roundCurrency(outward.totalTax - creditNotes.totalTax),
+    },
+  };
+}
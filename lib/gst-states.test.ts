@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { getStateCodeFromGstin, isInterStateSupply, isValidGstin } from "@/lib/gst-states";
+
+// The GSTN's published sample registration in Maharashtra
+const VALID = "27AAPFU0939F1ZV";
+
+describe("isValidGstin", () => {
+  it("accepts a GSTIN whose check character matches", () => {
+    expect(isValidGstin(VALID)).toBe(true);
+    expect(isValidGstin("29AAGCB7383J1Z4")).toBe(true);
+  });
+
+  it("rejects a tampered GSTIN", () => {
+    // One PAN character changed, check character left as it was
+    expect(isValidGstin("27AAPFV0939F1ZV")).toBe(false);
+    // Check character changed
+    expect(isValidGstin("27AAPFU0939F1ZW")).toBe(false);
+    // Two characters swapped
+    expect(isValidGstin("27AAPFU0993F1ZV")).toBe(false);
+  });
+
+  it("rejects a GSTIN whose state code is not a GST state", () => {
+    // Both carry the right check character for their first 14 characters
+    expect(isValidGstin("99AAPFU0939F1ZK")).toBe(false);
+    // Andhra Pradesh's pre-2017 code, since replaced by 37
+    expect(isValidGstin("28AAPFU0939F1ZT")).toBe(false);
+  });
+
+  it("rejects a malformed or missing GSTIN", () => {
+    expect(isValidGstin("27aapfu0939f1zv")).toBe(false);
+    expect(isValidGstin("27AAPFU0939F1Z")).toBe(false);
+    expect(isValidGstin("")).toBe(false);
+    expect(isValidGstin(null)).toBe(false);
+  });
+});
+
+describe("getStateCodeFromGstin", () => {
+  it("reads the state code, so a different state on the form can be caught", () => {
+    expect(getStateCodeFromGstin(VALID)).toBe("27");
+    expect(getStateCodeFromGstin("33AAPFU0939F1Z2")).toBe("33");
+    expect(isInterStateSupply(getStateCodeFromGstin(VALID), "29")).toBe(true);
+    expect(isInterStateSupply(getStateCodeFromGstin(VALID), "27")).toBe(false);
+  });
+
+  it("gives nothing for an unknown state code", () => {
+    expect(getStateCodeFromGstin("99AAPFU0939F1ZK")).toBeNull();
+    expect(getStateCodeFromGstin(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+// lib/gst-states.ts
+// GST state codes, used for the place of supply on tax invoices.
+
+export interface GstState {
+  code: string;
+  name: string;
+}
+
+export const GST_STATES: GstState[] = [
+  { code: "01", name: "Jammu and Kashmir" },
+  { code: "02", name: "Himachal Pradesh" },
+  { code: "03", name: "Punjab" },
+  { code: "04", name: "Chandigarh" },
+  { code: "05", name: "Uttarakhand" },
+  { code: "06", name: "Haryana" },
+  { code: "07", name: "Delhi" },
+  { code: "08", name: "Rajasthan" },
+  { code: "09", name: "Uttar Pradesh" },
+  { code: "10", name: "Bihar" },
+  { code: "11", name: "Sikkim" },
+  { code: "12", name: "Arunachal Pradesh" },
+  { code: "13", name: "Nagaland" },
+  { code: "14", name: "Manipur" },
+  { code: "15", name: "Mizoram" },
+  { code: "16", name: "Tripura" },
+  { code: "17", name: "Meghalaya" },
+  { code: "18", name: "Assam" },
+  { code: "19", name: "West Bengal" },
+  { code: "20", name: "Jharkhand" },
+  { code: "21", name: "Odisha" },
+  { code: "22", name: "Chhattisgarh" },
+  { code: "23", name: "Madhya Pradesh" },
+  { code: "24", name: "Gujarat" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu" },
+  { code: "27", name: "Maharashtra" },
+  { code: "29", name: "Karnataka" },
+  { code: "30", name: "Goa" },
+  { code: "31", name: "Lakshadweep" },
+  { code: "32", name: "Kerala" },
+  { code: "33", name: "Tamil Nadu" },
+  { code: "34", name: "Puducherry" },
+  { code: "35", name: "Andaman and Nicobar Islands" },
+  { code: "36", name: "Telangana" },
+  { code: "37", name: "Andhra Pradesh" },
+  { code: "38", name: "Ladakh" },
+  { code: "97", name: "Other Territory" },
+];
+
+export function isValidStateCode(code: unknown): code is string {
+  return typeof code === "string" && GST_STATES.some((s) => s.code === code);
+}
+
+export function getStateName(code?: string | null): string {
+  return GST_STATES.find((s) => s.code === code)?.name || "";
+}
+
+/**
+ * The first two characters of a GSTIN are the registrant's state code.
+ */
+export function getStateCodeFromGstin(gstin?: string | null): string | null {
+  const code = gstin?.slice(0, 2) || null;
+  return isValidStateCode(code) ? code : null;
+}
+
+/**
+ * A supply is inter-state (IGST) only when both states are known and differ.
+ */
+export function isInterStateSupply(
+  storeState?: string | null,
+  placeOfSupply?: string | null
+): boolean {
+  return !!storeState && !!placeOfSupply && storeState !== placeOfSupply;
+}
+
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/**
+ * Check a GSTIN's layout, state code and final check character (the GSTN's
+ * base-36 Luhn variant over the first 14 characters).
+ */
+export function isValidGstin(gstin?: string | null): boolean {
+  if (!gstin || !GSTIN_PATTERN.test(gstin)) return false;
+  if (!getStateCodeFromGstin(gstin)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return gstin[14] === GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+}
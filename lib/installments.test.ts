@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { buildInstallmentSchedule, validateInstallmentPlan } from "@/lib/installments";
+
+const amounts = (schedule: { amount: number }[]) => schedule.map((i) => i.amount);
+const dates = (schedule: { dueDate: string }[]) => schedule.map((i) => i.dueDate);
+const equal = (count: number, total: number, first: string, intervalDays?: number) =>
+  buildInstallmentSchedule({ type: "equal", count, intervalDays }, total, first);
+const monthly = (count: number, total: number, first: string) =>
+  buildInstallmentSchedule({ type: "monthly", count }, total, first);
+
+describe("buildInstallmentSchedule", () => {
+  it("spreads leftover paise one at a time over the last installments", () => {
+    expect(amounts(equal(3, 0.29, "2026-01-01"))).toEqual([0.09, 0.1, 0.1]);
+    expect(amounts(equal(3, 100, "2026-01-01"))).toEqual([33.33, 33.33, 33.34]);
+    expect(amounts(equal(4, 10.1, "2026-01-01"))).toEqual([2.52, 2.52, 2.53, 2.53]);
+  });
+
+  it("always adds up to the due total", () => {
+    for (const total of [0.29, 1.01, 999.99, 1234.57]) {
+      for (const count of [2, 3, 7, 12]) {
+        const schedule = monthly(count, total, "2026-01-01");
+        const paise = schedule.reduce((sum, i) => sum + Math.round(i.amount * 100), 0);
+        expect(paise).toBe(Math.round(total * 100));
+      }
+    }
+  });
+
+  it("spaces equal installments by the interval, a week by default", () => {
+    expect(dates(equal(3, 30, "2026-02-25"))).toEqual(["2026-02-25", "2026-03-04", "2026-03-11"]);
+    expect(dates(equal(2, 30, "2026-02-25", 15))).toEqual(["2026-02-25", "2026-03-12"]);
+  });
+
+  it("clamps monthly dates to the end of shorter months without drifting", () => {
+    expect(dates(monthly(4, 40, "2026-01-31"))).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+    ]);
+    // Leap year
+    expect(dates(monthly(2, 20, "2028-01-31"))).toEqual(["2028-01-31", "2028-02-29"]);
+  });
+
+  it("keeps a single or missing plan as one installment", () => {
+    expect(buildInstallmentSchedule(undefined, 50.5, "2026-01-01")).toEqual([
+      { amount: 50.5, dueDate: "2026-01-01" },
+    ]);
+  });
+});
+
+describe("validateInstallmentPlan", () => {
+  it("checks that custom installments add up to the due total", () => {
+    const installments = [
+      { amount: 60, dueDate: "2026-01-01" },
+      { amount: 40, dueDate: "2026-02-01" },
+    ];
+    expect(validateInstallmentPlan({ type: "custom", installments }, 100)).toBeNull();
+    expect(validateInstallmentPlan({ type: "custom", installments }, 90)).toBe(
+      "Installment amounts don't match the due total"
+    );
+  });
+
+  it("refuses to split a due into shares of less than a paisa", () => {
+    expect(validateInstallmentPlan({ type: "equal", count: 3 }, 0.02)).toBe(
+      "Due total is too small to split into that many installments"
+    );
+    expect(validateInstallmentPlan({ type: "equal", count: 3 }, 0.03)).toBeNull();
+  });
+});
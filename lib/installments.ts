@@ -0,0 +1,128 @@
+// lib/installments.ts
+// Splitting a receipt's due into scheduled installments. Shared by the API and
+// the receipt form so the schedule previewed is the schedule that is saved.
+import { addDays, addMonths, format, isValid, parseISO } from "date-fns";
+import { roundCurrency } from "@/lib/receipt-totals";
+
+// equal: same amount every intervalDays; monthly: same amount on the same
+// day each month; custom: amounts and dates chosen by hand
+export type InstallmentPlanType = "single" | "equal" | "monthly" | "custom";
+
+export interface ScheduledInstallment {
+  amount: number;
+  dueDate: string;
+}
+
+export interface InstallmentPlan {
+  type: InstallmentPlanType;
+  count?: number;
+  intervalDays?: number;
+  installments?: ScheduledInstallment[];
+}
+
+export const MAX_INSTALLMENTS = 24;
+export const DEFAULT_INSTALLMENT_INTERVAL_DAYS = 7;
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Works in whole paise; the paise left over go one each on the last
+// installments, so 0.29 in three is 0.09, 0.10, 0.10
+function splitEvenly(total: number, count: number): number[] {
+  const paise = Math.round(total * 100);
+  const share = Math.floor(paise / count);
+  const remainder = paise - share * count;
+  return Array.from(
+    { length: count },
+    (_, index) => (share + (index >= count - remainder ? 1 : 0)) / 100
+  );
+}
+
+/**
+ * Check a plan's shape and that its installments add up to the due total.
+ */
+export function validateInstallmentPlan(
+  plan: InstallmentPlan | undefined,
+  dueTotal: number
+): string | null {
+  if (!plan || plan.type === "single") return null;
+
+  if (!["equal", "monthly", "custom"].includes(plan.type)) {
+    return "Installment plan must be single, equal, monthly or custom";
+  }
+
+  if (plan.type === "custom") {
+    const installments = plan.installments || [];
+    if (installments.length < 2 || installments.length > MAX_INSTALLMENTS) {
+      return `Custom plans need between 2 and ${MAX_INSTALLMENTS} installments`;
+    }
+    for (const [index, installment] of installments.entries()) {
+      if (typeof installment.amount !== "number" || installment.amount <= 0) {
+        return `Installment ${index + 1} amount must be greater than zero`;
+      }
+      if (!installment.dueDate || !isValid(parseISO(installment.dueDate))) {
+        return `Installment ${index + 1} needs a valid due date`;
+      }
+      if (index > 0 && installment.dueDate < installments[index - 1].dueDate) {
+        return "Installment due dates must be in order";
+      }
+    }
+    const total = installments.reduce((sum, i) => sum + i.amount, 0);
+    if (Math.abs(total - dueTotal) > 0.01) {
+      return "Installment amounts don't match the due total";
+    }
+    return null;
+  }
+
+  if (
+    !Number.isInteger(plan.count) ||
+    plan.count! < 2 ||
+    plan.count! > MAX_INSTALLMENTS
+  ) {
+    return `Number of installments must be between 2 and ${MAX_INSTALLMENTS}`;
+  }
+  if (
+    plan.type === "equal" &&
+    plan.intervalDays !== undefined &&
+    (!Number.isInteger(plan.intervalDays) || plan.intervalDays < 1)
+  ) {
+    return "Installment interval must be at least one day";
+  }
+  if (dueTotal / plan.count! < 0.01) {
+    return "Due total is too small to split into that many installments";
+  }
+  return null;
+}
+
+/**
+ * Expand a plan into dated installments. A missing or single plan is one
+ * installment for the whole due on firstDueDate.
+ */
+export function buildInstallmentSchedule(
+  plan: InstallmentPlan | undefined,
+  dueTotal: number,
+  firstDueDate: string
+): ScheduledInstallment[] {
+  if (!plan || plan.type === "single") {
+    return [{ amount: roundCurrency(dueTotal), dueDate: firstDueDate }];
+  }
+
+  if (plan.type === "custom") {
+    return (plan.installments || []).map((installment) => ({
+      amount: roundCurrency(installment.amount),
+      dueDate: installment.dueDate,
+    }));
+  }
+
+  const count = plan.count || 1;
+  const start = parseISO(firstDueDate);
+  const interval = plan.intervalDays || DEFAULT_INSTALLMENT_INTERVAL_DAYS;
+
+  return splitEvenly(dueTotal, count).map((amount, index) => ({
+    amount,
+    dueDate: toDateString(
+      plan.type === "monthly"
+        ? addMonths(start, index)
+        : addDays(start, index * interval)
+    ),
+  }));
+}
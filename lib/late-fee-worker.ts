@@ -0,0 +1,62 @@
+// lib/late-fee-worker.ts
+import mysql from "mysql2/promise";
+import { format } from "date-fns";
+import { getPool } from "@/lib/database";
+import { accrueLateCharges } from "@/lib/late-fees";
+
+// Charges accrue by the day, so an hourly pass is plenty
+const DEFAULT_INTERVAL_SECONDS = 3600;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * One pass of the late fee worker: accrue late fees and interest on every
+ * store's overdue dues up to today.
+ */
+export async function runLateFeeWorker() {
+  let connection: mysql.PoolConnection | undefined;
+  try {
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const today = format(new Date(), "yyyy-MM-dd");
+    const charged = await accrueLateCharges(connection!, today);
+    if (charged) console.log(`Late charges accrued on ${charged} dues`);
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+/**
+ * Run the worker on an interval inside the server process, independently
+ * of the reminder worker. Ticks never overlap.
+ */
+export function startLateFeeWorker(
+  intervalSeconds = parseInt(process.env.LATE_FEE_WORKER_INTERVAL_SECONDS || "") ||
+    DEFAULT_INTERVAL_SECONDS
+) {
+  if (timer) return;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runLateFeeWorker();
+    } catch (error) {
+      console.error("Late fee worker error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  timer = setInterval(tick, intervalSeconds * 1000);
+  timer.unref();
+  console.log(`Late fee worker started (every ${intervalSeconds}s)`);
+  tick();
+}
+
+export function stopLateFeeWorker() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,143 @@
+import type mysql from "mysql2/promise";
+import { describe, expect, it } from "vitest";
+import { accrueLateCharges } from "@/lib/late-fees";
+
+interface ChargeRow {
+  id: number;
+  charge_type: "late_fee" | "interest";
+  amount: number;
+  period_start: string;
+  period_end: string;
+  status: "outstanding" | "paid" | "waived";
+}
+
+/**
+ * One overdue due of 1000 owed since 2026-03-01 with a two-day grace
+ * period, and an in-memory due_charges table for it.
+ */
+function fakeStore(settings: { charge_type: string; flat_fee?: number; interest_rate?: number }) {
+  const charges: ChargeRow[] = [];
+  const query = async (sql: string, params: unknown[] = []) => {
+    if (/JOIN late_fee_settings/.test(sql)) {
+      return [
+        [
+          {
+            id: 5,
+            flat_fee: 0,
+            interest_rate: 0,
+            ...settings,
+            grace_days: 2,
+            expected_payment_date: "2026-03-01",
+          },
+        ],
+      ];
+    }
+    if (/FROM due_records WHERE id = \? FOR UPDATE/.test(sql)) {
+      return [[{ user_id: 1, remaining: "1000.00", is_paid: 0 }]];
+    }
+    if (/INSERT IGNORE INTO due_charges/.test(sql)) {
+      if (charges.some((c) => c.charge_type === "late_fee")) return [{ affectedRows: 0 }];
+      const [, , amount, start, end] = params as [number, number, number, string, string];
+      charges.push({
+        id: charges.length + 1,
+        charge_type: "late_fee",
+        amount,
+        period_start: start,
+        period_end: end,
+        status: "outstanding",
+      });
+      return [{ affectedRows: 1 }];
+    }
+    if (/MAX\(period_end\)/.test(sql)) {
+      const ends = charges.filter((c) => c.charge_type === "interest").map((c) => c.period_end);
+      return [[{ accrued_through: ends.length ? ends.sort().at(-1) : null }]];
+    }
+    if (/UPDATE due_charges\s+SET amount = amount \+ \?/.test(sql)) {
+      const [amount, end, , monthStart] = params as [number, string, number, string];
+      const row = charges
+        .filter((c) => c.charge_type === "interest" && c.status === "outstanding")
+        .filter((c) => c.period_end >= monthStart)
+        .sort((a, b) => b.period_end.localeCompare(a.period_end))[0];
+      if (!row) return [{ affectedRows: 0 }];
+      row.amount = Math.round((row.amount + amount) * 100) / 100;
+      row.period_end = end;
+      return [{ affectedRows: 1 }];
+    }
+    if (/INSERT INTO due_charges/.test(sql)) {
+      const [, , amount, start, end] = params as [number, number, number, string, string];
+      charges.push({
+        id: charges.length + 1,
+        charge_type: "interest",
+        amount,
+        period_start: start,
+        period_end: end,
+        status: "outstanding",
+      });
+      return [{ affectedRows: 1 }];
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+  const connection = {
+    query,
+    beginTransaction: async () => {},
+    commit: async () => {},
+    rollback: async () => {},
+  } as unknown as mysql.PoolConnection;
+  return { connection, charges };
+}
+
+describe("accrueLateCharges", () => {
+  it("dates a flat fee by the missed due date", async () => {
+    const { connection, charges } = fakeStore({ charge_type: "flat", flat_fee: 250 });
+    expect(await accrueLateCharges(connection, "2026-03-04")).toBe(1);
+    expect(charges).toEqual([
+      expect.objectContaining({ amount: 250, period_start: "2026-03-01", period_end: "2026-03-01" }),
+    ]);
+  });
+
+  it("charges a flat fee only once per due", async () => {
+    const { connection, charges } = fakeStore({ charge_type: "flat", flat_fee: 250 });
+
+    expect(await accrueLateCharges(connection, "2026-03-04")).toBe(1);
+    expect(await accrueLateCharges(connection, "2026-03-04")).toBe(0);
+    expect(await accrueLateCharges(connection, "2026-04-15")).toBe(0);
+    // Even once the first fee has been collected
+    charges[0].status = "paid";
+    expect(await accrueLateCharges(connection, "2026-05-01")).toBe(0);
+
+    expect(charges).toHaveLength(1);
+  });
+
+  it("accrues interest for each day exactly once, in periods that never overlap", async () => {
+    // 0.1% a day on 1000 is 1.00 a day, from the first day after the grace period
+    const { connection, charges } = fakeStore({ charge_type: "daily_interest", interest_rate: 0.1 });
+
+    expect(await accrueLateCharges(connection, "2026-03-10")).toBe(1);
+    expect(await accrueLateCharges(connection, "2026-03-10")).toBe(0);
+    expect(await accrueLateCharges(connection, "2026-03-12")).toBe(1);
+    expect(charges).toEqual([
+      expect.objectContaining({ amount: 9, period_start: "2026-03-04", period_end: "2026-03-12" }),
+    ]);
+
+    // A collected row is closed; later days start a new one
+    charges[0].status = "paid";
+    await accrueLateCharges(connection, "2026-03-15");
+    // A new month starts a new row too
+    await accrueLateCharges(connection, "2026-04-02");
+
+    expect(charges.map((c) => [c.period_start, c.period_end, c.amount])).toEqual([
+      ["2026-03-04", "2026-03-12", 9],
+      ["2026-03-13", "2026-03-15", 3],
+      ["2026-03-16", "2026-04-02", 18],
+    ]);
+    // 2026-03-04 to 2026-04-02 is 30 days
+    expect(charges.reduce((sum, c) => sum + c.amount, 0)).toBe(30);
+  });
+
+  it("converts a monthly rate to a daily one", async () => {
+    // 3% a month is 3 × 12 ÷ 365 ≈ 0.0986% a day; seven days on 1000 is 6.90
+    const { connection, charges } = fakeStore({ charge_type: "monthly_interest", interest_rate: 3 });
+    await accrueLateCharges(connection, "2026-03-10");
+    expect(charges[0].amount).toBe(6.9);
+  });
+});
@@ -0,0 +1,377 @@
+// lib/late-fees.ts
+import mysql from "mysql2/promise";
+import { addDays, differenceInCalendarDays, format, startOfMonth } from "date-fns";
+import { roundCurrency } from "@/lib/receipt-totals";
+import { formatDateOnlyForMySQL } from "@/lib/receipts";
+import { PaymentChannel, resolveMoneyAccountId } from "@/lib/money-accounts";
+import { postTransactionJournal } from "@/lib/ledger";
+
+export type LateFeeChargeType = "none" | "flat" | "daily_interest" | "monthly_interest";
+
+export const LATE_FEE_CHARGE_TYPES: LateFeeChargeType[] = [
+  "none",
+  "flat",
+  "daily_interest",
+  "monthly_interest",
+];
+
+export interface LateFeeSettings {
+  chargeType: LateFeeChargeType;
+  flatFee: number;
+  // Percent per day or per month, depending on chargeType
+  interestRate: number;
+  graceDays: number;
+}
+
+export type DueChargeType = "late_fee" | "interest";
+export type DueChargeStatus = "outstanding" | "paid" | "waived";
+
+export interface DueCharge {
+  id: number;
+  dueRecordId: number;
+  chargeType: DueChargeType;
+  amount: number;
+  periodStart: string;
+  periodEnd: string;
+  status: DueChargeStatus;
+  settledAt: string | null;
+}
+
+export const DEFAULT_LATE_FEE_SETTINGS: LateFeeSettings = {
+  chargeType: "none",
+  flatFee: 0,
+  interestRate: 0,
+  graceDays: 0,
+};
+
+const MAX_GRACE_DAYS = 365;
+
+export function validateLateFeeSettings(body: Partial<LateFeeSettings>): string | null {
+  if (!body.chargeType || !LATE_FEE_CHARGE_TYPES.includes(body.chargeType)) {
+    return "Charge type must be none, flat, daily_interest or monthly_interest";
+  }
+  if (
+    typeof body.graceDays !== "number" ||
+    !Number.isInteger(body.graceDays) ||
+    body.graceDays < 0 ||
+    body.graceDays > MAX_GRACE_DAYS
+  ) {
+    return `Grace period must be a whole number of days between 0 and ${MAX_GRACE_DAYS}`;
+  }
+  if (body.chargeType === "flat") {
+    if (typeof body.flatFee !== "number" || !isFinite(body.flatFee) || body.flatFee <= 0) {
+      return "Late fee must be greater than zero";
+    }
+    if (roundCurrency(body.flatFee) !== body.flatFee) {
+      return "Late fee can have at most two decimal places";
+    }
+  }
+  if (body.chargeType === "daily_interest" || body.chargeType === "monthly_interest") {
+    const max = body.chargeType === "daily_interest" ? 1 : 10;
+    if (
+      typeof body.interestRate !== "number" ||
+      !isFinite(body.interestRate) ||
+      body.interestRate <= 0 ||
+      body.interestRate > max
+    ) {
+      return `Interest rate must be greater than 0 and at most ${max}%`;
+    }
+  }
+  return null;
+}
+
+export async function loadLateFeeSettings(
+  connection: mysql.PoolConnection,
+  userId: string | number
+): Promise<LateFeeSettings> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT charge_type, flat_fee, interest_rate, grace_days
+     FROM late_fee_settings
+     WHERE user_id = ?`,
+    [userId]
+  );
+  if (rows.length === 0) return { ...DEFAULT_LATE_FEE_SETTINGS };
+
+  return {
+    chargeType: rows[0].charge_type,
+    flatFee: Number(rows[0].flat_fee) || 0,
+    interestRate: Number(rows[0].interest_rate) || 0,
+    graceDays: Number(rows[0].grace_days) || 0,
+  };
+}
+
+export async function saveLateFeeSettings(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  settings: LateFeeSettings
+) {
+  await connection.query(
+    `INSERT INTO late_fee_settings (user_id, charge_type, flat_fee, interest_rate, grace_days)
+     VALUES (?, ?, ?, ?, ?)
+     ON DUPLICATE KEY UPDATE
+       charge_type = VALUES(charge_type),
+       flat_fee = VALUES(flat_fee),
+       interest_rate = VALUES(interest_rate),
+       grace_days = VALUES(grace_days)`,
+    [
+      userId,
+      settings.chargeType,
+      settings.chargeType === "flat" ? settings.flatFee : 0,
+      settings.chargeType.endsWith("_interest") ? settings.interestRate : 0,
+      settings.graceDays,
+    ]
+  );
+}
+
+const toDueCharge = (row: mysql.RowDataPacket): DueCharge => ({
+  id: row.id,
+  dueRecordId: row.due_record_id,
+  chargeType: row.charge_type,
+  amount: Number(row.amount) || 0,
+  periodStart: row.period_start,
+  periodEnd: row.period_end,
+  status: row.status,
+  settledAt: row.settled_at || null,
+});
+
+const CHARGE_COLUMNS = `
+  id, due_record_id, charge_type, amount,
+  DATE_FORMAT(period_start, '%Y-%m-%d') AS period_start,
+  DATE_FORMAT(period_end, '%Y-%m-%d') AS period_end,
+  status, CAST(settled_at AS CHAR) AS settled_at`;
+
+/**
+ * Charges for the given due records, keyed by due record id, oldest first.
+ */
+export async function loadDueCharges(
+  connection: mysql.PoolConnection,
+  dueIds: number[],
+  { outstandingOnly = false } = {}
+): Promise<Map<number, DueCharge[]>> {
+  const charges = new Map<number, DueCharge[]>();
+  if (dueIds.length === 0) return charges;
+
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT ${CHARGE_COLUMNS}
+     FROM due_charges
+     WHERE due_record_id IN (?) ${outstandingOnly ? "AND status = 'outstanding'" : ""}
+     ORDER BY period_start ASC, id ASC`,
+    [dueIds]
+  );
+
+  for (const row of rows) {
+    const list = charges.get(row.due_record_id) || [];
+    list.push(toDueCharge(row));
+    charges.set(row.due_record_id, list);
+  }
+  return charges;
+}
+
+const dailyRateOf = (settings: { chargeType: string; interestRate: number }) =>
+  settings.chargeType === "daily_interest"
+    ? settings.interestRate / 100
+    : (settings.interestRate / 100) * (12 / 365);
+
+/**
+ * Accrue late fees and interest on open dues that are past their grace
+ * period, for every store or just `userId`. A flat fee is charged once per
+ * due. Interest is simple interest on what is still unpaid, added for each
+ * day since the last accrual into one running row per due and month; days
+ * worth less than a paisa wait for the next run. Safe to call repeatedly.
+ * Returns the number of dues charged.
+ */
+export async function accrueLateCharges(
+  connection: mysql.PoolConnection,
+  today: string,
+  userId?: string | number
+): Promise<number> {
+  const [candidates] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT d.id, s.charge_type, s.flat_fee, s.interest_rate, s.grace_days,
+            DATE_FORMAT(d.expected_payment_date, '%Y-%m-%d') AS expected_payment_date
+     FROM due_records d
+     JOIN late_fee_settings s ON s.user_id = d.user_id
+     WHERE d.is_paid = FALSE AND d.status = 'open' AND s.charge_type <> 'none'
+     AND DATE_ADD(d.expected_payment_date, INTERVAL s.grace_days DAY) < ?
+     ${userId !== undefined ? "AND d.user_id = ?" : ""}`,
+    userId !== undefined ? [today, userId] : [today]
+  );
+
+  const todayDate = new Date(`${today}T00:00:00`);
+  const monthStart = format(startOfMonth(todayDate), "yyyy-MM-dd");
+  let charged = 0;
+
+  for (const candidate of candidates) {
+    const firstChargeDay = addDays(
+      new Date(`${candidate.expected_payment_date}T00:00:00`),
+      Number(candidate.grace_days) + 1
+    );
+    const firstChargeDate = format(firstChargeDay, "yyyy-MM-dd");
+
+    await connection.beginTransaction();
+    try {
+      // The row lock keeps two workers from accruing the same days twice
+      const [dues] = await connection.query<mysql.RowDataPacket[]>(
+        `SELECT user_id, amount_due - amount_paid AS remaining, is_paid
+         FROM due_records WHERE id = ? FOR UPDATE`,
+        [candidate.id]
+      );
+      const due = dues[0];
+      const remaining = roundCurrency(Number(due?.remaining) || 0);
+      let changed = false;
+
+      // The fee is dated by the missed due date rather than the end of the
+      // grace period, so changing the grace period can't charge it again
+      if (due && !due.is_paid && remaining > 0 && candidate.charge_type === "flat") {
+        const [result] = await connection.query<mysql.ResultSetHeader>(
+          `INSERT IGNORE INTO due_charges
+            (due_record_id, user_id, charge_type, amount, period_start, period_end)
+           SELECT ?, ?, 'late_fee', ?, ?, ?
+           FROM DUAL
+           WHERE NOT EXISTS (
+             SELECT 1 FROM due_charges
+             WHERE due_record_id = ? AND charge_type = 'late_fee'
+           )`,
+          [
+            candidate.id,
+            due.user_id,
+            Number(candidate.flat_fee),
+            candidate.expected_payment_date,
+            candidate.expected_payment_date,
+            candidate.id,
+          ]
+        );
+        changed = result.affectedRows > 0;
+      }
+
+      if (due && !due.is_paid && remaining > 0 && candidate.charge_type.endsWith("_interest")) {
+        const [accrued] = await connection.query<mysql.RowDataPacket[]>(
+          `SELECT DATE_FORMAT(MAX(period_end), '%Y-%m-%d') AS accrued_through
+           FROM due_charges
+           WHERE due_record_id = ? AND charge_type = 'interest'`,
+          [candidate.id]
+        );
+        const accruedThrough = accrued[0]?.accrued_through as string | null;
+        const from =
+          accruedThrough && accruedThrough >= firstChargeDate
+            ? addDays(new Date(`${accruedThrough}T00:00:00`), 1)
+            : firstChargeDay;
+        const days = differenceInCalendarDays(todayDate, from) + 1;
+        const amount = roundCurrency(
+          remaining *
+            dailyRateOf({
+              chargeType: candidate.charge_type,
+              interestRate: Number(candidate.interest_rate),
+            }) *
+            days
+        );
+
+        if (days > 0 && amount > 0) {
+          const [updated] = await connection.query<mysql.ResultSetHeader>(
+            `UPDATE due_charges
+             SET amount = amount + ?, period_end = ?
+             WHERE due_record_id = ? AND charge_type = 'interest'
+             AND status = 'outstanding' AND period_end >= ?
+             ORDER BY period_end DESC
+             LIMIT 1`,
+            [amount, today, candidate.id, monthStart]
+          );
+          if (updated.affectedRows === 0) {
+            await connection.query(
+              `INSERT INTO due_charges
+                (due_record_id, user_id, charge_type, amount, period_start, period_end)
+               VALUES (?, ?, 'interest', ?, ?, ?)`,
+              [candidate.id, due.user_id, amount, format(from, "yyyy-MM-dd"), today]
+            );
+          }
+          changed = true;
+        }
+      }
+
+      await connection.commit();
+      if (changed) charged++;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    }
+  }
+
+  return charged;
+}
+
+/**
+ * Close the outstanding charges on a due inside the caller's transaction,
+ * either by collecting them (posted as one credit to account_transactions,
+ * which the charges point back to) or by waiving them.
+ */
+export async function settleDueCharges(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  dueId: number,
+  {
+    waive = false,
+    paymentDate,
+    paymentMode = "cash",
+  }: { waive?: boolean; paymentDate?: string; paymentMode?: PaymentChannel } = {}
+): Promise<{ collected: number; waived: number }> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT c.id, c.amount, d.customer_name, d.receipt_number
+     FROM due_charges c
+     JOIN due_records d ON c.due_record_id = d.id
+     WHERE c.due_record_id = ? AND c.user_id = ? AND c.status = 'outstanding'
+     FOR UPDATE`,
+    [dueId, userId]
+  );
+  if (rows.length === 0) return { collected: 0, waived: 0 };
+
+  const total = roundCurrency(rows.reduce((sum, row) => sum + Number(row.amount), 0));
+  const chargeIds = rows.map((row) => row.id);
+
+  if (waive) {
+    await connection.query(
+      `UPDATE due_charges SET status = 'waived', settled_at = NOW() WHERE id IN (?)`,
+      [chargeIds]
+    );
+    return { collected: 0, waived: total };
+  }
+
+  const moneyAccountId = await resolveMoneyAccountId(connection, userId, paymentMode);
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT INTO account_transactions (
+      particulars, amount, type, user_id, due_record_id, is_late_fee,
+      money_account_id, transaction_date
+    ) VALUES (?, ?, 'credit', ?, ?, TRUE, ?, ?)`,
+    [
+      `Late fee & interest from ${rows[0].customer_name}` +
+        (rows[0].receipt_number ? ` (Receipt: ${rows[0].receipt_number})` : ""),
+      total,
+      userId,
+      dueId,
+      moneyAccountId,
+      formatDateOnlyForMySQL(paymentDate || new Date()),
+    ]
+  );
+  await connection.query(
+    `UPDATE due_charges
+     SET status = 'paid', settled_at = NOW(), settlement_transaction_id = ?
+     WHERE id IN (?)`,
+    [result.insertId, chargeIds]
+  );
+  await postTransactionJournal(connection, userId, result.insertId);
+  return { collected: total, waived: 0 };
+}
+
+/**
+ * Put the charges a collection settled back to outstanding, inside the
+ * caller's transaction, when the collection is reversed.
+ */
+export async function reopenDueCharges(
+  connection: mysql.PoolConnection,
+  transactionId: number
+): Promise<void> {
+  await connection.query(
+    `UPDATE due_charges
+     SET status = 'outstanding', settled_at = NULL, settlement_transaction_id = NULL
+     WHERE settlement_transaction_id = ?`,
+    [transactionId]
+  );
+}
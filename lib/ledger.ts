@@ -0,0 +1,755 @@
+// lib/ledger.ts
+import mysql from "mysql2/promise";
+import { roundCurrency } from "@/lib/receipt-totals";
+import { resolveMoneyAccountId } from "@/lib/money-accounts";
+import { toCsv } from "@/lib/csv";
+
+export type LedgerAccountType = "asset" | "liability" | "equity" | "income" | "expense";
+
+type SystemAccountKey =
+  | "receivables"
+  | "gst_input"
+  | "gst_payable"
+  | "owner_capital"
+  | "sales"
+  | "sales_returns"
+  | "late_fee_income"
+  | "other_income"
+  | "bad_debts"
+  | "uncategorised_expenses";
+
+// Created for every user the first time the ledger is touched. Cash and bank
+// accounts are numbered 1001-1099 and expense categories 5201-5999 as they
+// are first posted to.
+const SYSTEM_ACCOUNTS: {
+  key: SystemAccountKey;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+}[] = [
+  { key: "receivables", code: "1100", name: "Accounts receivable", type: "asset" },
+  { key: "gst_input", code: "1200", name: "GST input credit", type: "asset" },
+  { key: "gst_payable", code: "2100", name: "GST payable", type: "liability" },
+  { key: "owner_capital", code: "3000", name: "Owner's capital", type: "equity" },
+  { key: "sales", code: "4000", name: "Sales", type: "income" },
+  { key: "sales_returns", code: "4010", name: "Sales returns & cancellations", type: "income" },
+  { key: "late_fee_income", code: "4100", name: "Late fee & interest income", type: "income" },
+  { key: "other_income", code: "4200", name: "Other income", type: "income" },
+  { key: "bad_debts", code: "5000", name: "Bad debts", type: "expense" },
+  { key: "uncategorised_expenses", code: "5100", name: "Uncategorised expenses", type: "expense" },
+];
+
+const LINKED_CODE_RANGES = {
+  money_account_id: { first: 1001, last: 1099, type: "asset", table: "money_accounts" },
+  expense_category_id: { first: 5201, last: 5999, type: "expense", table: "expense_categories" },
+} as const;
+
+// Linked accounts follow renames of their cash account or expense category
+const ACCOUNT_NAME = "COALESCE(ma.name, ec.name, la.name)";
+const ACCOUNT_JOINS = `
+  LEFT JOIN money_accounts ma ON la.money_account_id = ma.id
+  LEFT JOIN expense_categories ec ON la.expense_category_id = ec.id`;
+
+export interface LedgerAccount {
+  id: number;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  isSystem: boolean;
+  moneyAccountId: number | null;
+  expenseCategoryId: number | null;
+  debit: number;
+  credit: number;
+  // Debits less credits for assets and expenses, credits less debits otherwise
+  balance: number;
+}
+
+export type JournalSourceType = "receipt" | "credit_note" | "transaction" | "transfer" | "due";
+
+export interface JournalLine {
+  accountId: number;
+  code: string;
+  account: string;
+  debit: number;
+  credit: number;
+}
+
+export interface JournalEntry {
+  id: number;
+  date: string;
+  narration: string;
+  source: JournalSourceType;
+  sourceId: number;
+  lines: JournalLine[];
+}
+
+export interface TrialBalanceRow {
+  accountId: number;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  asOf: string;
+  rows: TrialBalanceRow[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+}
+
+const SOURCE_COLUMNS: Record<JournalSourceType, string> = {
+  receipt: "receipt_id",
+  credit_note: "credit_note_id",
+  transaction: "account_transaction_id",
+  transfer: "transfer_id",
+  due: "due_record_id",
+};
+
+interface JournalLineInput {
+  accountId: number;
+  debit?: number;
+  credit?: number;
+}
+
+interface JournalEntryInput {
+  date: string;
+  narration: string;
+  lines: JournalLineInput[];
+}
+
+async function loadSystemAccounts(
+  connection: mysql.PoolConnection,
+  userId: string | number
+): Promise<Record<SystemAccountKey, number>> {
+  const select = () =>
+    connection.query<mysql.RowDataPacket[]>(
+      `SELECT id, system_key FROM ledger_accounts
+       WHERE user_id = ? AND system_key IS NOT NULL`,
+      [userId]
+    );
+
+  let [rows] = await select();
+  if (rows.length < SYSTEM_ACCOUNTS.length) {
+    for (const account of SYSTEM_ACCOUNTS) {
+      await connection.query(
+        `INSERT IGNORE INTO ledger_accounts (user_id, code, name, type, system_key)
+         VALUES (?, ?, ?, ?, ?)`,
+        [userId, account.code, account.name, account.type, account.key]
+      );
+    }
+    [rows] = await select();
+  }
+
+  return Object.fromEntries(rows.map((row) => [row.system_key, row.id])) as Record<
+    SystemAccountKey,
+    number
+  >;
+}
+
+/**
+ * The ledger account behind a cash/bank account or expense category,
+ * opened with the next free code in its range the first time it is needed.
+ */
+async function linkedLedgerAccountId(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  link: keyof typeof LINKED_CODE_RANGES,
+  linkedId: number
+): Promise<number> {
+  const select = () =>
+    connection.query<mysql.RowDataPacket[]>(
+      `SELECT id FROM ledger_accounts WHERE user_id = ? AND ${link} = ?`,
+      [userId, linkedId]
+    );
+
+  const [existing] = await select();
+  if (existing.length > 0) return existing[0].id;
+
+  const range = LINKED_CODE_RANGES[link];
+  const [sources] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT name FROM ${range.table} WHERE id = ? AND user_id = ?`,
+    [linkedId, userId]
+  );
+  if (sources.length === 0) throw new Error("Linked account not found");
+
+  const [codes] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT MAX(CAST(code AS UNSIGNED)) AS last_code FROM ledger_accounts
+     WHERE user_id = ? AND CAST(code AS UNSIGNED) BETWEEN ? AND ?`,
+    [userId, range.first, range.last]
+  );
+  const code = codes[0].last_code ? Number(codes[0].last_code) + 1 : range.first;
+  if (code > range.last) throw new Error("No ledger codes left for new accounts");
+
+  await connection.query(
+    `INSERT IGNORE INTO ledger_accounts (user_id, code, name, type, ${link})
+     VALUES (?, ?, ?, ?, ?)`,
+    [userId, String(code), sources[0].name, range.type, linkedId]
+  );
+
+  const [created] = await select();
+  if (created.length === 0) throw new Error("Failed to open ledger account");
+  return created[0].id;
+}
+
+/**
+ * Replace the journal entry posted for a source row. Passing null, or lines
+ * that are all zero, just removes it. Throws if debits and credits differ.
+ */
+async function replaceJournal(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  source: JournalSourceType,
+  sourceId: number,
+  entry: JournalEntryInput | null
+): Promise<number | null> {
+  const column = SOURCE_COLUMNS[source];
+  await connection.query(
+    `DELETE FROM journal_entries WHERE user_id = ? AND ${column} = ?`,
+    [userId, sourceId]
+  );
+  if (!entry) return null;
+
+  const lines = entry.lines
+    .map((line) => ({
+      accountId: line.accountId,
+      debit: roundCurrency(line.debit || 0),
+      credit: roundCurrency(line.credit || 0),
+    }))
+    .filter((line) => line.debit > 0 || line.credit > 0);
+  if (lines.length === 0) return null;
+
+  const totalDebit = roundCurrency(lines.reduce((sum, line) => sum + line.debit, 0));
+  const totalCredit = roundCurrency(lines.reduce((sum, line) => sum + line.credit, 0));
+  if (totalDebit !== totalCredit) {
+    throw new Error(
+      `Journal entry does not balance: debits ₹${totalDebit.toFixed(2)}, credits ₹${totalCredit.toFixed(2)}`
+    );
+  }
+
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT INTO journal_entries (user_id, entry_date, narration, ${column})
+     VALUES (?, ?, ?, ?)`,
+    [userId, entry.date, entry.narration.slice(0, 255), sourceId]
+  );
+  await connection.query(
+    `INSERT INTO journal_lines (journal_entry_id, ledger_account_id, debit, credit) VALUES ?`,
+    [lines.map((line) => [result.insertId, line.accountId, line.debit, line.credit])]
+  );
+  return result.insertId;
+}
+
+/**
+ * Accrue a receipt: receivable for the total, split into sales and GST
+ * payable. Voiding a receipt removes its entry and those of its credit notes.
+ */
+export async function postReceiptJournal(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  receiptId: number
+): Promise<void> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT receipt_number, customer_name, total, total_tax, status,
+            DATE_FORMAT(date, '%Y-%m-%d') AS date
+     FROM receipts WHERE id = ? AND user_id = ?`,
+    [receiptId, userId]
+  );
+  const receipt = rows[0];
+
+  if (!receipt || receipt.status === "void") {
+    await replaceJournal(connection, userId, "receipt", receiptId, null);
+    await connection.query(
+      `DELETE je FROM journal_entries je
+       JOIN credit_notes cn ON je.credit_note_id = cn.id
+       WHERE cn.receipt_id = ? AND je.user_id = ?`,
+      [receiptId, userId]
+    );
+    return;
+  }
+
+  const accounts = await loadSystemAccounts(connection, userId);
+  const total = Number(receipt.total) || 0;
+  const tax = Number(receipt.total_tax) || 0;
+
+  await replaceJournal(connection, userId, "receipt", receiptId, {
+    date: receipt.date,
+    narration: `Sale to ${receipt.customer_name} (Receipt: ${receipt.receipt_number})`,
+    lines: [
+      { accountId: accounts.receivables, debit: total },
+      { accountId: accounts.sales, credit: total - tax },
+      { accountId: accounts.gst_payable, credit: tax },
+    ],
+  });
+}
+
+// Reverses the sale and its GST against the customer's receivable
+export async function postCreditNoteJournal(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  creditNoteId: number
+): Promise<void> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT cn.credit_note_number, cn.total, cn.total_tax,
+            cn.due_adjusted, cn.refund_amount,
+            DATE_FORMAT(cn.date, '%Y-%m-%d') AS date,
+            r.receipt_number, r.customer_name
+     FROM credit_notes cn
+     JOIN receipts r ON cn.receipt_id = r.id
+     WHERE cn.id = ? AND cn.user_id = ?`,
+    [creditNoteId, userId]
+  );
+  const note = rows[0];
+  if (!note) return;
+
+  const accounts = await loadSystemAccounts(connection, userId);
+  const total = Number(note.total) || 0;
+  const tax = Number(note.total_tax) || 0;
+  // The part that went against a written-off or cancelled balance was
+  // never owed any more, so it nets out of the return instead
+  const unsettled = roundCurrency(
+    total - (Number(note.due_adjusted) || 0) - (Number(note.refund_amount) || 0)
+  );
+
+  await replaceJournal(connection, userId, "credit_note", creditNoteId, {
+    date: note.date,
+    narration:
+      `Credit note ${note.credit_note_number} to ${note.customer_name}` +
+      ` (Receipt: ${note.receipt_number})`,
+    lines: [
+      { accountId: accounts.sales_returns, debit: total - tax },
+      { accountId: accounts.gst_payable, debit: tax },
+      { accountId: accounts.receivables, credit: total - unsettled },
+      { accountId: accounts.sales_returns, credit: unsettled },
+    ],
+  });
+}
+
+/**
+ * Post an account_transactions row. Receipt and due payments settle the
+ * receivable, refunds reopen it, late fees and other deposits are income,
+ * expenses go to their category with any tax paid as input credit, and
+ * write-offs move the receivable to bad debts. Transfer legs are covered
+ * by the transfer's own entry, and a reversal posts the mirror image of the
+ * entry it reverses.
+ */
+export async function postTransactionJournal(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  transactionId: number
+): Promise<void> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT particulars, amount, type, tax_amount, receipt_id, due_record_id,
+            due_payment_id, credit_note_id, is_non_cash, is_late_fee, expense_category_id,
+            money_account_id, transfer_id, reverses_transaction_id,
+            DATE_FORMAT(transaction_date, '%Y-%m-%d') AS date
+     FROM account_transactions WHERE id = ? AND user_id = ?`,
+    [transactionId, userId]
+  );
+  const row = rows[0];
+  if (!row || row.transfer_id) return;
+
+  if (row.reverses_transaction_id) {
+    const selectOriginal = () =>
+      connection.query<mysql.RowDataPacket[]>(
+        `SELECT jl.ledger_account_id, jl.debit, jl.credit
+         FROM journal_lines jl
+         JOIN journal_entries je ON jl.journal_entry_id = je.id
+         WHERE je.account_transaction_id = ? AND je.user_id = ?`,
+        [row.reverses_transaction_id, userId]
+      );
+    let [original] = await selectOriginal();
+    if (original.length === 0) {
+      await postTransactionJournal(connection, userId, row.reverses_transaction_id);
+      [original] = await selectOriginal();
+    }
+    await replaceJournal(connection, userId, "transaction", transactionId, {
+      date: row.date,
+      narration: row.particulars,
+      lines: original.map((line) => ({
+        accountId: line.ledger_account_id,
+        debit: Number(line.credit) || 0,
+        credit: Number(line.debit) || 0,
+      })),
+    });
+    return;
+  }
+
+  const accounts = await loadSystemAccounts(connection, userId);
+  const amount = Number(row.amount) || 0;
+  let lines: JournalLineInput[];
+
+  if (row.is_non_cash) {
+    lines = [
+      { accountId: accounts.bad_debts, debit: amount },
+      { accountId: accounts.receivables, credit: amount },
+    ];
+  } else {
+    // Entries from before money accounts existed are filed under cash
+    let moneyAccountId: number = row.money_account_id;
+    if (!moneyAccountId) {
+      moneyAccountId = await resolveMoneyAccountId(connection, userId, "cash");
+      await connection.query(
+        `UPDATE account_transactions SET money_account_id = ? WHERE id = ?`,
+        [moneyAccountId, transactionId]
+      );
+    }
+    const cash = await linkedLedgerAccountId(
+      connection,
+      userId,
+      "money_account_id",
+      moneyAccountId
+    );
+
+    if (row.credit_note_id) {
+      lines = [
+        { accountId: accounts.receivables, debit: amount },
+        { accountId: cash, credit: amount },
+      ];
+    } else if (row.is_late_fee) {
+      lines = [
+        { accountId: cash, debit: amount },
+        { accountId: accounts.late_fee_income, credit: amount },
+      ];
+    } else if (
+      row.due_payment_id ||
+      (row.type === "credit" && (row.receipt_id || row.due_record_id))
+    ) {
+      // Due settlements posted before due_payments existed only carry
+      // due_record_id
+      lines = [
+        { accountId: cash, debit: amount },
+        { accountId: accounts.receivables, credit: amount },
+      ];
+    } else if (row.type === "debit") {
+      const tax = Math.min(Number(row.tax_amount) || 0, amount);
+      const expense = row.expense_category_id
+        ? await linkedLedgerAccountId(
+            connection,
+            userId,
+            "expense_category_id",
+            row.expense_category_id
+          )
+        : accounts.uncategorised_expenses;
+      lines = [
+        { accountId: expense, debit: amount - tax },
+        { accountId: accounts.gst_input, debit: tax },
+        { accountId: cash, credit: amount },
+      ];
+    } else {
+      lines = [
+        { accountId: cash, debit: amount },
+        { accountId: accounts.other_income, credit: amount },
+      ];
+    }
+  }
+
+  await replaceJournal(connection, userId, "transaction", transactionId, {
+    date: row.date,
+    narration: row.particulars,
+    lines,
+  });
+}
+
+export async function postTransferJournal(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  transferId: number
+): Promise<void> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT tr.from_account_id, tr.to_account_id, tr.amount, tr.notes,
+            DATE_FORMAT(tr.transfer_date, '%Y-%m-%d') AS date,
+            fa.name AS from_name, ta.name AS to_name
+     FROM account_transfers tr
+     JOIN money_accounts fa ON tr.from_account_id = fa.id
+     JOIN money_accounts ta ON tr.to_account_id = ta.id
+     WHERE tr.id = ? AND tr.user_id = ?`,
+    [transferId, userId]
+  );
+  const transfer = rows[0];
+  if (!transfer) return;
+
+  const amount = Number(transfer.amount) || 0;
+  await replaceJournal(connection, userId, "transfer", transferId, {
+    date: transfer.date,
+    narration:
+      `Transfer from ${transfer.from_name} to ${transfer.to_name}` +
+      (transfer.notes ? ` (${transfer.notes})` : ""),
+    lines: [
+      {
+        accountId: await linkedLedgerAccountId(
+          connection,
+          userId,
+          "money_account_id",
+          transfer.to_account_id
+        ),
+        debit: amount,
+      },
+      {
+        accountId: await linkedLedgerAccountId(
+          connection,
+          userId,
+          "money_account_id",
+          transfer.from_account_id
+        ),
+        credit: amount,
+      },
+    ],
+  });
+}
+
+/**
+ * A cancelled due takes its unpaid amount back out of sales. Write-offs are
+ * posted through their non-cash transaction instead.
+ */
+export async function postDueJournal(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  dueId: number
+): Promise<void> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT customer_name, receipt_number, amount_due, amount_paid, status,
+            DATE_FORMAT(status_date, '%Y-%m-%d') AS status_date
+     FROM due_records WHERE id = ? AND user_id = ?`,
+    [dueId, userId]
+  );
+  const due = rows[0];
+  if (!due || due.status !== "cancelled") {
+    await replaceJournal(connection, userId, "due", dueId, null);
+    return;
+  }
+
+  const accounts = await loadSystemAccounts(connection, userId);
+  const remaining = roundCurrency(Number(due.amount_due) - Number(due.amount_paid));
+  await replaceJournal(connection, userId, "due", dueId, {
+    date: due.status_date,
+    narration:
+      `Due cancelled: ${due.customer_name}` +
+      (due.receipt_number ? ` (Receipt: ${due.receipt_number})` : ""),
+    lines: [
+      { accountId: accounts.sales_returns, debit: remaining },
+      { accountId: accounts.receivables, credit: remaining },
+    ],
+  });
+}
+
+/**
+ * Post anything recorded before the ledger existed, inside the caller's
+ * transaction. Every write posts its own entry, so this only runs once,
+ * as a data migration when the database is upgraded.
+ */
+export async function postUnpostedJournals(
+  connection: mysql.PoolConnection,
+  userId: string | number
+): Promise<void> {
+  await loadSystemAccounts(connection, userId);
+
+  const unposted = async (sql: string) => {
+    const [rows] = await connection.query<mysql.RowDataPacket[]>(sql, [userId]);
+    return rows.map((row) => row.id as number);
+  };
+
+  for (const id of await unposted(
+    `SELECT r.id FROM receipts r
+     LEFT JOIN journal_entries je ON je.receipt_id = r.id
+     WHERE r.user_id = ? AND r.status = 'active' AND je.id IS NULL`
+  )) {
+    await postReceiptJournal(connection, userId, id);
+  }
+  for (const id of await unposted(
+    `SELECT cn.id FROM credit_notes cn
+     JOIN receipts r ON cn.receipt_id = r.id
+     LEFT JOIN journal_entries je ON je.credit_note_id = cn.id
+     WHERE cn.user_id = ? AND r.status = 'active' AND je.id IS NULL`
+  )) {
+    await postCreditNoteJournal(connection, userId, id);
+  }
+  for (const id of await unposted(
+    `SELECT t.id FROM account_transactions t
+     LEFT JOIN journal_entries je ON je.account_transaction_id = t.id
+     WHERE t.user_id = ? AND t.transfer_id IS NULL AND je.id IS NULL`
+  )) {
+    await postTransactionJournal(connection, userId, id);
+  }
+  for (const id of await unposted(
+    `SELECT tr.id FROM account_transfers tr
+     LEFT JOIN journal_entries je ON je.transfer_id = tr.id
+     WHERE tr.user_id = ? AND je.id IS NULL`
+  )) {
+    await postTransferJournal(connection, userId, id);
+  }
+  for (const id of await unposted(
+    `SELECT d.id FROM due_records d
+     LEFT JOIN journal_entries je ON je.due_record_id = d.id
+     WHERE d.user_id = ? AND d.status = 'cancelled' AND je.id IS NULL`
+  )) {
+    await postDueJournal(connection, userId, id);
+  }
+}
+
+/**
+ * The chart of accounts with debit and credit totals of entries up to
+ * `asOf` (all entries when omitted), ordered by code.
+ */
+export async function loadChartOfAccounts(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  asOf?: string
+): Promise<LedgerAccount[]> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT la.id, la.code, ${ACCOUNT_NAME} AS name, la.type, la.system_key,
+            la.money_account_id, la.expense_category_id,
+            COALESCE(SUM(x.debit), 0) AS debit, COALESCE(SUM(x.credit), 0) AS credit
+     FROM ledger_accounts la
+     ${ACCOUNT_JOINS}
+     LEFT JOIN (
+       SELECT l.ledger_account_id, l.debit, l.credit
+       FROM journal_lines l
+       JOIN journal_entries e ON l.journal_entry_id = e.id
+       WHERE e.user_id = ? ${asOf ? "AND e.entry_date <= ?" : ""}
+     ) x ON x.ledger_account_id = la.id
+     WHERE la.user_id = ?
+     GROUP BY la.id
+     ORDER BY la.code ASC`,
+    asOf ? [userId, asOf, userId] : [userId, userId]
+  );
+
+  return rows.map((row) => {
+    const debit = roundCurrency(Number(row.debit) || 0);
+    const credit = roundCurrency(Number(row.credit) || 0);
+    const debitNormal = row.type === "asset" || row.type === "expense";
+    return {
+      id: row.id,
+      code: row.code,
+      name: row.name,
+      type: row.type,
+      isSystem: !!row.system_key,
+      moneyAccountId: row.money_account_id || null,
+      expenseCategoryId: row.expense_category_id || null,
+      debit,
+      credit,
+      balance: roundCurrency(debitNormal ? debit - credit : credit - debit),
+    };
+  });
+}
+
+// Each account's net balance on the side it falls; the two columns must agree
+export async function buildTrialBalance(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  asOf: string
+): Promise<TrialBalance> {
+  const accounts = await loadChartOfAccounts(connection, userId, asOf);
+
+  const rows: TrialBalanceRow[] = accounts
+    .map((account) => {
+      const net = roundCurrency(account.debit - account.credit);
+      return {
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debit: net > 0 ? net : 0,
+        credit: net < 0 ? -net : 0,
+      };
+    })
+    .filter((row) => row.debit > 0 || row.credit > 0);
+
+  const totalDebit = roundCurrency(rows.reduce((sum, row) => sum + row.debit, 0));
+  const totalCredit = roundCurrency(rows.reduce((sum, row) => sum + row.credit, 0));
+
+  return { asOf, rows, totalDebit, totalCredit, balanced: totalDebit === totalCredit };
+}
+
+export async function loadJournal(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  from: string,
+  to: string
+): Promise<JournalEntry[]> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT e.id, DATE_FORMAT(e.entry_date, '%Y-%m-%d') AS date, e.narration,
+            e.receipt_id, e.credit_note_id, e.account_transaction_id,
+            e.transfer_id, e.due_record_id,
+            la.id AS account_id, la.code, ${ACCOUNT_NAME} AS account,
+            l.debit, l.credit
+     FROM journal_entries e
+     JOIN journal_lines l ON l.journal_entry_id = e.id
+     JOIN ledger_accounts la ON l.ledger_account_id = la.id
+     ${ACCOUNT_JOINS}
+     WHERE e.user_id = ? AND e.entry_date BETWEEN ? AND ?
+     ORDER BY e.entry_date ASC, e.id ASC, l.credit > 0 ASC, l.id ASC`,
+    [userId, from, to]
+  );
+
+  const entries = new Map<number, JournalEntry>();
+  for (const row of rows) {
+    let entry = entries.get(row.id);
+    if (!entry) {
+      const source = (Object.keys(SOURCE_COLUMNS) as JournalSourceType[]).find(
+        (type) => row[SOURCE_COLUMNS[type]]
+      )!;
+      entry = {
+        id: row.id,
+        date: row.date,
+        narration: row.narration,
+        source,
+        sourceId: row[SOURCE_COLUMNS[source]],
+        lines: [],
+      };
+      entries.set(row.id, entry);
+    }
+    entry.lines.push({
+      accountId: row.account_id,
+      code: row.code,
+      account: row.account,
+      debit: Number(row.debit) || 0,
+      credit: Number(row.credit) || 0,
+    });
+  }
+  return [...entries.values()];
+}
+
+/**
+ * Balance held in the user's cash and bank accounts according to the
+ * ledger, or in one of them when `moneyAccountId` is given.
+ */
+export async function loadMoneyBalance(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  moneyAccountId?: number
+): Promise<number> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT COALESCE(SUM(l.debit - l.credit), 0) AS balance
+     FROM journal_lines l
+     JOIN ledger_accounts la ON l.ledger_account_id = la.id
+     WHERE la.user_id = ? AND ${
+       moneyAccountId ? "la.money_account_id = ?" : "la.money_account_id IS NOT NULL"
+     }`,
+    moneyAccountId ? [userId, moneyAccountId] : [userId]
+  );
+  return roundCurrency(Number(rows[0].balance) || 0);
+}
+
+export function trialBalanceToCsv(trialBalance: TrialBalance): string {
+  return toCsv(
+    ["Code", "Account", "Type", "Debit", "Credit"],
+    [
+      ...trialBalance.rows.map((row) => [
+        row.code,
+        row.name,
+        row.type,
+        row.debit ? row.debit.toFixed(2) : "",
+        row.credit ? row.credit.toFixed(2) : "",
+      ]),
+      [
+        "",
+        "Total",
+        "",
+        trialBalance.totalDebit.toFixed(2),
+        trialBalance.totalCredit.toFixed(2),
+      ],
+    ]
+  );
+}
@@ -0,0 +1,255 @@
+// lib/money-accounts.ts
+import mysql from "mysql2/promise";
+import { roundCurrency } from "@/lib/receipt-totals";
+
+export type MoneyAccountKind = "cash" | "bank" | "wallet";
+export type PaymentChannel = "cash" | "online";
+
+export const MONEY_ACCOUNT_KINDS: MoneyAccountKind[] = ["cash", "bank", "wallet"];
+
+// Seeded the first time a user's accounts are needed so every payment has a home
+const DEFAULT_MONEY_ACCOUNTS: { name: string; kind: MoneyAccountKind; receives: PaymentChannel }[] = [
+  { name: "Cash in hand", kind: "cash", receives: "cash" },
+  { name: "Bank account", kind: "bank", receives: "online" },
+];
+
+export interface MoneyAccount {
+  id: number;
+  name: string;
+  kind: MoneyAccountKind;
+  // Receipt and due payments of this kind land here
+  receives: PaymentChannel | null;
+  isActive: boolean;
+  balance: number;
+}
+
+export interface MoneyAccountInput {
+  name?: string;
+  kind?: MoneyAccountKind;
+  receives?: PaymentChannel | null;
+  isActive?: boolean;
+}
+
+export interface TransferInput {
+  fromAccountId: number;
+  toAccountId: number;
+  amount: number;
+  transferDate: string;
+  notes?: string;
+}
+
+export interface AccountTransfer {
+  id: number;
+  fromAccountId: number;
+  fromAccount: string;
+  toAccountId: number;
+  toAccount: string;
+  amount: number;
+  transferDate: string;
+  notes: string | null;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function validateMoneyAccountInput(
+  input: MoneyAccountInput,
+  { partial = false } = {}
+): string | null {
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) return "Account name is required";
+    if (input.name.trim().length > 50) return "Account name must be 50 characters or fewer";
+  }
+  if ((!partial || input.kind !== undefined) && !MONEY_ACCOUNT_KINDS.includes(input.kind!)) {
+    return "Kind must be cash, bank or wallet";
+  }
+  if (input.receives != null && input.receives !== "cash" && input.receives !== "online") {
+    return "Receives must be cash, online or empty";
+  }
+  if (input.isActive !== undefined && typeof input.isActive !== "boolean") {
+    return "isActive must be true or false";
+  }
+  return null;
+}
+
+export function validateTransferInput(input: Partial<TransferInput>): string | null {
+  if (!Number.isInteger(input.fromAccountId) || !Number.isInteger(input.toAccountId)) {
+    return "Choose the accounts to transfer between";
+  }
+  if (input.fromAccountId === input.toAccountId) return "Choose two different accounts";
+  if (typeof input.amount !== "number" || !isFinite(input.amount) || input.amount <= 0) {
+    return "Amount must be a positive number";
+  }
+  if (roundCurrency(input.amount) !== input.amount) {
+    return "Amount can have at most two decimal places";
+  }
+  if (!input.transferDate || !DATE_PATTERN.test(input.transferDate)) {
+    return "Transfer date must be in YYYY-MM-DD format";
+  }
+  if (input.notes && input.notes.trim().length > 255) {
+    return "Notes must be 255 characters or fewer";
+  }
+  return null;
+}
+
+export async function ensureDefaultMoneyAccounts(
+  connection: mysql.PoolConnection,
+  userId: string | number
+): Promise<void> {
+  const [existing] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT COUNT(*) AS count FROM money_accounts WHERE user_id = ?`,
+    [userId]
+  );
+  if (Number(existing[0].count) > 0) return;
+
+  for (const account of DEFAULT_MONEY_ACCOUNTS) {
+    await connection.query(
+      `INSERT IGNORE INTO money_accounts (user_id, name, kind, receives) VALUES (?, ?, ?, ?)`,
+      [userId, account.name, account.kind, account.receives]
+    );
+  }
+}
+
+/**
+ * Accounts with their balances, active ones first. A balance is every cash
+ * entry posted to the account; non-cash book entries never belong to one.
+ */
+export async function loadMoneyAccounts(
+  connection: mysql.PoolConnection,
+  userId: string | number
+): Promise<MoneyAccount[]> {
+  await ensureDefaultMoneyAccounts(connection, userId);
+
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT a.id, a.name, a.kind, a.receives, a.is_active,
+            COALESCE(SUM(CASE t.type WHEN 'credit' THEN t.amount ELSE -t.amount END), 0) AS balance
+     FROM money_accounts a
+     LEFT JOIN account_transactions t ON t.money_account_id = a.id
+     WHERE a.user_id = ?
+     GROUP BY a.id
+     ORDER BY a.is_active DESC, a.id ASC`,
+    [userId]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    receives: row.receives || null,
+    isActive: !!row.is_active,
+    balance: roundCurrency(Number(row.balance) || 0),
+  }));
+}
+
+/**
+ * The account that payments of the given kind land in: the one marked to
+ * receive them, else the first active account of a matching kind.
+ */
+export async function resolveMoneyAccountId(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  channel: PaymentChannel
+): Promise<number> {
+  await ensureDefaultMoneyAccounts(connection, userId);
+
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id FROM money_accounts
+     WHERE user_id = ? AND is_active = TRUE
+     ORDER BY receives = ? DESC, (kind = 'cash') = ? DESC, id ASC
+     LIMIT 1`,
+    [userId, channel, channel === "cash"]
+  );
+  if (rows.length === 0) throw new Error("No active money account");
+  return rows[0].id;
+}
+
+export async function assertMoneyAccount(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  accountId: number
+): Promise<void> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id FROM money_accounts WHERE id = ? AND user_id = ? AND is_active = TRUE`,
+    [accountId, userId]
+  );
+  if (rows.length === 0) throw new Error("Money account not found");
+}
+
+/**
+ * Move money between two of the user's accounts inside the caller's
+ * transaction. The debit and credit cancel out, so the overall balance is
+ * unchanged.
+ */
+export async function createTransfer(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  input: TransferInput
+): Promise<number> {
+  const [accounts] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, name FROM money_accounts
+     WHERE id IN (?, ?) AND user_id = ? AND is_active = TRUE`,
+    [input.fromAccountId, input.toAccountId, userId]
+  );
+  const nameOf = (id: number) => accounts.find((account) => account.id === id)?.name;
+  const fromName = nameOf(input.fromAccountId);
+  const toName = nameOf(input.toAccountId);
+  if (!fromName || !toName) throw new Error("Money account not found");
+
+  const notes = input.notes?.trim() || null;
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT INTO account_transfers
+      (user_id, from_account_id, to_account_id, amount, transfer_date, notes)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [userId, input.fromAccountId, input.toAccountId, input.amount, input.transferDate, notes]
+  );
+
+  const suffix = notes ? ` (${notes})` : "";
+  await connection.query(
+    `INSERT INTO account_transactions
+      (particulars, amount, type, user_id, money_account_id, transfer_id, transaction_date)
+     VALUES (?, ?, 'debit', ?, ?, ?, ?), (?, ?, 'credit', ?, ?, ?, ?)`,
+    [
+      `Transfer to ${toName}${suffix}`,
+      input.amount,
+      userId,
+      input.fromAccountId,
+      result.insertId,
+      input.transferDate,
+      `Transfer from ${fromName}${suffix}`,
+      input.amount,
+      userId,
+      input.toAccountId,
+      result.insertId,
+      input.transferDate,
+    ]
+  );
+
+  return result.insertId;
+}
+
+export async function loadTransfers(
+  connection: mysql.PoolConnection,
+  userId: string | number
+): Promise<AccountTransfer[]> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT tr.id, tr.from_account_id, fa.name AS from_account, tr.to_account_id,
+            ta.name AS to_account, tr.amount, tr.notes,
+            DATE_FORMAT(tr.transfer_date, '%Y-%m-%d') AS transfer_date
+     FROM account_transfers tr
+     JOIN money_accounts fa ON tr.from_account_id = fa.id
+     JOIN money_accounts ta ON tr.to_account_id = ta.id
+     WHERE tr.user_id = ?
+     ORDER BY tr.transfer_date DESC, tr.id DESC`,
+    [userId]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    fromAccountId: row.from_account_id,
+    fromAccount: row.from_account,
+    toAccountId: row.to_account_id,
+    toAccount: row.to_account,
+    amount: Number(row.amount) || 0,
+    transferDate: row.transfer_date,
+    notes: row.notes || null,
+  }));
+}
@@ -0,0 +1,177 @@
+// lib/notifications.ts
+import mysql from "mysql2/promise";
+import { differenceInCalendarDays, format, subMonths } from "date-fns";
+
+export type NotificationType = "overdue" | "payment" | "gst" | "system";
+
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  title: string;
+  message: string;
+  isRead: boolean;
+  relatedId: number | null;
+  link: string | null;
+  createdAt: string;
+}
+
+export interface NewNotification {
+  type: NotificationType;
+  title: string;
+  message: string;
+  relatedId?: number | null;
+  link?: string | null;
+  // Events with the same key are only ever announced once per user
+  dedupeKey?: string | null;
+}
+
+// How many days ahead of a GST return's due date the reminder appears
+const GST_NOTICE_DAYS = 5;
+
+const GST_RETURNS = [
+  { name: "GSTR-1", dueDay: 11 },
+  { name: "GSTR-3B", dueDay: 20 },
+];
+
+/**
+ * Write a notification inside the caller's connection or transaction.
+ * Returns false when the dedupe key has been used before.
+ */
+export async function createNotification(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  notification: NewNotification
+): Promise<boolean> {
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT IGNORE INTO notifications
+      (user_id, type, title, message, related_id, link, dedupe_key)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      userId,
+      notification.type,
+      notification.title.slice(0, 255),
+      notification.message,
+      notification.relatedId ?? null,
+      notification.link ?? null,
+      notification.dedupeKey ?? null,
+    ]
+  );
+  return result.affectedRows > 0;
+}
+
+/**
+ * Announce each installment the first time it is seen overdue, and clear
+ * overdue notices for dues that have since been paid.
+ */
+export async function syncOverdueNotifications(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  today: string
+) {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, customer_name, amount_due - amount_paid AS remaining, receipt_number,
+            installment_number, installment_count,
+            DATE_FORMAT(expected_payment_date, '%Y-%m-%d') AS expected_payment_date
+     FROM due_records
+     WHERE user_id = ? AND is_paid = FALSE AND status = 'open'
+     AND expected_payment_date <= ?`,
+    [userId, today]
+  );
+
+  for (const row of rows) {
+    const installment =
+      Number(row.installment_count) > 1
+        ? ` (installment ${row.installment_number} of ${row.installment_count})`
+        : "";
+    await createNotification(connection, userId, {
+      type: "overdue",
+      title: `Payment overdue: ${row.customer_name}${installment}`,
+      message:
+        `₹${Number(row.remaining).toFixed(2)} was due on ${row.expected_payment_date}` +
+        (row.receipt_number ? ` for receipt #${row.receipt_number}` : ""),
+      relatedId: row.id,
+      link: "/accounts/due",
+      dedupeKey: `overdue:${row.id}`,
+    });
+  }
+
+  await connection.query(
+    `UPDATE notifications n
+     JOIN due_records d ON n.related_id = d.id
+     SET n.is_dismissed = TRUE
+     WHERE n.user_id = ? AND n.type = 'overdue' AND n.is_dismissed = FALSE
+     AND (d.is_paid = TRUE OR d.status <> 'open')`,
+    [userId]
+  );
+}
+
+/**
+ * Remind GST-registered stores that last month's GSTR-1 (due on the 11th)
+ * and GSTR-3B (due on the 20th) are coming up.
+ */
+export async function syncGstFilingNotifications(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  today: string
+) {
+  const [users] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT gst_number FROM users WHERE id = ?`,
+    [userId]
+  );
+  if (!users[0]?.gst_number) return;
+
+  const now = new Date(`${today}T00:00:00`);
+  const period = subMonths(now, 1);
+  const periodLabel = format(period, "MMMM yyyy");
+
+  for (const gstReturn of GST_RETURNS) {
+    const dueDate = new Date(now.getFullYear(), now.getMonth(), gstReturn.dueDay);
+    const daysLeft = differenceInCalendarDays(dueDate, now);
+    if (daysLeft < 0 || daysLeft > GST_NOTICE_DAYS) continue;
+
+    await createNotification(connection, userId, {
+      type: "gst",
+      title: `${gstReturn.name} for ${periodLabel} is due`,
+      message: `File ${gstReturn.name} by ${format(dueDate, "d MMMM yyyy")}.`,
+      link: "/report",
+      dedupeKey: `gst:${gstReturn.name}:${format(period, "yyyy-MM")}`,
+    });
+  }
+}
+
+export async function loadNotifications(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  { unreadOnly = false, limit = 50 } = {}
+): Promise<{ notifications: AppNotification[]; unreadCount: number }> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, type, title, message, is_read, related_id, link,
+            CAST(created_at AS CHAR) AS created_at
+     FROM notifications
+     WHERE user_id = ? AND is_dismissed = FALSE ${unreadOnly ? "AND is_read = FALSE" : ""}
+     ORDER BY created_at DESC, id DESC
+     LIMIT ?`,
+    [userId, limit]
+  );
+
+  const [counts] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT COUNT(*) AS unread
+     FROM notifications
+     WHERE user_id = ? AND is_dismissed = FALSE AND is_read = FALSE`,
+    [userId]
+  );
+
+  return {
+    notifications: rows.map((row) => ({
+      id: row.id,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      isRead: !!row.is_read,
+      relatedId: row.related_id ?? null,
+      link: row.link || null,
+      createdAt: row.created_at,
+    })),
+    unreadCount: Number(counts[0].unread) || 0,
+  };
+}
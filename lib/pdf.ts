@@ -0,0 +1,244 @@
+// lib/pdf.ts
+// Minimal PDF writer for receipts: text and rules in the built-in Helvetica
+// fonts, so no font files, native modules or headless browser are needed.
+
+export type PdfFont = "regular" | "bold";
+export type PdfAlign = "left" | "center" | "right";
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: PdfAlign;
+  // Grey level from 0 (black) to 1 (white)
+  gray?: number;
+}
+
+// 1 mm in PDF points
+export const MM = 72 / 25.4;
+
+// Advance widths (per 1000 em) of the printable ASCII range, from the
+// Helvetica and Helvetica-Bold AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: "F1", bold: "F2" };
+
+// The standard fonts only cover WinAnsi, so map common typography to ASCII
+// and drop anything else rather than emit garbage glyphs
+function toPdfText(text: string): string {
+  return text
+    .replace(/₹/g, "Rs.")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[^\x20-\x7e]/g, "");
+}
+
+const escapePdfString = (text: string) => text.replace(/([\\()])/g, "\\$1");
+
+const formatNumber = (value: number) =>
+  Number(value.toFixed(2)).toString();
+
+interface Page {
+  commands: string[];
+  // Lowest point drawn, used to size continuous (thermal roll) pages
+  bottom: number;
+}
+
+/**
+ * A PDF document laid out from the top-left corner in points. Pages created
+ * with no height grow to fit their content, for continuous thermal rolls.
+ */
+export class PdfDocument {
+  readonly width: number;
+  private readonly height: number | null;
+  private readonly pages: Page[] = [];
+
+  constructor(width: number, height: number | null = null) {
+    this.width = width;
+    this.height = height;
+    this.addPage();
+  }
+
+  get pageHeight(): number | null {
+    return this.height;
+  }
+
+  addPage() {
+    this.pages.push({ commands: [], bottom: 0 });
+  }
+
+  private get page(): Page {
+    return this.pages[this.pages.length - 1];
+  }
+
+  textWidth(text: string, size: number, font: PdfFont = "regular"): number {
+    const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of toPdfText(text)) {
+      total += widths[char.charCodeAt(0) - 32] ?? 556;
+    }
+    return (total * size) / 1000;
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth, splitting long words.
+   */
+  wrapText(
+    text: string,
+    maxWidth: number,
+    size: number,
+    font: PdfFont = "regular"
+  ): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of toPdfText(text.replace(/\r/g, "")).split("\n")) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.textWidth(candidate, size, font) <= maxWidth) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+
+        line = word;
+        while (this.textWidth(line, size, font) > maxWidth && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && this.textWidth(line.slice(0, cut), size, font) > maxWidth) {
+            cut--;
+          }
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+      lines.push(line);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Draw one line of text with its baseline at y. For right and centre
+   * alignment x is the right edge or the centre respectively.
+   */
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10;
+    const font = options.font ?? "regular";
+    const content = toPdfText(text);
+    if (!content) return;
+
+    const width = this.textWidth(content, size, font);
+    const left =
+      options.align === "right"
+        ? x - width
+        : options.align === "center"
+        ? x - width / 2
+        : x;
+
+    this.draw(
+      [
+        "BT",
+        `${formatNumber(options.gray ?? 0)} g`,
+        `/${FONT_RESOURCES[font]} ${formatNumber(size)} Tf`,
+        `${formatNumber(left)} ${this.toPdfY(y)} Td`,
+        `(${escapePdfString(content)}) Tj`,
+        "ET",
+      ].join(" "),
+      y + size * 0.25
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, gray = 0) {
+    this.draw(
+      `${formatNumber(gray)} G ${formatNumber(width)} w ` +
+        `${formatNumber(x1)} ${this.toPdfY(y1)} m ` +
+        `${formatNumber(x2)} ${this.toPdfY(y2)} l S`,
+      Math.max(y1, y2)
+    );
+  }
+
+  // Continuous pages are flipped once their final height is known, so
+  // commands keep top-down y values behind a placeholder until then
+  private toPdfY(y: number): string {
+    return this.height === null ? `{Y:${y}}` : formatNumber(this.height - y);
+  }
+
+  private draw(command: string, bottom: number) {
+    this.page.commands.push(command);
+    this.page.bottom = Math.max(this.page.bottom, bottom);
+  }
+
+  toBuffer(bottomMargin = 0): Buffer {
+    const objects: string[] = [];
+    const addObject = (body: string) => {
+      objects.push(body);
+      return objects.length;
+    };
+
+    const catalogId = addObject("");
+    const pagesId = addObject("");
+    const regularFontId = addObject(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+    );
+    const boldFontId = addObject(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+    );
+
+    const pageIds = this.pages.map((page) => {
+      const height = this.height ?? Math.ceil(page.bottom + bottomMargin);
+      const content = page.commands
+        .join("\n")
+        .replace(/\{Y:([-\d.e]+)\}/g, (_, y) => formatNumber(height - Number(y)));
+      const contentId = addObject(
+        `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`
+      );
+      return addObject(
+        `<< /Type /Page /Parent ${pagesId} 0 R ` +
+          `/MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(height)}] ` +
+          `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> ` +
+          `/Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] =
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] ` +
+      `/Count ${pageIds.length} >>`;
+
+    let output = "%PDF-1.4\n";
+    const offsets = objects.map((body, index) => {
+      const offset = Buffer.byteLength(output, "latin1");
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets
+      .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+      .join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\n`;
+    output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+  }
+}
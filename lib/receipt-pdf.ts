@@ -0,0 +1,547 @@
+// lib/receipt-pdf.ts
+import { MM, PdfAlign, PdfDocument, PdfFont } from "@/lib/pdf";
+import { ReceiptPreview, ReceiptPreviewItem } from "@/lib/receipts";
+import { getDiscountAmount, roundCurrency } from "@/lib/receipt-totals";
+import { getStateName } from "@/lib/gst-states";
+
+export type ReceiptPdfFormat = "a4" | "80mm" | "58mm";
+
+export const RECEIPT_PDF_FORMATS: ReceiptPdfFormat[] = ["a4", "80mm", "58mm"];
+
+interface PageSpec {
+  width: number;
+  // Thermal rolls are one continuous page cut to the content's length
+  height: number | null;
+  margin: number;
+  fontSize: number;
+}
+
+const PAGE_SPECS: Record<ReceiptPdfFormat, PageSpec> = {
+  a4: { width: 210 * MM, height: 297 * MM, margin: 15 * MM, fontSize: 10 },
+  "80mm": { width: 80 * MM, height: null, margin: 4 * MM, fontSize: 8 },
+  "58mm": { width: 58 * MM, height: null, margin: 3 * MM, fontSize: 6.5 },
+};
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+// YYYY-MM-DD -> DD/MM/YYYY
+const formatDate = (date: string) => date.split("-").reverse().join("/");
+
+const toNumber = (value: unknown) => {
+  const num = Number(value);
+  return isNaN(num) ? 0 : num;
+};
+
+/**
+ * The amounts shown on the receipt page, derived the same way.
+ */
+function getReceiptFigures(receipt: ReceiptPreview) {
+  const lineAmounts = receipt.items.map((item) => {
+    const gross = toNumber(item.quantity) * toNumber(item.price);
+    const discount = getDiscountAmount(gross, item.discount, item.discountType);
+    return { gross, discount, amount: gross - discount };
+  });
+
+  const subtotal = lineAmounts.reduce((sum, line) => sum + line.gross, 0);
+  const lineDiscounts = lineAmounts.reduce((sum, line) => sum + line.discount, 0);
+  const totalDiscount = lineDiscounts + toNumber(receipt.discountAmount);
+  const taxableValue = subtotal - totalDiscount;
+  const totalTax = toNumber(receipt.totalTax);
+  const total = taxableValue + totalTax;
+  const advancePaid = receipt.items.reduce(
+    (sum, item) => sum + toNumber(item.advanceAmount),
+    0
+  );
+  const dueTotal = toNumber(receipt.dueTotal);
+
+  return {
+    lineAmounts,
+    subtotal,
+    lineDiscounts,
+    totalDiscount,
+    taxableValue,
+    totalTax,
+    total,
+    advancePaid,
+    dueTotal,
+    balanceDue:
+      receipt.paymentStatus === "advance" ? total - advancePaid : dueTotal,
+  };
+}
+
+function getDocumentTitle(receipt: ReceiptPreview) {
+  return receipt.invoiceType === "tax_invoice" ? "TAX INVOICE" : "BILL OF SUPPLY";
+}
+
+function getPaymentStatusLabel(receipt: ReceiptPreview) {
+  if (receipt.paymentStatus === "full") return "Full Payment";
+  if (receipt.paymentStatus === "advance") return "Advance Payment";
+  return toNumber(receipt.dueTotal) === 0 ? "Due Paid" : "Due Payment";
+}
+
+function getPaymentMethodLabel(receipt: ReceiptPreview) {
+  if (receipt.paymentType === "mobile") return "Online";
+  return receipt.paymentType.charAt(0).toUpperCase() + receipt.paymentType.slice(1);
+}
+
+function getTaxLines(receipt: ReceiptPreview, taxableValue: number, totalTax: number) {
+  if (receipt.taxBreakup.length === 0) {
+    const averageRate = taxableValue === 0 ? 0 : (totalTax / taxableValue) * 100;
+    return [{ label: `GST @ ${averageRate.toFixed(2)}%`, amount: totalTax }];
+  }
+
+  return receipt.taxBreakup.flatMap((row) =>
+    receipt.interState
+      ? [{ label: `IGST @ ${row.rate}% on ${formatAmount(row.taxableValue)}`, amount: row.igst }]
+      : [
+          { label: `CGST @ ${row.rate / 2}% on ${formatAmount(row.taxableValue)}`, amount: row.cgst },
+          { label: `SGST @ ${row.rate / 2}% on ${formatAmount(row.taxableValue)}`, amount: row.sgst },
+        ]
+  );
+}
+
+interface WriteOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: PdfAlign;
+  gray?: number;
+}
+
+/**
+ * A top-down text cursor over a PdfDocument that wraps lines and starts a
+ * new page when a fixed-height page runs out.
+ */
+class ReceiptWriter {
+  y: number;
+
+  constructor(
+    readonly doc: PdfDocument,
+    readonly spec: PageSpec
+  ) {
+    this.y = spec.margin;
+  }
+
+  get left() {
+    return this.spec.margin;
+  }
+
+  get right() {
+    return this.spec.width - this.spec.margin;
+  }
+
+  get contentWidth() {
+    return this.right - this.left;
+  }
+
+  lineHeight(size = this.spec.fontSize) {
+    return size * 1.35;
+  }
+
+  // Returns true when a page break was inserted
+  ensureSpace(height: number): boolean {
+    const pageHeight = this.doc.pageHeight;
+    if (pageHeight === null || this.y + height <= pageHeight - this.spec.margin) {
+      return false;
+    }
+    this.doc.addPage();
+    this.y = this.spec.margin;
+    return true;
+  }
+
+  write(text: string, options: WriteOptions = {}) {
+    const size = options.size ?? this.spec.fontSize;
+    const x =
+      options.align === "center"
+        ? this.left + this.contentWidth / 2
+        : options.align === "right"
+        ? this.right
+        : this.left;
+
+    for (const line of this.doc.wrapText(text, this.contentWidth, size, options.font)) {
+      this.ensureSpace(this.lineHeight(size));
+      this.doc.text(x, this.y + size, line, { ...options, size });
+      this.y += this.lineHeight(size);
+    }
+  }
+
+  /**
+   * A label on the left and a value on the right of the same line.
+   */
+  row(label: string, value: string, options: WriteOptions = {}) {
+    const size = options.size ?? this.spec.fontSize;
+    const valueWidth = this.doc.textWidth(value, size, options.font);
+    const labelLines = this.doc.wrapText(
+      label,
+      Math.max(this.contentWidth - valueWidth - size, this.contentWidth / 3),
+      size,
+      options.font
+    );
+
+    this.ensureSpace(this.lineHeight(size) * labelLines.length);
+    labelLines.forEach((line, index) => {
+      this.doc.text(this.left, this.y + size, line, { ...options, size, align: "left" });
+      if (index === labelLines.length - 1) {
+        this.doc.text(this.right, this.y + size, value, { ...options, size, align: "right" });
+      }
+      this.y += this.lineHeight(size);
+    });
+  }
+
+  rule(gap = this.spec.fontSize * 0.5) {
+    this.y += gap;
+    this.ensureSpace(gap);
+    this.doc.line(this.left, this.y, this.right, this.y, 0.5, 0.6);
+    this.y += gap;
+  }
+
+  space(height = this.spec.fontSize) {
+    this.y += height;
+  }
+}
+
+function writeHeader(writer: ReceiptWriter, receipt: ReceiptPreview, compact: boolean) {
+  const size = writer.spec.fontSize;
+  const store = receipt.storeInfo;
+
+  if (store.name) {
+    writer.write(store.name, { size: size * (compact ? 1.4 : 1.8), font: "bold", align: "center" });
+  }
+  if (store.address) writer.write(store.address, { align: "center", gray: 0.3 });
+  if (store.gstNumber) writer.write(`GST NUMBER: ${store.gstNumber}`, { align: "center", gray: 0.3 });
+  if (store.contact) {
+    writer.write(`Contact: ${store.countryCode || "+91"} ${store.contact}`, {
+      align: "center",
+      gray: 0.3,
+    });
+  }
+
+  writer.space(size * 0.5);
+  writer.write(getDocumentTitle(receipt), { size: size * 1.4, font: "bold", align: "center" });
+  writer.write(`#${receipt.receiptNumber}`, { align: "center", gray: 0.4 });
+
+  if (receipt.status === "void") {
+    writer.write("VOID", { size: size * 1.4, font: "bold", align: "center" });
+  } else if (receipt.revisionNumber > 1) {
+    writer.write(`REVISED - VERSION ${receipt.revisionNumber}`, { font: "bold", align: "center" });
+  }
+}
+
+function writeDetails(writer: ReceiptWriter, receipt: ReceiptPreview) {
+  const details: [string, string][] = [["Date", formatDate(receipt.date)]];
+  if (receipt.paymentStatus === "full" || receipt.paymentStatus === "advance") {
+    details.push(["Payment Method", getPaymentMethodLabel(receipt)]);
+  }
+  details.push(["Payment Status", getPaymentStatusLabel(receipt)]);
+  if (receipt.paymentDetails?.phoneNumber && receipt.paymentStatus !== "due") {
+    details.push(["Phone Number", `XXXXXXX${receipt.paymentDetails.phoneNumber.slice(-3)}`]);
+  }
+
+  const customer: [string, string][] = [["Name", receipt.customerName]];
+  if (receipt.customerContact) customer.push(["Contact", receipt.customerContact]);
+  if (receipt.customerGstNumber) customer.push(["GSTIN", receipt.customerGstNumber]);
+  if (receipt.placeOfSupply) {
+    customer.push([
+      "Place of Supply",
+      `${receipt.placeOfSupply} - ${getStateName(receipt.placeOfSupply)}`,
+    ]);
+  }
+
+  for (const [heading, rows] of [
+    ["Receipt Details", details],
+    ["Customer Details", customer],
+  ] as const) {
+    writer.space(writer.spec.fontSize * 0.5);
+    writer.write(heading, { font: "bold", size: writer.spec.fontSize * 1.15 });
+    for (const [label, value] of rows) {
+      writer.write(`${label}: ${value}`);
+    }
+  }
+}
+
+interface Column {
+  header: string;
+  width: number;
+  align: PdfAlign;
+  value: (item: ReceiptPreviewItem, index: number) => string;
+}
+
+function writeItemTable(
+  writer: ReceiptWriter,
+  receipt: ReceiptPreview,
+  figures: ReturnType<typeof getReceiptFigures>
+) {
+  const { doc } = writer;
+  const size = writer.spec.fontSize * 0.9;
+  const amountWidth = 62;
+  const hasHsn = receipt.items.some((item) => item.hsnCode);
+  const hasLineDiscounts = figures.lineDiscounts > 0;
+
+  const columns: Column[] = [
+    { header: "Description", width: 0, align: "left", value: (item) => item.description },
+  ];
+  if (hasHsn) {
+    columns.push({ header: "HSN/SAC", width: 50, align: "left", value: (item) => item.hsnCode || "-" });
+  }
+  columns.push(
+    { header: "Qty", width: 32, align: "right", value: (item) => String(item.quantity) },
+    { header: "Rate", width: amountWidth, align: "right", value: (item) => formatAmount(toNumber(item.price)) }
+  );
+  if (hasLineDiscounts) {
+    columns.push({
+      header: "Discount",
+      width: amountWidth,
+      align: "right",
+      value: (item, index) =>
+        figures.lineAmounts[index].discount > 0
+          ? item.discountType === "percentage"
+            ? `${toNumber(item.discount)}%`
+            : formatAmount(figures.lineAmounts[index].discount)
+          : "-",
+    });
+  }
+  columns.push({
+    header: "Amount",
+    width: amountWidth,
+    align: "right",
+    value: (_, index) => formatAmount(figures.lineAmounts[index].amount),
+  });
+  if (receipt.paymentStatus === "advance") {
+    columns.push(
+      { header: "Advance", width: amountWidth, align: "right", value: (item) => formatAmount(toNumber(item.advanceAmount)) },
+      {
+        header: "Balance Due",
+        width: amountWidth,
+        align: "right",
+        value: (item, index) =>
+          formatAmount(figures.lineAmounts[index].amount - toNumber(item.advanceAmount)),
+      }
+    );
+  }
+  if (receipt.paymentStatus === "due") {
+    columns.push(
+      {
+        header: "Paid Already",
+        width: amountWidth,
+        align: "right",
+        value: (item, index) =>
+          formatAmount(figures.lineAmounts[index].amount - toNumber(item.dueAmount)),
+      },
+      { header: "Balance Due", width: amountWidth, align: "right", value: (item) => formatAmount(toNumber(item.dueAmount)) }
+    );
+  }
+
+  const padding = 6;
+  columns[0].width =
+    writer.contentWidth - columns.slice(1).reduce((sum, column) => sum + column.width, 0);
+
+  const drawRow = (cells: string[][], font: PdfFont) => {
+    const height = Math.max(...cells.map((lines) => lines.length)) * writer.lineHeight(size);
+    let x = writer.left;
+    columns.forEach((column, columnIndex) => {
+      cells[columnIndex].forEach((line, lineIndex) => {
+        const baseline = writer.y + size + lineIndex * writer.lineHeight(size);
+        const textX = column.align === "right" ? x + column.width : x;
+        doc.text(textX, baseline, line, { size, font, align: column.align });
+      });
+      x += column.width;
+    });
+    writer.y += height + padding / 2;
+    doc.line(writer.left, writer.y, writer.right, writer.y, 0.5, 0.8);
+    writer.y += padding / 2;
+  };
+
+  const drawHeader = () =>
+    drawRow(columns.map((column) => [column.header]), "bold");
+
+  writer.space(writer.spec.fontSize * 0.5);
+  writer.write("Items", { font: "bold", size: writer.spec.fontSize * 1.15 });
+  drawHeader();
+
+  receipt.items.forEach((item, index) => {
+    const cells = columns.map((column) =>
+      doc.wrapText(column.value(item, index), column.width - padding, size)
+    );
+    const height = Math.max(...cells.map((lines) => lines.length)) * writer.lineHeight(size);
+    if (writer.ensureSpace(height + padding)) drawHeader();
+    drawRow(cells, "regular");
+  });
+}
+
+/**
+ * Thermal rolls are too narrow for columns, so each item is a block of lines.
+ */
+function writeItemList(
+  writer: ReceiptWriter,
+  receipt: ReceiptPreview,
+  figures: ReturnType<typeof getReceiptFigures>
+) {
+  const small = writer.spec.fontSize * 0.9;
+
+  writer.rule();
+  receipt.items.forEach((item, index) => {
+    const line = figures.lineAmounts[index];
+    writer.write(item.description, { font: "bold" });
+    if (item.hsnCode) writer.write(`HSN/SAC: ${item.hsnCode}`, { size: small, gray: 0.3 });
+    writer.row(
+      `${item.quantity} x ${formatAmount(toNumber(item.price))}`,
+      formatAmount(line.amount)
+    );
+    if (line.discount > 0) {
+      writer.row(
+        item.discountType === "percentage"
+          ? `Discount (${toNumber(item.discount)}%)`
+          : "Discount",
+        `-${formatAmount(line.discount)}`,
+        { size: small, gray: 0.3 }
+      );
+    }
+    if (receipt.paymentStatus === "advance") {
+      writer.row("Advance", formatAmount(toNumber(item.advanceAmount)), { size: small, gray: 0.3 });
+    }
+    if (receipt.paymentStatus === "due") {
+      writer.row("Balance Due", formatAmount(toNumber(item.dueAmount)), { size: small, gray: 0.3 });
+    }
+  });
+  writer.rule();
+}
+
+function writeTotals(
+  writer: ReceiptWriter,
+  receipt: ReceiptPreview,
+  figures: ReturnType<typeof getReceiptFigures>
+) {
+  const large = writer.spec.fontSize * 1.2;
+
+  writer.row("Subtotal", formatAmount(figures.subtotal));
+  if (figures.lineDiscounts > 0) {
+    writer.row("Item Discounts", `-${formatAmount(figures.lineDiscounts)}`);
+  }
+  if (toNumber(receipt.discountAmount) > 0) {
+    writer.row(
+      receipt.discountType === "percentage"
+        ? `Discount (${toNumber(receipt.discount)}%)`
+        : "Discount",
+      `-${formatAmount(toNumber(receipt.discountAmount))}`
+    );
+  }
+  for (const line of getTaxLines(receipt, figures.taxableValue, figures.totalTax)) {
+    writer.row(line.label, formatAmount(line.amount));
+  }
+
+  writer.space(writer.spec.fontSize * 0.3);
+  if (receipt.paymentStatus === "full") {
+    writer.row("Total", formatAmount(figures.total), { font: "bold", size: large });
+  } else {
+    writer.row("Total Amount", formatAmount(figures.total), { font: "bold", size: large });
+    writer.row(
+      receipt.paymentStatus === "advance" ? "Advance Paid" : "Already Paid",
+      formatAmount(
+        receipt.paymentStatus === "advance"
+          ? figures.advancePaid
+          : figures.total - figures.dueTotal
+      )
+    );
+    writer.row("Balance Due", formatAmount(figures.balanceDue), { font: "bold" });
+  }
+
+  if (figures.totalDiscount > 0) {
+    writer.space(writer.spec.fontSize * 0.3);
+    writer.write(
+      `You saved ${formatAmount(roundCurrency(figures.totalDiscount))} on this purchase`,
+      { font: "bold", align: "right" }
+    );
+  }
+}
+
+function writeNotices(
+  writer: ReceiptWriter,
+  receipt: ReceiptPreview,
+  figures: ReturnType<typeof getReceiptFigures>
+) {
+  const small = writer.spec.fontSize * 0.9;
+
+  if (receipt.notes) {
+    writer.rule();
+    writer.write("Notes", { font: "bold" });
+    writer.write(receipt.notes, { gray: 0.3 });
+  }
+
+  if (receipt.paymentStatus !== "full" && figures.dueTotal > 0) {
+    writer.rule();
+    writer.write("Due Payment Notice", { font: "bold" });
+    writer.write(
+      `A balance of ${formatAmount(figures.balanceDue)} is due for this transaction. ` +
+        "Please ensure timely payment to avoid any inconvenience.",
+      { size: small }
+    );
+
+    if (receipt.installments.length > 1) {
+      writer.write("Installment schedule", { font: "bold", size: small });
+      for (const installment of receipt.installments) {
+        writer.row(
+          `${installment.installmentNumber}. ${formatDate(installment.dueDate)}` +
+            (installment.isPaid ? " (paid)" : ""),
+          formatAmount(installment.amount),
+          { size: small }
+        );
+      }
+    }
+  }
+
+  if (receipt.creditNotes.length > 0) {
+    writer.rule();
+    writer.write("Credit notes issued against this receipt", { font: "bold" });
+    for (const creditNote of receipt.creditNotes) {
+      writer.row(
+        `${creditNote.creditNoteNumber} - ${formatDate(creditNote.date)}`,
+        `-${formatAmount(toNumber(creditNote.total))}`,
+        { size: small }
+      );
+    }
+  }
+
+  if (receipt.status === "void") {
+    writer.rule();
+    writer.write("This receipt has been voided", { font: "bold" });
+    if (receipt.voidReason) writer.write(`Reason: ${receipt.voidReason}`, { size: small });
+  }
+
+  writer.space(writer.spec.fontSize * 1.5);
+  writer.write(`Created at: ${receipt.createdAt}`, { size: small, align: "center", gray: 0.4 });
+  if (receipt.revisionNumber > 1 && receipt.updatedAt) {
+    writer.write(`Revision ${receipt.revisionNumber} updated at: ${receipt.updatedAt}`, {
+      size: small,
+      align: "center",
+      gray: 0.4,
+    });
+  }
+  writer.write("Thank you for your business!", { size: small, align: "center", gray: 0.4 });
+}
+
+/**
+ * Render a receipt in the receipt page's layout, either on A4 or as a
+ * continuous thermal-roll page.
+ */
+export function renderReceiptPdf(
+  receipt: ReceiptPreview,
+  format: ReceiptPdfFormat = "a4"
+): Buffer {
+  const spec = PAGE_SPECS[format];
+  const doc = new PdfDocument(spec.width, spec.height);
+  const writer = new ReceiptWriter(doc, spec);
+  const figures = getReceiptFigures(receipt);
+  const compact = format !== "a4";
+
+  writeHeader(writer, receipt, compact);
+  writeDetails(writer, receipt);
+  if (compact) {
+    writeItemList(writer, receipt, figures);
+  } else {
+    writeItemTable(writer, receipt, figures);
+    writer.space(writer.spec.fontSize * 0.5);
+  }
+  writeTotals(writer, receipt, figures);
+  writeNotices(writer, receipt, figures);
+
+  return doc.toBuffer(spec.margin);
+}
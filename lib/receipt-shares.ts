@@ -0,0 +1,128 @@
+// lib/receipt-shares.ts
+import mysql from "mysql2/promise";
+import { signShareToken, verifyShareToken } from "@/lib/auth";
+import { ReceiptPreview, loadReceiptPreview } from "@/lib/receipts";
+
+export interface ReceiptShareLink {
+  id: number;
+  token: string;
+  expiresAt: string | null;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+// What the customer sees: the receipt without the owner's internal ids
+export type PublicReceipt = Omit<ReceiptPreview, "userId" | "paymentDetails"> & {
+  paymentDetails: { phoneNumber?: string };
+};
+
+export const MAX_SHARE_LINK_DAYS = 365;
+
+const ACTIVE_LINK_CONDITION =
+  "revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())";
+
+function toShareLink(receiptId: number, row: mysql.RowDataPacket): ReceiptShareLink {
+  return {
+    id: row.id,
+    token: signShareToken(
+      receiptId,
+      row.id,
+      row.expires_unix ? new Date(Number(row.expires_unix) * 1000) : null
+    ),
+    expiresAt: row.expires_at || null,
+    lastViewedAt: row.last_viewed_at || null,
+    createdAt: row.created_at,
+  };
+}
+
+const SHARE_LINK_COLUMNS = `
+  id,
+  CAST(expires_at AS CHAR) AS expires_at,
+  UNIX_TIMESTAMP(expires_at) AS expires_unix,
+  CAST(last_viewed_at AS CHAR) AS last_viewed_at,
+  CAST(created_at AS CHAR) AS created_at`;
+
+/**
+ * Links for a receipt that still work, newest first.
+ */
+export async function listShareLinks(
+  connection: mysql.PoolConnection,
+  receiptId: number
+): Promise<ReceiptShareLink[]> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT ${SHARE_LINK_COLUMNS}
+     FROM receipt_share_links
+     WHERE receipt_id = ? AND ${ACTIVE_LINK_CONDITION}
+     ORDER BY id DESC`,
+    [receiptId]
+  );
+  return rows.map((row) => toShareLink(receiptId, row));
+}
+
+export async function createShareLink(
+  connection: mysql.PoolConnection,
+  receiptId: number,
+  userId: string | number,
+  expiresInDays: number | null
+): Promise<ReceiptShareLink> {
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT INTO receipt_share_links (receipt_id, user_id, expires_at)
+     VALUES (?, ?, IF(? IS NULL, NULL, DATE_ADD(NOW(), INTERVAL ? DAY)))`,
+    [receiptId, userId, expiresInDays, expiresInDays]
+  );
+
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT ${SHARE_LINK_COLUMNS} FROM receipt_share_links WHERE id = ?`,
+    [result.insertId]
+  );
+  return toShareLink(receiptId, rows[0]);
+}
+
+export async function revokeShareLink(
+  connection: mysql.PoolConnection,
+  receiptId: number,
+  linkId: number
+): Promise<boolean> {
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `UPDATE receipt_share_links SET revoked_at = NOW()
+     WHERE id = ? AND receipt_id = ? AND revoked_at IS NULL`,
+    [linkId, receiptId]
+  );
+  return result.affectedRows > 0;
+}
+
+/**
+ * Resolve a public share token to its receipt. Returns null for tampered,
+ * expired or revoked links alike, so callers can't tell them apart.
+ */
+export async function loadSharedReceipt(
+  connection: mysql.PoolConnection,
+  token: string
+): Promise<ReceiptPreview | null> {
+  const payload = verifyShareToken(token);
+  if (!payload) return null;
+
+  const [links] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id FROM receipt_share_links
+     WHERE id = ? AND receipt_id = ? AND ${ACTIVE_LINK_CONDITION}
+     LIMIT 1`,
+    [payload.linkId, payload.receiptId]
+  );
+  if (links.length === 0) return null;
+
+  await connection.query(
+    `UPDATE receipt_share_links SET last_viewed_at = NOW() WHERE id = ?`,
+    [payload.linkId]
+  );
+
+  return loadReceiptPreview(connection, payload.receiptId);
+}
+
+export function toPublicReceipt(receipt: ReceiptPreview): PublicReceipt {
+  const { userId, paymentDetails, ...rest } = receipt;
+  return {
+    ...rest,
+    // The receipt only ever prints the last three digits
+    paymentDetails: { phoneNumber: paymentDetails.phoneNumber?.slice(-3) },
+  };
+}
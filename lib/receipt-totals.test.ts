@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { calculateReceiptTotals, getTaxBreakup, splitGst } from "@/lib/receipt-totals";
+
+// A 5% line with its own 10% discount and an 18% line at full price
+const mixedSlabs = [
+  { quantity: 2, price: 500, discount: 10, discountType: "percentage" as const, gstRate: 5 },
+  { quantity: 1, price: 300, gstRate: 18 },
+];
+
+describe("calculateReceiptTotals", () => {
+  it("spreads the receipt discount across slabs by discounted line value", () => {
+    const totals = calculateReceiptTotals(mixedSlabs, { discount: 120, discountType: "fixed" });
+
+    expect(
+      totals.lines.map((l) => [l.lineDiscount, l.receiptDiscountShare, l.taxable, l.tax])
+    ).toEqual([
+      [100, 90, 810, 40.5],
+      [0, 30, 270, 48.6],
+    ]);
+    expect(totals).toMatchObject({
+      grossTotal: 1300,
+      lineDiscountTotal: 100,
+      subtotal: 1200,
+      receiptDiscount: 120,
+      totalDiscount: 220,
+      taxableTotal: 1080,
+      totalTax: 89.1,
+      total: 1169.1,
+    });
+  });
+
+  it("gives the rounding residue of the receipt discount to the last line", () => {
+    const items = [1, 2, 3].map(() => ({ quantity: 1, price: 10, gstRate: 18 }));
+    const totals = calculateReceiptTotals(items, { discount: 10, discountType: "fixed" });
+
+    expect(totals.lines.map((l) => l.receiptDiscountShare)).toEqual([3.33, 3.33, 3.34]);
+    expect(totals.lines.map((l) => l.taxable)).toEqual([6.67, 6.67, 6.66]);
+    expect(totals.taxableTotal).toBe(20);
+    expect(totals.totalTax).toBe(3.6);
+  });
+
+  it("skips lines with no value when placing the residue", () => {
+    const totals = calculateReceiptTotals(
+      [
+        { quantity: 1, price: 10 },
+        { quantity: 1, price: 20 },
+        { quantity: 1, price: 5, discount: 100, discountType: "percentage" },
+      ],
+      { discount: 10, discountType: "fixed", gstPercentage: 0 }
+    );
+
+    expect(totals.lines.map((l) => l.receiptDiscountShare)).toEqual([3.33, 6.67, 0]);
+    expect(totals.total).toBe(20);
+  });
+
+  it("splits tax into CGST and SGST within the state and IGST across states", () => {
+    const intra = calculateReceiptTotals(mixedSlabs, { discount: 120, discountType: "fixed" });
+    expect(intra).toMatchObject({ totalCgst: 44.55, totalSgst: 44.55, totalIgst: 0 });
+
+    const inter = calculateReceiptTotals(mixedSlabs, {
+      discount: 120,
+      discountType: "fixed",
+      interState: true,
+    });
+    expect(inter).toMatchObject({ totalCgst: 0, totalSgst: 0, totalIgst: 89.1 });
+    expect(inter.total).toBe(intra.total);
+  });
+
+  it("falls back to the receipt-wide rate for lines without their own", () => {
+    const totals = calculateReceiptTotals(
+      [{ quantity: 1, price: 100 }, { quantity: 1, price: 100, gstRate: 0 }],
+      { gstPercentage: 12 }
+    );
+    expect(totals.lines.map((l) => l.rate)).toEqual([12, 0]);
+    expect(totals.totalTax).toBe(12);
+  });
+});
+
+describe("splitGst", () => {
+  it("keeps the parts adding up to the tax when it has an odd paisa", () => {
+    expect(splitGst(0.07)).toEqual({ cgst: 0.04, sgst: 0.03, igst: 0 });
+    expect(splitGst(1.01)).toEqual({ cgst: 0.51, sgst: 0.5, igst: 0 });
+  });
+
+  it("puts all of an inter-state tax into IGST", () => {
+    expect(splitGst(1.01, true)).toEqual({ cgst: 0, sgst: 0, igst: 1.01 });
+  });
+});
+
+describe("getTaxBreakup", () => {
+  it("groups lines by rate, lowest rate first", () => {
+    const { lines } = calculateReceiptTotals([
+      { quantity: 1, price: 100, gstRate: 18 },
+      { quantity: 2, price: 50, gstRate: 5 },
+      { quantity: 1, price: 0.5, gstRate: 18 },
+    ]);
+
+    expect(getTaxBreakup(lines)).toEqual([
+      { rate: 5, taxableValue: 100, tax: 5, cgst: 2.5, sgst: 2.5, igst: 0 },
+      { rate: 18, taxableValue: 100.5, tax: 18.09, cgst: 9.05, sgst: 9.04, igst: 0 },
+    ]);
+  });
+});
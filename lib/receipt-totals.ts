@@ -0,0 +1,194 @@
+// lib/receipt-totals.ts
+// Pure receipt arithmetic shared by the API and the receipt forms, so the
+// numbers a user sees before saving are the numbers the server stores.
+
+export type DiscountType = "percentage" | "fixed";
+
+export interface DiscountableItem {
+  quantity: number;
+  price: number;
+  discount?: number;
+  discountType?: DiscountType;
+  // Per-line GST rate; falls back to the receipt-wide gstPercentage
+  gstRate?: number | null;
+}
+
+export interface ReceiptDiscountOptions {
+  gstPercentage?: number | null;
+  discount?: number;
+  discountType?: DiscountType;
+  // Inter-state supplies carry IGST; intra-state tax is split CGST + SGST
+  interState?: boolean;
+}
+
+export interface GstSplit {
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface ReceiptLineAmounts extends GstSplit {
+  gross: number;
+  lineDiscount: number;
+  receiptDiscountShare: number;
+  taxable: number;
+  rate: number;
+  tax: number;
+}
+
+export interface TaxBreakupRow extends GstSplit {
+  rate: number;
+  taxableValue: number;
+  tax: number;
+}
+
+export interface ReceiptTotals {
+  lines: ReceiptLineAmounts[];
+  grossTotal: number;
+  lineDiscountTotal: number;
+  subtotal: number;
+  receiptDiscount: number;
+  totalDiscount: number;
+  taxableTotal: number;
+  totalTax: number;
+  totalCgst: number;
+  totalSgst: number;
+  totalIgst: number;
+  total: number;
+}
+
+export const roundCurrency = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+const toNumber = (value: unknown) => {
+  const num = Number(value);
+  return isNaN(num) ? 0 : num;
+};
+
+export function getDiscountAmount(
+  base: number,
+  discount?: number,
+  discountType?: DiscountType
+): number {
+  const value = toNumber(discount);
+  if (value <= 0) return 0;
+  return roundCurrency(
+    discountType === "percentage" ? (base * value) / 100 : value
+  );
+}
+
+/**
+ * Split a line's tax into its central/state or integrated parts. Any odd
+ * paisa from halving goes to CGST so the parts always add up to the tax.
+ */
+export function splitGst(tax: number, interState = false): GstSplit {
+  if (interState) return { cgst: 0, sgst: 0, igst: roundCurrency(tax) };
+  const cgst = roundCurrency(tax / 2);
+  return { cgst, sgst: roundCurrency(tax - cgst), igst: 0 };
+}
+
+/**
+ * Line discounts come off each line first; the whole-receipt discount is then
+ * spread across lines by their discounted value so GST is charged on what the
+ * customer actually pays.
+ */
+export function calculateReceiptTotals(
+  items: DiscountableItem[],
+  options: ReceiptDiscountOptions = {}
+): ReceiptTotals {
+  const gstPercentage = toNumber(options.gstPercentage);
+
+  const discounted = items.map((item) => {
+    const gross = roundCurrency(toNumber(item.quantity) * toNumber(item.price));
+    const lineDiscount = Math.min(
+      getDiscountAmount(gross, item.discount, item.discountType),
+      gross
+    );
+    const rate =
+      item.gstRate !== undefined && item.gstRate !== null
+        ? toNumber(item.gstRate)
+        : gstPercentage;
+    return { gross, lineDiscount, rate, net: roundCurrency(gross - lineDiscount) };
+  });
+
+  const subtotal = roundCurrency(discounted.reduce((sum, l) => sum + l.net, 0));
+  const receiptDiscount = Math.min(
+    getDiscountAmount(subtotal, options.discount, options.discountType),
+    subtotal
+  );
+
+  // The last line with value absorbs the rounding remainder
+  const lastIndex = discounted.map((l) => l.net > 0).lastIndexOf(true);
+  let allocated = 0;
+
+  const lines = discounted.map((line, index) => {
+    let share = 0;
+    if (receiptDiscount > 0 && line.net > 0) {
+      share =
+        index === lastIndex
+          ? roundCurrency(receiptDiscount - allocated)
+          : roundCurrency((receiptDiscount * line.net) / subtotal);
+      allocated = roundCurrency(allocated + share);
+    }
+    const taxable = roundCurrency(line.net - share);
+    const tax = roundCurrency((taxable * line.rate) / 100);
+    return {
+      gross: line.gross,
+      lineDiscount: line.lineDiscount,
+      receiptDiscountShare: share,
+      taxable,
+      rate: line.rate,
+      tax,
+      ...splitGst(tax, options.interState),
+    };
+  });
+
+  const sum = (pick: (line: ReceiptLineAmounts) => number) =>
+    roundCurrency(lines.reduce((total, line) => total + pick(line), 0));
+
+  const grossTotal = sum((l) => l.gross);
+  const lineDiscountTotal = sum((l) => l.lineDiscount);
+  const taxableTotal = sum((l) => l.taxable);
+  const totalTax = sum((l) => l.tax);
+
+  return {
+    lines,
+    grossTotal,
+    lineDiscountTotal,
+    subtotal,
+    receiptDiscount,
+    totalDiscount: roundCurrency(lineDiscountTotal + receiptDiscount),
+    taxableTotal,
+    totalTax,
+    totalCgst: sum((l) => l.cgst),
+    totalSgst: sum((l) => l.sgst),
+    totalIgst: sum((l) => l.igst),
+    total: roundCurrency(taxableTotal + totalTax),
+  };
+}
+
+/**
+ * Group lines by GST rate for the tax summary printed under the items.
+ */
+export function getTaxBreakup(lines: ReceiptLineAmounts[]): TaxBreakupRow[] {
+  const byRate = new Map<number, TaxBreakupRow>();
+
+  for (const line of lines) {
+    const row = byRate.get(line.rate) || {
+      rate: line.rate,
+      taxableValue: 0,
+      tax: 0,
+      cgst: 0,
+      sgst: 0,
+      igst: 0,
+    };
+    row.taxableValue = roundCurrency(row.taxableValue + line.taxable);
+    row.tax = roundCurrency(row.tax + line.tax);
+    row.cgst = roundCurrency(row.cgst + line.cgst);
+    row.sgst = roundCurrency(row.sgst + line.sgst);
+    row.igst = roundCurrency(row.igst + line.igst);
+    byRate.set(line.rate, row);
+  }
+
+  return Array.from(byRate.values()).sort((a, b) => a.rate - b.rate);
+}
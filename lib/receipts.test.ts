@@ -0,0 +1,69 @@
+import type mysql from "mysql2/promise";
+import { describe, expect, it } from "vitest";
+import { validateReceiptRevision } from "@/lib/receipts";
+
+const openDue = {
+  id: 1,
+  is_paid: 0,
+  amount_paid: "0.00",
+  status: "open",
+  has_charges: 0,
+  has_write_off: 0,
+};
+
+// Answers the dues query with the given rows, for the receipt and user asked for
+function fakeConnection(dues: Record<string, unknown>[]): mysql.PoolConnection {
+  const query = async (sql: string, params: unknown[] = []) => {
+    if (!/FROM due_records d/.test(sql)) throw new Error(`Unexpected query: ${sql}`);
+    expect(params).toEqual(["R-1", 7]);
+    return [dues];
+  };
+  return { query } as unknown as mysql.PoolConnection;
+}
+
+describe("validateReceiptRevision", () => {
+  it("allows a receipt with no dues or only untouched ones", async () => {
+    expect(await validateReceiptRevision(fakeConnection([]), 7, "R-1")).toBeNull();
+    expect(
+      await validateReceiptRevision(fakeConnection([openDue, { ...openDue, id: 2 }]), 7, "R-1")
+    ).toBeNull();
+  });
+
+  it("refuses once a payment has been recorded", async () => {
+    const error = await validateReceiptRevision(
+      fakeConnection([openDue, { ...openDue, id: 2, amount_paid: "50.00" }]),
+      7,
+      "R-1"
+    );
+    expect(error).toMatch(/Payments have been recorded/);
+  });
+
+  it("refuses dues that were disputed, written off or cancelled", async () => {
+    for (const status of ["disputed", "written_off", "cancelled"]) {
+      const error = await validateReceiptRevision(
+        fakeConnection([{ ...openDue, status }]),
+        7,
+        "R-1"
+      );
+      expect(error).toMatch(/disputed, written off or cancelled/);
+    }
+  });
+
+  it("refuses a due whose write-off entry is still on the books", async () => {
+    const error = await validateReceiptRevision(
+      fakeConnection([{ ...openDue, has_write_off: 1 }]),
+      7,
+      "R-1"
+    );
+    expect(error).toMatch(/written off/);
+  });
+
+  it("refuses a due with late fees or interest charged", async () => {
+    const error = await validateReceiptRevision(
+      fakeConnection([{ ...openDue, has_charges: 1 }]),
+      7,
+      "R-1"
+    );
+    expect(error).toMatch(/Late fees or interest/);
+  });
+});
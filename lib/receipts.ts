@@ -0,0 +1,992 @@
+// lib/receipts.ts
+import mysql from "mysql2/promise";
+import {
+  DiscountType,
+  ReceiptLineAmounts,
+  TaxBreakupRow,
+  calculateReceiptTotals,
+  getDiscountAmount,
+  getTaxBreakup,
+  roundCurrency,
+  splitGst,
+} from "@/lib/receipt-totals";
+import {
+  getStateCodeFromGstin,
+  isInterStateSupply,
+  isValidGstin,
+  isValidStateCode,
+} from "@/lib/gst-states";
+import {
+  InstallmentPlan,
+  buildInstallmentSchedule,
+  validateInstallmentPlan,
+} from "@/lib/installments";
+import { PaymentChannel, resolveMoneyAccountId } from "@/lib/money-accounts";
+import { postTransactionJournal } from "@/lib/ledger";
+
+export interface ReceiptItem {
+  description: string;
+  hsnCode?: string | null;
+  quantity: number;
+  price: number;
+  advanceAmount?: number;
+  dueAmount?: number;
+  discount?: number;
+  discountType?: DiscountType;
+  gstSlabId?: number | null;
+  // Resolved from gstSlabId on the server; never trusted from the client
+  gstRate?: number | null;
+}
+
+export interface PaymentDetails {
+  cardNumber?: string;
+  phoneNumber?: string;
+  phoneCountryCode?: string;
+}
+
+export interface ReceiptBody {
+  receiptNumber: string;
+  date: string;
+  customerName: string;
+  customerContact: string;
+  customerCountryCode: string;
+  customerGstNumber?: string | null;
+  paymentType: "cash" | "online";
+  paymentStatus: "full" | "advance" | "due";
+  paymentDate?: string;
+  // How a due is split; the first scheduled installment falls on paymentDate
+  installmentPlan?: InstallmentPlan;
+  notes?: string;
+  total: number;
+  dueTotal: number;
+  items: ReceiptItem[];
+  paymentDetails?: PaymentDetails;
+  gstPercentage?: number;
+  gstAmount?: number;
+  discount?: number;
+  discountType?: DiscountType;
+  // GST state code of the customer; defaults to the state in their GSTIN,
+  // then to the store's own state
+  placeOfSupply?: string | null;
+  // Resolved on the server by comparing placeOfSupply with the store's state
+  interState?: boolean;
+  // Resolved on the server from the customer's phone number
+  customerId?: number;
+}
+
+export interface StoreInfo {
+  name: string;
+  address: string;
+  contact: string;
+  countryCode: string;
+  gstNumber?: string;
+  stateCode?: string;
+}
+
+export interface ReceiptPreview {
+  receiptId: string | number;
+  receiptNumber: string;
+  date: string;
+  createdAt: string;
+  updatedAt?: string;
+  customerName: string;
+  customerContact: string;
+  customerCountryCode: string;
+  customerGstNumber: string | null;
+  paymentType: string;
+  paymentStatus: string;
+  notes?: string | null;
+  total: number;
+  dueTotal: number;
+  userId: string | number;
+  items: ReceiptPreviewItem[];
+  paymentDetails: PaymentDetails;
+  storeInfo: StoreInfo;
+  totalTax: number;
+  gstNumber?: string;
+  status: "active" | "void";
+  revisionNumber: number;
+  voidedAt?: string | null;
+  voidReason?: string | null;
+  expectedPaymentDate?: string | null;
+  installments: ReceiptInstallment[];
+  creditNotes: CreditNoteSummary[];
+  discount: number;
+  discountType: DiscountType;
+  discountAmount: number;
+  totalDiscount: number;
+  taxBreakup: TaxBreakupRow[];
+  placeOfSupply: string | null;
+  interState: boolean;
+  invoiceType: InvoiceType;
+}
+
+export interface ReceiptPreviewItem extends Required<ReceiptItem> {
+  id: number;
+  taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  returnedQuantity: number;
+}
+
+export interface ReceiptInstallment {
+  installmentNumber: number;
+  amount: number;
+  amountPaid: number;
+  dueDate: string;
+  isPaid: boolean;
+}
+
+export interface CreditNoteSummary {
+  id: number;
+  creditNoteNumber: string;
+  date: string;
+  total: number;
+}
+
+// Unregistered sellers cannot charge GST, so they issue a bill of supply
+export type InvoiceType = "tax_invoice" | "bill_of_supply";
+
+const HSN_SAC_PATTERN = /^(\d{4}|\d{6}|\d{8})$/;
+
+interface ValidationOptions {
+  // Revisions may keep an expected payment date that has since passed
+  isRevision?: boolean;
+}
+
+// New helper function to format date for MySQL DATE column (YYYY-MM-DD)
+export function formatDateOnlyForMySQL(date: Date | string): string {
+  let d: Date;
+
+  if (typeof date === "string") {
+    if (date.includes("T")) {
+      d = new Date(date);
+    } else {
+      d = new Date(date + "T00:00:00"); // Assuming local timezone input if no T
+    }
+  } else {
+    d = new Date(date);
+  }
+
+  if (isNaN(d.getTime())) {
+    throw new Error(`Invalid date format: ${date}`);
+  }
+
+  const pad = (num: number) => num.toString().padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function formatLocalDateForMySQL(date: Date | string): string {
+  let d: Date;
+
+  if (typeof date === "string") {
+    if (date.includes("T")) {
+      d = new Date(date);
+    } else {
+      d = new Date(date + "T00:00:00");
+    }
+  } else {
+    d = new Date(date);
+  }
+
+  if (isNaN(d.getTime())) {
+    throw new Error(`Invalid date format: ${date}`);
+  }
+
+  const pad = (num: number) => num.toString().padStart(2, "0");
+  return (
+    `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ` +
+    `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`
+  );
+}
+
+// Helper to ensure date/time is a UTC string in YYYY-MM-DD HH:MM:SS format
+export function formatToUTCString(
+  dateInput: Date | string | null | undefined
+): string {
+  if (!dateInput) return "";
+
+  let d: Date;
+  if (dateInput instanceof Date) {
+    d = dateInput;
+  } else {
+    // Attempt to parse the string as UTC.
+    // Appending 'Z' explicitly treats the string as UTC if it's not already ISO-formatted.
+    d = new Date(dateInput.toString() + "Z");
+  }
+
+  const year = d.getUTCFullYear();
+  const month = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(d.getUTCDate()).padStart(2, "0");
+  const hours = String(d.getUTCHours()).padStart(2, "0");
+  const minutes = String(d.getUTCMinutes()).padStart(2, "0");
+  const seconds = String(d.getUTCSeconds()).padStart(2, "0");
+  return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
+}
+
+function validateDiscount(
+  discount: number | undefined,
+  discountType: DiscountType | undefined,
+  base: number
+): string | null {
+  if (discount === undefined || discount === null) return null;
+  if (discountType && !["percentage", "fixed"].includes(discountType)) {
+    return "discount type must be one of: percentage, fixed";
+  }
+  if (typeof discount !== "number" || isNaN(discount) || discount < 0) {
+    return "discount must be a non-negative number";
+  }
+  if (discountType === "percentage" && discount > 100) {
+    return "discount cannot exceed 100%";
+  }
+  if (getDiscountAmount(base, discount, discountType) > base + 0.001) {
+    return "discount cannot exceed its amount";
+  }
+  return null;
+}
+
+export function validateReceiptBody(
+  body: ReceiptBody,
+  options: ValidationOptions = {}
+): string | null {
+  if (!body.receiptNumber) return "Receipt number is required";
+  if (!body.date) return "Date is required";
+  if (!body.customerName) return "Customer name is required";
+  if (!body.customerContact) return "Customer contact is required";
+  if (body.customerGstNumber && !isValidGstin(body.customerGstNumber)) {
+    return "Customer GSTIN is invalid";
+  }
+  if (body.placeOfSupply && !isValidStateCode(body.placeOfSupply)) {
+    return "Place of supply must be a valid GST state code";
+  }
+
+  const validTypes = ["cash", "online"];
+  if (
+    !body.paymentType ||
+    !validTypes.includes(body.paymentType.toLowerCase())
+  ) {
+    return `Payment type must be one of: ${validTypes.join(", ")}`;
+  }
+
+  const validStatuses = ["full", "advance", "due"];
+  if (
+    !body.paymentStatus ||
+    !validStatuses.includes(body.paymentStatus.toLowerCase())
+  ) {
+    return `Payment status must be one of: ${validStatuses.join(", ")}`;
+  }
+
+  if (body.paymentStatus === "due" && !body.paymentDate) {
+    return "Expected payment date is required for due payments";
+  }
+
+  if (body.paymentDate) {
+    const paymentDate = new Date(body.paymentDate);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    if (isNaN(paymentDate.getTime())) {
+      return "Invalid payment date format";
+    }
+
+    if (paymentDate < today && !options.isRevision) {
+      return "Payment date cannot be in the past";
+    }
+  }
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    return "At least one item is required";
+  }
+
+  for (const [index, item] of body.items.entries()) {
+    if (!item.description) return `Item ${index + 1} description is required`;
+    if (item.hsnCode && !HSN_SAC_PATTERN.test(item.hsnCode)) {
+      return `Item ${index + 1} HSN/SAC code must be 4, 6 or 8 digits`;
+    }
+    if (typeof item.quantity !== "number" || item.quantity <= 0) {
+      return `Item ${index + 1} quantity must be a positive number`;
+    }
+    if (typeof item.price !== "number" || item.price < 0) {
+      return `Item ${index + 1} price must be a non-negative number`;
+    }
+    if (
+      item.gstSlabId !== undefined &&
+      item.gstSlabId !== null &&
+      (!Number.isInteger(item.gstSlabId) || item.gstSlabId <= 0)
+    ) {
+      return `Item ${index + 1} has an invalid GST slab`;
+    }
+    const discountError = validateDiscount(
+      item.discount,
+      item.discountType,
+      item.quantity * item.price
+    );
+    if (discountError) return `Item ${index + 1} ${discountError}`;
+  }
+
+  const totals = calculateReceiptTotals(body.items, body);
+  const receiptDiscountError = validateDiscount(
+    body.discount,
+    body.discountType,
+    totals.subtotal
+  );
+  if (receiptDiscountError) return `Receipt ${receiptDiscountError}`;
+
+  if (typeof body.total !== "number" || Math.abs(body.total - totals.total) > 0.01) {
+    return "Total doesn't match items after discounts and GST";
+  }
+
+  if (body.paymentStatus === "full" && body.dueTotal !== 0) {
+    return "Due total must be 0 for full payment";
+  }
+
+  if (body.paymentStatus === "advance") {
+    const totalAdvance = body.items.reduce(
+      (sum, item) => sum + (item.advanceAmount || 0),
+      0
+    );
+    if (totalAdvance <= 0) {
+      return "Advance payment must have positive advance amounts";
+    }
+    if (Math.abs(totalAdvance - (body.total - body.dueTotal)) > 0.01) {
+      return "Advance amounts don't match calculated total";
+    }
+  }
+
+  if (body.paymentStatus === "due") {
+    const totalDue = body.items.reduce(
+      (sum, item) => sum + (item.dueAmount || 0),
+      0
+    );
+    if (totalDue <= 0) {
+      return "Due payment must have positive due amounts";
+    }
+    if (Math.abs(totalDue - body.dueTotal) > 0.01) {
+      return "Item due amounts don't match total due amount";
+    }
+
+    const planError = validateInstallmentPlan(body.installmentPlan, body.dueTotal);
+    if (planError) return planError;
+
+    if (body.installmentPlan?.type === "custom" && !options.isRevision) {
+      const today = formatDateOnlyForMySQL(new Date());
+      if (body.installmentPlan.installments!.some((i) => i.dueDate < today)) {
+        return "Installment due dates cannot be in the past";
+      }
+    }
+  }
+
+  if (
+    body.gstPercentage &&
+    (body.gstPercentage < 0 || body.gstPercentage > 28)
+  ) {
+    return "GST percentage must be between 0 and 28";
+  }
+
+  return null;
+}
+
+/**
+ * Look up each item's GST slab and copy its rate onto the item, so the
+ * totals check and the stored tax use the user's own slab table.
+ */
+export async function applyGstSlabRates(
+  connection: mysql.PoolConnection,
+  userId: string,
+  body: ReceiptBody
+): Promise<void> {
+  const slabIds = Array.from(
+    new Set(
+      (body.items || [])
+        .map((item) => item.gstSlabId)
+        .filter((id): id is number => typeof id === "number")
+    )
+  );
+
+  const rates = new Map<number, number>();
+  if (slabIds.length > 0) {
+    const [slabs] = await connection.query<mysql.RowDataPacket[]>(
+      `SELECT id, percentage FROM gst_slabs WHERE user_id = ? AND id IN (?)`,
+      [userId, slabIds]
+    );
+    for (const slab of slabs) {
+      rates.set(slab.id, Number(slab.percentage));
+    }
+  }
+
+  for (const [index, item] of (body.items || []).entries()) {
+    if (typeof item.gstSlabId === "number") {
+      const rate = rates.get(item.gstSlabId);
+      if (rate === undefined) {
+        throw new Error(`GST slab for item ${index + 1} was not found`);
+      }
+      item.gstRate = rate;
+    } else {
+      item.gstSlabId = null;
+      item.gstRate = undefined;
+    }
+  }
+}
+
+/**
+ * The store's GST state: its own setting, or the code its GSTIN starts with.
+ */
+export async function getStoreState(
+  connection: mysql.PoolConnection,
+  userId: string | number
+): Promise<string | null> {
+  const [users] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT state_code, gst_number FROM users WHERE id = ? LIMIT 1`,
+    [userId]
+  );
+  return users[0]?.state_code || getStateCodeFromGstin(users[0]?.gst_number);
+}
+
+/**
+ * Default the place of supply to the store's state and decide whether the
+ * receipt carries IGST or CGST + SGST.
+ */
+export async function applyPlaceOfSupply(
+  connection: mysql.PoolConnection,
+  userId: string,
+  body: ReceiptBody
+): Promise<void> {
+  const storeState = await getStoreState(connection, userId);
+
+  body.placeOfSupply =
+    body.placeOfSupply ||
+    getStateCodeFromGstin(body.customerGstNumber) ||
+    storeState ||
+    null;
+  body.interState = isInterStateSupply(storeState, body.placeOfSupply);
+}
+
+export async function processReceiptItems(
+  connection: mysql.PoolConnection,
+  receiptId: number,
+  body: ReceiptBody
+): Promise<void> {
+  console.log("Processing receipt items for receipt ID:", receiptId);
+
+  try {
+    // Tax is charged on each line after its share of every discount
+    const { lines } = calculateReceiptTotals(body.items, body);
+
+    for (const [index, item] of body.items.entries()) {
+      console.log(`Processing item ${index + 1}:`, {
+        description: item.description,
+        quantity: item.quantity,
+        price: item.price,
+        discount: item.discount,
+      });
+
+      await connection.query(
+        `INSERT INTO receipt_items (
+          receipt_id, description, hsn_code, quantity, price,
+          discount, discount_type, gst_slab_id, gst_rate,
+          advance_amount, due_amount, tax_amount,
+          cgst_amount, sgst_amount, igst_amount
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          receiptId,
+          item.description,
+          item.hsnCode || null,
+          item.quantity,
+          item.price,
+          item.discount ?? 0,
+          item.discountType || "fixed",
+          item.gstSlabId ?? null,
+          lines[index].rate,
+          item.advanceAmount ?? 0,
+          item.dueAmount ?? 0,
+          lines[index].tax,
+          lines[index].cgst,
+          lines[index].sgst,
+          lines[index].igst,
+        ]
+      );
+    }
+    console.log("All items processed successfully");
+  } catch (error) {
+    console.error("Error processing receipt items:", error);
+    throw new Error("Failed to process receipt items");
+  }
+}
+
+/**
+ * Store the receipt-wide tax total; the item triggers only sum item rows.
+ */
+export async function updateReceiptTax(
+  connection: mysql.PoolConnection,
+  receiptId: number,
+  body: ReceiptBody
+): Promise<number> {
+  const totalCalculatedTax = calculateReceiptTotals(body.items, body).totalTax;
+
+  await connection.query(
+    `UPDATE receipts SET total_tax = ? WHERE id = ?`,
+    [totalCalculatedTax, receiptId]
+  );
+  console.log(`Updated receipt ${receiptId} with total_tax: ${totalCalculatedTax}`);
+
+  return totalCalculatedTax;
+}
+
+export async function processPaymentDetails(
+  connection: mysql.PoolConnection,
+  receiptId: number,
+  paymentDetails?: PaymentDetails
+): Promise<void> {
+  if (!paymentDetails) return;
+
+  console.log("Processing payment details for receipt ID:", receiptId);
+
+  try {
+    await connection.query(
+      `INSERT INTO payment_details (
+        receipt_id, card_number, phone_number, phone_country_code
+      ) VALUES (?, ?, ?, ?)`,
+      [
+        receiptId,
+        paymentDetails.cardNumber || null,
+        paymentDetails.phoneNumber || null,
+        paymentDetails.phoneCountryCode || null,
+      ]
+    );
+    console.log("Payment details processed successfully");
+  } catch (error) {
+    console.error("Error processing payment details:", error);
+    throw new Error("Failed to process payment details");
+  }
+}
+
+function getExpectedPaymentDate(body: ReceiptBody): Date {
+  // Use the paymentDate from the form, or default to 7 days from now if not provided
+  if (body.paymentDate) return new Date(body.paymentDate);
+
+  const date = new Date();
+  date.setDate(date.getDate() + 7);
+  return date;
+}
+
+export async function processDueRecords(
+  connection: mysql.PoolConnection,
+  receiptId: number,
+  body: ReceiptBody,
+  userId: string
+): Promise<void> {
+  if (body.paymentStatus !== "due") return;
+
+  console.log("Processing due records for receipt ID:", receiptId);
+
+  try {
+    const productOrdered = body.items.map((i) => i.description).join(", ");
+    const totalQuantity = body.items.reduce((sum, i) => sum + i.quantity, 0);
+    const schedule = buildInstallmentSchedule(
+      body.installmentPlan,
+      body.dueTotal,
+      formatDateOnlyForMySQL(getExpectedPaymentDate(body))
+    );
+
+    // Each installment is its own due record, so it is paid, reminded and
+    // flagged overdue on its own date
+    for (const [index, installment] of schedule.entries()) {
+      await connection.query(
+        `INSERT INTO due_records (
+          customer_name, customer_contact, customer_country_code,
+          customer_gst_number, product_ordered, quantity, amount_due,
+          expected_payment_date, user_id, receipt_number,
+          installment_number, installment_count, customer_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          body.customerName,
+          body.customerContact,
+          body.customerCountryCode,
+          body.customerGstNumber || null,
+          productOrdered,
+          totalQuantity,
+          installment.amount,
+          installment.dueDate,
+          userId,
+          body.receiptNumber,
+          index + 1,
+          schedule.length,
+          body.customerId ?? null,
+        ]
+      );
+    }
+    console.log("Due records processed successfully");
+  } catch (error) {
+    console.error("Error processing due records:", error);
+    throw new Error("Failed to process due records");
+  }
+}
+
+/**
+ * A revision rebuilds the receipt's dues from scratch, so it is refused once
+ * any of them carries history that would be lost with it: payments, a
+ * dispute, write-off or cancellation, or late charges.
+ */
+export async function validateReceiptRevision(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  receiptNumber: string
+): Promise<string | null> {
+  const [dues] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT d.id, d.is_paid, d.amount_paid, d.status,
+            EXISTS (
+              SELECT 1 FROM due_charges c WHERE c.due_record_id = d.id
+            ) AS has_charges,
+            EXISTS (
+              SELECT 1 FROM account_transactions t
+              WHERE t.due_record_id = d.id AND t.is_non_cash = TRUE
+            ) AS has_write_off
+     FROM due_records d
+     WHERE d.receipt_number = ? AND d.user_id = ?`,
+    [receiptNumber, userId]
+  );
+
+  for (const due of dues) {
+    if (due.is_paid || Number(due.amount_paid) > 0) {
+      return "Payments have been recorded against this receipt's due, so it cannot be revised";
+    }
+    if (due.status !== "open" || due.has_write_off) {
+      return "This receipt's due has been disputed, written off or cancelled, so it cannot be revised";
+    }
+    if (due.has_charges) {
+      return "Late fees or interest have been charged on this receipt's due, so it cannot be revised";
+    }
+  }
+  return null;
+}
+
+export function getReceiptPaymentAmount(body: ReceiptBody): number {
+  if (body.paymentStatus === "full") return body.total;
+  if (body.paymentStatus === "advance") return body.total - body.dueTotal;
+  return 0;
+}
+
+function getReceiptPaymentParticulars(body: ReceiptBody): string {
+  const kind = body.paymentStatus === "advance" ? "Advance" : "Full";
+  return `${kind} payment from ${body.customerName} (Receipt: ${body.receiptNumber})`;
+}
+
+export async function processAccountTransaction(
+  connection: mysql.PoolConnection,
+  receiptId: number,
+  body: ReceiptBody,
+  userId: string,
+  receiptDate: string
+): Promise<void> {
+  if (body.paymentStatus === "due") return;
+
+  console.log("Processing account transaction for receipt ID:", receiptId);
+
+  try {
+    const transactionDate = formatDateOnlyForMySQL(receiptDate);
+    const transactionAmount = getReceiptPaymentAmount(body);
+    const particulars = getReceiptPaymentParticulars(body);
+
+    if (transactionAmount > 0) {
+      const moneyAccountId = await resolveMoneyAccountId(
+        connection,
+        userId,
+        body.paymentType.toLowerCase() as PaymentChannel
+      );
+      const [result] = await connection.query<mysql.ResultSetHeader>(
+        `INSERT INTO account_transactions (
+          particulars, amount, type, user_id, receipt_id, money_account_id, transaction_date
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [particulars, transactionAmount, "credit", userId, receiptId, moneyAccountId, transactionDate]
+      );
+      await postTransactionJournal(connection, userId, result.insertId);
+      console.log("Account transaction processed successfully");
+    }
+  } catch (error) {
+    console.error("Error processing account transaction:", error);
+    throw new Error("Failed to process account transaction");
+  }
+}
+
+/**
+ * Recompute the cached unpaid due total after due rows are changed or removed.
+ * The due_records triggers only cover inserts and paid or status flips.
+ */
+export async function refreshDueBalance(
+  connection: mysql.PoolConnection,
+  userId: string | number
+): Promise<void> {
+  await connection.query(
+    `UPDATE account_balances
+     SET total_due_balance = (
+       SELECT COALESCE(SUM(amount_due - amount_paid), 0)
+       FROM due_records
+       WHERE user_id = ? AND is_paid = FALSE AND status = 'open'
+     )
+     WHERE user_id = ?`,
+    [userId, userId]
+  );
+}
+
+/**
+ * Apply a change in an existing transaction's amount to account_balances.
+ * after_transaction_insert only fires for new rows.
+ */
+export async function adjustAccountBalance(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  type: "credit" | "debit",
+  delta: number,
+  taxDelta = 0
+): Promise<void> {
+  if (delta === 0 && taxDelta === 0) return;
+
+  const signed = type === "credit" ? delta : -delta;
+  await connection.query(
+    `UPDATE account_balances
+     SET balance = balance + ?,
+         total_tax_collected = total_tax_collected + ?
+     WHERE user_id = ?`,
+    [signed, type === "credit" ? taxDelta : 0, userId]
+  );
+}
+
+function toPaymentDetails(
+  row: mysql.RowDataPacket | undefined
+): PaymentDetails {
+  if (!row) return {};
+  return {
+    cardNumber: row.cardNumber || undefined,
+    phoneNumber: row.phoneNumber || undefined,
+    phoneCountryCode: row.phoneCountryCode || undefined,
+  };
+}
+
+/**
+ * Rebuild the taxable value, rate and CGST/SGST/IGST split of stored item
+ * rows. Taxable values come from the same allocation used on save; the tax
+ * is what was stored, since older items predate per-line rates and the split.
+ */
+export function getItemTaxLines(
+  items: mysql.RowDataPacket[],
+  discountAmount: number,
+  storeState: string | null,
+  placeOfSupply: string | null
+): { lines: ReceiptLineAmounts[]; interState: boolean } {
+  const { lines } = calculateReceiptTotals(
+    items.map((item) => ({
+      quantity: Number(item.quantity),
+      price: Number(item.price),
+      discount: Number(item.discount),
+      discountType: item.discountType,
+    })),
+    { discount: discountAmount, discountType: "fixed" }
+  );
+  const interState =
+    items.some((item) => Number(item.igstAmount) > 0) ||
+    isInterStateSupply(storeState, placeOfSupply);
+
+  return {
+    interState,
+    lines: lines.map((line, index) => {
+      const item = items[index];
+      const tax = Number(item.taxAmount) || 0;
+      const split = {
+        cgst: Number(item.cgstAmount) || 0,
+        sgst: Number(item.sgstAmount) || 0,
+        igst: Number(item.igstAmount) || 0,
+      };
+      const rate =
+        item.gstRate !== null && item.gstRate !== undefined
+          ? Number(item.gstRate)
+          : line.taxable > 0
+          ? roundCurrency((tax / line.taxable) * 100)
+          : 0;
+      return {
+        ...line,
+        rate,
+        tax,
+        ...(split.cgst + split.sgst + split.igst === 0 && tax > 0
+          ? splitGst(tax, interState)
+          : split),
+      };
+    }),
+  };
+}
+
+/**
+ * Load a receipt in the shape served by GET /api/receipts/[id].
+ * Also used to snapshot the current version before a revision.
+ */
+export async function loadReceiptPreview(
+  connection: mysql.PoolConnection,
+  receiptId: string | number
+): Promise<ReceiptPreview | null> {
+  const [receipts] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      r.id, r.receipt_number,
+      DATE_FORMAT(r.date, '%Y-%m-%d') as date,
+      CAST(r.created_at AS CHAR) as created_at,
+      CAST(r.updated_at AS CHAR) as updated_at,
+      r.customer_name, r.customer_contact, r.customer_country_code,
+      r.customer_gst_number, r.place_of_supply,
+      r.payment_type, r.payment_status, r.notes,
+      r.total, r.due_total, r.user_id,
+      r.total_tax AS totalTax,
+      r.status, r.revision_number,
+      r.discount, r.discount_type, r.discount_amount, r.total_discount,
+      CAST(r.voided_at AS CHAR) as voided_at,
+      r.void_reason,
+      (SELECT DATE_FORMAT(MIN(d.expected_payment_date), '%Y-%m-%d')
+       FROM due_records d
+       WHERE d.receipt_number = r.receipt_number AND d.user_id = r.user_id
+      ) AS expected_payment_date,
+      u.store_name AS storeName,
+      u.store_address AS storeAddress,
+      u.store_contact AS storeContact,
+      u.store_country_code AS storeCountryCode,
+      u.gst_number AS gstNumber,
+      u.state_code AS storeStateCode
+     FROM receipts r
+     JOIN users u ON r.user_id = u.id
+     WHERE r.id = ? LIMIT 1`,
+    [receiptId]
+  );
+
+  if (receipts.length === 0) return null;
+
+  const receipt = receipts[0];
+
+  const [items] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      ri.id, ri.description, ri.hsn_code AS hsnCode, ri.quantity, ri.price,
+      ri.advance_amount AS advanceAmount,
+      ri.due_amount AS dueAmount,
+      ri.tax_amount AS taxAmount,
+      ri.cgst_amount AS cgstAmount,
+      ri.sgst_amount AS sgstAmount,
+      ri.igst_amount AS igstAmount,
+      ri.discount, ri.discount_type AS discountType,
+      ri.gst_slab_id AS gstSlabId, ri.gst_rate AS gstRate,
+      (SELECT COALESCE(SUM(cni.quantity), 0)
+       FROM credit_note_items cni
+       WHERE cni.receipt_item_id = ri.id) AS returnedQuantity
+     FROM receipt_items ri
+     WHERE ri.receipt_id = ?
+     ORDER BY ri.id ASC`,
+    [receiptId]
+  );
+
+  const [paymentDetailsRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      card_number AS cardNumber,
+      phone_number AS phoneNumber,
+      phone_country_code AS phoneCountryCode
+     FROM payment_details
+     WHERE receipt_id = ? LIMIT 1`,
+    [receiptId]
+  );
+
+  const [installmentRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      installment_number, amount_due, amount_paid, is_paid,
+      DATE_FORMAT(expected_payment_date, '%Y-%m-%d') AS due_date
+     FROM due_records
+     WHERE receipt_number = ? AND user_id = ?
+     ORDER BY installment_number ASC, id ASC`,
+    [receipt.receipt_number, receipt.user_id]
+  );
+
+  const [creditNoteRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, credit_note_number, DATE_FORMAT(date, '%Y-%m-%d') AS date, total
+     FROM credit_notes
+     WHERE receipt_id = ?
+     ORDER BY id ASC`,
+    [receiptId]
+  );
+
+  const storeState =
+    receipt.storeStateCode || getStateCodeFromGstin(receipt.gstNumber);
+  const { lines, interState } = getItemTaxLines(
+    items,
+    Number(receipt.discount_amount),
+    storeState,
+    receipt.place_of_supply
+  );
+  const taxBreakup = getTaxBreakup(lines);
+
+  return {
+    receiptId: receipt.id,
+    receiptNumber: receipt.receipt_number,
+    date: receipt.date,
+    createdAt: formatToUTCString(receipt.created_at),
+    updatedAt: receipt.updated_at
+      ? formatToUTCString(receipt.updated_at) : undefined,
+    customerName: receipt.customer_name,
+    customerContact: receipt.customer_contact,
+    customerCountryCode: receipt.customer_country_code,
+    customerGstNumber: receipt.customer_gst_number || null,
+    paymentType: receipt.payment_type,
+    paymentStatus: receipt.payment_status,
+    notes: receipt.notes || null,
+    total: receipt.total,
+    dueTotal: receipt.due_total,
+    userId: receipt.user_id,
+    totalTax: receipt.totalTax || 0,
+    items: items.map((item, index) => ({
+      id: item.id,
+      description: item.description,
+      hsnCode: item.hsnCode || null,
+      quantity: item.quantity,
+      price: item.price,
+      advanceAmount: item.advanceAmount || 0,
+      dueAmount: item.dueAmount || 0,
+      discount: Number(item.discount) || 0,
+      discountType: item.discountType === "percentage" ? "percentage" : "fixed",
+      gstSlabId: item.gstSlabId ?? null,
+      gstRate: lines[index].rate,
+      taxAmount: lines[index].tax,
+      cgstAmount: lines[index].cgst,
+      sgstAmount: lines[index].sgst,
+      igstAmount: lines[index].igst,
+      returnedQuantity: Number(item.returnedQuantity) || 0,
+    })),
+    paymentDetails: toPaymentDetails(paymentDetailsRows[0]),
+    storeInfo: {
+      name: receipt.storeName,
+      address: receipt.storeAddress,
+      contact: receipt.storeContact,
+      countryCode: receipt.storeCountryCode,
+      gstNumber: receipt.gstNumber || undefined,
+      stateCode: storeState || undefined,
+    },
+    gstNumber: receipt.gstNumber || undefined,
+    status: receipt.status === "void" ? "void" : "active",
+    revisionNumber: Number(receipt.revision_number) || 1,
+    voidedAt: receipt.voided_at ? formatToUTCString(receipt.voided_at) : null,
+    voidReason: receipt.void_reason || null,
+    expectedPaymentDate: receipt.expected_payment_date || null,
+    installments: installmentRows.map((row) => ({
+      installmentNumber: Number(row.installment_number) || 1,
+      amount: Number(row.amount_due) || 0,
+      amountPaid: Number(row.amount_paid) || 0,
+      dueDate: row.due_date,
+      isPaid: Boolean(row.is_paid),
+    })),
+    creditNotes: creditNoteRows.map((row) => ({
+      id: row.id,
+      creditNoteNumber: row.credit_note_number,
+      date: row.date,
+      total: Number(row.total) || 0,
+    })),
+    discount: Number(receipt.discount) || 0,
+    discountType: receipt.discount_type === "percentage" ? "percentage" : "fixed",
+    discountAmount: Number(receipt.discount_amount) || 0,
+    totalDiscount: Number(receipt.total_discount) || 0,
+    taxBreakup,
+    placeOfSupply: receipt.place_of_supply || null,
+    interState,
+    invoiceType: receipt.gstNumber ? "tax_invoice" : "bill_of_supply",
+  };
+}
@@ -0,0 +1,167 @@
+import type mysql from "mysql2/promise";
+import { describe, expect, it } from "vitest";
+import { autoMatchStatement, loadStatement } from "@/lib/reconciliation";
+
+const line = (
+  id: number,
+  date: string,
+  amount: number,
+  description = "UPI credit",
+  reference: string | null = null
+) => ({
+  id,
+  money_account_id: 1,
+  description,
+  reference,
+  amount: amount.toFixed(2),
+  status: "unmatched",
+  match_score: null,
+  account_transaction_id: null,
+  due_record_id: null,
+  date,
+});
+
+const entry = (
+  id: number,
+  date: string,
+  amount: number,
+  {
+    type = "credit",
+    particulars = "Counter sale",
+    receiptNumber = null as string | null,
+    claimedBy = null as string | null,
+  } = {}
+) => ({
+  id,
+  particulars,
+  payee: null,
+  amount: amount.toFixed(2),
+  type,
+  date,
+  receipt_number: receiptNumber,
+  customer_name: null,
+  claimed_by: claimedBy,
+});
+
+// Exact amount 50, same day 30 less 10 a day apart, reference 20
+const LINES = [
+  // Same day with the receipt number (100) against two days out (60)
+  line(1, "2026-03-10", 500, "NEFT ASHA R-7"),
+  // Two days out and nothing else: exactly the threshold
+  line(2, "2026-03-10", 200),
+  // Three days out: 50 is under the threshold
+  line(3, "2026-03-10", 150),
+  // The reference matches, but four days is outside the window
+  line(4, "2026-03-10", -80, "Cheque", "CHQ991"),
+  // 80 against 70 leads by exactly 10
+  line(5, "2026-03-20", 300),
+  // Two same-day entries tie at 80
+  line(6, "2026-03-25", 400),
+  // Its only entry belongs to another statement's line, but a settled due fits
+  line(7, "2026-03-26", 250, "IMPS R-9"),
+  // Same as line 1, whose best entry is taken earlier in the pass
+  line(8, "2026-03-10", 500),
+];
+
+const ENTRIES = [
+  entry(11, "2026-03-10", 500, { receiptNumber: "R-7" }),
+  entry(12, "2026-03-12", 500),
+  entry(13, "2026-03-12", 200),
+  entry(14, "2026-03-13", 150),
+  entry(15, "2026-03-14", 80, { type: "debit", particulars: "Rent CHQ991" }),
+  // Right amount, wrong direction
+  entry(16, "2026-03-10", 80),
+  entry(17, "2026-03-20", 300),
+  entry(18, "2026-03-21", 300),
+  entry(19, "2026-03-25", 400),
+  entry(20, "2026-03-25", 400),
+  entry(21, "2026-03-26", 250, { claimedBy: "99" }),
+];
+
+const DUES = [
+  {
+    id: 31,
+    customer_name: "Ravi",
+    receipt_number: "R-9",
+    product_ordered: "Chair",
+    amount_paid: "250.00",
+    date: "2026-03-26",
+    claimed_by: null,
+  },
+];
+
+// The SQL narrows by amount and date range; the fake hands back everything
+function fakeConnection(lines = LINES) {
+  const queries: { sql: string; params: unknown[] }[] = [];
+  const query = async (sql: string, params: unknown[] = []) => {
+    queries.push({ sql, params });
+    if (/FROM bank_statements s/.test(sql)) return [[{ id: 4, money_account_id: 1 }]];
+    if (/FROM due_records d\s+WHERE/.test(sql)) return [DUES];
+    if (/FROM account_transactions t\s+LEFT JOIN/.test(sql)) return [ENTRIES];
+    if (/FROM bank_statement_lines l/.test(sql)) return [lines];
+    return [{ affectedRows: 1 }];
+  };
+  return { connection: { query } as unknown as mysql.PoolConnection, queries };
+}
+
+const matches = (queries: { sql: string; params: unknown[] }[]) =>
+  queries
+    .filter((q) => /UPDATE bank_statement_lines/.test(q.sql))
+    .map(({ params: [transactionId, dueId, score, lineId] }) => ({
+      lineId,
+      transactionId,
+      dueId,
+      score,
+    }));
+
+describe("autoMatchStatement", () => {
+  it("matches only clear winners within three days", async () => {
+    const { connection, queries } = fakeConnection();
+
+    expect(await autoMatchStatement(connection, 1, 4)).toBe(5);
+    expect(matches(queries)).toEqual([
+      { lineId: 1, transactionId: 11, dueId: null, score: 100 },
+      { lineId: 2, transactionId: 13, dueId: null, score: 60 },
+      { lineId: 5, transactionId: 17, dueId: null, score: 80 },
+      { lineId: 7, transactionId: null, dueId: 31, score: 100 },
+      { lineId: 8, transactionId: 12, dueId: null, score: 60 },
+    ]);
+  });
+
+  it("looks up candidates for the whole statement in one query per kind", async () => {
+    const { connection, queries } = fakeConnection();
+    await autoMatchStatement(connection, 1, 4);
+
+    const lookups = queries.filter((q) => /^\s*SELECT/.test(q.sql));
+    expect(lookups).toHaveLength(3);
+    const [, entries, dues] = lookups;
+    expect(entries.params).toEqual([
+      1,
+      1,
+      [500, 200, 150, 80, 300, 400, 250],
+      "2026-03-10",
+      3,
+      "2026-03-26",
+      3,
+    ]);
+    // Only money in can be a settled due
+    expect(dues.params[1]).toEqual([500, 200, 150, 300, 400, 250]);
+  });
+});
+
+describe("loadStatement", () => {
+  it("suggests up to three candidates per unmatched line without a query per line", async () => {
+    const { connection, queries } = fakeConnection();
+    const statement = await loadStatement(connection, 1, 4);
+
+    expect(queries).toHaveLength(4);
+    const line1 = statement!.lines.find((l) => l.id === 1)!;
+    expect(line1.candidates.map((c) => [c.id, c.score])).toEqual([
+      [11, 100],
+      [12, 60],
+    ]);
+    // The ten-day window used for suggestions reaches the entry four days out
+    const line4 = statement!.lines.find((l) => l.id === 4)!;
+    expect(line4.candidates.map((c) => [c.id, c.score])).toEqual([[15, 70]]);
+  });
+});
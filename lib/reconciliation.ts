@@ -0,0 +1,592 @@
+// lib/reconciliation.ts
+import mysql from "mysql2/promise";
+import { createHash } from "crypto";
+import { roundCurrency } from "@/lib/receipt-totals";
+import { validateExpenseFields } from "@/lib/expenses";
+import { postTransactionJournal } from "@/lib/ledger";
+import type {
+  CsvColumnMapping,
+  ParsedStatementLine,
+  StatementFileFormat,
+  StatementLineStatus,
+} from "@/lib/bank-statements";
+
+// Auto-matching only looks this far either side of the bank date; the
+// suggestions offered on the reconciliation screen look further
+const AUTO_MATCH_WINDOW_DAYS = 3;
+const CANDIDATE_WINDOW_DAYS = 10;
+// An exact amount scores 50, a same-day date up to 30 and a reference 20
+const AUTO_MATCH_MIN_SCORE = 60;
+const AUTO_MATCH_MIN_LEAD = 10;
+
+export interface BankStatement {
+  id: number;
+  moneyAccountId: number;
+  moneyAccount: string;
+  fileName: string;
+  format: StatementFileFormat;
+  columnMapping: CsvColumnMapping | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  createdAt: string;
+  lineCount: number;
+  unmatched: number;
+  matched: number;
+  reconciled: number;
+  ignored: number;
+}
+
+export interface MatchCandidate {
+  kind: "transaction" | "due";
+  id: number;
+  date: string;
+  description: string;
+  amount: number;
+  score: number;
+}
+
+export interface StatementLine {
+  id: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+  status: StatementLineStatus;
+  matchScore: number | null;
+  // What the line is matched or reconciled to, if anything
+  match: Omit<MatchCandidate, "score"> | null;
+  // Suggestions for unmatched lines, best first
+  candidates: MatchCandidate[];
+}
+
+export interface BankStatementDetail extends BankStatement {
+  lines: StatementLine[];
+}
+
+export interface StatementImport {
+  moneyAccountId: number;
+  fileName: string;
+  format: StatementFileFormat;
+  columnMapping: CsvColumnMapping | null;
+  lines: ParsedStatementLine[];
+}
+
+export type StatementLineAction =
+  | { action: "match"; kind: "transaction" | "due"; id: number }
+  | { action: "confirm" }
+  | { action: "unmatch" }
+  | { action: "ignore" }
+  | { action: "create"; particulars?: string; categoryId?: number | null };
+
+export interface CreatedEntry {
+  transactionId: number;
+  amount: number;
+  kind: "credit" | "debit";
+}
+
+interface LineForMatching {
+  id: number;
+  moneyAccountId: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+/**
+ * Lines without a bank id are keyed by their contents; the occurrence count
+ * keeps two identical lines in one file apart while a re-upload of the same
+ * file still collides.
+ */
+function withExternalIds(lines: ParsedStatementLine[]): (ParsedStatementLine & { externalId: string })[] {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    if (line.externalId) return { ...line, externalId: line.externalId.slice(0, 100) };
+    const key = [line.date, line.amount.toFixed(2), line.description, line.reference || ""].join("|");
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+    const hash = createHash("sha1").update(`${key}|${occurrence}`).digest("hex");
+    return { ...line, externalId: `hash:${hash}` };
+  });
+}
+
+/**
+ * Store an uploaded statement inside the caller's transaction. Lines already
+ * imported for the account are skipped.
+ */
+export async function importStatement(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  input: StatementImport
+): Promise<{ statementId: number; imported: number; duplicates: number }> {
+  const dates = input.lines.map((line) => line.date).sort();
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT INTO bank_statements
+      (user_id, money_account_id, file_name, format, column_mapping, period_start, period_end)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      userId,
+      input.moneyAccountId,
+      input.fileName.slice(0, 255),
+      input.format,
+      input.columnMapping ? JSON.stringify(input.columnMapping) : null,
+      dates[0] ?? null,
+      dates[dates.length - 1] ?? null,
+    ]
+  );
+
+  let imported = 0;
+  for (const line of withExternalIds(input.lines)) {
+    const [inserted] = await connection.query<mysql.ResultSetHeader>(
+      `INSERT IGNORE INTO bank_statement_lines
+        (statement_id, user_id, money_account_id, line_date, description, reference, amount, external_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        result.insertId,
+        userId,
+        input.moneyAccountId,
+        line.date,
+        line.description.slice(0, 255),
+        line.reference?.slice(0, 100) || null,
+        line.amount,
+        line.externalId,
+      ]
+    );
+    imported += inserted.affectedRows;
+  }
+
+  return { statementId: result.insertId, imported, duplicates: input.lines.length - imported };
+}
+
+const daysApart = (a: string, b: string) =>
+  Math.round(Math.abs(Date.parse(a) - Date.parse(b)) / 86400000);
+
+// True when the bank text names the receipt, payee or customer, or the
+// book entry mentions the bank reference
+function referenceMatches(line: LineForMatching, bookTexts: (string | null)[]): boolean {
+  const bankText = `${line.description} ${line.reference || ""}`.toLowerCase();
+  const bookText = bookTexts.filter(Boolean).join(" ").toLowerCase();
+  if (line.reference && line.reference.length >= 3 && bookText.includes(line.reference.toLowerCase())) {
+    return true;
+  }
+  return bookTexts.some(
+    (text) => !!text && text.trim().length >= 3 && bankText.includes(text.trim().toLowerCase())
+  );
+}
+
+const scoreCandidate = (line: LineForMatching, date: string, hasReference: boolean) =>
+  50 + Math.max(0, 30 - 10 * daysApart(line.date, date)) + (hasReference ? 20 : 0);
+
+/**
+ * Book entries that could be each bank line, best first, keyed by line id:
+ * cash entries in the same account with the same amount and direction, and,
+ * for money in, settled dues whose payment was not booked to this account.
+ * Entries and dues already claimed by another line are left out. The lines
+ * all come from one statement, so share a money account, and are looked up
+ * together with one query for entries and one for dues.
+ */
+async function findCandidates(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  lines: LineForMatching[],
+  windowDays: number
+): Promise<Map<number, MatchCandidate[]>> {
+  const candidatesByLine = new Map<number, MatchCandidate[]>(lines.map((line) => [line.id, []]));
+  if (lines.length === 0) return candidatesByLine;
+
+  const moneyAccountId = lines[0].moneyAccountId;
+  const dates = lines.map((line) => line.date).sort();
+  const [firstDate, lastDate] = [dates[0], dates[dates.length - 1]];
+  const amounts = Array.from(new Set(lines.map((line) => Math.abs(line.amount))));
+  // Claimed only by the line itself still counts as a candidate for it
+  const claimedByOther = (claimedBy: string | null, line: LineForMatching) =>
+    !!claimedBy && claimedBy.split(",").some((id) => Number(id) !== line.id);
+  const inWindow = (line: LineForMatching, date: string) => daysApart(line.date, date) <= windowDays;
+
+  const [transactions] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT t.id, t.particulars, t.payee, t.amount, t.type,
+            DATE_FORMAT(t.transaction_date, '%Y-%m-%d') AS date,
+            COALESCE(r.receipt_number, d.receipt_number) AS receipt_number,
+            COALESCE(r.customer_name, d.customer_name) AS customer_name,
+            (SELECT GROUP_CONCAT(l.id) FROM bank_statement_lines l
+             WHERE l.account_transaction_id = t.id) AS claimed_by
+     FROM account_transactions t
+     LEFT JOIN receipts r ON t.receipt_id = r.id
+     LEFT JOIN due_records d ON t.due_record_id = d.id
+     WHERE t.user_id = ? AND t.money_account_id = ? AND t.amount IN (?)
+     AND DATE(t.transaction_date) BETWEEN DATE_SUB(?, INTERVAL ? DAY) AND DATE_ADD(?, INTERVAL ? DAY)`,
+    [userId, moneyAccountId, amounts, firstDate, windowDays, lastDate, windowDays]
+  );
+
+  for (const line of lines) {
+    const candidates = candidatesByLine.get(line.id)!;
+    for (const row of transactions) {
+      if (
+        row.type !== (line.amount > 0 ? "credit" : "debit") ||
+        Number(row.amount) !== Math.abs(line.amount) ||
+        !inWindow(line, row.date) ||
+        claimedByOther(row.claimed_by, line)
+      ) {
+        continue;
+      }
+      candidates.push({
+        kind: "transaction",
+        id: row.id,
+        date: row.date,
+        description: row.particulars,
+        amount: line.amount,
+        score: scoreCandidate(
+          line,
+          row.date,
+          referenceMatches(line, [row.receipt_number, row.payee, row.customer_name, row.particulars])
+        ),
+      });
+    }
+  }
+
+  const moneyIn = lines.filter((line) => line.amount > 0);
+  if (moneyIn.length > 0) {
+    const [dues] = await connection.query<mysql.RowDataPacket[]>(
+      `SELECT d.id, d.customer_name, d.receipt_number, d.product_ordered, d.amount_paid,
+              DATE_FORMAT(d.paid_at, '%Y-%m-%d') AS date,
+              (SELECT GROUP_CONCAT(l.id) FROM bank_statement_lines l
+               WHERE l.due_record_id = d.id) AS claimed_by
+       FROM due_records d
+       WHERE d.user_id = ? AND d.is_paid = TRUE AND d.amount_paid IN (?)
+       AND DATE(d.paid_at) BETWEEN DATE_SUB(?, INTERVAL ? DAY) AND DATE_ADD(?, INTERVAL ? DAY)
+       AND NOT EXISTS (
+         SELECT 1 FROM account_transactions t
+         WHERE t.due_record_id = d.id AND t.money_account_id = ?
+       )`,
+      [
+        userId,
+        Array.from(new Set(moneyIn.map((line) => line.amount))),
+        firstDate,
+        windowDays,
+        lastDate,
+        windowDays,
+        moneyAccountId,
+      ]
+    );
+
+    for (const line of moneyIn) {
+      const candidates = candidatesByLine.get(line.id)!;
+      for (const row of dues) {
+        if (
+          Number(row.amount_paid) !== line.amount ||
+          !inWindow(line, row.date) ||
+          claimedByOther(row.claimed_by, line)
+        ) {
+          continue;
+        }
+        candidates.push({
+          kind: "due",
+          id: row.id,
+          date: row.date,
+          description: `Due settled by ${row.customer_name}${
+            row.receipt_number ? ` (receipt #${row.receipt_number})` : ""
+          }`,
+          amount: line.amount,
+          score: scoreCandidate(line, row.date, referenceMatches(line, [row.receipt_number, row.customer_name])),
+        });
+      }
+    }
+  }
+
+  for (const line of lines) {
+    candidatesByLine
+      .get(line.id)!
+      .sort((a, b) => b.score - a.score || daysApart(line.date, a.date) - daysApart(line.date, b.date));
+  }
+  return candidatesByLine;
+}
+
+const toLineForMatching = (row: mysql.RowDataPacket): LineForMatching => ({
+  id: row.id,
+  moneyAccountId: row.money_account_id,
+  date: row.date,
+  description: row.description,
+  reference: row.reference || null,
+  amount: Number(row.amount) || 0,
+});
+
+const LINE_COLUMNS = `l.id, l.money_account_id, l.description, l.reference, l.amount, l.status,
+  l.match_score, l.account_transaction_id, l.due_record_id,
+  DATE_FORMAT(l.line_date, '%Y-%m-%d') AS date`;
+
+/**
+ * Match the statement's unmatched lines where one book entry is a clear
+ * winner. Matches still need confirming before the line counts as
+ * reconciled.
+ */
+export async function autoMatchStatement(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  statementId: number
+): Promise<number> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT ${LINE_COLUMNS} FROM bank_statement_lines l
+     WHERE l.statement_id = ? AND l.user_id = ? AND l.status = 'unmatched'
+     ORDER BY l.line_date ASC, l.id ASC`,
+    [statementId, userId]
+  );
+
+  const lines = rows.map(toLineForMatching);
+  const candidatesByLine = await findCandidates(connection, userId, lines, AUTO_MATCH_WINDOW_DAYS);
+  // Entries claimed earlier in this pass are not committed to the lines yet
+  const claimed = new Set<string>();
+  let matched = 0;
+
+  for (const line of lines) {
+    const candidates = candidatesByLine
+      .get(line.id)!
+      .filter((candidate) => !claimed.has(`${candidate.kind}:${candidate.id}`));
+    const [best, runnerUp] = candidates;
+    if (!best || best.score < AUTO_MATCH_MIN_SCORE) continue;
+    if (runnerUp && best.score - runnerUp.score < AUTO_MATCH_MIN_LEAD) continue;
+
+    await connection.query(
+      `UPDATE bank_statement_lines
+       SET status = 'matched', account_transaction_id = ?, due_record_id = ?, match_score = ?
+       WHERE id = ?`,
+      [
+        best.kind === "transaction" ? best.id : null,
+        best.kind === "due" ? best.id : null,
+        best.score,
+        line.id,
+      ]
+    );
+    claimed.add(`${best.kind}:${best.id}`);
+    matched++;
+  }
+
+  return matched;
+}
+
+const toBankStatement = (row: mysql.RowDataPacket): BankStatement => ({
+  id: row.id,
+  moneyAccountId: row.money_account_id,
+  moneyAccount: row.money_account,
+  fileName: row.file_name,
+  format: row.format,
+  columnMapping:
+    typeof row.column_mapping === "string" ? JSON.parse(row.column_mapping) : row.column_mapping || null,
+  periodStart: row.period_start || null,
+  periodEnd: row.period_end || null,
+  createdAt: row.created_at,
+  lineCount: Number(row.line_count) || 0,
+  unmatched: Number(row.unmatched) || 0,
+  matched: Number(row.matched) || 0,
+  reconciled: Number(row.reconciled) || 0,
+  ignored: Number(row.ignored) || 0,
+});
+
+const STATEMENT_QUERY = `
+  SELECT s.id, s.money_account_id, ma.name AS money_account, s.file_name, s.format,
+         s.column_mapping, s.created_at,
+         DATE_FORMAT(s.period_start, '%Y-%m-%d') AS period_start,
+         DATE_FORMAT(s.period_end, '%Y-%m-%d') AS period_end,
+         COUNT(l.id) AS line_count,
+         SUM(l.status = 'unmatched') AS unmatched,
+         SUM(l.status = 'matched') AS matched,
+         SUM(l.status = 'reconciled') AS reconciled,
+         SUM(l.status = 'ignored') AS ignored
+  FROM bank_statements s
+  JOIN money_accounts ma ON s.money_account_id = ma.id
+  LEFT JOIN bank_statement_lines l ON l.statement_id = s.id`;
+
+export async function loadStatements(
+  connection: mysql.PoolConnection,
+  userId: string | number
+): Promise<BankStatement[]> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `${STATEMENT_QUERY}
+     WHERE s.user_id = ?
+     GROUP BY s.id
+     ORDER BY s.created_at DESC, s.id DESC`,
+    [userId]
+  );
+  return rows.map(toBankStatement);
+}
+
+/** A statement with its lines, what each is matched to and suggestions for the rest. */
+export async function loadStatement(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  statementId: number
+): Promise<BankStatementDetail | null> {
+  const [statements] = await connection.query<mysql.RowDataPacket[]>(
+    `${STATEMENT_QUERY}
+     WHERE s.id = ? AND s.user_id = ?
+     GROUP BY s.id`,
+    [statementId, userId]
+  );
+  if (statements.length === 0) return null;
+
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT ${LINE_COLUMNS},
+            t.particulars AS transaction_particulars,
+            DATE_FORMAT(t.transaction_date, '%Y-%m-%d') AS transaction_date,
+            d.customer_name AS due_customer, d.receipt_number AS due_receipt_number,
+            DATE_FORMAT(d.paid_at, '%Y-%m-%d') AS due_paid_at
+     FROM bank_statement_lines l
+     LEFT JOIN account_transactions t ON l.account_transaction_id = t.id
+     LEFT JOIN due_records d ON l.due_record_id = d.id
+     WHERE l.statement_id = ? AND l.user_id = ?
+     ORDER BY l.line_date ASC, l.id ASC`,
+    [statementId, userId]
+  );
+
+  const candidatesByLine = await findCandidates(
+    connection,
+    userId,
+    rows.filter((row) => row.status === "unmatched").map(toLineForMatching),
+    CANDIDATE_WINDOW_DAYS
+  );
+
+  const lines: StatementLine[] = [];
+  for (const row of rows) {
+    const line = toLineForMatching(row);
+    let match: StatementLine["match"] = null;
+    if (row.account_transaction_id) {
+      match = {
+        kind: "transaction",
+        id: row.account_transaction_id,
+        date: row.transaction_date,
+        description: row.transaction_particulars,
+        amount: line.amount,
+      };
+    } else if (row.due_record_id) {
+      match = {
+        kind: "due",
+        id: row.due_record_id,
+        date: row.due_paid_at,
+        description: `Due settled by ${row.due_customer}${
+          row.due_receipt_number ? ` (receipt #${row.due_receipt_number})` : ""
+        }`,
+        amount: line.amount,
+      };
+    }
+
+    lines.push({
+      id: line.id,
+      date: line.date,
+      description: line.description,
+      reference: line.reference,
+      amount: line.amount,
+      status: row.status,
+      matchScore: row.match_score ?? null,
+      match,
+      candidates: (candidatesByLine.get(line.id) || []).slice(0, 3),
+    });
+  }
+
+  return { ...toBankStatement(statements[0]), lines };
+}
+
+/** Reconcile every line the auto-matcher matched. */
+export async function confirmMatchedLines(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  statementId: number
+): Promise<number> {
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `UPDATE bank_statement_lines SET status = 'reconciled', reconciled_at = NOW()
+     WHERE statement_id = ? AND user_id = ? AND status = 'matched'`,
+    [statementId, userId]
+  );
+  return result.affectedRows;
+}
+
+/**
+ * Apply a reconciliation-screen action to one line inside the caller's
+ * transaction. Picking a suggestion or creating the missing entry reconciles
+ * the line straight away. Returns the entry created, if any.
+ */
+export async function applyStatementLineAction(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  statementId: number,
+  lineId: number,
+  body: StatementLineAction
+): Promise<CreatedEntry | null> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT ${LINE_COLUMNS} FROM bank_statement_lines l
+     WHERE l.id = ? AND l.statement_id = ? AND l.user_id = ?
+     FOR UPDATE`,
+    [lineId, statementId, userId]
+  );
+  if (rows.length === 0) throw new Error("Statement line not found");
+  const line = toLineForMatching(rows[0]);
+  const status: StatementLineStatus = rows[0].status;
+
+  switch (body.action) {
+    case "confirm":
+      if (status !== "matched") throw new Error("Only matched lines can be confirmed");
+      await connection.query(
+        `UPDATE bank_statement_lines SET status = 'reconciled', reconciled_at = NOW() WHERE id = ?`,
+        [line.id]
+      );
+      return null;
+
+    case "unmatch":
+    case "ignore":
+      await connection.query(
+        `UPDATE bank_statement_lines
+         SET status = ?, account_transaction_id = NULL, due_record_id = NULL,
+             match_score = NULL, reconciled_at = NULL
+         WHERE id = ?`,
+        [body.action === "ignore" ? "ignored" : "unmatched", line.id]
+      );
+      return null;
+
+    case "match": {
+      if (status !== "unmatched") throw new Error("Unmatch the line before matching it again");
+      const candidates = await findCandidates(connection, userId, [line], CANDIDATE_WINDOW_DAYS);
+      const candidate = candidates.get(line.id)!.find((c) => c.kind === body.kind && c.id === body.id);
+      if (!candidate) {
+        throw new Error("That entry does not match this line's amount, date or account");
+      }
+      await connection.query(
+        `UPDATE bank_statement_lines
+         SET status = 'reconciled', account_transaction_id = ?, due_record_id = ?,
+             match_score = ?, reconciled_at = NOW()
+         WHERE id = ?`,
+        [
+          candidate.kind === "transaction" ? candidate.id : null,
+          candidate.kind === "due" ? candidate.id : null,
+          candidate.score,
+          line.id,
+        ]
+      );
+      return null;
+    }
+
+    case "create": {
+      if (status !== "unmatched") throw new Error("Unmatch the line before creating an entry for it");
+      const type = line.amount > 0 ? "credit" : "debit";
+      const amount = roundCurrency(Math.abs(line.amount));
+      const particulars = body.particulars?.trim() || line.description;
+      const expenseError = await validateExpenseFields(connection, userId, type, amount, {
+        categoryId: body.categoryId ?? null,
+      });
+      if (expenseError) throw new Error(expenseError);
+
+      const [result] = await connection.query<mysql.ResultSetHeader>(
+        `INSERT INTO account_transactions
+          (particulars, amount, type, user_id, expense_category_id, money_account_id,
+           transaction_date, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, NOW())`,
+        [particulars, amount, type, userId, body.categoryId ?? null, line.moneyAccountId, line.date]
+      );
+      await postTransactionJournal(connection, userId, result.insertId);
+      await connection.query(
+        `UPDATE bank_statement_lines
+         SET status = 'reconciled', account_transaction_id = ?, reconciled_at = NOW()
+         WHERE id = ?`,
+        [result.insertId, line.id]
+      );
+      return { transactionId: result.insertId, amount, kind: type };
+    }
+  }
+}
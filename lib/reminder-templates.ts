@@ -0,0 +1,88 @@
+// lib/reminder-templates.ts
+export type ReminderChannel = "email" | "sms" | "whatsapp";
+
+export const REMINDER_CHANNELS: ReminderChannel[] = ["email", "sms", "whatsapp"];
+
+export type ReminderStatus = "pending" | "sending" | "sent" | "failed" | "cancelled";
+
+export interface ReminderRule {
+  id: number;
+  name: string;
+  channel: ReminderChannel;
+  // Days relative to the expected payment date: -3 is three days before
+  offsetDays: number;
+  repeatEveryDays: number | null;
+  subject: string | null;
+  template: string;
+  isActive: boolean;
+}
+
+export type ReminderRuleBody = Partial<Omit<ReminderRule, "id">>;
+
+export const REMINDER_PLACEHOLDERS = [
+  "customerName",
+  "amount",
+  "receiptNumber",
+  "dueDate",
+  "daysOverdue",
+  "installment",
+  "storeName",
+] as const;
+
+export type ReminderPlaceholder = (typeof REMINDER_PLACEHOLDERS)[number];
+
+export const DEFAULT_REMINDER_TEMPLATE =
+  "Dear {{customerName}}, a payment of ₹{{amount}} for receipt #{{receiptNumber}} is due on {{dueDate}}. Thank you, {{storeName}}";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidEmail(email: string) {
+  return EMAIL_PATTERN.test(email);
+}
+
+/**
+ * Validate a rule for create (`partial` false) or update. Returns the first
+ * problem found, or null.
+ */
+export function validateReminderRule(body: ReminderRuleBody, partial = false): string | null {
+  if (!partial || body.name !== undefined) {
+    if (!body.name?.trim()) return "Rule name is required";
+    if (body.name.trim().length > 100) return "Rule name must be 100 characters or fewer";
+  }
+  if ((!partial || body.channel !== undefined) && !REMINDER_CHANNELS.includes(body.channel!)) {
+    return `Channel must be one of ${REMINDER_CHANNELS.join(", ")}`;
+  }
+  if (!partial || body.offsetDays !== undefined) {
+    if (!Number.isInteger(body.offsetDays) || Math.abs(body.offsetDays!) > 365) {
+      return "Offset must be a whole number of days within a year of the due date";
+    }
+  }
+  if (body.repeatEveryDays !== undefined && body.repeatEveryDays !== null) {
+    if (!Number.isInteger(body.repeatEveryDays) || body.repeatEveryDays < 1 || body.repeatEveryDays > 365) {
+      return "Repeat interval must be between 1 and 365 days";
+    }
+  }
+  if (!partial || body.template !== undefined) {
+    if (!body.template?.trim()) return "Message template is required";
+    const unknown = [...body.template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)]
+      .map((match) => match[1])
+      .find((name) => !REMINDER_PLACEHOLDERS.includes(name as ReminderPlaceholder));
+    if (unknown) return `Unknown placeholder {{${unknown}}}`;
+  }
+  if (body.subject && body.subject.length > 255) {
+    return "Subject must be 255 characters or fewer";
+  }
+  if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+    return "isActive must be true or false";
+  }
+  return null;
+}
+
+export function renderReminderTemplate(
+  template: string,
+  values: Record<ReminderPlaceholder, string>
+): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in values ? values[name as ReminderPlaceholder] : placeholder
+  );
+}
@@ -0,0 +1,301 @@
+// lib/reminder-transports.ts
+import net from "net";
+import os from "os";
+import tls from "tls";
+import type { ReminderChannel } from "@/lib/reminder-templates";
+
+export interface ReminderMessage {
+  channel: ReminderChannel;
+  // Email address, or phone number with country code for SMS and WhatsApp
+  to: string;
+  subject: string;
+  body: string;
+  senderName?: string;
+}
+
+export interface ReminderTransport {
+  send(message: ReminderMessage): Promise<void>;
+}
+
+export type ReminderTransports = Partial<Record<ReminderChannel, ReminderTransport>>;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Minimal line-based SMTP session: reads multi-line replies and can be moved
+ * onto a TLS socket after STARTTLS.
+ */
+class SmtpSession {
+  private socket!: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(private timeoutMs: number) {}
+
+  attach(socket: net.Socket) {
+    if (this.socket) this.socket.removeListener("data", this.onData);
+    this.socket = socket;
+    socket.setEncoding("utf8");
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error("SMTP server timed out")));
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", () => this.onError(new Error("SMTP connection closed")));
+  }
+
+  get rawSocket() {
+    return this.socket;
+  }
+
+  private onData = (chunk: string) => {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+      // "250-..." continues a reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.deliver({ code: parseInt(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+  };
+
+  private onError = (error: Error) => {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiting) {
+      this.waiting.reject(error);
+      this.waiting = null;
+    }
+  };
+
+  private deliver(reply: SmtpReply) {
+    if (this.waiting) {
+      this.waiting.resolve(reply);
+      this.waiting = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(codes: number[], command?: string): Promise<SmtpReply> {
+    if (command !== undefined) this.socket.write(`${command}\r\n`);
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      const shown = command?.startsWith("AUTH") ? "AUTH" : command?.split(" ")[0] || "greeting";
+      throw new Error(`SMTP ${shown} failed: ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  close() {
+    this.socket.removeAllListeners("close");
+    this.socket.end();
+  }
+}
+
+function connectSocket(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+    socket.once(options.secure ? "secureConnect" : "connect", () => {
+      socket.removeListener("error", reject);
+      resolve(socket);
+    });
+    socket.once("error", reject);
+  });
+}
+
+function upgradeSocket(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: host }, () => {
+      secured.removeListener("error", reject);
+      resolve(secured);
+    });
+    secured.once("error", reject);
+  });
+}
+
+// Non-ASCII header values are sent as RFC 2047 encoded words
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+function buildMessage(options: SmtpOptions, message: ReminderMessage): string {
+  const from = message.senderName
+    ? `${encodeHeader(message.senderName.replace(/["\r\n]/g, ""))} <${options.from}>`
+    : options.from;
+  const body = Buffer.from(message.body.replace(/\r?\n/g, "\r\n"))
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject.replace(/[\r\n]/g, " "))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${options.host}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+export class SmtpTransport implements ReminderTransport {
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: ReminderMessage): Promise<void> {
+    if (/[\r\n<>]/.test(message.to)) throw new Error("Invalid email recipient");
+
+    const session = new SmtpSession(this.options.timeoutMs ?? 30000);
+    session.attach(await connectSocket(this.options));
+
+    try {
+      await session.expect([220]);
+      const ehlo = await session.expect([250], `EHLO ${os.hostname()}`);
+
+      const offersStartTls = ehlo.lines.some((line) => /^250[ -]STARTTLS/i.test(line));
+      if (!this.options.secure && offersStartTls) {
+        await session.expect([220], "STARTTLS");
+        session.attach(await upgradeSocket(session.rawSocket, this.options.host));
+        await session.expect([250], `EHLO ${os.hostname()}`);
+      }
+
+      if (this.options.user) {
+        const credentials = Buffer.from(
+          `\0${this.options.user}\0${this.options.password || ""}`
+        ).toString("base64");
+        await session.expect([235], `AUTH PLAIN ${credentials}`);
+      }
+
+      await session.expect([250], `MAIL FROM:<${this.options.from}>`);
+      await session.expect([250, 251], `RCPT TO:<${message.to}>`);
+      await session.expect([354], "DATA");
+      // Dot-stuffing is not needed for a base64 body, but headers can start with "."
+      const data = buildMessage(this.options, message).replace(/^\./gm, "..");
+      await session.expect([250], `${data}\r\n.`);
+      await session.expect([221], "QUIT").catch(() => undefined);
+    } finally {
+      session.close();
+    }
+  }
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(30000),
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new Error(`${response.status} ${response.statusText} ${text}`.trim().slice(0, 500));
+  }
+}
+
+/**
+ * Generic HTTP SMS gateway: POSTs `{ to, message }` as JSON with the API key
+ * as a bearer token. Most providers can be fronted by a small adapter that
+ * accepts this shape.
+ */
+export class SmsGatewayTransport implements ReminderTransport {
+  constructor(private url: string, private apiKey?: string) {}
+
+  async send(message: ReminderMessage): Promise<void> {
+    await postJson(
+      this.url,
+      { to: message.to, message: message.body },
+      this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+    );
+  }
+}
+
+/**
+ * WhatsApp Business Cloud API text message. Meta only delivers free-form text
+ * inside a 24-hour customer service window; outside it an approved template
+ * is required.
+ */
+export class WhatsAppTransport implements ReminderTransport {
+  constructor(
+    private phoneNumberId: string,
+    private accessToken: string,
+    private apiUrl = "https://graph.facebook.com/v21.0"
+  ) {}
+
+  async send(message: ReminderMessage): Promise<void> {
+    await postJson(
+      `${this.apiUrl}/${this.phoneNumberId}/messages`,
+      {
+        messaging_product: "whatsapp",
+        to: message.to.replace(/\D/g, ""),
+        type: "text",
+        text: { body: message.body },
+      },
+      { Authorization: `Bearer ${this.accessToken}` }
+    );
+  }
+}
+
+/**
+ * Transports for every channel configured in the environment. Channels left
+ * unconfigured stay queued and fail with a clear error.
+ */
+export function createReminderTransports(env: NodeJS.ProcessEnv = process.env): ReminderTransports {
+  const transports: ReminderTransports = {};
+
+  if (env.SMTP_HOST && env.SMTP_FROM) {
+    const secure = env.SMTP_SECURE === "true";
+    transports.email = new SmtpTransport({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || (secure ? "465" : "587")),
+      secure,
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASSWORD || undefined,
+      from: env.SMTP_FROM,
+    });
+  }
+
+  if (env.SMS_GATEWAY_URL) {
+    transports.sms = new SmsGatewayTransport(env.SMS_GATEWAY_URL, env.SMS_GATEWAY_API_KEY);
+  }
+
+  if (env.WHATSAPP_PHONE_NUMBER_ID && env.WHATSAPP_ACCESS_TOKEN) {
+    transports.whatsapp = new WhatsAppTransport(
+      env.WHATSAPP_PHONE_NUMBER_ID,
+      env.WHATSAPP_ACCESS_TOKEN,
+      env.WHATSAPP_API_URL || undefined
+    );
+  }
+
+  return transports;
+}
@@ -0,0 +1,68 @@
+// lib/reminder-worker.ts
+import mysql from "mysql2/promise";
+import { format } from "date-fns";
+import { getPool } from "@/lib/database";
+import { enqueueDueReminders, processReminderOutbox } from "@/lib/reminders";
+import { ReminderTransports, createReminderTransports } from "@/lib/reminder-transports";
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * One pass of the reminder worker: queue today's reminders, then deliver
+ * whatever is due in the outbox.
+ */
+export async function runReminderWorker(
+  transports: ReminderTransports = createReminderTransports()
+) {
+  let connection: mysql.PoolConnection | undefined;
+  try {
+    const pool = await getPool();
+    connection = await pool.getConnection();
+
+    const today = format(new Date(), "yyyy-MM-dd");
+    const queued = await enqueueDueReminders(connection!, today);
+    const { sent, failed } = await processReminderOutbox(connection!, transports);
+    if (queued || sent || failed) {
+      console.log(`Reminders: ${queued} queued, ${sent} sent, ${failed} failed`);
+    }
+  } finally {
+    if (connection) await connection.release();
+  }
+}
+
+/**
+ * Run the worker on an interval inside the server process. Ticks never
+ * overlap; a slow SMTP server just delays the next one.
+ */
+export function startReminderWorker(
+  intervalSeconds = parseInt(process.env.REMINDER_WORKER_INTERVAL_SECONDS || "") ||
+    DEFAULT_INTERVAL_SECONDS
+) {
+  if (timer) return;
+
+  const transports = createReminderTransports();
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runReminderWorker(transports);
+    } catch (error) {
+      console.error("Reminder worker error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  timer = setInterval(tick, intervalSeconds * 1000);
+  timer.unref();
+  console.log(`Reminder worker started (every ${intervalSeconds}s)`);
+  tick();
+}
+
+export function stopReminderWorker() {
+  if (timer) clearInterval(timer);
+  timer = null;
+}
@@ -0,0 +1,275 @@
+// lib/reminders.ts
+import mysql from "mysql2/promise";
+import { roundCurrency } from "@/lib/receipt-totals";
+import type { ReminderTransports } from "@/lib/reminder-transports";
+import { createNotification } from "@/lib/notifications";
+import {
+  ReminderChannel,
+  ReminderPlaceholder,
+  ReminderRule,
+  ReminderStatus,
+  renderReminderTemplate,
+} from "@/lib/reminder-templates";
+
+export interface ReminderOutboxEntry {
+  id: number;
+  ruleId: number | null;
+  ruleName: string | null;
+  dueRecordId: number;
+  receiptNumber: string | null;
+  customerName: string;
+  channel: ReminderChannel;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  status: ReminderStatus;
+  attempts: number;
+  lastError: string | null;
+  scheduledFor: string;
+  sentAt: string | null;
+  createdAt: string;
+}
+
+export const MAX_REMINDER_ATTEMPTS = 5;
+const RETRY_DELAY_MINUTES = 15;
+// A message left in 'sending' this long belongs to a worker that died mid-send
+const STALE_SENDING_MINUTES = 10;
+
+export const toReminderRule = (row: mysql.RowDataPacket): ReminderRule => ({
+  id: row.id,
+  name: row.name,
+  channel: row.channel,
+  offsetDays: Number(row.offset_days),
+  repeatEveryDays: row.repeat_every_days === null ? null : Number(row.repeat_every_days),
+  subject: row.subject || null,
+  template: row.template,
+  isActive: !!row.is_active,
+});
+
+export async function loadReminderOutbox(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  status: ReminderStatus | null,
+  limit = 100
+): Promise<ReminderOutboxEntry[]> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      o.id, o.rule_id, r.name AS rule_name, o.due_record_id, d.receipt_number,
+      d.customer_name, o.channel, o.recipient, o.subject, o.body, o.status,
+      o.attempts, o.last_error,
+      CAST(o.scheduled_for AS CHAR) AS scheduled_for,
+      CAST(o.sent_at AS CHAR) AS sent_at,
+      CAST(o.created_at AS CHAR) AS created_at
+     FROM reminder_outbox o
+     JOIN due_records d ON o.due_record_id = d.id
+     LEFT JOIN reminder_rules r ON o.rule_id = r.id
+     WHERE o.user_id = ? ${status ? "AND o.status = ?" : ""}
+     ORDER BY o.created_at DESC, o.id DESC
+     LIMIT ?`,
+    status ? [userId, status, limit] : [userId, limit]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    ruleId: row.rule_id || null,
+    ruleName: row.rule_name || null,
+    dueRecordId: row.due_record_id,
+    receiptNumber: row.receipt_number || null,
+    customerName: row.customer_name,
+    channel: row.channel,
+    recipient: row.recipient,
+    subject: row.subject || null,
+    body: row.body,
+    status: row.status,
+    attempts: Number(row.attempts) || 0,
+    lastError: row.last_error || null,
+    scheduledFor: row.scheduled_for,
+    sentAt: row.sent_at || null,
+    createdAt: row.created_at,
+  }));
+}
+
+/**
+ * Queue a message for every active rule that fires on `today` against an
+ * open due, across all stores. Safe to call repeatedly: the outbox keeps one
+ * row per rule, due and day. Email rules skip customers with no address on
+ * file. Returns the number of messages queued.
+ */
+export async function enqueueDueReminders(
+  connection: mysql.PoolConnection,
+  today: string
+): Promise<number> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      r.id AS rule_id, r.user_id, r.channel, r.subject, r.template,
+      d.id AS due_record_id, d.amount_due, d.amount_paid, d.receipt_number,
+      d.installment_number, d.installment_count,
+      DATE_FORMAT(d.expected_payment_date, '%Y-%m-%d') AS expected_payment_date,
+      DATEDIFF(?, d.expected_payment_date) AS days_overdue,
+      COALESCE(c.name, d.customer_name) AS customer_name,
+      COALESCE(c.country_code, d.customer_country_code, '+91') AS country_code,
+      COALESCE(c.contact, d.customer_contact) AS contact,
+      c.email, u.store_name
+     FROM reminder_rules r
+     JOIN users u ON r.user_id = u.id
+     JOIN due_records d ON d.user_id = r.user_id AND d.is_paid = FALSE AND d.status = 'open'
+     LEFT JOIN customers c ON d.customer_id = c.id
+     WHERE r.is_active = TRUE
+     AND (
+       DATEDIFF(?, d.expected_payment_date) = r.offset_days
+       OR (
+         r.repeat_every_days > 0
+         AND DATEDIFF(?, d.expected_payment_date) > r.offset_days
+         AND MOD(DATEDIFF(?, d.expected_payment_date) - r.offset_days, r.repeat_every_days) = 0
+       )
+     )`,
+    [today, today, today, today]
+  );
+
+  let queued = 0;
+  for (const row of rows) {
+    const remaining = roundCurrency(Number(row.amount_due) - Number(row.amount_paid));
+    if (remaining <= 0) continue;
+
+    const recipient =
+      row.channel === "email"
+        ? row.email
+        : `${row.country_code}${row.contact}`.replace(/[^\d+]/g, "");
+    if (!recipient) continue;
+
+    const values: Record<ReminderPlaceholder, string> = {
+      customerName: row.customer_name,
+      amount: remaining.toFixed(2),
+      receiptNumber: row.receipt_number || "",
+      dueDate: row.expected_payment_date,
+      daysOverdue: String(Math.max(Number(row.days_overdue) || 0, 0)),
+      installment:
+        Number(row.installment_count) > 1
+          ? `${row.installment_number} of ${row.installment_count}`
+          : "",
+      storeName: row.store_name || "",
+    };
+
+    const [result] = await connection.query<mysql.ResultSetHeader>(
+      `INSERT IGNORE INTO reminder_outbox
+        (user_id, rule_id, due_record_id, channel, recipient, subject, body,
+         occurrence_date, scheduled_for)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+      [
+        row.user_id,
+        row.rule_id,
+        row.due_record_id,
+        row.channel,
+        recipient,
+        row.subject ? renderReminderTemplate(row.subject, values) : null,
+        renderReminderTemplate(row.template, values),
+        today,
+      ]
+    );
+    queued += result.affectedRows;
+  }
+  return queued;
+}
+
+/**
+ * Deliver up to `limit` queued messages. Rows are claimed with SKIP LOCKED so
+ * several workers can share the outbox; failures are retried with a growing
+ * delay until MAX_REMINDER_ATTEMPTS, then left as failed for the owner to
+ * retry by hand.
+ */
+export async function processReminderOutbox(
+  connection: mysql.PoolConnection,
+  transports: ReminderTransports,
+  limit = 20
+): Promise<{ sent: number; failed: number }> {
+  await connection.query(
+    `UPDATE reminder_outbox
+     SET status = 'pending'
+     WHERE status = 'sending' AND updated_at < NOW() - INTERVAL ? MINUTE`,
+    [STALE_SENDING_MINUTES]
+  );
+
+  await connection.query(
+    `UPDATE reminder_outbox o
+     JOIN due_records d ON o.due_record_id = d.id
+     SET o.status = 'cancelled',
+         o.last_error = IF(d.is_paid, 'The due was paid before the reminder went out',
+                           'The due was closed before the reminder went out')
+     WHERE o.status = 'pending' AND (d.is_paid = TRUE OR d.status <> 'open')`
+  );
+
+  await connection.beginTransaction();
+  let claimed: mysql.RowDataPacket[];
+  try {
+    [claimed] = await connection.query<mysql.RowDataPacket[]>(
+      `SELECT o.id, o.user_id, o.channel, o.recipient, o.subject, o.body, o.attempts, u.store_name
+       FROM reminder_outbox o
+       JOIN users u ON o.user_id = u.id
+       WHERE o.status = 'pending' AND o.scheduled_for <= NOW()
+       ORDER BY o.scheduled_for ASC, o.id ASC
+       LIMIT ?
+       FOR UPDATE SKIP LOCKED`,
+      [limit]
+    );
+    if (claimed.length > 0) {
+      await connection.query(
+        `UPDATE reminder_outbox
+         SET status = 'sending', attempts = attempts + 1
+         WHERE id IN (?)`,
+        [claimed.map((row) => row.id)]
+      );
+    }
+    await connection.commit();
+  } catch (error) {
+    await connection.rollback();
+    throw error;
+  }
+
+  let sent = 0;
+  let failed = 0;
+  for (const row of claimed) {
+    const attempts = Number(row.attempts) + 1;
+    try {
+      const transport = transports[row.channel as ReminderChannel];
+      if (!transport) throw new Error(`No ${row.channel} transport is configured`);
+
+      await transport.send({
+        channel: row.channel,
+        to: row.recipient,
+        subject: row.subject || `Payment reminder from ${row.store_name || "your store"}`,
+        body: row.body,
+        senderName: row.store_name || undefined,
+      });
+
+      await connection.query(
+        `UPDATE reminder_outbox
+         SET status = 'sent', sent_at = NOW(), last_error = NULL
+         WHERE id = ?`,
+        [row.id]
+      );
+      sent++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const giveUp = attempts >= MAX_REMINDER_ATTEMPTS;
+      await connection.query(
+        `UPDATE reminder_outbox
+         SET status = ?, last_error = ?,
+             scheduled_for = NOW() + INTERVAL ? MINUTE
+         WHERE id = ?`,
+        [giveUp ? "failed" : "pending", message.slice(0, 1000), attempts * RETRY_DELAY_MINUTES, row.id]
+      );
+      if (giveUp) {
+        await createNotification(connection, row.user_id, {
+          type: "system",
+          title: `Reminder to ${row.recipient} could not be sent`,
+          message: `Gave up after ${attempts} attempts: ${message.slice(0, 500)}`,
+          relatedId: row.id,
+          link: "/reminders",
+        });
+      }
+      failed++;
+    }
+  }
+
+  return { sent, failed };
+}
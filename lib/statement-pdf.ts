@@ -0,0 +1,154 @@
+// lib/statement-pdf.ts
+import { MM, PdfAlign, PdfDocument, PdfFont } from "@/lib/pdf";
+import { CustomerStatement } from "@/lib/statements";
+
+const PAGE_WIDTH = 210 * MM;
+const PAGE_HEIGHT = 297 * MM;
+const MARGIN = 15 * MM;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = FONT_SIZE * 1.35;
+const PADDING = 5;
+
+const formatAmount = (amount: number) => `₹${amount.toFixed(2)}`;
+
+// Negative balances are money the store owes the customer
+const formatBalance = (amount: number) =>
+  amount < 0 ? `${formatAmount(-amount)} Cr` : formatAmount(amount);
+
+// YYYY-MM-DD -> DD/MM/YYYY
+const formatDate = (date: string) => date.split("-").reverse().join("/");
+
+interface Column {
+  header: string;
+  width: number;
+  align: PdfAlign;
+}
+
+const COLUMNS: Column[] = [
+  { header: "Date", width: 58, align: "left" },
+  { header: "Reference", width: 70, align: "left" },
+  { header: "Description", width: 0, align: "left" },
+  { header: "Debit", width: 66, align: "right" },
+  { header: "Credit", width: 66, align: "right" },
+  { header: "Balance", width: 74, align: "right" },
+];
+COLUMNS[2].width =
+  PAGE_WIDTH - 2 * MARGIN - COLUMNS.reduce((sum, column) => sum + column.width, 0);
+
+/**
+ * Render a statement of account on A4, repeating the column headings on
+ * every page.
+ */
+export function renderStatementPdf(statement: CustomerStatement): Buffer {
+  const doc = new PdfDocument(PAGE_WIDTH, PAGE_HEIGHT);
+  const right = PAGE_WIDTH - MARGIN;
+  const center = PAGE_WIDTH / 2;
+  let y = MARGIN;
+
+  const write = (
+    text: string,
+    options: { size?: number; font?: PdfFont; align?: PdfAlign; gray?: number } = {}
+  ) => {
+    const size = options.size ?? FONT_SIZE;
+    const x = options.align === "center" ? center : options.align === "right" ? right : MARGIN;
+    for (const line of doc.wrapText(text, right - MARGIN, size, options.font)) {
+      if (y + size * 1.35 > PAGE_HEIGHT - MARGIN) {
+        doc.addPage();
+        y = MARGIN;
+      }
+      doc.text(x, y + size, line, { ...options, size });
+      y += size * 1.35;
+    }
+  };
+
+  const drawRow = (cells: string[], font: PdfFont) => {
+    const wrapped = cells.map((cell, index) =>
+      doc.wrapText(cell, COLUMNS[index].width - PADDING, FONT_SIZE, font)
+    );
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * LINE_HEIGHT;
+    if (y + height + PADDING > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+      if (font !== "bold") drawRow(COLUMNS.map((column) => column.header), "bold");
+    }
+
+    let x = MARGIN;
+    COLUMNS.forEach((column, index) => {
+      wrapped[index].forEach((line, lineIndex) => {
+        doc.text(
+          column.align === "right" ? x + column.width : x,
+          y + FONT_SIZE + lineIndex * LINE_HEIGHT,
+          line,
+          { size: FONT_SIZE, font, align: column.align }
+        );
+      });
+      x += column.width;
+    });
+    y += height + PADDING / 2;
+    doc.line(MARGIN, y, right, y, 0.5, 0.8);
+    y += PADDING / 2;
+  };
+
+  const { storeInfo: store, customer } = statement;
+  if (store.name) write(store.name, { size: FONT_SIZE * 1.8, font: "bold", align: "center" });
+  if (store.address) write(store.address, { align: "center", gray: 0.3 });
+  if (store.gstNumber) write(`GST NUMBER: ${store.gstNumber}`, { align: "center", gray: 0.3 });
+  if (store.contact) {
+    write(`Contact: ${store.countryCode || "+91"} ${store.contact}`, { align: "center", gray: 0.3 });
+  }
+
+  y += FONT_SIZE;
+  write("STATEMENT OF ACCOUNT", { size: FONT_SIZE * 1.4, font: "bold", align: "center" });
+  write(`${formatDate(statement.from)} to ${formatDate(statement.to)}`, {
+    align: "center",
+    gray: 0.4,
+  });
+
+  y += FONT_SIZE;
+  write(customer.name, { font: "bold", size: FONT_SIZE * 1.15 });
+  write(`Contact: ${customer.countryCode} ${customer.contact}`);
+  if (customer.gstNumber) write(`GSTIN: ${customer.gstNumber}`);
+
+  y += FONT_SIZE;
+  drawRow(COLUMNS.map((column) => column.header), "bold");
+  drawRow(
+    [formatDate(statement.from), "", "Opening balance", "", "", formatBalance(statement.openingBalance)],
+    "regular"
+  );
+  for (const line of statement.lines) {
+    drawRow(
+      [
+        formatDate(line.date),
+        line.reference,
+        line.description,
+        line.debit ? formatAmount(line.debit) : "",
+        line.credit ? formatAmount(line.credit) : "",
+        formatBalance(line.balance),
+      ],
+      "regular"
+    );
+  }
+  drawRow(
+    [
+      formatDate(statement.to),
+      "",
+      "Closing balance",
+      formatAmount(statement.totalDebit),
+      formatAmount(statement.totalCredit),
+      formatBalance(statement.closingBalance),
+    ],
+    "bold"
+  );
+
+  y += FONT_SIZE;
+  write(
+    statement.closingBalance > 0
+      ? `Amount due: ${formatAmount(statement.closingBalance)}`
+      : statement.closingBalance < 0
+      ? `Amount in your favour: ${formatAmount(-statement.closingBalance)}`
+      : "Nothing is due on this account.",
+    { font: "bold", align: "right" }
+  );
+
+  return doc.toBuffer();
+}
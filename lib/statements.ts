@@ -0,0 +1,306 @@
+// lib/statements.ts
+import mysql from "mysql2/promise";
+import { roundCurrency } from "@/lib/receipt-totals";
+import { StoreInfo } from "@/lib/receipts";
+import { toCsv } from "@/lib/csv";
+
+export type StatementEntryType =
+  | "invoice"
+  | "late_charge"
+  | "payment"
+  | "waiver"
+  | "write_off"
+  | "credit_note"
+  | "refund";
+
+export interface StatementLine {
+  date: string;
+  type: StatementEntryType;
+  reference: string;
+  description: string;
+  // Debits raise what the customer owes, credits reduce it
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  customer: {
+    id: number;
+    name: string;
+    countryCode: string;
+    contact: string;
+    gstNumber: string | null;
+  };
+  storeInfo: StoreInfo;
+  from: string;
+  to: string;
+  openingBalance: number;
+  lines: StatementLine[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+}
+
+export type StatementFormat = "json" | "csv" | "pdf";
+
+export const STATEMENT_FORMATS: StatementFormat[] = ["json", "csv", "pdf"];
+
+export const DEFAULT_STATEMENT_LINK_DAYS = 30;
+export const MAX_STATEMENT_LINK_DAYS = 365;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function validateStatementPeriod(from: string, to: string): string | null {
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    return "from and to must be dates in YYYY-MM-DD format";
+  }
+  if (from > to) return "from must not be after to";
+  return null;
+}
+
+// Same-day entries read in the order they happen at the counter
+const ENTRY_ORDER: Record<StatementEntryType, number> = {
+  invoice: 0,
+  late_charge: 1,
+  payment: 2,
+  waiver: 3,
+  write_off: 4,
+  credit_note: 5,
+  refund: 6,
+};
+
+/**
+ * Statement of account for one customer: the balance owed before `from`,
+ * every invoice, payment, credit note and refund up to `to` with a running
+ * balance, and the balance owed at the end. Voided receipts are left out.
+ * Late fees and interest are dated the last day they cover; waivers,
+ * write-offs and cancellations are dated the day they were recorded.
+ */
+export async function buildCustomerStatement(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  customerId: number,
+  from: string,
+  to: string
+): Promise<CustomerStatement | null> {
+  const [customers] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      c.id, c.name, c.country_code, c.contact, c.gst_number,
+      u.store_name, u.store_address, u.store_contact,
+      u.store_country_code, u.gst_number AS store_gst_number, u.state_code
+     FROM customers c
+     JOIN users u ON c.user_id = u.id
+     WHERE c.id = ? AND c.user_id = ?`,
+    [customerId, userId]
+  );
+  if (customers.length === 0) return null;
+  const customer = customers[0];
+
+  const [receiptRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, receipt_number, DATE_FORMAT(date, '%Y-%m-%d') AS date, total
+     FROM receipts
+     WHERE customer_id = ? AND user_id = ? AND status = 'active' AND date <= ?`,
+    [customerId, userId, to]
+  );
+
+  const [creditNoteRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT cn.id, cn.credit_note_number, DATE_FORMAT(cn.date, '%Y-%m-%d') AS date,
+            cn.total, r.receipt_number
+     FROM credit_notes cn
+     JOIN receipts r ON cn.receipt_id = r.id
+     WHERE r.customer_id = ? AND cn.user_id = ? AND r.status = 'active'
+     AND cn.date <= ?`,
+    [customerId, userId, to]
+  );
+
+  const [transactionRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      t.id, t.particulars, t.amount, t.type,
+      DATE_FORMAT(t.transaction_date, '%Y-%m-%d') AS date,
+      COALESCE(r.receipt_number, d.receipt_number, cr.receipt_number) AS receipt_number
+     FROM account_transactions t
+     LEFT JOIN account_transactions o ON t.reverses_transaction_id = o.id
+     LEFT JOIN receipts r ON COALESCE(t.receipt_id, o.receipt_id) = r.id
+     LEFT JOIN due_records d ON COALESCE(t.due_record_id, o.due_record_id) = d.id
+     LEFT JOIN credit_notes cn ON COALESCE(t.credit_note_id, o.credit_note_id) = cn.id
+     LEFT JOIN receipts cr ON cn.receipt_id = cr.id
+     WHERE t.user_id = ? AND t.is_non_cash = FALSE
+     AND (r.customer_id = ? OR d.customer_id = ? OR cr.customer_id = ?)
+     AND DATE(t.transaction_date) <= ?`,
+    [userId, customerId, customerId, customerId, to]
+  );
+
+  const [closedDueRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, receipt_number, status, amount_due - amount_paid AS remaining,
+            DATE_FORMAT(status_date, '%Y-%m-%d') AS date
+     FROM due_records
+     WHERE customer_id = ? AND user_id = ? AND is_paid = FALSE
+     AND status IN ('written_off', 'cancelled') AND status_date <= ?`,
+    [customerId, userId, to]
+  );
+
+  const [chargeRows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT c.id, c.charge_type, c.amount, c.status, d.receipt_number,
+            DATE_FORMAT(c.period_end, '%Y-%m-%d') AS date,
+            DATE_FORMAT(c.settled_at, '%Y-%m-%d') AS settled_date
+     FROM due_charges c
+     JOIN due_records d ON c.due_record_id = d.id
+     WHERE d.customer_id = ? AND c.user_id = ? AND c.period_end <= ?`,
+    [customerId, userId, to]
+  );
+
+  const chargeLabel = (row: mysql.RowDataPacket) =>
+    (row.charge_type === "interest" ? "Interest" : "Late fee") +
+    (row.receipt_number ? ` on receipt #${row.receipt_number}` : "");
+
+  const entries: (Omit<StatementLine, "balance"> & { id: number })[] = [
+    ...receiptRows.map((row) => ({
+      id: row.id,
+      date: row.date,
+      type: "invoice" as const,
+      reference: row.receipt_number,
+      description: `Receipt #${row.receipt_number}`,
+      debit: Number(row.total) || 0,
+      credit: 0,
+    })),
+    ...creditNoteRows.map((row) => ({
+      id: row.id,
+      date: row.date,
+      type: "credit_note" as const,
+      reference: row.credit_note_number,
+      description: `Credit note against receipt #${row.receipt_number}`,
+      debit: 0,
+      credit: Number(row.total) || 0,
+    })),
+    ...chargeRows.map((row) => ({
+      id: row.id,
+      date: row.date,
+      type: "late_charge" as const,
+      reference: row.receipt_number || "",
+      description: chargeLabel(row),
+      debit: Number(row.amount) || 0,
+      credit: 0,
+    })),
+    ...chargeRows
+      .filter((row) => row.status === "waived" && row.settled_date && row.settled_date <= to)
+      .map((row) => ({
+        id: row.id,
+        date: row.settled_date,
+        type: "waiver" as const,
+        reference: row.receipt_number || "",
+        description: `${chargeLabel(row)} waived`,
+        debit: 0,
+        credit: Number(row.amount) || 0,
+      })),
+    ...closedDueRows.map((row) => ({
+      id: row.id,
+      date: row.date,
+      type: "write_off" as const,
+      reference: row.receipt_number || "",
+      description:
+        (row.status === "cancelled" ? "Due cancelled" : "Written off as bad debt") +
+        (row.receipt_number ? ` on receipt #${row.receipt_number}` : ""),
+      debit: 0,
+      credit: Number(row.remaining) || 0,
+    })),
+    ...transactionRows.map((row) => ({
+      id: row.id,
+      date: row.date,
+      type: row.type === "debit" ? ("refund" as const) : ("payment" as const),
+      reference: row.receipt_number || "",
+      description: row.particulars,
+      // Money paid back to the customer restores what a credit note took off
+      debit: row.type === "debit" ? Number(row.amount) || 0 : 0,
+      credit: row.type === "debit" ? 0 : Number(row.amount) || 0,
+    })),
+  ].sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type] ||
+      a.id - b.id
+  );
+
+  let balance = 0;
+  let openingBalance = 0;
+  const lines: StatementLine[] = [];
+
+  for (const entry of entries) {
+    balance = roundCurrency(balance + entry.debit - entry.credit);
+    if (entry.date < from) {
+      openingBalance = balance;
+      continue;
+    }
+    const { id, ...line } = entry;
+    lines.push({ ...line, balance });
+  }
+
+  return {
+    customer: {
+      id: customer.id,
+      name: customer.name,
+      countryCode: customer.country_code,
+      contact: customer.contact,
+      gstNumber: customer.gst_number || null,
+    },
+    storeInfo: {
+      name: customer.store_name,
+      address: customer.store_address,
+      contact: customer.store_contact,
+      countryCode: customer.store_country_code,
+      gstNumber: customer.store_gst_number || undefined,
+      stateCode: customer.state_code || undefined,
+    },
+    from,
+    to,
+    openingBalance,
+    lines,
+    totalDebit: roundCurrency(lines.reduce((sum, line) => sum + line.debit, 0)),
+    totalCredit: roundCurrency(lines.reduce((sum, line) => sum + line.credit, 0)),
+    closingBalance: balance,
+  };
+}
+
+// Customers see the statement without the store's internal ids
+export type PublicStatement = Omit<CustomerStatement, "customer"> & {
+  customer: Omit<CustomerStatement["customer"], "id">;
+};
+
+export function toPublicStatement(statement: CustomerStatement): PublicStatement {
+  const { id, ...customer } = statement.customer;
+  return { ...statement, customer };
+}
+
+export function getStatementFilename(statement: CustomerStatement, extension: string) {
+  const name = statement.customer.name.replace(/[^a-z0-9]+/gi, "_").replace(/^_|_$/g, "");
+  return `statement_${name || statement.customer.id}_${statement.from}_${statement.to}.${extension}`;
+}
+
+const formatCsvAmount = (amount: number) => (amount ? amount.toFixed(2) : "");
+
+export function statementToCsv(statement: CustomerStatement): string {
+  return toCsv(
+    ["Date", "Type", "Reference", "Description", "Debit", "Credit", "Balance"],
+    [
+      [statement.from, "", "", "Opening balance", "", "", statement.openingBalance.toFixed(2)],
+      ...statement.lines.map((line) => [
+        line.date,
+        line.type.replace("_", " "),
+        line.reference,
+        line.description,
+        formatCsvAmount(line.debit),
+        formatCsvAmount(line.credit),
+        line.balance.toFixed(2),
+      ]),
+      [
+        statement.to,
+        "",
+        "",
+        "Closing balance",
+        statement.totalDebit.toFixed(2),
+        statement.totalCredit.toFixed(2),
+        statement.closingBalance.toFixed(2),
+      ],
+    ]
+  );
+}
@@ -0,0 +1,108 @@
+import type mysql from "mysql2/promise";
+import { describe, expect, it } from "vitest";
+import { reverseTransaction } from "@/lib/transactions";
+
+interface Query {
+  sql: string;
+  params: unknown[];
+}
+
+const dueCollection = {
+  id: 40,
+  particulars: "Due payment from Asha (Receipt: R-7)",
+  amount: "300.00",
+  type: "credit",
+  tax_amount: "0.00",
+  receipt_id: null,
+  due_record_id: 9,
+  due_payment_id: 12,
+  credit_note_id: null,
+  is_non_cash: 0,
+  is_late_fee: 0,
+  money_account_id: 3,
+  transfer_id: null,
+  reverses_transaction_id: null,
+  is_manual: 0,
+  reversed_by: null,
+  date: "2026-05-02",
+};
+
+const lateFeeCollection = {
+  ...dueCollection,
+  particulars: "Late fee & interest from Asha (Receipt: R-7)",
+  amount: "45.00",
+  due_payment_id: null,
+  is_late_fee: 1,
+};
+
+/**
+ * Records every query. The entry being reversed and its due are found;
+ * other lookups come back empty, so no journal is posted.
+ */
+function fakeConnection(transaction: Record<string, unknown>) {
+  const queries: Query[] = [];
+  const query = async (sql: string, params: unknown[] = []) => {
+    queries.push({ sql, params });
+    if (/FROM account_transactions t[\s\S]*FOR UPDATE/.test(sql)) return [[transaction]];
+    if (/FROM due_records[\s\S]*FOR UPDATE/.test(sql)) {
+      return [[{ id: 9, amount_paid: "500.00", receipt_number: "R-7" }]];
+    }
+    if (/^\s*SELECT/.test(sql)) return [[]];
+    return [{ insertId: 77, affectedRows: 1 }];
+  };
+  return { connection: { query } as unknown as mysql.PoolConnection, queries };
+}
+
+const find = (queries: Query[], pattern: RegExp) => queries.filter((q) => pattern.test(q.sql));
+
+describe("reverseTransaction", () => {
+  it("reopens the due for a reversed due payment", async () => {
+    const { connection, queries } = fakeConnection(dueCollection);
+    const reversal = await reverseTransaction(connection, 1, 40, "Cheque bounced");
+
+    expect(reversal).toEqual({ reversalId: 77, amount: 300, kind: "debit" });
+    const [insert] = find(queries, /INSERT INTO account_transactions/);
+    // Linked like the original, so it shows in the due's payment history
+    expect(insert.params).toEqual([
+      "Reversal: Due payment from Asha (Receipt: R-7)",
+      300,
+      "debit",
+      1,
+      3,
+      null,
+      9,
+      null,
+      40,
+    ]);
+    const [due] = find(queries, /UPDATE due_records/);
+    expect(due.sql).toMatch(/amount_paid = amount_paid - \?, is_paid = FALSE/);
+    expect(due.params).toEqual([300, 9]);
+    const [receipt] = find(queries, /UPDATE receipts SET due_total = due_total \+ \?/);
+    expect(receipt.params).toEqual([300, "R-7", 1]);
+    expect(find(queries, /UPDATE due_charges/)).toHaveLength(0);
+  });
+
+  it("reopens the charges a reversed late fee collection settled", async () => {
+    const { connection, queries } = fakeConnection(lateFeeCollection);
+    await reverseTransaction(connection, 1, 40, "Cheque bounced");
+
+    const [charges] = find(queries, /UPDATE due_charges/);
+    expect(charges.sql).toMatch(/status = 'outstanding'/);
+    expect(charges.sql).toMatch(/WHERE settlement_transaction_id = \?/);
+    expect(charges.params).toEqual([40]);
+    // The fee was never part of what the due itself owes
+    expect(find(queries, /UPDATE due_records/)).toHaveLength(0);
+  });
+
+  it("frees the bank line matched to the reversed entry and logs the change", async () => {
+    const { connection, queries } = fakeConnection(dueCollection);
+    await reverseTransaction(connection, 1, 40, "Cheque bounced");
+
+    const [line] = find(queries, /UPDATE bank_statement_lines/);
+    expect(line.params).toEqual([40]);
+    const [log] = find(queries, /INSERT INTO transaction_audit_log/);
+    expect(log.params).toEqual(
+      expect.arrayContaining([1, 40, "reverse", "Cheque bounced", 77])
+    );
+  });
+});
@@ -0,0 +1,406 @@
+// lib/transactions.ts
+import mysql from "mysql2/promise";
+import { adjustAccountBalance, refreshDueBalance } from "@/lib/receipts";
+import { postTransactionJournal } from "@/lib/ledger";
+import { reopenDueCharges } from "@/lib/late-fees";
+import type { ExpenseFields, ExpensePaymentMode } from "@/lib/expenses";
+
+// Entries typed in on the accounts page. Everything else was posted by a
+// receipt, due, credit note or transfer and is corrected with a reversal.
+export const MANUAL_TRANSACTION = `(t.receipt_id IS NULL AND t.due_record_id IS NULL
+  AND t.due_payment_id IS NULL AND t.credit_note_id IS NULL AND t.transfer_id IS NULL
+  AND t.reverses_transaction_id IS NULL AND t.is_non_cash = FALSE)`;
+
+export type TransactionChangeType = "edit" | "delete" | "reverse";
+
+export interface TransactionInput extends ExpenseFields {
+  particulars: string;
+  amount: number;
+  type: "credit" | "debit";
+  transactionDate: string;
+  moneyAccountId: number;
+}
+
+// An entry as it stood before a change
+export interface TransactionSnapshot {
+  particulars: string;
+  amount: number;
+  type: "credit" | "debit";
+  date: string;
+  moneyAccountId: number | null;
+  moneyAccount: string | null;
+  categoryId: number | null;
+  category: string | null;
+  payee: string | null;
+  paymentMode: ExpensePaymentMode | null;
+  taxAmount: number;
+  receiptNumber: string | null;
+}
+
+export interface TransactionAuditEntry {
+  id: number;
+  transactionId: number;
+  changeType: TransactionChangeType;
+  reason: string;
+  snapshot: TransactionSnapshot;
+  reversalTransactionId: number | null;
+  createdAt: string;
+}
+
+export interface TransactionReversal {
+  reversalId: number;
+  amount: number;
+  kind: "credit" | "debit";
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function validateTransactionInput(input: Partial<TransactionInput>): string | null {
+  if (typeof input.particulars !== "string" || !input.particulars.trim()) {
+    return "Particulars is required and must be a non-empty string";
+  }
+  if (typeof input.amount !== "number" || !isFinite(input.amount) || input.amount <= 0) {
+    return "Amount must be a positive number";
+  }
+  if (input.type !== "credit" && input.type !== "debit") {
+    return "Type must be either 'credit' or 'debit'";
+  }
+  if (
+    !input.transactionDate ||
+    !DATE_PATTERN.test(input.transactionDate) ||
+    isNaN(Date.parse(input.transactionDate))
+  ) {
+    return "Valid transaction date is required";
+  }
+  if (!Number.isInteger(input.moneyAccountId)) return "Invalid money account";
+  return null;
+}
+
+export function validateChangeReason(reason: unknown): string | null {
+  if (typeof reason !== "string" || !reason.trim()) return "A reason for the change is required";
+  if (reason.trim().length > 500) return "Reason must be 500 characters or fewer";
+  return null;
+}
+
+async function selectTransactionForUpdate(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  transactionId: number
+): Promise<mysql.RowDataPacket> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT t.*, ${MANUAL_TRANSACTION} AS is_manual,
+            DATE_FORMAT(t.transaction_date, '%Y-%m-%d') AS date,
+            a.name AS money_account, c.name AS category, r.receipt_number,
+            (SELECT rv.id FROM account_transactions rv
+             WHERE rv.reverses_transaction_id = t.id) AS reversed_by
+     FROM account_transactions t
+     LEFT JOIN money_accounts a ON t.money_account_id = a.id
+     LEFT JOIN expense_categories c ON t.expense_category_id = c.id
+     LEFT JOIN receipts r ON t.receipt_id = r.id
+     WHERE t.id = ? AND t.user_id = ?
+     FOR UPDATE`,
+    [transactionId, userId]
+  );
+  if (!rows[0]) throw new Error("Transaction not found");
+  return rows[0];
+}
+
+/**
+ * Lock an entry for a change. Edits and deletions are limited to manual
+ * entries; anything else is corrected with a reversal.
+ */
+async function lockTransaction(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  transactionId: number,
+  change: TransactionChangeType
+): Promise<mysql.RowDataPacket> {
+  const row = await selectTransactionForUpdate(connection, userId, transactionId);
+
+  if (change === "reverse") {
+    if (row.is_manual) throw new Error("Manual entries can be edited or deleted instead");
+    if (row.transfer_id) throw new Error("Transfers cannot be reversed; record a transfer back instead");
+    if (row.is_non_cash) throw new Error("Write-offs are undone from the due, not reversed");
+    if (row.reverses_transaction_id) throw new Error("A reversing entry cannot itself be reversed");
+    if (row.reversed_by) throw new Error("This entry has already been reversed");
+  } else if (!row.is_manual) {
+    throw new Error(
+      "Only manual entries can be edited or deleted; reverse entries posted by receipts, dues and credit notes"
+    );
+  }
+  return row;
+}
+
+const toSnapshot = (row: mysql.RowDataPacket): TransactionSnapshot => ({
+  particulars: row.particulars,
+  amount: Number(row.amount) || 0,
+  type: row.type,
+  date: row.date,
+  moneyAccountId: row.money_account_id || null,
+  moneyAccount: row.money_account || null,
+  categoryId: row.expense_category_id || null,
+  category: row.category || null,
+  payee: row.payee || null,
+  paymentMode: row.payment_mode || null,
+  taxAmount: Number(row.tax_amount) || 0,
+  receiptNumber: row.receipt_number || null,
+});
+
+async function logChange(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  row: mysql.RowDataPacket,
+  changeType: TransactionChangeType,
+  reason: string,
+  reversalTransactionId: number | null = null
+): Promise<void> {
+  await connection.query(
+    `INSERT INTO transaction_audit_log
+      (user_id, account_transaction_id, change_type, reason, snapshot, reversal_transaction_id)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [userId, row.id, changeType, reason.trim(), JSON.stringify(toSnapshot(row)), reversalTransactionId]
+  );
+}
+
+// A bank line reconciled to the entry no longer agrees with it
+async function releaseStatementLine(
+  connection: mysql.PoolConnection,
+  transactionId: number
+): Promise<void> {
+  await connection.query(
+    `UPDATE bank_statement_lines
+     SET status = 'unmatched', account_transaction_id = NULL, match_score = NULL,
+         reconciled_at = NULL
+     WHERE account_transaction_id = ?`,
+    [transactionId]
+  );
+}
+
+// A reversed due payment was never collected, so the due owes it again
+async function reopenDue(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  row: mysql.RowDataPacket
+): Promise<void> {
+  const [dues] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, amount_paid, receipt_number FROM due_records
+     WHERE id = ? AND user_id = ?
+     FOR UPDATE`,
+    [row.due_record_id, userId]
+  );
+  const due = dues[0];
+  if (!due) return;
+
+  const amount = Math.min(Number(row.amount) || 0, Number(due.amount_paid) || 0);
+  await connection.query(
+    `UPDATE due_records
+     SET amount_paid = amount_paid - ?, is_paid = FALSE, paid_at = NULL
+     WHERE id = ?`,
+    [amount, due.id]
+  );
+  if (due.receipt_number) {
+    await connection.query(
+      `UPDATE receipts SET due_total = due_total + ?
+       WHERE receipt_number = ? AND user_id = ?`,
+      [amount, due.receipt_number, userId]
+    );
+  }
+  await refreshDueBalance(connection, userId);
+}
+
+/**
+ * Rewrite a manual entry inside the caller's transaction, moving its old
+ * effect out of account_balances and the new one in, and repost its journal.
+ */
+export async function updateManualTransaction(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  transactionId: number,
+  input: TransactionInput,
+  reason: string
+): Promise<void> {
+  const row = await lockTransaction(connection, userId, transactionId, "edit");
+  const taxAmount = input.type === "debit" ? input.taxAmount ?? 0 : 0;
+
+  await connection.query(
+    `UPDATE account_transactions
+     SET particulars = ?, amount = ?, type = ?, expense_category_id = ?, payee = ?,
+         payment_mode = ?, tax_amount = ?, money_account_id = ?, transaction_date = ?
+     WHERE id = ?`,
+    [
+      input.particulars.trim(),
+      input.amount,
+      input.type,
+      input.categoryId ?? null,
+      input.payee?.trim() || null,
+      input.paymentMode ?? null,
+      taxAmount,
+      input.moneyAccountId,
+      input.transactionDate,
+      transactionId,
+    ]
+  );
+
+  await adjustAccountBalance(
+    connection,
+    userId,
+    row.type,
+    -(Number(row.amount) || 0),
+    -(Number(row.tax_amount) || 0)
+  );
+  await adjustAccountBalance(connection, userId, input.type, input.amount, taxAmount);
+  await postTransactionJournal(connection, userId, transactionId);
+
+  if (
+    Number(row.amount) !== input.amount ||
+    row.type !== input.type ||
+    row.money_account_id !== input.moneyAccountId
+  ) {
+    await releaseStatementLine(connection, transactionId);
+  }
+  await logChange(connection, userId, row, "edit", reason);
+}
+
+// Its journal entry goes with it. Returns what was deleted.
+export async function deleteManualTransaction(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  transactionId: number,
+  reason: string
+): Promise<{ amount: number; kind: "credit" | "debit" }> {
+  const row = await lockTransaction(connection, userId, transactionId, "delete");
+
+  await releaseStatementLine(connection, transactionId);
+  await connection.query(`DELETE FROM account_transactions WHERE id = ?`, [transactionId]);
+  await adjustAccountBalance(
+    connection,
+    userId,
+    row.type,
+    -(Number(row.amount) || 0),
+    -(Number(row.tax_amount) || 0)
+  );
+  await logChange(connection, userId, row, "delete", reason);
+
+  return { amount: Number(row.amount) || 0, kind: row.type };
+}
+
+/**
+ * Cancel an entry posted by a receipt, due or credit note with an equal and
+ * opposite one dated today, e.g. for a bounced cheque. The original stays
+ * in the books and the reversal, which keeps its receipt, due and credit
+ * note links, posts the mirror of its journal. Reversing a due payment
+ * reopens the due for the amount, and reversing a late fee collection
+ * reopens the charges it settled.
+ */
+export async function reverseTransaction(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  transactionId: number,
+  reason: string
+): Promise<TransactionReversal> {
+  const row = await lockTransaction(connection, userId, transactionId, "reverse");
+  const amount = Number(row.amount) || 0;
+  const kind = row.type === "credit" ? "debit" : "credit";
+
+  // The journal the reversal mirrors must be current
+  await postTransactionJournal(connection, userId, transactionId);
+
+  const [result] = await connection.query<mysql.ResultSetHeader>(
+    `INSERT INTO account_transactions
+      (particulars, amount, type, user_id, money_account_id, receipt_id,
+       due_record_id, credit_note_id, reverses_transaction_id, transaction_date)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CURDATE())`,
+    [
+      `Reversal: ${row.particulars}`,
+      amount,
+      kind,
+      userId,
+      row.money_account_id,
+      row.receipt_id,
+      row.due_record_id,
+      row.credit_note_id,
+      transactionId,
+    ]
+  );
+  // The reversal carries no tax of its own, so take back what the
+  // reversed payment added to the tax collected
+  if (row.type === "credit") {
+    await adjustAccountBalance(connection, userId, "credit", 0, -(Number(row.tax_amount) || 0));
+  }
+  await postTransactionJournal(connection, userId, result.insertId);
+
+  if (row.is_late_fee) {
+    await reopenDueCharges(connection, transactionId);
+  } else if (row.due_record_id && row.type === "credit") {
+    await reopenDue(connection, userId, row);
+  }
+  await releaseStatementLine(connection, transactionId);
+  await logChange(connection, userId, row, "reverse", reason, result.insertId);
+
+  return { reversalId: result.insertId, amount, kind };
+}
+
+/**
+ * Take a voided receipt's entries, and those of its dues, out of the books.
+ * Payments and refunds are reversed; bad-debt write-offs never moved money,
+ * so they are deleted instead. Either way the change is logged with the
+ * void reason. Returns the reversals posted.
+ */
+export async function reverseReceiptTransactions(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  receipt: mysql.RowDataPacket,
+  reason: string
+): Promise<TransactionReversal[]> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT t.id, t.is_non_cash
+     FROM account_transactions t
+     LEFT JOIN due_records d ON t.due_record_id = d.id
+     WHERE t.user_id = ?
+     AND (t.receipt_id = ? OR d.receipt_number = ?)
+     AND t.reverses_transaction_id IS NULL
+     AND NOT EXISTS (
+       SELECT 1 FROM account_transactions rv WHERE rv.reverses_transaction_id = t.id
+     )
+     ORDER BY t.id ASC`,
+    [userId, receipt.id, receipt.receipt_number]
+  );
+
+  const reversals: TransactionReversal[] = [];
+  for (const { id, is_non_cash } of rows) {
+    if (!is_non_cash) {
+      reversals.push(await reverseTransaction(connection, userId, id, reason));
+      continue;
+    }
+    const row = await selectTransactionForUpdate(connection, userId, id);
+    await connection.query(`DELETE FROM account_transactions WHERE id = ?`, [id]);
+    await logChange(connection, userId, row, "delete", reason);
+  }
+  return reversals;
+}
+
+export async function loadTransactionAuditLog(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  transactionId?: number
+): Promise<TransactionAuditEntry[]> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT id, account_transaction_id, change_type, reason, snapshot,
+            reversal_transaction_id, created_at
+     FROM transaction_audit_log
+     WHERE user_id = ? ${transactionId ? "AND account_transaction_id = ?" : ""}
+     ORDER BY created_at DESC, id DESC
+     LIMIT 200`,
+    transactionId ? [userId, transactionId] : [userId]
+  );
+
+  return rows.map((row) => ({
+    id: row.id,
+    transactionId: row.account_transaction_id,
+    changeType: row.change_type,
+    reason: row.reason,
+    snapshot: typeof row.snapshot === "string" ? JSON.parse(row.snapshot) : row.snapshot,
+    reversalTransactionId: row.reversal_transaction_id || null,
+    createdAt: row.created_at,
+  }));
+}
@@ -0,0 +1,107 @@
+// lib/write-offs.ts
+import mysql from "mysql2/promise";
+import { roundCurrency } from "@/lib/receipt-totals";
+import { toCsv } from "@/lib/csv";
+
+export interface WriteOffItem {
+  dueRecordId: number;
+  customerId: number | null;
+  customerName: string;
+  receiptNumber: string | null;
+  installmentNumber: number;
+  installmentCount: number;
+  expectedPaymentDate: string;
+  writtenOffOn: string;
+  reason: string;
+  amount: number;
+}
+
+export interface WriteOffPeriod {
+  // yyyy-MM
+  month: string;
+  count: number;
+  total: number;
+}
+
+export interface WriteOffReport {
+  from: string;
+  to: string;
+  periods: WriteOffPeriod[];
+  items: WriteOffItem[];
+  total: number;
+}
+
+/**
+ * Dues written off as bad debt between `from` and `to`, newest first, with
+ * a subtotal for each month. The amount is the bad-debt expense posted when
+ * the due was written off.
+ */
+export async function buildWriteOffReport(
+  connection: mysql.PoolConnection,
+  userId: string | number,
+  from: string,
+  to: string
+): Promise<WriteOffReport> {
+  const [rows] = await connection.query<mysql.RowDataPacket[]>(
+    `SELECT
+      d.id, d.customer_id, d.receipt_number, d.installment_number, d.installment_count,
+      d.status_reason, d.amount_due - d.amount_paid AS amount,
+      DATE_FORMAT(d.expected_payment_date, '%Y-%m-%d') AS expected_payment_date,
+      DATE_FORMAT(d.status_date, '%Y-%m-%d') AS written_off_on,
+      COALESCE(c.name, d.customer_name) AS customer_name
+     FROM due_records d
+     LEFT JOIN customers c ON d.customer_id = c.id
+     WHERE d.user_id = ? AND d.status = 'written_off'
+     AND d.status_date BETWEEN ? AND ?
+     ORDER BY d.status_date DESC, d.id DESC`,
+    [userId, from, to]
+  );
+
+  const items: WriteOffItem[] = rows.map((row) => ({
+    dueRecordId: row.id,
+    customerId: row.customer_id || null,
+    customerName: row.customer_name,
+    receiptNumber: row.receipt_number || null,
+    installmentNumber: Number(row.installment_number) || 1,
+    installmentCount: Number(row.installment_count) || 1,
+    expectedPaymentDate: row.expected_payment_date,
+    writtenOffOn: row.written_off_on,
+    reason: row.status_reason || "",
+    amount: roundCurrency(Number(row.amount) || 0),
+  }));
+
+  const periods = new Map<string, WriteOffPeriod>();
+  for (const item of items) {
+    const month = item.writtenOffOn.slice(0, 7);
+    const period = periods.get(month) || { month, count: 0, total: 0 };
+    period.count++;
+    period.total = roundCurrency(period.total + item.amount);
+    periods.set(month, period);
+  }
+
+  return {
+    from,
+    to,
+    periods: [...periods.values()],
+    items,
+    total: roundCurrency(items.reduce((sum, item) => sum + item.amount, 0)),
+  };
+}
+
+export function writeOffReportToCsv(report: WriteOffReport): string {
+  return toCsv(
+    ["Written Off On", "Customer", "Receipt Number", "Installment", "Due Date", "Reason", "Amount"],
+    [
+      ...report.items.map((item) => [
+        item.writtenOffOn,
+        item.customerName,
+        item.receiptNumber || "",
+        item.installmentCount > 1 ? `${item.installmentNumber} of ${item.installmentCount}` : "",
+        item.expectedPaymentDate,
+        item.reason,
+        item.amount.toFixed(2),
+      ]),
+      ["Total", "", "", "", "", "", report.total.toFixed(2)],
+    ]
+  );
+}